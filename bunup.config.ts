@@ -1,6 +1,9 @@
 import { defineConfig } from 'bunup'
 
 export default defineConfig({
+	// The mock server ships separately so bots don't bundle test code
+	entry: ['src/index.ts', 'src/testing/index.ts'],
+
 	// Externalize Zod to avoid bundling it (it's a dependency)
 	packages: 'external',
 
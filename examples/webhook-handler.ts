@@ -5,7 +5,12 @@
  * for receiving and processing Telegram updates.
  */
 
-import { TelegramBot, type Update, UpdateSchema } from '../src'
+import {
+	createWebhookHandler as createFetchWebhookHandler,
+	TelegramBot,
+	type Update,
+	UpdateSchema,
+} from '../src'
 
 // Initialize bot
 const bot = new TelegramBot({
@@ -246,12 +251,11 @@ async function handleCallbackQuery(update: Update) {
 		text: responseText,
 	})
 
-	// Optional: Answer the callback query to remove the loading state
-	// Note: This requires implementing answerCallbackQuery in the TelegramBot class
-	// await bot.answerCallbackQuery({
-	//   callback_query_id: query.id,
-	//   text: 'Procesado ✓'
-	// })
+	// Answer the callback query to remove the loading state
+	await bot.answerCallbackQuery({
+		callback_query_id: query.id,
+		text: 'Procesado ✓',
+	})
 }
 
 /**
@@ -326,4 +330,23 @@ app.listen(3000, () => {
 })
 */
 
+/**
+ * Fetch-standard webhook endpoint example (Bun, Deno, Cloudflare Workers)
+ * The secret token check, body parsing and validation are handled by the library
+ */
+export const handleWebhookRequest = createFetchWebhookHandler({
+	secretToken: process.env.TELEGRAM_SECRET_TOKEN,
+	onUpdate: handleUpdate,
+	onError: (error, update) => {
+		console.error(`Error handling update ${update.update_id}:`, error)
+	},
+})
+
+/*
+Bun.serve({
+	port: 3000,
+	fetch: handleWebhookRequest,
+})
+*/
+
 export { bot }
@@ -0,0 +1,568 @@
+/**
+ * Bot API Code Generator
+ *
+ * Reads the machine-readable Bot API description in `spec/bot-api.json` and
+ * writes `src/client/generated.ts`: Zod schemas for every object, parameter
+ * types for every method and a `TelegramBotMethods` base class that
+ * `TelegramBot` extends.
+ *
+ * The spec follows the format of the community `api.json` scraped from
+ * https://core.telegram.org/bots/api, so a newer copy can be dropped in. The
+ * checked-in spec covers all of Bot API 9.2. Objects and methods already
+ * written by hand are imported or skipped.
+ *
+ * @example
+ * ```sh
+ * bun run generate
+ * ```
+ */
+
+import { join } from 'node:path'
+
+/**
+ * Field of a Bot API object or method
+ */
+export interface ApiField {
+	name: string
+	types: string[]
+	required: boolean
+	description: string
+}
+
+/**
+ * Bot API method description
+ */
+export interface ApiMethod {
+	name: string
+	href: string
+	description: string[]
+	returns: string[]
+	fields?: ApiField[]
+}
+
+/**
+ * Bot API object description. Objects with `subtypes` are unions of them
+ */
+export interface ApiType {
+	name: string
+	href: string
+	description: string[]
+	fields?: ApiField[]
+	subtypes?: string[]
+	subtype_of?: string[]
+}
+
+/**
+ * Machine-readable Bot API description
+ */
+export interface ApiSpec {
+	version: string
+	release_date: string
+	changelog?: string
+	methods: Record<string, ApiMethod>
+	types: Record<string, ApiType>
+}
+
+/**
+ * Objects written by hand, imported instead of generated
+ */
+interface HandwrittenType {
+	/**
+	 * Module exporting the object, relative to the generated file
+	 */
+	module: string
+
+	/**
+	 * Exported type name, when it differs from the Bot API name
+	 */
+	type?: string
+
+	/**
+	 * Whether the module exports a `<type>Schema` for the object
+	 */
+	schema: boolean
+}
+
+const ROOT = join(import.meta.dir, '..')
+
+/**
+ * Location of the Bot API description
+ */
+export const SPEC_PATH = 'spec/bot-api.json'
+
+/**
+ * Location of the generated module
+ */
+export const OUTPUT_PATH = 'src/client/generated.ts'
+
+const HANDWRITTEN_TYPES: Record<string, HandwrittenType> = {
+	Animation: { module: '../webhooks/schemas', schema: true },
+	Audio: { module: '../webhooks/schemas', schema: true },
+	BusinessConnection: { module: '../webhooks/schemas', schema: true },
+	BusinessMessagesDeleted: { module: '../webhooks/schemas', schema: true },
+	CallbackQuery: { module: '../webhooks/schemas', schema: true },
+	Chat: { module: '../webhooks/schemas', schema: true },
+	ChatBoost: { module: '../webhooks/schemas', schema: true },
+	ChatBoostAdded: { module: '../webhooks/schemas', schema: true },
+	ChatBoostRemoved: { module: '../webhooks/schemas', schema: true },
+	ChatBoostSource: { module: '../webhooks/schemas', schema: true },
+	ChatBoostUpdated: { module: '../webhooks/schemas', schema: true },
+	ChatInviteLink: { module: '../webhooks/schemas', schema: true },
+	ChatJoinRequest: { module: '../webhooks/schemas', schema: true },
+	ChatMember: { module: '../webhooks/schemas', schema: true },
+	ChatMemberAdministrator: { module: '../webhooks/schemas', schema: true },
+	ChatMemberBanned: { module: '../webhooks/schemas', schema: true },
+	ChatMemberLeft: { module: '../webhooks/schemas', schema: true },
+	ChatMemberMember: { module: '../webhooks/schemas', schema: true },
+	ChatMemberOwner: { module: '../webhooks/schemas', schema: true },
+	ChatMemberRestricted: { module: '../webhooks/schemas', schema: true },
+	ChatMemberUpdated: { module: '../webhooks/schemas', schema: true },
+	ChatShared: { module: '../webhooks/schemas', schema: true },
+	ChosenInlineResult: { module: '../webhooks/schemas', schema: true },
+	Contact: { module: '../webhooks/schemas', schema: true },
+	Dice: { module: '../webhooks/schemas', schema: true },
+	Document: { module: '../webhooks/schemas', schema: true },
+	ExternalReplyInfo: { module: '../webhooks/schemas', schema: true },
+	File: { module: './files', type: 'TelegramFile', schema: true },
+	ForceReply: { module: './keyboards', schema: true },
+	ForumTopicClosed: { module: '../webhooks/schemas', schema: true },
+	ForumTopicCreated: { module: '../webhooks/schemas', schema: true },
+	ForumTopicEdited: { module: '../webhooks/schemas', schema: true },
+	ForumTopicReopened: { module: '../webhooks/schemas', schema: true },
+	Game: { module: '../webhooks/schemas', schema: true },
+	GeneralForumTopicHidden: { module: '../webhooks/schemas', schema: true },
+	GeneralForumTopicUnhidden: { module: '../webhooks/schemas', schema: true },
+	Giveaway: { module: '../webhooks/schemas', schema: true },
+	GiveawayCompleted: { module: '../webhooks/schemas', schema: true },
+	GiveawayCreated: { module: '../webhooks/schemas', schema: true },
+	GiveawayWinners: { module: '../webhooks/schemas', schema: true },
+	InlineKeyboardButton: { module: './keyboards', schema: true },
+	InlineKeyboardMarkup: { module: './keyboards', schema: true },
+	InlineQuery: { module: '../webhooks/schemas', schema: true },
+	InputFile: { module: './input-media', schema: true },
+	InputMedia: { module: './input-media', schema: false },
+	InputMediaAnimation: { module: './input-media', schema: false },
+	InputMediaAudio: { module: './input-media', schema: false },
+	InputMediaDocument: { module: './input-media', schema: false },
+	InputMediaPhoto: { module: './input-media', schema: false },
+	InputMediaVideo: { module: './input-media', schema: false },
+	Invoice: { module: '../webhooks/schemas', schema: true },
+	KeyboardButton: { module: './keyboards', schema: true },
+	LinkPreviewOptions: { module: '../webhooks/schemas', schema: true },
+	Location: { module: '../webhooks/schemas', schema: true },
+	Message: { module: '../webhooks/schemas', schema: true },
+	MessageAutoDeleteTimerChanged: {
+		module: '../webhooks/schemas',
+		schema: true,
+	},
+	MessageEntity: { module: '../webhooks/schemas', schema: true },
+	MessageOrigin: { module: '../webhooks/schemas', schema: true },
+	MessageReactionCountUpdated: { module: '../webhooks/schemas', schema: true },
+	MessageReactionUpdated: { module: '../webhooks/schemas', schema: true },
+	OrderInfo: { module: '../webhooks/schemas', schema: true },
+	PaidMedia: { module: '../webhooks/schemas', schema: true },
+	PaidMediaInfo: { module: '../webhooks/schemas', schema: true },
+	PaidMediaPurchased: { module: '../webhooks/schemas', schema: true },
+	PhotoSize: { module: '../webhooks/schemas', schema: true },
+	Poll: { module: '../webhooks/schemas', schema: true },
+	PollAnswer: { module: '../webhooks/schemas', schema: true },
+	PollOption: { module: '../webhooks/schemas', schema: true },
+	PreCheckoutQuery: { module: '../webhooks/schemas', schema: true },
+	ReactionCount: { module: '../webhooks/schemas', schema: true },
+	ReactionType: { module: '../webhooks/schemas', schema: true },
+	RefundedPayment: { module: '../webhooks/schemas', schema: true },
+	ReplyKeyboardMarkup: { module: './keyboards', schema: true },
+	ReplyKeyboardRemove: { module: './keyboards', schema: true },
+	ResponseParameters: { module: './config', schema: false },
+	SharedUser: { module: '../webhooks/schemas', schema: true },
+	ShippingAddress: { module: '../webhooks/schemas', schema: true },
+	ShippingQuery: { module: '../webhooks/schemas', schema: true },
+	Sticker: { module: '../webhooks/schemas', schema: true },
+	Story: { module: '../webhooks/schemas', schema: true },
+	SuccessfulPayment: { module: '../webhooks/schemas', schema: true },
+	TextQuote: { module: '../webhooks/schemas', schema: true },
+	Update: { module: '../webhooks/schemas', schema: true },
+	User: { module: '../webhooks/schemas', schema: true },
+	UsersShared: { module: '../webhooks/schemas', schema: true },
+	Venue: { module: '../webhooks/schemas', schema: true },
+	Video: { module: '../webhooks/schemas', schema: true },
+	VideoChatEnded: { module: '../webhooks/schemas', schema: true },
+	VideoChatParticipantsInvited: { module: '../webhooks/schemas', schema: true },
+	VideoChatScheduled: { module: '../webhooks/schemas', schema: true },
+	VideoChatStarted: { module: '../webhooks/schemas', schema: true },
+	VideoNote: { module: '../webhooks/schemas', schema: true },
+	Voice: { module: '../webhooks/schemas', schema: true },
+	WebAppData: { module: '../webhooks/schemas', schema: true },
+	WebhookInfo: { module: './index', schema: true },
+	WriteAccessAllowed: { module: '../webhooks/schemas', schema: true },
+}
+
+/**
+ * Methods implemented by hand in `TelegramBot`, with richer signatures
+ */
+const HANDWRITTEN_METHODS = new Set([
+	'answerCallbackQuery',
+	'deleteMessage',
+	'deleteWebhook',
+	'editMessageCaption',
+	'editMessageMedia',
+	'editMessageReplyMarkup',
+	'editMessageText',
+	'getFile',
+	'getUpdates',
+	'getWebhookInfo',
+	'sendAnimation',
+	'sendAudio',
+	'sendDocument',
+	'sendMediaGroup',
+	'sendMessage',
+	'sendPhoto',
+	'sendSticker',
+	'sendVideo',
+	'sendVideoNote',
+	'sendVoice',
+	'setWebhook',
+])
+
+const PRIMITIVES: Record<string, { ts: string; zod: string }> = {
+	Integer: { ts: 'number', zod: 'z.number().int()' },
+	Float: { ts: 'number', zod: 'z.number()' },
+	String: { ts: 'string', zod: 'z.string()' },
+	Boolean: { ts: 'boolean', zod: 'z.boolean()' },
+	True: { ts: 'true', zod: 'z.literal(true)' },
+}
+
+const ARRAY_PREFIX = 'Array of '
+
+/**
+ * Collects the imports needed by the generated module
+ */
+class Imports {
+	private readonly modules = new Map<string, Map<string, boolean>>()
+
+	add(module: string, name: string, typeOnly: boolean): void {
+		const names = this.modules.get(module) ?? new Map<string, boolean>()
+		names.set(name, (names.get(name) ?? true) && typeOnly)
+		this.modules.set(module, names)
+	}
+
+	render(): string {
+		return [...this.modules]
+			.map(([module, names]) => {
+				const specifiers = [...names].map(([name, typeOnly]) =>
+					typeOnly ? `type ${name}` : name,
+				)
+				return `import { ${specifiers.join(', ')} } from '${module}'`
+			})
+			.join('\n')
+	}
+}
+
+/**
+ * Format text as a JSDoc comment at the given indentation
+ */
+function comment(lines: string[], indent = ''): string {
+	const body = lines.map((line) =>
+		line ? `${indent} * ${line.replaceAll('*/', '*\\/')}` : `${indent} *`,
+	)
+	return [`${indent}/**`, ...body, `${indent} */`].join('\n')
+}
+
+/**
+ * Name of the parameters type of a method, e.g. `SendPollParams`
+ */
+function paramsTypeName(method: string): string {
+	return `${method[0]?.toUpperCase()}${method.slice(1)}Params`
+}
+
+/**
+ * Literal value of a discriminator field, e.g. "Scope type, must be default"
+ */
+function discriminatorValue(field: ApiField): string | undefined {
+	if (!field.required || field.types.join() !== 'String') return undefined
+	return /(?:must be|always) [“"]?([a-z_]+)[”"]?$/.exec(field.description)?.[1]
+}
+
+/**
+ * Generate the source of `src/client/generated.ts` from a Bot API description
+ *
+ * The source is not formatted; see `formatSource`.
+ *
+ * @param spec - Bot API description
+ * @returns TypeScript source of the generated module
+ * @throws {Error} If the spec references unknown types
+ */
+export function generateApi(spec: ApiSpec): string {
+	const imports = new Imports()
+	imports.add('zod', 'z', false)
+	imports.add('./index', 'RequestOptions', true)
+
+	const generated = new Map(
+		Object.values(spec.types)
+			.filter((type) => !(type.name in HANDWRITTEN_TYPES))
+			.map((type) => [type.name, type]),
+	)
+
+	function referenceType(name: string, asSchema: boolean): string {
+		const handwritten = HANDWRITTEN_TYPES[name]
+		if (handwritten) {
+			const type = handwritten.type ?? name
+			if (!asSchema) {
+				imports.add(handwritten.module, type, true)
+				return type
+			}
+			if (!handwritten.schema) {
+				throw new Error(`No schema available for ${name}`)
+			}
+			imports.add(handwritten.module, `${type}Schema`, false)
+			return `${type}Schema`
+		}
+		if (!generated.has(name)) {
+			throw new Error(`Unknown Bot API type: ${name}`)
+		}
+		return asSchema ? `${name}Schema` : name
+	}
+
+	function tsType(types: string[]): string {
+		return types
+			.map((type) => {
+				if (type.startsWith(ARRAY_PREFIX)) {
+					const item = tsType([type.slice(ARRAY_PREFIX.length)])
+					return item.includes(' | ') ? `Array<${item}>` : `${item}[]`
+				}
+				return PRIMITIVES[type]?.ts ?? referenceType(type, false)
+			})
+			.join(' | ')
+	}
+
+	/**
+	 * Objects and unions referenced by an object
+	 */
+	function references(type: ApiType): string[] {
+		return [
+			...(type.subtypes ?? []),
+			...(type.fields ?? []).flatMap((field) =>
+				field.types.map((name) => name.replaceAll(ARRAY_PREFIX, '')),
+			),
+		]
+	}
+
+	// Objects that other objects depend on must be declared first. Circular
+	// objects can't all be, so references to objects declared later are lazy
+	const ordered: ApiType[] = []
+	const visited = new Set<string>()
+	function visit(type: ApiType): void {
+		if (visited.has(type.name)) return
+		visited.add(type.name)
+		for (const name of references(type)) {
+			const dependency = generated.get(name)
+			if (dependency) visit(dependency)
+		}
+		ordered.push(type)
+	}
+	for (const type of generated.values()) visit(type)
+
+	const position = new Map(ordered.map((type, index) => [type.name, index]))
+
+	// Targets of lazy references need an explicit type, or TypeScript can't
+	// infer the schemas of the cycle
+	const lazy = new Set(
+		ordered.flatMap((type, index) =>
+			references(type).filter(
+				(name) => (position.get(name) ?? Number.NEGATIVE_INFINITY) >= index,
+			),
+		),
+	)
+
+	/**
+	 * Schema of an object referenced from the object at `from`, lazy if it is
+	 * declared later
+	 */
+	function referenceSchema(name: string, from?: number): string {
+		const index = position.get(name)
+		if (from === undefined || index === undefined || index < from) {
+			return referenceType(name, true)
+		}
+		return `z.lazy((): z.ZodType<${name}> => ${name}Schema)`
+	}
+
+	function zodType(types: string[], from?: number): string {
+		const schemas = types.map((type) => {
+			if (type.startsWith(ARRAY_PREFIX)) {
+				return `z.array(${zodType([type.slice(ARRAY_PREFIX.length)], from)})`
+			}
+			return PRIMITIVES[type]?.zod ?? referenceSchema(type, from)
+		})
+		return schemas.length === 1
+			? (schemas[0] as string)
+			: `z.union([${schemas.join(', ')}])`
+	}
+
+	const objects = ordered.map((type, index) => {
+		const isSubtype = Boolean(type.subtype_of?.length)
+		const fields = (type.fields ?? []).map((field) => ({
+			field,
+			literal: isSubtype ? discriminatorValue(field) : undefined,
+		}))
+
+		let schema: string
+		if (type.subtypes?.length) {
+			schema = `z.union([${type.subtypes.map((name) => referenceSchema(name, index)).join(', ')}])`
+		} else {
+			const members = fields.map(({ field, literal }) => {
+				const base =
+					literal === undefined
+						? zodType(field.types, index)
+						: `z.literal(${JSON.stringify(literal)})`
+				const optional = field.required ? '' : '.optional()'
+				return `${field.name}: ${base}${optional}.describe(${JSON.stringify(field.description)}),`
+			})
+			schema = `z.object({\n${members.join('\n')}\n})`
+		}
+
+		if (lazy.has(type.name)) {
+			let declaration: string
+			if (type.subtypes?.length) {
+				declaration = `export type ${type.name} = ${tsType(type.subtypes)}`
+			} else {
+				const properties = fields.map(({ field, literal }) =>
+					[
+						comment([field.description], '\t'),
+						`\t${field.name}${field.required ? '' : '?'}: ${literal === undefined ? tsType(field.types) : JSON.stringify(literal)}`,
+					].join('\n'),
+				)
+				declaration = `export interface ${type.name} {\n${properties.join('\n\n')}\n}`
+			}
+			return [
+				comment(type.description),
+				declaration,
+				'',
+				`export const ${type.name}Schema: z.ZodType<${type.name}> = ${schema}`,
+			].join('\n')
+		}
+		return [
+			comment(type.description),
+			`export const ${type.name}Schema = ${schema}`,
+			'',
+			`export type ${type.name} = z.infer<typeof ${type.name}Schema>`,
+		].join('\n')
+	})
+
+	const methods = Object.values(spec.methods).filter(
+		(method) => !HANDWRITTEN_METHODS.has(method.name),
+	)
+
+	const params = methods
+		.filter((method) => method.fields?.length)
+		.map((method) => {
+			const fields = (method.fields ?? []).map((field) =>
+				[
+					comment([field.description], '\t'),
+					`\t${field.name}${field.required ? '' : '?'}: ${tsType(field.types)}`,
+				].join('\n'),
+			)
+			return [
+				comment([`${method.name} method parameters`]),
+				`export interface ${paramsTypeName(method.name)} extends Record<string, unknown> {`,
+				fields.join('\n\n'),
+				'}',
+			].join('\n')
+		})
+
+	const members = methods.map((method) => {
+		const fields = method.fields ?? []
+		// Telegram returns True on success, typed as boolean like the handwritten methods
+		const returnsTrue = method.returns.join() === 'True'
+		const resultType = returnsTrue ? 'boolean' : tsType(method.returns)
+		const resultSchema = returnsTrue ? 'z.boolean()' : zodType(method.returns)
+
+		const signature: string[] = []
+		const docs = [...method.description, '']
+		if (fields.length) {
+			const optional = fields.every((field) => !field.required)
+			signature.push(
+				`params: ${paramsTypeName(method.name)}${optional ? ' = {}' : ''},`,
+			)
+			docs.push('@param params - Method parameters')
+		}
+		signature.push('options: RequestOptions = {},')
+		docs.push(
+			'@param options - Request options, such as an abort signal or a queue priority',
+			`@returns Promise with the result, \`${resultType}\``,
+			`@see ${method.href}`,
+		)
+
+		return [
+			comment(docs, '\t'),
+			`\tasync ${method.name}(${signature.join(' ')}): Promise<${resultType}> {`,
+			`\t\treturn await this.request<${resultType}>('${method.name}', ${fields.length ? 'params' : 'undefined'}, { ...options, schema: ${resultSchema} })`,
+			'\t}',
+		].join('\n')
+	})
+
+	const base = [
+		comment([
+			'Bot API methods generated from the spec. `TelegramBot` extends this',
+			'class and provides `request`',
+		]),
+		'export abstract class TelegramBotMethods {',
+		comment(
+			[
+				'Call a Bot API method, checking the result against `schema` when',
+				'`validateResponses` is enabled',
+			],
+			'\t',
+		),
+		'\tprotected abstract request<T>(method: string, params?: Record<string, unknown>, options?: RequestOptions & { schema?: z.ZodType }): Promise<T>',
+		'',
+		members.join('\n\n'),
+		'}',
+	].join('\n')
+
+	const header = comment([
+		'Telegram Bot API Methods',
+		'',
+		`Generated from ${SPEC_PATH} (${spec.version}) by scripts/generate-api.ts.`,
+		'Do not edit by hand: update the spec and run `bun run generate`',
+	])
+
+	return `${[header, imports.render(), ...objects, ...params, base].join('\n\n')}\n`
+}
+
+/**
+ * Format generated source with the repository's Biome configuration
+ *
+ * @param source - Unformatted TypeScript source
+ * @returns The source as `biome check --write` would leave it
+ * @throws {Error} If Biome reports a problem it cannot fix
+ */
+export function formatSource(source: string): string {
+	const result = Bun.spawnSync(
+		[
+			join(ROOT, 'node_modules/.bin/biome'),
+			'check',
+			'--write',
+			`--stdin-file-path=${OUTPUT_PATH}`,
+		],
+		{ cwd: ROOT, stdin: new TextEncoder().encode(source) },
+	)
+	if (!result.success) {
+		throw new Error(
+			`Biome failed to format the generated code:\n${result.stderr}`,
+		)
+	}
+	return result.stdout.toString()
+}
+
+/**
+ * Read the spec and generate the formatted source of the generated module
+ */
+export async function generateFromSpec(): Promise<string> {
+	const spec = (await Bun.file(join(ROOT, SPEC_PATH)).json()) as ApiSpec
+	return formatSource(generateApi(spec))
+}
+
+if (import.meta.main) {
+	await Bun.write(join(ROOT, OUTPUT_PATH), await generateFromSpec())
+	console.log(`Generated ${OUTPUT_PATH}`)
+}
@@ -0,0 +1,235 @@
+/**
+ * Telegram Bot API Callback Data
+ *
+ * Typed encoding and decoding of `callback_data` for inline keyboard buttons
+ */
+
+import type { z } from 'zod'
+import type { CallbackQuery } from '../webhooks/schemas'
+import { TelegramError } from './errors'
+
+/**
+ * Maximum size of callback data accepted by Telegram, in bytes
+ */
+export const MAX_CALLBACK_DATA_BYTES = 64
+
+/**
+ * Separator between the prefix and the encoded values
+ */
+const SEPARATOR = ':'
+
+/**
+ * Error thrown when callback data cannot be encoded or decoded
+ */
+export class CallbackDataError extends TelegramError {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options)
+		this.name = 'CallbackDataError'
+	}
+}
+
+/**
+ * Result of safely decoding callback data
+ */
+export type CallbackDataResult<T> =
+	| { success: true; data: T }
+	| { success: false; error: CallbackDataError }
+
+/**
+ * Typed codec for the callback data of one action
+ */
+export interface CallbackDataCodec<S extends z.ZodObject> {
+	/**
+	 * Prefix identifying the action
+	 */
+	readonly prefix: string
+
+	/**
+	 * Regular expression matching data produced by this codec,
+	 * usable as a `Router.callbackQuery` trigger
+	 */
+	readonly pattern: RegExp
+
+	/**
+	 * Encode values into callback data
+	 * @throws {CallbackDataError} If the values are invalid or the result exceeds 64 bytes
+	 */
+	pack(values: z.input<S>): string
+
+	/**
+	 * Decode callback data into typed values
+	 * @throws {CallbackDataError} If the data was not produced by this codec or fails validation
+	 */
+	unpack(data: string | CallbackQuery): z.output<S>
+
+	/**
+	 * Decode callback data without throwing
+	 */
+	safeUnpack(data: string | CallbackQuery): CallbackDataResult<z.output<S>>
+
+	/**
+	 * Check whether callback data was produced by this codec
+	 */
+	matches(data: string | CallbackQuery | undefined): boolean
+}
+
+/**
+ * Get the size of a string in UTF-8 bytes
+ */
+export function getByteLength(value: string): number {
+	return new TextEncoder().encode(value).length
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Create a typed codec for the callback data of one action
+ *
+ * Values are encoded in the order of the schema keys as a compact JSON list
+ * after the prefix, so `{ vehicleId: 3, itemId: 'tires' }` becomes
+ * `check_item:3,"tires"`. The UTF-8 size of the result is checked when packing,
+ * so an oversized button fails while building the keyboard rather than when
+ * Telegram rejects the message.
+ *
+ * @param prefix - Unique identifier of the action, without `:`
+ * @param schema - Zod object schema describing the values
+ * @returns A codec to pack and unpack the callback data
+ *
+ * @example
+ * ```typescript
+ * const vehicleData = createCallbackData(
+ *   'vehicle',
+ *   z.object({ id: z.number().int() }),
+ * )
+ *
+ * await bot.sendMessage({
+ *   chat_id: chatId,
+ *   text: 'Pick a vehicle',
+ *   reply_markup: {
+ *     inline_keyboard: [[
+ *       { text: 'TEST - 001', callback_data: vehicleData.pack({ id: 1 }) },
+ *     ]],
+ *   },
+ * })
+ *
+ * router.callbackQuery(vehicleData.pattern, async (ctx) => {
+ *   const { id } = vehicleData.unpack(ctx.update.callback_query)
+ * })
+ * ```
+ */
+export function createCallbackData<S extends z.ZodObject>(
+	prefix: string,
+	schema: S,
+): CallbackDataCodec<S> {
+	if (!prefix || prefix.includes(SEPARATOR)) {
+		throw new CallbackDataError(
+			`Invalid callback data prefix "${prefix}": it must be non-empty and cannot contain "${SEPARATOR}"`,
+		)
+	}
+
+	const keys = Object.keys(schema.shape)
+	const pattern = new RegExp(`^${escapeRegExp(prefix)}(?:${SEPARATOR}|$)`)
+
+	const getData = (data: string | CallbackQuery): string | undefined =>
+		typeof data === 'string' ? data : data.data
+
+	const safeUnpack = (
+		input: string | CallbackQuery,
+	): CallbackDataResult<z.output<S>> => {
+		const data = getData(input)
+		if (data === undefined) {
+			return {
+				success: false,
+				error: new CallbackDataError('Callback query has no data'),
+			}
+		}
+		if (!pattern.test(data)) {
+			return {
+				success: false,
+				error: new CallbackDataError(
+					`Callback data "${data}" does not belong to "${prefix}"`,
+				),
+			}
+		}
+
+		const encoded = data.slice(prefix.length + SEPARATOR.length)
+		let values: unknown[]
+		try {
+			values = encoded ? JSON.parse(`[${encoded}]`) : []
+		} catch (error) {
+			return {
+				success: false,
+				error: new CallbackDataError(`Malformed callback data "${data}"`, {
+					cause: error,
+				}),
+			}
+		}
+
+		const object: Record<string, unknown> = {}
+		keys.forEach((key, index) => {
+			const value = values[index]
+			// Missing optional values are encoded as null
+			object[key] =
+				value === null && !schema.shape[key]?.safeParse(null).success
+					? undefined
+					: value
+		})
+
+		const result = schema.safeParse(object)
+		if (!result.success) {
+			return {
+				success: false,
+				error: new CallbackDataError(
+					`Invalid callback data "${data}" for "${prefix}": ${result.error.message}`,
+					{ cause: result.error },
+				),
+			}
+		}
+		return { success: true, data: result.data }
+	}
+
+	return {
+		prefix,
+		pattern,
+
+		pack(values) {
+			const result = schema.safeParse(values)
+			if (!result.success) {
+				throw new CallbackDataError(
+					`Invalid values for callback data "${prefix}": ${result.error.message}`,
+					{ cause: result.error },
+				)
+			}
+
+			const output = result.data as Record<string, unknown>
+			const encoded = JSON.stringify(
+				keys.map((key) => output[key] ?? null),
+			).slice(1, -1)
+			const data = encoded ? `${prefix}${SEPARATOR}${encoded}` : prefix
+
+			const size = getByteLength(data)
+			if (size > MAX_CALLBACK_DATA_BYTES) {
+				throw new CallbackDataError(
+					`Callback data "${data}" is ${size} bytes, exceeding the ${MAX_CALLBACK_DATA_BYTES} byte limit`,
+				)
+			}
+			return data
+		},
+
+		unpack(data) {
+			const result = safeUnpack(data)
+			if (!result.success) throw result.error
+			return result.data
+		},
+
+		safeUnpack,
+
+		matches(data) {
+			if (data === undefined) return false
+			const value = getData(data)
+			return value !== undefined && pattern.test(value)
+		},
+	}
+}
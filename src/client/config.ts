@@ -6,6 +6,123 @@
 
 import { z } from 'zod'
 
+import type { RateLimiterClock } from './rate-limiter'
+import type { Transport } from './transport'
+
+export { TelegramAPIError } from './errors'
+
+/**
+ * Retry Policy Schema
+ *
+ * Controls how failed requests are retried. Rate limit (429) responses, server
+ * errors (5xx) and network failures are retried; other 4xx errors never are.
+ */
+export const RetryPolicySchema = z.object({
+	/**
+	 * Maximum number of attempts per request, including the first one.
+	 * Set to 1 to disable retries
+	 * @default 1
+	 */
+	maxAttempts: z.number().int().positive().default(1),
+
+	/**
+	 * Base delay in milliseconds for exponential backoff
+	 * @default 500
+	 */
+	baseDelay: z.number().int().nonnegative().default(500),
+
+	/**
+	 * Maximum delay in milliseconds between attempts when backing off
+	 * @default 30000 (30 seconds)
+	 */
+	maxDelay: z.number().int().nonnegative().default(30000),
+
+	/**
+	 * Randomize backoff delays to avoid retrying in lockstep with other clients
+	 * @default true
+	 */
+	jitter: z.boolean().default(true),
+
+	/**
+	 * Wait for the `retry_after` interval returned by Telegram on 429 responses
+	 * @default true
+	 */
+	respectRetryAfter: z.boolean().default(true),
+
+	/**
+	 * Largest `retry_after` interval in seconds the client will wait for.
+	 * Longer flood waits are thrown to the caller instead
+	 * @default 60
+	 */
+	maxRetryAfter: z.number().int().nonnegative().default(60),
+})
+
+/**
+ * Retry Policy Type
+ */
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>
+
+/**
+ * Rate Limit Schema
+ *
+ * Controls the outbound scheduler that queues requests to stay under
+ * Telegram's broadcast limits. Only requests targeting a `chat_id` are limited.
+ */
+export const RateLimitSchema = z.object({
+	/**
+	 * Queue requests instead of sending them immediately
+	 * @default false
+	 */
+	enabled: z.boolean().default(false),
+
+	/**
+	 * Maximum number of requests per second across all chats
+	 * @default 30
+	 */
+	globalPerSecond: z.number().positive().default(30),
+
+	/**
+	 * Maximum number of requests per second to a single chat, including
+	 * groups and channels
+	 * @default 1
+	 */
+	perChatPerSecond: z.number().positive().default(1),
+
+	/**
+	 * Maximum number of requests per minute to a single group or channel
+	 * @default 20
+	 */
+	perGroupPerMinute: z.number().positive().default(20),
+
+	/**
+	 * Number of requests a group or channel may receive back to back before
+	 * the per-minute pace applies
+	 * @default 3
+	 */
+	perGroupBurst: z.number().int().positive().default(3),
+
+	/**
+	 * Source of time and timers, replaced in tests
+	 * @default The system clock
+	 */
+	clock: z
+		.custom<RateLimiterClock>(
+			(value) =>
+				typeof value === 'object' &&
+				value !== null &&
+				typeof (value as RateLimiterClock).now === 'function' &&
+				typeof (value as RateLimiterClock).setTimeout === 'function' &&
+				typeof (value as RateLimiterClock).clearTimeout === 'function',
+			'Clock must have now, setTimeout and clearTimeout methods',
+		)
+		.optional(),
+})
+
+/**
+ * Rate Limit Type
+ */
+export type RateLimit = z.infer<typeof RateLimitSchema>
+
 /**
  * Telegram Bot API Configuration Schema
  */
@@ -27,6 +144,41 @@ export const TelegramConfigSchema = z.object({
 	 * @default 30000 (30 seconds)
 	 */
 	timeout: z.number().int().positive().default(30000),
+
+	/**
+	 * Retry policy for failed requests
+	 * @default { maxAttempts: 1 } (retries disabled)
+	 */
+	retry: RetryPolicySchema.prefault({}),
+
+	/**
+	 * Outbound rate limiting for requests sent to chats
+	 * @default { enabled: false }
+	 */
+	rateLimit: RateLimitSchema.prefault({}),
+
+	/**
+	 * Check API results against their schemas and throw a
+	 * `ResponseValidationError` on mismatch. Useful to catch API drift in
+	 * staging; the results are returned unchanged
+	 * @default false
+	 */
+	validateResponses: z.boolean().default(false),
+
+	/**
+	 * Transport sending the API requests, such as a `RecordReplayTransport`
+	 * in tests
+	 * @default fetchTransport
+	 */
+	transport: z
+		.custom<Transport>(
+			(value) =>
+				typeof value === 'object' &&
+				value !== null &&
+				typeof (value as Transport).send === 'function',
+			'Transport must have a send method',
+		)
+		.optional(),
 })
 
 /**
@@ -34,6 +186,21 @@ export const TelegramConfigSchema = z.object({
  */
 export type TelegramConfig = z.infer<typeof TelegramConfigSchema>
 
+/**
+ * Describes why a request was unsuccessful
+ */
+export interface ResponseParameters {
+	/**
+	 * The group has been migrated to a supergroup with the specified identifier
+	 */
+	migrate_to_chat_id?: number
+
+	/**
+	 * In case of exceeding flood control, the number of seconds left to wait before the request can be repeated
+	 */
+	retry_after?: number
+}
+
 /**
  * Telegram Bot API Error Response
  */
@@ -41,6 +208,7 @@ export interface TelegramErrorResponse {
 	ok: false
 	error_code: number
 	description: string
+	parameters?: ResponseParameters
 }
 
 /**
@@ -57,16 +225,3 @@ export interface TelegramSuccessResponse<T = unknown> {
 export type TelegramResponse<T = unknown> =
 	| TelegramSuccessResponse<T>
 	| TelegramErrorResponse
-
-/**
- * Custom error class for Telegram API errors
- */
-export class TelegramAPIError extends Error {
-	constructor(
-		public errorCode: number,
-		public description: string,
-	) {
-		super(`Telegram API Error ${errorCode}: ${description}`)
-		this.name = 'TelegramAPIError'
-	}
-}
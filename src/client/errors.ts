@@ -0,0 +1,250 @@
+/**
+ * Telegram Bot API Errors
+ *
+ * Error classes thrown by the Telegram Bot API client. API failures are
+ * mapped to specific subclasses of `TelegramAPIError` based on the error code,
+ * the response `parameters` and the error description.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await bot.sendMessage({ chat_id: userId, text: 'News!' })
+ * } catch (error) {
+ *   if (error instanceof BotBlockedError) {
+ *     await unsubscribe(userId)
+ *   } else if (error instanceof FloodWaitError) {
+ *     await sleep(error.retryAfter * 1000)
+ *   } else {
+ *     throw error
+ *   }
+ * }
+ * ```
+ */
+
+import { z } from 'zod'
+import type { ResponseParameters } from './config'
+
+/**
+ * Base class for every error thrown by the Telegram Bot API client and its
+ * helpers
+ */
+export class TelegramError extends Error {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options)
+		this.name = 'TelegramError'
+	}
+}
+
+/**
+ * Custom error class for Telegram API errors
+ */
+export class TelegramAPIError extends TelegramError {
+	constructor(
+		public errorCode: number,
+		public description: string,
+		public parameters?: ResponseParameters,
+	) {
+		super(`Telegram API Error ${errorCode}: ${description}`)
+		this.name = 'TelegramAPIError'
+	}
+}
+
+/**
+ * The request was malformed or rejected by Telegram (400)
+ */
+export class BadRequestError extends TelegramAPIError {
+	constructor(description: string, parameters?: ResponseParameters) {
+		super(400, description, parameters)
+		this.name = 'BadRequestError'
+	}
+}
+
+/**
+ * An edit request did not change the message content or reply markup (400)
+ */
+export class MessageNotModifiedError extends BadRequestError {
+	constructor(description: string, parameters?: ResponseParameters) {
+		super(description, parameters)
+		this.name = 'MessageNotModifiedError'
+	}
+}
+
+/**
+ * The group has been migrated to a supergroup (400)
+ * Repeat the request using `migrateToChatId` as the chat_id
+ */
+export class ChatMigratedError extends BadRequestError {
+	/**
+	 * Identifier of the supergroup the group was migrated to
+	 */
+	public readonly migrateToChatId: number
+
+	constructor(
+		description: string,
+		parameters: ResponseParameters & { migrate_to_chat_id: number },
+	) {
+		super(description, parameters)
+		this.name = 'ChatMigratedError'
+		this.migrateToChatId = parameters.migrate_to_chat_id
+	}
+}
+
+/**
+ * The bot is not allowed to perform the request (403)
+ */
+export class ForbiddenError extends TelegramAPIError {
+	constructor(description: string, parameters?: ResponseParameters) {
+		super(403, description, parameters)
+		this.name = 'ForbiddenError'
+	}
+}
+
+/**
+ * The user blocked the bot, so it can no longer message them (403)
+ */
+export class BotBlockedError extends ForbiddenError {
+	constructor(description: string, parameters?: ResponseParameters) {
+		super(description, parameters)
+		this.name = 'BotBlockedError'
+	}
+}
+
+/**
+ * Flood control was exceeded (429)
+ * The request can be repeated after `retryAfter` seconds
+ */
+export class FloodWaitError extends TelegramAPIError {
+	/**
+	 * Number of seconds left to wait before the request can be repeated
+	 */
+	public readonly retryAfter: number
+
+	constructor(
+		description: string,
+		parameters: ResponseParameters & { retry_after: number },
+	) {
+		super(429, description, parameters)
+		this.name = 'FloodWaitError'
+		this.retryAfter = parameters.retry_after
+	}
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class TimeoutError extends TelegramError {
+	constructor(public readonly timeout: number) {
+		super(`Request timeout after ${timeout}ms`)
+		this.name = 'TimeoutError'
+	}
+}
+
+/**
+ * The request failed before a valid response was received from Telegram
+ */
+export class NetworkError extends TelegramError {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options)
+		this.name = 'NetworkError'
+	}
+}
+
+/**
+ * A successful response did not match the expected schema. Only thrown
+ * when `validateResponses` is enabled
+ */
+export class ResponseValidationError extends TelegramError {
+	/**
+	 * Problems found in the result, with their paths
+	 */
+	public readonly issues: z.core.$ZodIssue[]
+
+	constructor(
+		public readonly method: string,
+		error: z.ZodError,
+	) {
+		super(`Unexpected result from ${method}:\n${z.prettifyError(error)}`, {
+			cause: error,
+		})
+		this.name = 'ResponseValidationError'
+		this.issues = error.issues
+	}
+}
+
+/**
+ * A replayed request has no matching recorded interaction. Only thrown
+ * by a `RecordReplayTransport` in replay mode
+ */
+export class ReplayMismatchError extends TelegramError {
+	constructor(
+		public readonly method: string,
+		public readonly params: Record<string, unknown>,
+		message: string,
+	) {
+		super(message)
+		this.name = 'ReplayMismatchError'
+	}
+}
+
+/**
+ * A fixture of a `RecordReplayTransport` could not be read, parsed or
+ * written. The underlying error is kept as the cause
+ */
+export class FixtureError extends TelegramError {
+	constructor(
+		public readonly fixture: string,
+		message: string,
+		options?: ErrorOptions,
+	) {
+		super(message, options)
+		this.name = 'FixtureError'
+	}
+}
+
+/**
+ * Create the most specific error for a failed API response
+ *
+ * @param errorCode - Error code returned by Telegram
+ * @param description - Human-readable error description
+ * @param parameters - Optional response parameters
+ * @returns A `TelegramAPIError` or one of its subclasses
+ */
+export function createTelegramAPIError(
+	errorCode: number,
+	description: string,
+	parameters?: ResponseParameters,
+): TelegramAPIError {
+	const normalized = description.toLowerCase()
+
+	switch (errorCode) {
+		case 400:
+			if (parameters?.migrate_to_chat_id !== undefined) {
+				return new ChatMigratedError(description, {
+					...parameters,
+					migrate_to_chat_id: parameters.migrate_to_chat_id,
+				})
+			}
+			if (normalized.includes('message is not modified')) {
+				return new MessageNotModifiedError(description, parameters)
+			}
+			return new BadRequestError(description, parameters)
+
+		case 403:
+			if (normalized.includes('bot was blocked by the user')) {
+				return new BotBlockedError(description, parameters)
+			}
+			return new ForbiddenError(description, parameters)
+
+		case 429:
+			if (parameters?.retry_after !== undefined) {
+				return new FloodWaitError(description, {
+					...parameters,
+					retry_after: parameters.retry_after,
+				})
+			}
+			return new TelegramAPIError(errorCode, description, parameters)
+
+		default:
+			return new TelegramAPIError(errorCode, description, parameters)
+	}
+}
@@ -0,0 +1,131 @@
+/**
+ * Telegram Bot API Files
+ *
+ * Types for files stored on the Telegram servers and helpers to choose
+ * which photo size to download
+ */
+
+import { z } from 'zod'
+import type { PhotoSize } from '../webhooks/schemas'
+
+/**
+ * A file ready to be downloaded, as returned by getFile
+ */
+export const TelegramFileSchema = z.object({
+	file_id: z
+		.string()
+		.describe(
+			'Identifier for this file, which can be used to download or reuse the file',
+		),
+	file_unique_id: z
+		.string()
+		.describe(
+			'Unique identifier for this file, which is supposed to be the same over time and for different bots',
+		),
+	file_size: z.number().int().optional().describe('File size in bytes'),
+	file_path: z
+		.string()
+		.optional()
+		.describe(
+			'File path. Use it to download the file. The link is valid for at least 1 hour',
+		),
+})
+
+export type TelegramFile = z.infer<typeof TelegramFileSchema>
+
+/**
+ * GetFile method parameters
+ */
+export interface GetFileParams extends Record<string, unknown> {
+	/**
+	 * File identifier to get information about
+	 */
+	file_id: string
+}
+
+/**
+ * Constraints used to pick a photo size
+ */
+export interface PhotoSizeConstraints {
+	/**
+	 * Maximum width in pixels
+	 */
+	maxWidth?: number
+
+	/**
+	 * Maximum height in pixels
+	 */
+	maxHeight?: number
+
+	/**
+	 * Maximum file size in bytes. Sizes without a known file size are assumed to fit
+	 */
+	maxFileSize?: number
+}
+
+const area = (photo: PhotoSize) => photo.width * photo.height
+
+/**
+ * Get the largest size of a photo
+ *
+ * @param photos - Available sizes, such as `Message.photo`
+ * @returns The size with the most pixels, or `undefined` for an empty list
+ *
+ * @example
+ * ```typescript
+ * const photo = getLargestPhotoSize(message.photo ?? [])
+ * if (photo) {
+ *   const data = await bot.downloadFile(photo)
+ * }
+ * ```
+ */
+export function getLargestPhotoSize(
+	photos: PhotoSize[],
+): PhotoSize | undefined {
+	let largest: PhotoSize | undefined
+	for (const photo of photos) {
+		if (!largest || area(photo) > area(largest)) {
+			largest = photo
+		}
+	}
+	return largest
+}
+
+/**
+ * Get the largest size of a photo that fits the given constraints
+ *
+ * @param photos - Available sizes, such as `Message.photo`
+ * @param constraints - Maximum dimensions and file size
+ * @returns The largest fitting size, the smallest size if none fits,
+ * or `undefined` for an empty list
+ *
+ * @example
+ * ```typescript
+ * // Thumbnail for a listing page
+ * const thumb = pickPhotoSize(message.photo ?? [], { maxWidth: 320 })
+ * ```
+ */
+export function pickPhotoSize(
+	photos: PhotoSize[],
+	constraints: PhotoSizeConstraints,
+): PhotoSize | undefined {
+	const { maxWidth, maxHeight, maxFileSize } = constraints
+	const fitting = photos.filter(
+		(photo) =>
+			(maxWidth === undefined || photo.width <= maxWidth) &&
+			(maxHeight === undefined || photo.height <= maxHeight) &&
+			(maxFileSize === undefined ||
+				photo.file_size === undefined ||
+				photo.file_size <= maxFileSize),
+	)
+
+	if (fitting.length > 0) return getLargestPhotoSize(fitting)
+
+	let smallest: PhotoSize | undefined
+	for (const photo of photos) {
+		if (!smallest || area(photo) < area(smallest)) {
+			smallest = photo
+		}
+	}
+	return smallest
+}
@@ -0,0 +1,10646 @@
+/**
+ * Telegram Bot API Methods
+ *
+ * Generated from spec/bot-api.json (Bot API 9.2) by scripts/generate-api.ts.
+ * Do not edit by hand: update the spec and run `bun run generate`
+ */
+
+import { z } from 'zod'
+import {
+	type BusinessConnection,
+	BusinessConnectionSchema,
+	ChatBoostSchema,
+	type ChatInviteLink,
+	ChatInviteLinkSchema,
+	type ChatMember,
+	ChatMemberSchema,
+	ChatSchema,
+	DocumentSchema,
+	LinkPreviewOptionsSchema,
+	LocationSchema,
+	type Message,
+	type MessageEntity,
+	MessageEntitySchema,
+	MessageSchema,
+	PaidMediaSchema,
+	PhotoSizeSchema,
+	type Poll,
+	PollSchema,
+	type ReactionType,
+	ReactionTypeSchema,
+	type Sticker,
+	StickerSchema,
+	type Story,
+	StorySchema,
+	type User,
+	UserSchema,
+	VideoSchema,
+} from '../webhooks/schemas'
+import { type TelegramFile, TelegramFileSchema } from './files'
+import type { RequestOptions } from './index'
+import { type InputFile, InputFileSchema } from './input-media'
+import {
+	type ForceReply,
+	type InlineKeyboardMarkup,
+	InlineKeyboardMarkupSchema,
+	type ReplyKeyboardMarkup,
+	type ReplyKeyboardRemove,
+} from './keyboards'
+
+/**
+ * This object represents a chat photo.
+ */
+export const ChatPhotoSchema = z.object({
+	small_file_id: z
+		.string()
+		.describe(
+			'File identifier of small (160x160) chat photo. This file_id can be used only for photo download and only for as long as the photo is not changed.',
+		),
+	small_file_unique_id: z
+		.string()
+		.describe(
+			"Unique file identifier of small (160x160) chat photo, which is supposed to be the same over time and for different bots. Can't be used to download or reuse the file.",
+		),
+	big_file_id: z
+		.string()
+		.describe(
+			'File identifier of big (640x640) chat photo. This file_id can be used only for photo download and only for as long as the photo is not changed.',
+		),
+	big_file_unique_id: z
+		.string()
+		.describe(
+			"Unique file identifier of big (640x640) chat photo, which is supposed to be the same over time and for different bots. Can't be used to download or reuse the file.",
+		),
+})
+
+export type ChatPhoto = z.infer<typeof ChatPhotoSchema>
+
+/**
+ * Describes the birthdate of a user.
+ */
+export const BirthdateSchema = z.object({
+	day: z.number().int().describe("Day of the user's birth; 1-31"),
+	month: z.number().int().describe("Month of the user's birth; 1-12"),
+	year: z.number().int().optional().describe("Year of the user's birth"),
+})
+
+export type Birthdate = z.infer<typeof BirthdateSchema>
+
+/**
+ * Contains information about the start page settings of a Telegram Business account.
+ */
+export const BusinessIntroSchema = z.object({
+	title: z.string().optional().describe('Title text of the business intro'),
+	message: z.string().optional().describe('Message text of the business intro'),
+	sticker: StickerSchema.optional().describe('Sticker of the business intro'),
+})
+
+export type BusinessIntro = z.infer<typeof BusinessIntroSchema>
+
+/**
+ * Contains information about the location of a Telegram Business account.
+ */
+export const BusinessLocationSchema = z.object({
+	address: z.string().describe('Address of the business'),
+	location: LocationSchema.optional().describe('Location of the business'),
+})
+
+export type BusinessLocation = z.infer<typeof BusinessLocationSchema>
+
+/**
+ * Describes an interval of time during which a business is open.
+ */
+export const BusinessOpeningHoursIntervalSchema = z.object({
+	opening_minute: z
+		.number()
+		.int()
+		.describe(
+			"The minute's sequence number in a week, starting on Monday, marking the start of the time interval during which the business is open; 0 - 7 * 24 * 60",
+		),
+	closing_minute: z
+		.number()
+		.int()
+		.describe(
+			"The minute's sequence number in a week, starting on Monday, marking the end of the time interval during which the business is open; 0 - 8 * 24 * 60",
+		),
+})
+
+export type BusinessOpeningHoursInterval = z.infer<
+	typeof BusinessOpeningHoursIntervalSchema
+>
+
+/**
+ * Describes the opening hours of a business.
+ */
+export const BusinessOpeningHoursSchema = z.object({
+	time_zone_name: z
+		.string()
+		.describe(
+			'Unique name of the time zone for which the opening hours are defined',
+		),
+	opening_hours: z
+		.array(BusinessOpeningHoursIntervalSchema)
+		.describe('List of time intervals describing business opening hours'),
+})
+
+export type BusinessOpeningHours = z.infer<typeof BusinessOpeningHoursSchema>
+
+/**
+ * Describes actions that a non-administrator user is allowed to take in a chat.
+ */
+export const ChatPermissionsSchema = z.object({
+	can_send_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the user is allowed to send text messages, contacts, giveaways, giveaway winners, invoices, locations and venues',
+		),
+	can_send_audios: z
+		.boolean()
+		.optional()
+		.describe('True, if the user is allowed to send audios'),
+	can_send_documents: z
+		.boolean()
+		.optional()
+		.describe('True, if the user is allowed to send documents'),
+	can_send_photos: z
+		.boolean()
+		.optional()
+		.describe('True, if the user is allowed to send photos'),
+	can_send_videos: z
+		.boolean()
+		.optional()
+		.describe('True, if the user is allowed to send videos'),
+	can_send_video_notes: z
+		.boolean()
+		.optional()
+		.describe('True, if the user is allowed to send video notes'),
+	can_send_voice_notes: z
+		.boolean()
+		.optional()
+		.describe('True, if the user is allowed to send voice notes'),
+	can_send_polls: z
+		.boolean()
+		.optional()
+		.describe('True, if the user is allowed to send polls and checklists'),
+	can_send_other_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the user is allowed to send animations, games, stickers and use inline bots',
+		),
+	can_add_web_page_previews: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the user is allowed to add web page previews to their messages',
+		),
+	can_change_info: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the user is allowed to change the chat title, photo and other settings. Ignored in public supergroups',
+		),
+	can_invite_users: z
+		.boolean()
+		.optional()
+		.describe('True, if the user is allowed to invite new users to the chat'),
+	can_pin_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the user is allowed to pin messages. Ignored in public supergroups',
+		),
+	can_manage_topics: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the user is allowed to create forum topics. If omitted defaults to the value of can_pin_messages',
+		),
+})
+
+export type ChatPermissions = z.infer<typeof ChatPermissionsSchema>
+
+/**
+ * This object describes the types of gifts that can be gifted to a user or a chat.
+ */
+export const AcceptedGiftTypesSchema = z.object({
+	unlimited_gifts: z
+		.boolean()
+		.describe('True, if unlimited regular gifts are accepted'),
+	limited_gifts: z
+		.boolean()
+		.describe('True, if limited regular gifts are accepted'),
+	unique_gifts: z
+		.boolean()
+		.describe(
+			'True, if unique gifts or gifts that can be upgraded to unique for free are accepted',
+		),
+	premium_subscription: z
+		.boolean()
+		.describe('True, if a Telegram Premium subscription is accepted'),
+})
+
+export type AcceptedGiftTypes = z.infer<typeof AcceptedGiftTypesSchema>
+
+/**
+ * Represents a location to which a chat is connected.
+ */
+export const ChatLocationSchema = z.object({
+	location: LocationSchema.describe(
+		"The location to which the supergroup is connected. Can't be a live location.",
+	),
+	address: z
+		.string()
+		.describe(
+			'Location address; 1-64 characters, as defined by the chat owner',
+		),
+})
+
+export type ChatLocation = z.infer<typeof ChatLocationSchema>
+
+/**
+ * This object contains full information about a chat.
+ */
+export const ChatFullInfoSchema = z.object({
+	id: z
+		.number()
+		.int()
+		.describe(
+			'Unique identifier for this chat. This number may have more than 32 significant bits and some programming languages may have difficulty/silent defects in interpreting it. But it has at most 52 significant bits, so a signed 64-bit integer or double-precision float type are safe for storing this identifier.',
+		),
+	type: z
+		.string()
+		.describe(
+			'Type of the chat, can be either “private”, “group”, “supergroup” or “channel”',
+		),
+	title: z
+		.string()
+		.optional()
+		.describe('Title, for supergroups, channels and group chats'),
+	username: z
+		.string()
+		.optional()
+		.describe(
+			'Username, for private chats, supergroups and channels if available',
+		),
+	first_name: z
+		.string()
+		.optional()
+		.describe('First name of the other party in a private chat'),
+	last_name: z
+		.string()
+		.optional()
+		.describe('Last name of the other party in a private chat'),
+	is_forum: z
+		.boolean()
+		.optional()
+		.describe('True, if the supergroup chat is a forum (has topics enabled)'),
+	is_direct_messages: z
+		.boolean()
+		.optional()
+		.describe('True, if the chat is the direct messages chat of a channel'),
+	accent_color_id: z
+		.number()
+		.int()
+		.describe(
+			'Identifier of the accent color for the chat name and backgrounds of the chat photo, reply header, and link preview. See accent colors for more details.',
+		),
+	max_reaction_count: z
+		.number()
+		.int()
+		.describe(
+			'The maximum number of reactions that can be set on a message in the chat',
+		),
+	photo: ChatPhotoSchema.optional().describe('Chat photo'),
+	active_usernames: z
+		.array(z.string())
+		.optional()
+		.describe(
+			'If non-empty, the list of all active chat usernames; for private chats, supergroups and channels',
+		),
+	birthdate: BirthdateSchema.optional().describe(
+		'For private chats, the date of birth of the user',
+	),
+	business_intro: BusinessIntroSchema.optional().describe(
+		'For private chats with business accounts, the intro of the business',
+	),
+	business_location: BusinessLocationSchema.optional().describe(
+		'For private chats with business accounts, the location of the business',
+	),
+	business_opening_hours: BusinessOpeningHoursSchema.optional().describe(
+		'For private chats with business accounts, the opening hours of the business',
+	),
+	personal_chat: ChatSchema.optional().describe(
+		'For private chats, the personal channel of the user',
+	),
+	parent_chat: ChatSchema.optional().describe(
+		'Information about the corresponding channel chat; for direct messages chats only',
+	),
+	available_reactions: z
+		.array(ReactionTypeSchema)
+		.optional()
+		.describe(
+			'List of available reactions allowed in the chat. If omitted, then all emoji reactions are allowed.',
+		),
+	background_custom_emoji_id: z
+		.string()
+		.optional()
+		.describe(
+			'Custom emoji identifier of the emoji chosen by the chat for the reply header and link preview background',
+		),
+	profile_accent_color_id: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			"Identifier of the accent color for the chat's profile background. See profile accent colors for more details.",
+		),
+	profile_background_custom_emoji_id: z
+		.string()
+		.optional()
+		.describe(
+			'Custom emoji identifier of the emoji chosen by the chat for its profile background',
+		),
+	emoji_status_custom_emoji_id: z
+		.string()
+		.optional()
+		.describe(
+			'Custom emoji identifier of the emoji status of the chat or the other party in a private chat',
+		),
+	emoji_status_expiration_date: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Expiration date of the emoji status of the chat or the other party in a private chat, in Unix time, if any',
+		),
+	bio: z
+		.string()
+		.optional()
+		.describe('Bio of the other party in a private chat'),
+	has_private_forwards: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if privacy settings of the other party in the private chat allows to use tg://user?id=<user_id> links only in chats with the user',
+		),
+	has_restricted_voice_and_video_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the privacy settings of the other party restrict sending voice and video note messages in the private chat',
+		),
+	join_to_send_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if users need to join the supergroup before they can send messages',
+		),
+	join_by_request: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if all users directly joining the supergroup without using an invite link need to be approved by supergroup administrators',
+		),
+	description: z
+		.string()
+		.optional()
+		.describe('Description, for groups, supergroups and channel chats'),
+	invite_link: z
+		.string()
+		.optional()
+		.describe('Primary invite link, for groups, supergroups and channel chats'),
+	pinned_message: MessageSchema.optional().describe(
+		'The most recent pinned message (by sending date)',
+	),
+	permissions: ChatPermissionsSchema.optional().describe(
+		'Default chat member permissions, for groups and supergroups',
+	),
+	accepted_gift_types: AcceptedGiftTypesSchema.describe(
+		'Information about types of gifts that are accepted by the chat or by the corresponding user for private chats',
+	),
+	can_send_paid_media: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if paid media messages can be sent or forwarded to the channel chat. The field is available only for channel chats.',
+		),
+	slow_mode_delay: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'For supergroups, the minimum allowed delay between consecutive messages sent by each unprivileged user; in seconds',
+		),
+	unrestrict_boost_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'For supergroups, the minimum number of boosts that a non-administrator user needs to add in order to ignore slow mode and chat permissions',
+		),
+	message_auto_delete_time: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The time after which all messages sent to the chat will be automatically deleted; in seconds',
+		),
+	has_aggressive_anti_spam_enabled: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if aggressive anti-spam checks are enabled in the supergroup. The field is only available to chat administrators.',
+		),
+	has_hidden_members: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if non-administrators can only get the list of bots and administrators in the chat',
+		),
+	has_protected_content: z
+		.boolean()
+		.optional()
+		.describe(
+			"True, if messages from the chat can't be forwarded to other chats",
+		),
+	has_visible_history: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if new chat members will have access to old messages; available only to chat administrators',
+		),
+	sticker_set_name: z
+		.string()
+		.optional()
+		.describe('For supergroups, name of the group sticker set'),
+	can_set_sticker_set: z
+		.boolean()
+		.optional()
+		.describe('True, if the bot can change the group sticker set'),
+	custom_emoji_sticker_set_name: z
+		.string()
+		.optional()
+		.describe(
+			"For supergroups, the name of the group's custom emoji sticker set. Custom emoji from this set can be used by all users and bots in the group.",
+		),
+	linked_chat_id: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Unique identifier for the linked chat, i.e. the discussion group identifier for a channel and vice versa; for supergroups and channel chats. This identifier may be greater than 32 bits and some programming languages may have difficulty/silent defects in interpreting it. But it is smaller than 52 bits, so a signed 64 bit integer or double-precision float type are safe for storing this identifier.',
+		),
+	location: ChatLocationSchema.optional().describe(
+		'For supergroups, the location to which the supergroup is connected',
+	),
+})
+
+export type ChatFullInfo = z.infer<typeof ChatFullInfoSchema>
+
+/**
+ * This object represents a unique message identifier.
+ */
+export const MessageIdSchema = z.object({
+	message_id: z
+		.number()
+		.int()
+		.describe(
+			'Unique message identifier. In specific instances (e.g., message containing a video sent to a big chat), the server might automatically schedule a message instead of sending it immediately. In such cases, this field will be 0 and the relevant message will be unusable until it is actually sent',
+		),
+})
+
+export type MessageId = z.infer<typeof MessageIdSchema>
+
+/**
+ * This object describes a message that was deleted or is otherwise inaccessible to the bot.
+ */
+export const InaccessibleMessageSchema = z.object({
+	chat: ChatSchema.describe('Chat the message belonged to'),
+	message_id: z
+		.number()
+		.int()
+		.describe('Unique message identifier inside the chat'),
+	date: z
+		.number()
+		.int()
+		.describe(
+			'Always 0. The field can be used to differentiate regular and inaccessible messages.',
+		),
+})
+
+export type InaccessibleMessage = z.infer<typeof InaccessibleMessageSchema>
+
+/**
+ * This object describes a message that can be inaccessible to the bot. It can be one of
+ */
+export const MaybeInaccessibleMessageSchema = z.union([
+	MessageSchema,
+	InaccessibleMessageSchema,
+])
+
+export type MaybeInaccessibleMessage = z.infer<
+	typeof MaybeInaccessibleMessageSchema
+>
+
+/**
+ * Describes reply parameters for the message that is being sent.
+ */
+export const ReplyParametersSchema = z.object({
+	message_id: z
+		.number()
+		.int()
+		.describe(
+			'Identifier of the message that will be replied to in the current chat, or in the chat chat_id if it is specified',
+		),
+	chat_id: z
+		.union([z.number().int(), z.string()])
+		.optional()
+		.describe(
+			'If the message to be replied to is from a different chat, unique identifier for the chat or username of the channel (in the format @channelusername). Not supported for messages sent on behalf of a business account and messages from channel direct messages chats.',
+		),
+	allow_sending_without_reply: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True if the message should be sent even if the specified message to be replied to is not found. Always False for replies in another chat or forum topic. Always True for messages sent on behalf of a business account.',
+		),
+	quote: z
+		.string()
+		.optional()
+		.describe(
+			"Quoted part of the message to be replied to; 0-1024 characters after entities parsing. The quote must be an exact substring of the message to be replied to, including bold, italic, underline, strikethrough, spoiler, and custom_emoji entities. The message will fail to send if the quote isn't found in the original message.",
+		),
+	quote_parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the quote. See formatting options for more details.',
+		),
+	quote_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'A JSON-serialized list of special entities that appear in the quote. It can be specified instead of quote_parse_mode.',
+		),
+	quote_position: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Position of the quote in the original message in UTF-16 code units',
+		),
+	checklist_task_id: z
+		.number()
+		.int()
+		.optional()
+		.describe('Identifier of the specific checklist task to be replied to'),
+})
+
+export type ReplyParameters = z.infer<typeof ReplyParametersSchema>
+
+/**
+ * The message was originally sent by a known user.
+ */
+export const MessageOriginUserSchema = z.object({
+	type: z.literal('user').describe('Type of the message origin, always “user”'),
+	date: z
+		.number()
+		.int()
+		.describe('Date the message was sent originally in Unix time'),
+	sender_user: UserSchema.describe('User that sent the message originally'),
+})
+
+export type MessageOriginUser = z.infer<typeof MessageOriginUserSchema>
+
+/**
+ * The message was originally sent by an unknown user.
+ */
+export const MessageOriginHiddenUserSchema = z.object({
+	type: z
+		.literal('hidden_user')
+		.describe('Type of the message origin, always “hidden_user”'),
+	date: z
+		.number()
+		.int()
+		.describe('Date the message was sent originally in Unix time'),
+	sender_user_name: z
+		.string()
+		.describe('Name of the user that sent the message originally'),
+})
+
+export type MessageOriginHiddenUser = z.infer<
+	typeof MessageOriginHiddenUserSchema
+>
+
+/**
+ * The message was originally sent on behalf of a chat to a group chat.
+ */
+export const MessageOriginChatSchema = z.object({
+	type: z.literal('chat').describe('Type of the message origin, always “chat”'),
+	date: z
+		.number()
+		.int()
+		.describe('Date the message was sent originally in Unix time'),
+	sender_chat: ChatSchema.describe('Chat that sent the message originally'),
+	author_signature: z
+		.string()
+		.optional()
+		.describe(
+			'For messages originally sent by an anonymous chat administrator, original message author signature',
+		),
+})
+
+export type MessageOriginChat = z.infer<typeof MessageOriginChatSchema>
+
+/**
+ * The message was originally sent to a channel chat.
+ */
+export const MessageOriginChannelSchema = z.object({
+	type: z
+		.literal('channel')
+		.describe('Type of the message origin, always “channel”'),
+	date: z
+		.number()
+		.int()
+		.describe('Date the message was sent originally in Unix time'),
+	chat: ChatSchema.describe(
+		'Channel chat to which the message was originally sent',
+	),
+	message_id: z
+		.number()
+		.int()
+		.describe('Unique message identifier inside the chat'),
+	author_signature: z
+		.string()
+		.optional()
+		.describe('Signature of the original post author'),
+})
+
+export type MessageOriginChannel = z.infer<typeof MessageOriginChannelSchema>
+
+/**
+ * The paid media isn't available before the payment.
+ */
+export const PaidMediaPreviewSchema = z.object({
+	type: z
+		.literal('preview')
+		.describe('Type of the paid media, always “preview”'),
+	width: z
+		.number()
+		.int()
+		.optional()
+		.describe('Media width as defined by the sender'),
+	height: z
+		.number()
+		.int()
+		.optional()
+		.describe('Media height as defined by the sender'),
+	duration: z
+		.number()
+		.int()
+		.optional()
+		.describe('Duration of the media in seconds as defined by the sender'),
+})
+
+export type PaidMediaPreview = z.infer<typeof PaidMediaPreviewSchema>
+
+/**
+ * The paid media is a photo.
+ */
+export const PaidMediaPhotoSchema = z.object({
+	type: z.literal('photo').describe('Type of the paid media, always “photo”'),
+	photo: z.array(PhotoSizeSchema).describe('The photo'),
+})
+
+export type PaidMediaPhoto = z.infer<typeof PaidMediaPhotoSchema>
+
+/**
+ * The paid media is a video.
+ */
+export const PaidMediaVideoSchema = z.object({
+	type: z.literal('video').describe('Type of the paid media, always “video”'),
+	video: VideoSchema.describe('The video'),
+})
+
+export type PaidMediaVideo = z.infer<typeof PaidMediaVideoSchema>
+
+/**
+ * This object contains information about one answer option in a poll to be sent.
+ */
+export const InputPollOptionSchema = z.object({
+	text: z.string().describe('Option text, 1-100 characters'),
+	text_parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the text. See formatting options for more details. Currently, only custom emoji entities are allowed',
+		),
+	text_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'A JSON-serialized list of special entities that appear in the poll option text. It can be specified instead of text_parse_mode',
+		),
+})
+
+export type InputPollOption = z.infer<typeof InputPollOptionSchema>
+
+/**
+ * Describes a task in a checklist.
+ */
+export const ChecklistTaskSchema = z.object({
+	id: z.number().int().describe('Unique identifier of the task'),
+	text: z.string().describe('Text of the task'),
+	text_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe('Special entities that appear in the task text'),
+	completed_by_user: UserSchema.optional().describe(
+		"User that completed the task; omitted if the task wasn't completed",
+	),
+	completion_date: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			"Point in time (Unix timestamp) when the task was completed; 0 if the task wasn't completed",
+		),
+})
+
+export type ChecklistTask = z.infer<typeof ChecklistTaskSchema>
+
+/**
+ * Describes a checklist.
+ */
+export const ChecklistSchema = z.object({
+	title: z.string().describe('Title of the checklist'),
+	title_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe('Special entities that appear in the checklist title'),
+	tasks: z
+		.array(ChecklistTaskSchema)
+		.describe('List of tasks in the checklist'),
+	others_can_add_tasks: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if users other than the creator of the list can add tasks to the list',
+		),
+	others_can_mark_tasks_as_done: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if users other than the creator of the list can mark tasks as done or not done',
+		),
+})
+
+export type Checklist = z.infer<typeof ChecklistSchema>
+
+/**
+ * Describes a task to add to a checklist.
+ */
+export const InputChecklistTaskSchema = z.object({
+	id: z
+		.number()
+		.int()
+		.describe(
+			'Unique identifier of the task; must be positive and unique among all task identifiers currently present in the checklist',
+		),
+	text: z
+		.string()
+		.describe('Text of the task; 1-100 characters after entities parsing'),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the text. See formatting options for more details.',
+		),
+	text_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the text, which can be specified instead of parse_mode. Currently, only bold, italic, underline, strikethrough, spoiler, and custom_emoji entities are allowed.',
+		),
+})
+
+export type InputChecklistTask = z.infer<typeof InputChecklistTaskSchema>
+
+/**
+ * Describes a checklist to create.
+ */
+export const InputChecklistSchema = z.object({
+	title: z
+		.string()
+		.describe(
+			'Title of the checklist; 1-255 characters after entities parsing',
+		),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the title. See formatting options for more details.',
+		),
+	title_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the title, which can be specified instead of parse_mode. Currently, only bold, italic, underline, strikethrough, spoiler, and custom_emoji entities are allowed.',
+		),
+	tasks: z
+		.array(InputChecklistTaskSchema)
+		.describe('List of 1-30 tasks in the checklist'),
+	others_can_add_tasks: z
+		.boolean()
+		.optional()
+		.describe('Pass True if other users can add tasks to the checklist'),
+	others_can_mark_tasks_as_done: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True if other users can mark tasks as done or not done in the checklist',
+		),
+})
+
+export type InputChecklist = z.infer<typeof InputChecklistSchema>
+
+/**
+ * Describes a service message about checklist tasks marked as done or not done.
+ */
+export const ChecklistTasksDoneSchema = z.object({
+	checklist_message: MessageSchema.optional().describe(
+		'Message containing the checklist whose tasks were marked as done or not done. Note that the Message object in this field will not contain the reply_to_message field even if it itself is a reply.',
+	),
+	marked_as_done_task_ids: z
+		.array(z.number().int())
+		.optional()
+		.describe('Identifiers of the tasks that were marked as done'),
+	marked_as_not_done_task_ids: z
+		.array(z.number().int())
+		.optional()
+		.describe('Identifiers of the tasks that were marked as not done'),
+})
+
+export type ChecklistTasksDone = z.infer<typeof ChecklistTasksDoneSchema>
+
+/**
+ * Describes a service message about tasks added to a checklist.
+ */
+export const ChecklistTasksAddedSchema = z.object({
+	checklist_message: MessageSchema.optional().describe(
+		'Message containing the checklist to which the tasks were added. Note that the Message object in this field will not contain the reply_to_message field even if it itself is a reply.',
+	),
+	tasks: z
+		.array(ChecklistTaskSchema)
+		.describe('List of tasks added to the checklist'),
+})
+
+export type ChecklistTasksAdded = z.infer<typeof ChecklistTasksAddedSchema>
+
+/**
+ * This object represents the content of a service message, sent whenever a user in the chat triggers a proximity alert set by another user.
+ */
+export const ProximityAlertTriggeredSchema = z.object({
+	traveler: UserSchema.describe('User that triggered the alert'),
+	watcher: UserSchema.describe('User that set the alert'),
+	distance: z.number().int().describe('The distance between the users'),
+})
+
+export type ProximityAlertTriggered = z.infer<
+	typeof ProximityAlertTriggeredSchema
+>
+
+/**
+ * The background is filled using the selected color.
+ */
+export const BackgroundFillSolidSchema = z.object({
+	type: z
+		.literal('solid')
+		.describe('Type of the background fill, always “solid”'),
+	color: z
+		.number()
+		.int()
+		.describe('The color of the background fill in the RGB24 format'),
+})
+
+export type BackgroundFillSolid = z.infer<typeof BackgroundFillSolidSchema>
+
+/**
+ * The background is a gradient fill.
+ */
+export const BackgroundFillGradientSchema = z.object({
+	type: z
+		.literal('gradient')
+		.describe('Type of the background fill, always “gradient”'),
+	top_color: z
+		.number()
+		.int()
+		.describe('Top color of the gradient in the RGB24 format'),
+	bottom_color: z
+		.number()
+		.int()
+		.describe('Bottom color of the gradient in the RGB24 format'),
+	rotation_angle: z
+		.number()
+		.describe(
+			'Clockwise rotation angle of the background fill in degrees; 0-359',
+		),
+})
+
+export type BackgroundFillGradient = z.infer<
+	typeof BackgroundFillGradientSchema
+>
+
+/**
+ * The background is a freeform gradient that rotates after every message in the chat.
+ */
+export const BackgroundFillFreeformGradientSchema = z.object({
+	type: z
+		.literal('freeform_gradient')
+		.describe('Type of the background fill, always “freeform_gradient”'),
+	colors: z
+		.array(z.number().int())
+		.describe(
+			'A list of the 3 or 4 base colors that are used to generate the freeform gradient in the RGB24 format',
+		),
+})
+
+export type BackgroundFillFreeformGradient = z.infer<
+	typeof BackgroundFillFreeformGradientSchema
+>
+
+/**
+ * This object describes the way a background is filled based on the selected colors. Currently, it can be one of
+ */
+export const BackgroundFillSchema = z.union([
+	BackgroundFillSolidSchema,
+	BackgroundFillGradientSchema,
+	BackgroundFillFreeformGradientSchema,
+])
+
+export type BackgroundFill = z.infer<typeof BackgroundFillSchema>
+
+/**
+ * The background is automatically filled based on the selected colors.
+ */
+export const BackgroundTypeFillSchema = z.object({
+	type: z.literal('fill').describe('Type of the background, always “fill”'),
+	fill: BackgroundFillSchema.describe('The background fill'),
+	dark_theme_dimming: z
+		.number()
+		.int()
+		.describe(
+			'Dimming of the background in dark themes, as a percentage; 0-100',
+		),
+})
+
+export type BackgroundTypeFill = z.infer<typeof BackgroundTypeFillSchema>
+
+/**
+ * The background is a wallpaper in the JPEG format.
+ */
+export const BackgroundTypeWallpaperSchema = z.object({
+	type: z
+		.literal('wallpaper')
+		.describe('Type of the background, always “wallpaper”'),
+	document: DocumentSchema.describe('Document with the wallpaper'),
+	dark_theme_dimming: z
+		.number()
+		.int()
+		.describe(
+			'Dimming of the background in dark themes, as a percentage; 0-100',
+		),
+	is_blurred: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the wallpaper is downscaled to fit in a 450x450 square and then box-blurred with radius 12',
+		),
+	is_moving: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the background moves slightly when the device is tilted',
+		),
+})
+
+export type BackgroundTypeWallpaper = z.infer<
+	typeof BackgroundTypeWallpaperSchema
+>
+
+/**
+ * The background is a .PNG or .TGV (gzipped subset of SVG with MIME type “application/x-tgwallpattern”) pattern to be combined with the background fill chosen by the user.
+ */
+export const BackgroundTypePatternSchema = z.object({
+	type: z
+		.literal('pattern')
+		.describe('Type of the background, always “pattern”'),
+	document: DocumentSchema.describe('Document with the pattern'),
+	fill: BackgroundFillSchema.describe(
+		'The background fill that is combined with the pattern',
+	),
+	intensity: z
+		.number()
+		.int()
+		.describe(
+			'Intensity of the pattern when it is shown above the filled background; 0-100',
+		),
+	is_inverted: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the background fill must be applied only to the pattern itself. All other pixels are black in this case. For dark themes only',
+		),
+	is_moving: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the background moves slightly when the device is tilted',
+		),
+})
+
+export type BackgroundTypePattern = z.infer<typeof BackgroundTypePatternSchema>
+
+/**
+ * The background is taken directly from a built-in chat theme.
+ */
+export const BackgroundTypeChatThemeSchema = z.object({
+	type: z
+		.literal('chat_theme')
+		.describe('Type of the background, always “chat_theme”'),
+	theme_name: z
+		.string()
+		.describe('Name of the chat theme, which is usually an emoji'),
+})
+
+export type BackgroundTypeChatTheme = z.infer<
+	typeof BackgroundTypeChatThemeSchema
+>
+
+/**
+ * This object describes the type of a background. Currently, it can be one of
+ */
+export const BackgroundTypeSchema = z.union([
+	BackgroundTypeFillSchema,
+	BackgroundTypeWallpaperSchema,
+	BackgroundTypePatternSchema,
+	BackgroundTypeChatThemeSchema,
+])
+
+export type BackgroundType = z.infer<typeof BackgroundTypeSchema>
+
+/**
+ * This object represents a chat background.
+ */
+export const ChatBackgroundSchema = z.object({
+	type: BackgroundTypeSchema.describe('Type of the background'),
+})
+
+export type ChatBackground = z.infer<typeof ChatBackgroundSchema>
+
+/**
+ * Describes a service message about a change in the price of paid messages within a chat.
+ */
+export const PaidMessagePriceChangedSchema = z.object({
+	paid_message_star_count: z
+		.number()
+		.int()
+		.describe(
+			'The new number of Telegram Stars that must be paid by non-administrator users of the supergroup chat for each sent message',
+		),
+})
+
+export type PaidMessagePriceChanged = z.infer<
+	typeof PaidMessagePriceChangedSchema
+>
+
+/**
+ * Describes a service message about a change in the price of direct messages sent to a channel chat.
+ */
+export const DirectMessagePriceChangedSchema = z.object({
+	are_direct_messages_enabled: z
+		.boolean()
+		.describe(
+			'True, if direct messages are enabled for the channel chat; false otherwise',
+		),
+	direct_message_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The new number of Telegram Stars that must be paid by users for each direct message sent to the channel. Does not apply to users who have been exempted by administrators. Defaults to 0.',
+		),
+})
+
+export type DirectMessagePriceChanged = z.infer<
+	typeof DirectMessagePriceChangedSchema
+>
+
+/**
+ * Describes the price of a suggested post.
+ */
+export const SuggestedPostPriceSchema = z.object({
+	currency: z
+		.string()
+		.describe(
+			'Currency in which the post will be paid. Currently, must be one of “XTR” for Telegram Stars or “TON” for toncoins',
+		),
+	amount: z
+		.number()
+		.int()
+		.describe(
+			'The amount of the currency that will be paid for the post in the smallest units of the currency, i.e. Telegram Stars or nanotoncoins. Currently, price in Telegram Stars must be between 5 and 100000, and price in nanotoncoins must be between 10000000 and 10000000000000.',
+		),
+})
+
+export type SuggestedPostPrice = z.infer<typeof SuggestedPostPriceSchema>
+
+/**
+ * Describes a service message about the approval of a suggested post.
+ */
+export const SuggestedPostApprovedSchema = z.object({
+	suggested_post_message: MessageSchema.optional().describe(
+		'Message containing the suggested post. Note that the Message object in this field will not contain the reply_to_message field even if it itself is a reply.',
+	),
+	price: SuggestedPostPriceSchema.optional().describe(
+		'Amount paid for the post',
+	),
+	send_date: z.number().int().describe('Date when the post will be published'),
+})
+
+export type SuggestedPostApproved = z.infer<typeof SuggestedPostApprovedSchema>
+
+/**
+ * Describes a service message about the failed approval of a suggested post. Currently, only caused by insufficient user funds at the time of approval.
+ */
+export const SuggestedPostApprovalFailedSchema = z.object({
+	suggested_post_message: MessageSchema.optional().describe(
+		'Message containing the suggested post whose approval has failed. Note that the Message object in this field will not contain the reply_to_message field even if it itself is a reply.',
+	),
+	price: SuggestedPostPriceSchema.describe('Expected price of the post'),
+})
+
+export type SuggestedPostApprovalFailed = z.infer<
+	typeof SuggestedPostApprovalFailedSchema
+>
+
+/**
+ * Describes a service message about the rejection of a suggested post.
+ */
+export const SuggestedPostDeclinedSchema = z.object({
+	suggested_post_message: MessageSchema.optional().describe(
+		'Message containing the suggested post. Note that the Message object in this field will not contain the reply_to_message field even if it itself is a reply.',
+	),
+	comment: z
+		.string()
+		.optional()
+		.describe('Comment with which the post was declined'),
+})
+
+export type SuggestedPostDeclined = z.infer<typeof SuggestedPostDeclinedSchema>
+
+/**
+ * Describes an amount of Telegram Stars.
+ */
+export const StarAmountSchema = z.object({
+	amount: z
+		.number()
+		.int()
+		.describe(
+			'Integer amount of Telegram Stars, rounded to 0; can be negative',
+		),
+	nanostar_amount: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of 1/1000000000 shares of Telegram Stars; from -999999999 to 999999999; can be negative if and only if amount is non-positive',
+		),
+})
+
+export type StarAmount = z.infer<typeof StarAmountSchema>
+
+/**
+ * Describes a service message about a successful payment for a suggested post.
+ */
+export const SuggestedPostPaidSchema = z.object({
+	suggested_post_message: MessageSchema.optional().describe(
+		'Message containing the suggested post. Note that the Message object in this field will not contain the reply_to_message field even if it itself is a reply.',
+	),
+	currency: z
+		.string()
+		.describe(
+			'Currency in which the payment was made. Currently, one of “XTR” for Telegram Stars or “TON” for toncoins',
+		),
+	amount: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The amount of the currency that was received by the channel in nanotoncoins; for payments in toncoins only',
+		),
+	star_amount: StarAmountSchema.optional().describe(
+		'The amount of Telegram Stars that was received by the channel; for payments in Telegram Stars only',
+	),
+})
+
+export type SuggestedPostPaid = z.infer<typeof SuggestedPostPaidSchema>
+
+/**
+ * Describes a service message about a payment refund for a suggested post.
+ */
+export const SuggestedPostRefundedSchema = z.object({
+	suggested_post_message: MessageSchema.optional().describe(
+		'Message containing the suggested post. Note that the Message object in this field will not contain the reply_to_message field even if it itself is a reply.',
+	),
+	reason: z
+		.string()
+		.describe(
+			'Reason for the refund. Currently, one of “post_deleted” if the post was deleted within 24 hours of being posted or removed from scheduled messages without being posted, or “payment_refunded” if the payer refunded their payment.',
+		),
+})
+
+export type SuggestedPostRefunded = z.infer<typeof SuggestedPostRefundedSchema>
+
+/**
+ * Contains information about a suggested post.
+ */
+export const SuggestedPostInfoSchema = z.object({
+	state: z
+		.string()
+		.describe(
+			'State of the suggested post. Currently, it can be one of “pending”, “approved”, “declined”.',
+		),
+	price: SuggestedPostPriceSchema.optional().describe(
+		'Proposed price of the post. If the field is omitted, then the post is unpaid.',
+	),
+	send_date: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Proposed send date of the post. If the field is omitted, then the post can be published at any time within 30 days at the sole discretion of the user or administrator who approves it.',
+		),
+})
+
+export type SuggestedPostInfo = z.infer<typeof SuggestedPostInfoSchema>
+
+/**
+ * Contains parameters of a post that is being suggested by the bot.
+ */
+export const SuggestedPostParametersSchema = z.object({
+	price: SuggestedPostPriceSchema.optional().describe(
+		'Proposed price for the post. If the field is omitted, then the post is unpaid.',
+	),
+	send_date: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Proposed send date of the post. If specified, then the date must be between 300 second and 2678400 seconds (30 days) in the future. If the field is omitted, then the post can be published at any time within 30 days at the sole discretion of the user who approves it.',
+		),
+})
+
+export type SuggestedPostParameters = z.infer<
+	typeof SuggestedPostParametersSchema
+>
+
+/**
+ * Describes a topic of a direct messages chat.
+ */
+export const DirectMessagesTopicSchema = z.object({
+	topic_id: z
+		.number()
+		.int()
+		.describe(
+			'Unique identifier of the topic. This number may have more than 32 significant bits and some programming languages may have difficulty/silent defects in interpreting it. But it has at most 52 significant bits, so a 64-bit integer or double-precision float type are safe for storing this identifier.',
+		),
+	user: UserSchema.optional().describe(
+		'Information about the user that created the topic. Currently, it is always present',
+	),
+})
+
+export type DirectMessagesTopic = z.infer<typeof DirectMessagesTopicSchema>
+
+/**
+ * This object represent a user's profile pictures.
+ */
+export const UserProfilePhotosSchema = z.object({
+	total_count: z
+		.number()
+		.int()
+		.describe('Total number of profile pictures the target user has'),
+	photos: z
+		.array(z.array(PhotoSizeSchema))
+		.describe('Requested profile pictures (in up to 4 sizes each)'),
+})
+
+export type UserProfilePhotos = z.infer<typeof UserProfilePhotosSchema>
+
+/**
+ * Describes a Web App.
+ */
+export const WebAppInfoSchema = z.object({
+	url: z
+		.string()
+		.describe(
+			'An HTTPS URL of a Web App to be opened with additional data as specified in Initializing Web Apps',
+		),
+})
+
+export type WebAppInfo = z.infer<typeof WebAppInfoSchema>
+
+/**
+ * This object defines the criteria used to request suitable users. Information about the selected users will be shared with the bot when the corresponding button is pressed. More about requesting users »
+ */
+export const KeyboardButtonRequestUsersSchema = z.object({
+	request_id: z
+		.number()
+		.int()
+		.describe(
+			'Signed 32-bit identifier of the request that will be received back in the UsersShared object. Must be unique within the message',
+		),
+	user_is_bot: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True to request bots, pass False to request regular users. If not specified, no additional restrictions are applied.',
+		),
+	user_is_premium: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True to request premium users, pass False to request non-premium users. If not specified, no additional restrictions are applied.',
+		),
+	max_quantity: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The maximum number of users to be selected; 1-10. Defaults to 1.',
+		),
+	request_name: z
+		.boolean()
+		.optional()
+		.describe("Pass True to request the users' first and last names"),
+	request_username: z
+		.boolean()
+		.optional()
+		.describe("Pass True to request the users' usernames"),
+	request_photo: z
+		.boolean()
+		.optional()
+		.describe("Pass True to request the users' photos"),
+})
+
+export type KeyboardButtonRequestUsers = z.infer<
+	typeof KeyboardButtonRequestUsersSchema
+>
+
+/**
+ * Represents the rights of an administrator in a chat.
+ */
+export const ChatAdministratorRightsSchema = z.object({
+	is_anonymous: z
+		.boolean()
+		.describe("True, if the user's presence in the chat is hidden"),
+	can_manage_chat: z
+		.boolean()
+		.describe(
+			'True, if the administrator can access the chat event log, get boost list, see hidden supergroup and channel members, report spam messages, ignore slow mode, and send messages to the chat without paying Telegram Stars. Implied by any other administrator privilege.',
+		),
+	can_delete_messages: z
+		.boolean()
+		.describe('True, if the administrator can delete messages of other users'),
+	can_manage_video_chats: z
+		.boolean()
+		.describe('True, if the administrator can manage video chats'),
+	can_restrict_members: z
+		.boolean()
+		.describe(
+			'True, if the administrator can restrict, ban or unban chat members, or access supergroup statistics',
+		),
+	can_promote_members: z
+		.boolean()
+		.describe(
+			'True, if the administrator can add new administrators with a subset of their own privileges or demote administrators that they have promoted, directly or indirectly (promoted by administrators that were appointed by the user)',
+		),
+	can_change_info: z
+		.boolean()
+		.describe(
+			'True, if the user is allowed to change the chat title, photo and other settings',
+		),
+	can_invite_users: z
+		.boolean()
+		.describe('True, if the user is allowed to invite new users to the chat'),
+	can_post_stories: z
+		.boolean()
+		.describe('True, if the administrator can post stories to the chat'),
+	can_edit_stories: z
+		.boolean()
+		.describe(
+			"True, if the administrator can edit stories posted by other users, post stories to the chat page, pin chat stories, and access the chat's story archive",
+		),
+	can_delete_stories: z
+		.boolean()
+		.describe(
+			'True, if the administrator can delete stories posted by other users',
+		),
+	can_post_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the administrator can post messages in the channel, approve suggested posts, or access channel statistics; for channels only',
+		),
+	can_edit_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the administrator can edit messages of other users and can pin messages; for channels only',
+		),
+	can_pin_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the user is allowed to pin messages; for groups and supergroups only',
+		),
+	can_manage_topics: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the user is allowed to create, rename, close, and reopen forum topics; for supergroups only',
+		),
+	can_manage_direct_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the administrator can manage direct messages of the channel and decline suggested posts; for channels only',
+		),
+})
+
+export type ChatAdministratorRights = z.infer<
+	typeof ChatAdministratorRightsSchema
+>
+
+/**
+ * This object defines the criteria used to request a suitable chat. Information about the selected chat will be shared with the bot when the corresponding button is pressed. The bot will be granted requested rights in the chat if appropriate. More about requesting chats ».
+ */
+export const KeyboardButtonRequestChatSchema = z.object({
+	request_id: z
+		.number()
+		.int()
+		.describe(
+			'Signed 32-bit identifier of the request, which will be received back in the ChatShared object. Must be unique within the message',
+		),
+	chat_is_channel: z
+		.boolean()
+		.describe(
+			'Pass True to request a channel chat, pass False to request a group or a supergroup chat.',
+		),
+	chat_is_forum: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True to request a forum supergroup, pass False to request a non-forum chat. If not specified, no additional restrictions are applied.',
+		),
+	chat_has_username: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True to request a supergroup or a channel with a username, pass False to request a chat without a username. If not specified, no additional restrictions are applied.',
+		),
+	chat_is_created: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True to request a chat owned by the user. Otherwise, no additional restrictions are applied.',
+		),
+	user_administrator_rights: ChatAdministratorRightsSchema.optional().describe(
+		'A JSON-serialized object listing the required administrator rights of the user in the chat. The rights must be a superset of bot_administrator_rights. If not specified, no additional restrictions are applied.',
+	),
+	bot_administrator_rights: ChatAdministratorRightsSchema.optional().describe(
+		'A JSON-serialized object listing the required administrator rights of the bot in the chat. The rights must be a subset of user_administrator_rights. If not specified, no additional restrictions are applied.',
+	),
+	bot_is_member: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True to request a chat with the bot as a member. Otherwise, no additional restrictions are applied.',
+		),
+	request_title: z
+		.boolean()
+		.optional()
+		.describe("Pass True to request the chat's title"),
+	request_username: z
+		.boolean()
+		.optional()
+		.describe("Pass True to request the chat's username"),
+	request_photo: z
+		.boolean()
+		.optional()
+		.describe("Pass True to request the chat's photo"),
+})
+
+export type KeyboardButtonRequestChat = z.infer<
+	typeof KeyboardButtonRequestChatSchema
+>
+
+/**
+ * This object represents type of a poll, which is allowed to be created and sent when the corresponding button is pressed.
+ */
+export const KeyboardButtonPollTypeSchema = z.object({
+	type: z
+		.string()
+		.optional()
+		.describe(
+			'If quiz is passed, the user will be allowed to create only polls in the quiz mode. If regular is passed, only regular polls will be allowed. Otherwise, the user will be allowed to create a poll of any type.',
+		),
+})
+
+export type KeyboardButtonPollType = z.infer<
+	typeof KeyboardButtonPollTypeSchema
+>
+
+/**
+ * This object represents a parameter of the inline keyboard button used to automatically authorize a user. Serves as a great replacement for the Telegram Login Widget when the user is coming from Telegram. All the user needs to do is tap/click a button and confirm that they want to log in:
+ * Telegram apps support these buttons as of version 5.7.
+ * Sample bot: @discussbot
+ */
+export const LoginUrlSchema = z.object({
+	url: z
+		.string()
+		.describe(
+			'An HTTPS URL to be opened with user authorization data added to the query string when the button is pressed. If the user refuses to provide authorization data, the original URL without information about the user will be opened. The data added is the same as described in Receiving authorization data.\n\nNOTE: You must always check the hash of the received data to verify the authentication and the integrity of the data as described in Checking authorization.',
+		),
+	forward_text: z
+		.string()
+		.optional()
+		.describe('New text of the button in forwarded messages.'),
+	bot_username: z
+		.string()
+		.optional()
+		.describe(
+			"Username of a bot, which will be used for user authorization. See Setting up a bot for more details. If not specified, the current bot's username will be assumed. The url's domain must be the same as the domain linked with the bot. See Linking your domain to the bot for more details.",
+		),
+	request_write_access: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True to request the permission for your bot to send messages to the user.',
+		),
+})
+
+export type LoginUrl = z.infer<typeof LoginUrlSchema>
+
+/**
+ * This object represents an inline button that switches the current user to inline mode in a chosen chat, with an optional default inline query.
+ */
+export const SwitchInlineQueryChosenChatSchema = z.object({
+	query: z
+		.string()
+		.optional()
+		.describe(
+			"The default inline query to be inserted in the input field. If left empty, only the bot's username will be inserted",
+		),
+	allow_user_chats: z
+		.boolean()
+		.optional()
+		.describe('True, if private chats with users can be chosen'),
+	allow_bot_chats: z
+		.boolean()
+		.optional()
+		.describe('True, if private chats with bots can be chosen'),
+	allow_group_chats: z
+		.boolean()
+		.optional()
+		.describe('True, if group and supergroup chats can be chosen'),
+	allow_channel_chats: z
+		.boolean()
+		.optional()
+		.describe('True, if channel chats can be chosen'),
+})
+
+export type SwitchInlineQueryChosenChat = z.infer<
+	typeof SwitchInlineQueryChosenChatSchema
+>
+
+/**
+ * This object represents an inline keyboard button that copies specified text to the clipboard.
+ */
+export const CopyTextButtonSchema = z.object({
+	text: z
+		.string()
+		.describe('The text to be copied to the clipboard; 1-256 characters'),
+})
+
+export type CopyTextButton = z.infer<typeof CopyTextButtonSchema>
+
+/**
+ * Describes the position of a clickable area within a story.
+ */
+export const StoryAreaPositionSchema = z.object({
+	x_percentage: z
+		.number()
+		.describe(
+			"The abscissa of the area's center, as a percentage of the media width",
+		),
+	y_percentage: z
+		.number()
+		.describe(
+			"The ordinate of the area's center, as a percentage of the media height",
+		),
+	width_percentage: z
+		.number()
+		.describe(
+			"The width of the area's rectangle, as a percentage of the media width",
+		),
+	height_percentage: z
+		.number()
+		.describe(
+			"The height of the area's rectangle, as a percentage of the media height",
+		),
+	rotation_angle: z
+		.number()
+		.describe(
+			'The clockwise rotation angle of the rectangle, in degrees; 0-360',
+		),
+	corner_radius_percentage: z
+		.number()
+		.describe(
+			'The radius of the rectangle corner rounding, as a percentage of the media width',
+		),
+})
+
+export type StoryAreaPosition = z.infer<typeof StoryAreaPositionSchema>
+
+/**
+ * Describes the physical address of a location.
+ */
+export const LocationAddressSchema = z.object({
+	country_code: z
+		.string()
+		.describe(
+			'The two-letter ISO 3166-1 alpha-2 country code of the country where the location is located',
+		),
+	state: z.string().optional().describe('State of the location'),
+	city: z.string().optional().describe('City of the location'),
+	street: z.string().optional().describe('Street address of the location'),
+})
+
+export type LocationAddress = z.infer<typeof LocationAddressSchema>
+
+/**
+ * Describes a story area pointing to a location. Currently, a story can have up to 10 location areas.
+ */
+export const StoryAreaTypeLocationSchema = z.object({
+	type: z.literal('location').describe('Type of the area, always “location”'),
+	latitude: z.number().describe('Location latitude in degrees'),
+	longitude: z.number().describe('Location longitude in degrees'),
+	address: LocationAddressSchema.optional().describe('Address of the location'),
+})
+
+export type StoryAreaTypeLocation = z.infer<typeof StoryAreaTypeLocationSchema>
+
+/**
+ * Describes a story area pointing to a suggested reaction. Currently, a story can have up to 5 suggested reaction areas.
+ */
+export const StoryAreaTypeSuggestedReactionSchema = z.object({
+	type: z
+		.literal('suggested_reaction')
+		.describe('Type of the area, always “suggested_reaction”'),
+	reaction_type: ReactionTypeSchema.describe('Type of the reaction'),
+	is_dark: z
+		.boolean()
+		.optional()
+		.describe('Pass True if the reaction area has a dark background'),
+	is_flipped: z
+		.boolean()
+		.optional()
+		.describe('Pass True if reaction area corner is flipped'),
+})
+
+export type StoryAreaTypeSuggestedReaction = z.infer<
+	typeof StoryAreaTypeSuggestedReactionSchema
+>
+
+/**
+ * Describes a story area pointing to an HTTP or tg:// link. Currently, a story can have up to 3 link areas.
+ */
+export const StoryAreaTypeLinkSchema = z.object({
+	type: z.literal('link').describe('Type of the area, always “link”'),
+	url: z
+		.string()
+		.describe('HTTP or tg:// URL to be opened when the area is clicked'),
+})
+
+export type StoryAreaTypeLink = z.infer<typeof StoryAreaTypeLinkSchema>
+
+/**
+ * Describes a story area containing weather information. Currently, a story can have up to 3 weather areas.
+ */
+export const StoryAreaTypeWeatherSchema = z.object({
+	type: z.literal('weather').describe('Type of the area, always “weather”'),
+	temperature: z.number().int().describe('Temperature, in degree Celsius'),
+	emoji: z.string().describe('Emoji representing the weather'),
+	background_color: z
+		.number()
+		.int()
+		.describe('A color of the area background in the ARGB format'),
+})
+
+export type StoryAreaTypeWeather = z.infer<typeof StoryAreaTypeWeatherSchema>
+
+/**
+ * Describes a story area pointing to a unique gift. Currently, a story can have at most 1 unique gift area.
+ */
+export const StoryAreaTypeUniqueGiftSchema = z.object({
+	type: z
+		.literal('unique_gift')
+		.describe('Type of the area, always “unique_gift”'),
+	name: z.string().describe('Unique name of the gift'),
+})
+
+export type StoryAreaTypeUniqueGift = z.infer<
+	typeof StoryAreaTypeUniqueGiftSchema
+>
+
+/**
+ * Describes the type of a clickable area on a story. Currently, it can be one of
+ */
+export const StoryAreaTypeSchema = z.union([
+	StoryAreaTypeLocationSchema,
+	StoryAreaTypeSuggestedReactionSchema,
+	StoryAreaTypeLinkSchema,
+	StoryAreaTypeWeatherSchema,
+	StoryAreaTypeUniqueGiftSchema,
+])
+
+export type StoryAreaType = z.infer<typeof StoryAreaTypeSchema>
+
+/**
+ * Describes a clickable area on a story media.
+ */
+export const StoryAreaSchema = z.object({
+	position: StoryAreaPositionSchema.describe('Position of the area'),
+	type: StoryAreaTypeSchema.describe('Type of the area'),
+})
+
+export type StoryArea = z.infer<typeof StoryAreaSchema>
+
+/**
+ * The reaction is based on an emoji.
+ */
+export const ReactionTypeEmojiSchema = z.object({
+	type: z.literal('emoji').describe('Type of the reaction, always “emoji”'),
+	emoji: z
+		.string()
+		.describe(
+			'Reaction emoji. Currently, it can be one of "❤", "👍", "👎", "🔥", "🥰", "👏", "😁", "🤔", "🤯", "😱", "🤬", "😢", "🎉", "🤩", "🤮", "💩", "🙏", "👌", "🕊", "🤡", "🥱", "🥴", "😍", "🐳", "❤", "🌚", "🌭", "💯", "🤣", "⚡", "🍌", "🏆", "💔", "🤨", "😐", "🍓", "🍾", "💋", "🖕", "😈", "😴", "😭", "🤓", "👻", "👨", "👀", "🎃", "🙈", "😇", "😨", "🤝", "✍", "🤗", "🫡", "🎅", "🎄", "☃", "💅", "🤪", "🗿", "🆒", "💘", "🙉", "🦄", "😘", "💊", "🙊", "😎", "👾", "🤷", "🤷", "🤷", "😡"',
+		),
+})
+
+export type ReactionTypeEmoji = z.infer<typeof ReactionTypeEmojiSchema>
+
+/**
+ * The reaction is based on a custom emoji.
+ */
+export const ReactionTypeCustomEmojiSchema = z.object({
+	type: z
+		.literal('custom_emoji')
+		.describe('Type of the reaction, always “custom_emoji”'),
+	custom_emoji_id: z.string().describe('Custom emoji identifier'),
+})
+
+export type ReactionTypeCustomEmoji = z.infer<
+	typeof ReactionTypeCustomEmojiSchema
+>
+
+/**
+ * The reaction is paid.
+ */
+export const ReactionTypePaidSchema = z.object({
+	type: z.literal('paid').describe('Type of the reaction, always “paid”'),
+})
+
+export type ReactionTypePaid = z.infer<typeof ReactionTypePaidSchema>
+
+/**
+ * This object represents a forum topic.
+ */
+export const ForumTopicSchema = z.object({
+	message_thread_id: z
+		.number()
+		.int()
+		.describe('Unique identifier of the forum topic'),
+	name: z.string().describe('Name of the topic'),
+	icon_color: z
+		.number()
+		.int()
+		.describe('Color of the topic icon in RGB format'),
+	icon_custom_emoji_id: z
+		.string()
+		.optional()
+		.describe('Unique identifier of the custom emoji shown as the topic icon'),
+})
+
+export type ForumTopic = z.infer<typeof ForumTopicSchema>
+
+/**
+ * This object represents a gift that can be sent by the bot.
+ */
+export const GiftSchema = z.object({
+	id: z.string().describe('Unique identifier of the gift'),
+	sticker: StickerSchema.describe('The sticker that represents the gift'),
+	star_count: z
+		.number()
+		.int()
+		.describe(
+			'The number of Telegram Stars that must be paid to send the sticker',
+		),
+	upgrade_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of Telegram Stars that must be paid to upgrade the gift to a unique one',
+		),
+	total_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The total number of the gifts of this type that can be sent; for limited gifts only',
+		),
+	remaining_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of remaining gifts of this type that can be sent; for limited gifts only',
+		),
+	publisher_chat: ChatSchema.optional().describe(
+		'Information about the chat that published the gift',
+	),
+})
+
+export type Gift = z.infer<typeof GiftSchema>
+
+/**
+ * This object represent a list of gifts.
+ */
+export const GiftsSchema = z.object({
+	gifts: z.array(GiftSchema).describe('The list of gifts'),
+})
+
+export type Gifts = z.infer<typeof GiftsSchema>
+
+/**
+ * This object describes the model of a unique gift.
+ */
+export const UniqueGiftModelSchema = z.object({
+	name: z.string().describe('Name of the model'),
+	sticker: StickerSchema.describe(
+		'The sticker that represents the unique gift',
+	),
+	rarity_per_mille: z
+		.number()
+		.int()
+		.describe(
+			'The number of unique gifts that receive this model for every 1000 gifts upgraded',
+		),
+})
+
+export type UniqueGiftModel = z.infer<typeof UniqueGiftModelSchema>
+
+/**
+ * This object describes the symbol shown on the pattern of a unique gift.
+ */
+export const UniqueGiftSymbolSchema = z.object({
+	name: z.string().describe('Name of the symbol'),
+	sticker: StickerSchema.describe(
+		'The sticker that represents the unique gift',
+	),
+	rarity_per_mille: z
+		.number()
+		.int()
+		.describe(
+			'The number of unique gifts that receive this model for every 1000 gifts upgraded',
+		),
+})
+
+export type UniqueGiftSymbol = z.infer<typeof UniqueGiftSymbolSchema>
+
+/**
+ * This object describes the colors of the backdrop of a unique gift.
+ */
+export const UniqueGiftBackdropColorsSchema = z.object({
+	center_color: z
+		.number()
+		.int()
+		.describe('The color in the center of the backdrop in RGB format'),
+	edge_color: z
+		.number()
+		.int()
+		.describe('The color on the edges of the backdrop in RGB format'),
+	symbol_color: z
+		.number()
+		.int()
+		.describe('The color to be applied to the symbol in RGB format'),
+	text_color: z
+		.number()
+		.int()
+		.describe('The color for the text on the backdrop in RGB format'),
+})
+
+export type UniqueGiftBackdropColors = z.infer<
+	typeof UniqueGiftBackdropColorsSchema
+>
+
+/**
+ * This object describes the backdrop of a unique gift.
+ */
+export const UniqueGiftBackdropSchema = z.object({
+	name: z.string().describe('Name of the backdrop'),
+	colors: UniqueGiftBackdropColorsSchema.describe('Colors of the backdrop'),
+	rarity_per_mille: z
+		.number()
+		.int()
+		.describe(
+			'The number of unique gifts that receive this backdrop for every 1000 gifts upgraded',
+		),
+})
+
+export type UniqueGiftBackdrop = z.infer<typeof UniqueGiftBackdropSchema>
+
+/**
+ * This object describes a unique gift that was upgraded from a regular gift.
+ */
+export const UniqueGiftSchema = z.object({
+	base_name: z
+		.string()
+		.describe(
+			'Human-readable name of the regular gift from which this unique gift was upgraded',
+		),
+	name: z
+		.string()
+		.describe(
+			'Unique name of the gift. This name can be used in https://t.me/nft/... links and story areas',
+		),
+	number: z
+		.number()
+		.int()
+		.describe(
+			'Unique number of the upgraded gift among gifts upgraded from the same regular gift',
+		),
+	model: UniqueGiftModelSchema.describe('Model of the gift'),
+	symbol: UniqueGiftSymbolSchema.describe('Symbol of the gift'),
+	backdrop: UniqueGiftBackdropSchema.describe('Backdrop of the gift'),
+	publisher_chat: ChatSchema.optional().describe(
+		'Information about the chat that published the gift',
+	),
+})
+
+export type UniqueGift = z.infer<typeof UniqueGiftSchema>
+
+/**
+ * Describes a service message about a regular gift that was sent or received.
+ */
+export const GiftInfoSchema = z.object({
+	gift: GiftSchema.describe('Information about the gift'),
+	owned_gift_id: z
+		.string()
+		.optional()
+		.describe(
+			'Unique identifier of the received gift for the bot; only present for gifts received on behalf of business accounts',
+		),
+	convert_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Number of Telegram Stars that can be claimed by the receiver by converting the gift; omitted if conversion to Telegram Stars is impossible',
+		),
+	prepaid_upgrade_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Number of Telegram Stars that were prepaid by the sender for the ability to upgrade the gift',
+		),
+	can_be_upgraded: z
+		.boolean()
+		.optional()
+		.describe('True, if the gift can be upgraded to a unique gift'),
+	text: z
+		.string()
+		.optional()
+		.describe('Text of the message that was added to the gift'),
+	entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe('Special entities that appear in the text'),
+	is_private: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the sender and gift text are shown only to the gift receiver; otherwise, everyone will be able to see them',
+		),
+})
+
+export type GiftInfo = z.infer<typeof GiftInfoSchema>
+
+/**
+ * Describes a service message about a unique gift that was sent or received.
+ */
+export const UniqueGiftInfoSchema = z.object({
+	gift: UniqueGiftSchema.describe('Information about the gift'),
+	origin: z
+		.string()
+		.describe(
+			'Origin of the gift. Currently, either “upgrade” for gifts upgraded from regular gifts, “transfer” for gifts transferred from other users or channels, or “resale” for gifts bought from other users',
+		),
+	last_resale_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe('For gifts bought from other users, the price paid for the gift'),
+	owned_gift_id: z
+		.string()
+		.optional()
+		.describe(
+			'Unique identifier of the received gift for the bot; only present for gifts received on behalf of business accounts',
+		),
+	transfer_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Number of Telegram Stars that must be paid to transfer the gift; omitted if the bot cannot transfer the gift',
+		),
+	next_transfer_date: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Point in time (Unix timestamp) when the gift can be transferred. If it is in the past, then the gift can be transferred now',
+		),
+})
+
+export type UniqueGiftInfo = z.infer<typeof UniqueGiftInfoSchema>
+
+/**
+ * Describes a regular gift owned by a user or a chat.
+ */
+export const OwnedGiftRegularSchema = z.object({
+	type: z.literal('regular').describe('Type of the gift, always “regular”'),
+	gift: GiftSchema.describe('Information about the regular gift'),
+	owned_gift_id: z
+		.string()
+		.optional()
+		.describe(
+			'Unique identifier of the gift for the bot; for gifts received on behalf of business accounts only',
+		),
+	sender_user: UserSchema.optional().describe(
+		'Sender of the gift if it is a known user',
+	),
+	send_date: z.number().int().describe('Date the gift was sent in Unix time'),
+	text: z
+		.string()
+		.optional()
+		.describe('Text of the message that was added to the gift'),
+	entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe('Special entities that appear in the text'),
+	is_private: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the sender and gift text are shown only to the gift receiver; otherwise, everyone will be able to see them',
+		),
+	is_saved: z
+		.boolean()
+		.optional()
+		.describe(
+			"True, if the gift is displayed on the account's profile page; for gifts received on behalf of business accounts only",
+		),
+	can_be_upgraded: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the gift can be upgraded to a unique gift; for gifts received on behalf of business accounts only',
+		),
+	was_refunded: z
+		.boolean()
+		.optional()
+		.describe("True, if the gift was refunded and isn't available anymore"),
+	convert_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Number of Telegram Stars that can be claimed by the receiver instead of the gift; omitted if the gift cannot be converted to Telegram Stars',
+		),
+	prepaid_upgrade_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Number of Telegram Stars that were paid by the sender for the ability to upgrade the gift',
+		),
+})
+
+export type OwnedGiftRegular = z.infer<typeof OwnedGiftRegularSchema>
+
+/**
+ * Describes a unique gift received and owned by a user or a chat.
+ */
+export const OwnedGiftUniqueSchema = z.object({
+	type: z.literal('unique').describe('Type of the gift, always “unique”'),
+	gift: UniqueGiftSchema.describe('Information about the unique gift'),
+	owned_gift_id: z
+		.string()
+		.optional()
+		.describe(
+			'Unique identifier of the received gift for the bot; for gifts received on behalf of business accounts only',
+		),
+	sender_user: UserSchema.optional().describe(
+		'Sender of the gift if it is a known user',
+	),
+	send_date: z.number().int().describe('Date the gift was sent in Unix time'),
+	is_saved: z
+		.boolean()
+		.optional()
+		.describe(
+			"True, if the gift is displayed on the account's profile page; for gifts received on behalf of business accounts only",
+		),
+	can_be_transferred: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the gift can be transferred to another owner; for gifts received on behalf of business accounts only',
+		),
+	transfer_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Number of Telegram Stars that must be paid to transfer the gift; omitted if the bot cannot transfer the gift',
+		),
+	next_transfer_date: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Point in time (Unix timestamp) when the gift can be transferred. If it is in the past, then the gift can be transferred now',
+		),
+})
+
+export type OwnedGiftUnique = z.infer<typeof OwnedGiftUniqueSchema>
+
+/**
+ * This object describes a gift received and owned by a user or a chat. Currently, it can be one of
+ */
+export const OwnedGiftSchema = z.union([
+	OwnedGiftRegularSchema,
+	OwnedGiftUniqueSchema,
+])
+
+export type OwnedGift = z.infer<typeof OwnedGiftSchema>
+
+/**
+ * Contains the list of gifts received and owned by a user or a chat.
+ */
+export const OwnedGiftsSchema = z.object({
+	total_count: z
+		.number()
+		.int()
+		.describe('The total number of gifts owned by the user or the chat'),
+	gifts: z.array(OwnedGiftSchema).describe('The list of gifts'),
+	next_offset: z
+		.string()
+		.optional()
+		.describe(
+			'Offset for the next request. If empty, then there are no more results',
+		),
+})
+
+export type OwnedGifts = z.infer<typeof OwnedGiftsSchema>
+
+/**
+ * This object represents a bot command.
+ */
+export const BotCommandSchema = z.object({
+	command: z
+		.string()
+		.describe(
+			'Text of the command; 1-32 characters. Can contain only lowercase English letters, digits and underscores.',
+		),
+	description: z
+		.string()
+		.describe('Description of the command; 1-256 characters.'),
+})
+
+export type BotCommand = z.infer<typeof BotCommandSchema>
+
+/**
+ * Represents the default scope of bot commands. Default commands are used if no commands with a narrower scope are specified for the user.
+ */
+export const BotCommandScopeDefaultSchema = z.object({
+	type: z.literal('default').describe('Scope type, must be default'),
+})
+
+export type BotCommandScopeDefault = z.infer<
+	typeof BotCommandScopeDefaultSchema
+>
+
+/**
+ * Represents the scope of bot commands, covering all private chats.
+ */
+export const BotCommandScopeAllPrivateChatsSchema = z.object({
+	type: z
+		.literal('all_private_chats')
+		.describe('Scope type, must be all_private_chats'),
+})
+
+export type BotCommandScopeAllPrivateChats = z.infer<
+	typeof BotCommandScopeAllPrivateChatsSchema
+>
+
+/**
+ * Represents the scope of bot commands, covering all group and supergroup chats.
+ */
+export const BotCommandScopeAllGroupChatsSchema = z.object({
+	type: z
+		.literal('all_group_chats')
+		.describe('Scope type, must be all_group_chats'),
+})
+
+export type BotCommandScopeAllGroupChats = z.infer<
+	typeof BotCommandScopeAllGroupChatsSchema
+>
+
+/**
+ * Represents the scope of bot commands, covering all group and supergroup chat administrators.
+ */
+export const BotCommandScopeAllChatAdministratorsSchema = z.object({
+	type: z
+		.literal('all_chat_administrators')
+		.describe('Scope type, must be all_chat_administrators'),
+})
+
+export type BotCommandScopeAllChatAdministrators = z.infer<
+	typeof BotCommandScopeAllChatAdministratorsSchema
+>
+
+/**
+ * Represents the scope of bot commands, covering a specific chat.
+ */
+export const BotCommandScopeChatSchema = z.object({
+	type: z.literal('chat').describe('Scope type, must be chat'),
+	chat_id: z
+		.union([z.number().int(), z.string()])
+		.describe(
+			"Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername). Channel direct messages chats and channel chats aren't supported.",
+		),
+})
+
+export type BotCommandScopeChat = z.infer<typeof BotCommandScopeChatSchema>
+
+/**
+ * Represents the scope of bot commands, covering all administrators of a specific group or supergroup chat.
+ */
+export const BotCommandScopeChatAdministratorsSchema = z.object({
+	type: z
+		.literal('chat_administrators')
+		.describe('Scope type, must be chat_administrators'),
+	chat_id: z
+		.union([z.number().int(), z.string()])
+		.describe(
+			"Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername). Channel direct messages chats and channel chats aren't supported.",
+		),
+})
+
+export type BotCommandScopeChatAdministrators = z.infer<
+	typeof BotCommandScopeChatAdministratorsSchema
+>
+
+/**
+ * Represents the scope of bot commands, covering a specific member of a group or supergroup chat.
+ */
+export const BotCommandScopeChatMemberSchema = z.object({
+	type: z.literal('chat_member').describe('Scope type, must be chat_member'),
+	chat_id: z
+		.union([z.number().int(), z.string()])
+		.describe(
+			"Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername). Channel direct messages chats and channel chats aren't supported.",
+		),
+	user_id: z.number().int().describe('Unique identifier of the target user'),
+})
+
+export type BotCommandScopeChatMember = z.infer<
+	typeof BotCommandScopeChatMemberSchema
+>
+
+/**
+ * This object represents the scope to which bot commands are applied. Currently, the following 7 scopes are supported:
+ */
+export const BotCommandScopeSchema = z.union([
+	BotCommandScopeDefaultSchema,
+	BotCommandScopeAllPrivateChatsSchema,
+	BotCommandScopeAllGroupChatsSchema,
+	BotCommandScopeAllChatAdministratorsSchema,
+	BotCommandScopeChatSchema,
+	BotCommandScopeChatAdministratorsSchema,
+	BotCommandScopeChatMemberSchema,
+])
+
+export type BotCommandScope = z.infer<typeof BotCommandScopeSchema>
+
+/**
+ * This object represents the bot's name.
+ */
+export const BotNameSchema = z.object({
+	name: z.string().describe("The bot's name"),
+})
+
+export type BotName = z.infer<typeof BotNameSchema>
+
+/**
+ * This object represents the bot's description.
+ */
+export const BotDescriptionSchema = z.object({
+	description: z.string().describe("The bot's description"),
+})
+
+export type BotDescription = z.infer<typeof BotDescriptionSchema>
+
+/**
+ * This object represents the bot's short description.
+ */
+export const BotShortDescriptionSchema = z.object({
+	short_description: z.string().describe("The bot's short description"),
+})
+
+export type BotShortDescription = z.infer<typeof BotShortDescriptionSchema>
+
+/**
+ * Represents a menu button, which opens the bot's list of commands.
+ */
+export const MenuButtonCommandsSchema = z.object({
+	type: z.literal('commands').describe('Type of the button, must be commands'),
+})
+
+export type MenuButtonCommands = z.infer<typeof MenuButtonCommandsSchema>
+
+/**
+ * Represents a menu button, which launches a Web App.
+ */
+export const MenuButtonWebAppSchema = z.object({
+	type: z.literal('web_app').describe('Type of the button, must be web_app'),
+	text: z.string().describe('Text on the button'),
+	web_app: WebAppInfoSchema.describe(
+		"Description of the Web App that will be launched when the user presses the button. The Web App will be able to send an arbitrary message on behalf of the user using the method answerWebAppQuery. Alternatively, a t.me link to a Web App of the bot can be specified in the object instead of the Web App's URL, in which case the Web App will be opened as if the user pressed the link.",
+	),
+})
+
+export type MenuButtonWebApp = z.infer<typeof MenuButtonWebAppSchema>
+
+/**
+ * Describes that no specific value for the menu button was set.
+ */
+export const MenuButtonDefaultSchema = z.object({
+	type: z.literal('default').describe('Type of the button, must be default'),
+})
+
+export type MenuButtonDefault = z.infer<typeof MenuButtonDefaultSchema>
+
+/**
+ * This object describes the bot's menu button in a private chat. It should be one of
+ */
+export const MenuButtonSchema = z.union([
+	MenuButtonCommandsSchema,
+	MenuButtonWebAppSchema,
+	MenuButtonDefaultSchema,
+])
+
+export type MenuButton = z.infer<typeof MenuButtonSchema>
+
+/**
+ * The boost was obtained by subscribing to Telegram Premium or by gifting a Telegram Premium subscription to another user.
+ */
+export const ChatBoostSourcePremiumSchema = z.object({
+	source: z
+		.literal('premium')
+		.describe('Source of the boost, always “premium”'),
+	user: UserSchema.describe('User that boosted the chat'),
+})
+
+export type ChatBoostSourcePremium = z.infer<
+	typeof ChatBoostSourcePremiumSchema
+>
+
+/**
+ * The boost was obtained by the creation of Telegram Premium gift codes to boost a chat. Each such code boosts the chat 4 times for the duration of the corresponding Telegram Premium subscription.
+ */
+export const ChatBoostSourceGiftCodeSchema = z.object({
+	source: z
+		.literal('gift_code')
+		.describe('Source of the boost, always “gift_code”'),
+	user: UserSchema.describe('User for which the gift code was created'),
+})
+
+export type ChatBoostSourceGiftCode = z.infer<
+	typeof ChatBoostSourceGiftCodeSchema
+>
+
+/**
+ * The boost was obtained by the creation of a Telegram Premium or a Telegram Star giveaway. This boosts the chat 4 times for the duration of the corresponding Telegram Premium subscription for Telegram Premium giveaways and prize_star_count / 500 times for one year for Telegram Star giveaways.
+ */
+export const ChatBoostSourceGiveawaySchema = z.object({
+	source: z
+		.literal('giveaway')
+		.describe('Source of the boost, always “giveaway”'),
+	giveaway_message_id: z
+		.number()
+		.int()
+		.describe(
+			"Identifier of a message in the chat with the giveaway; the message could have been deleted already. May be 0 if the message isn't sent yet.",
+		),
+	user: UserSchema.optional().describe(
+		'User that won the prize in the giveaway if any; for Telegram Premium giveaways only',
+	),
+	prize_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of Telegram Stars to be split between giveaway winners; for Telegram Star giveaways only',
+		),
+	is_unclaimed: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the giveaway was completed, but there was no user to win the prize',
+		),
+})
+
+export type ChatBoostSourceGiveaway = z.infer<
+	typeof ChatBoostSourceGiveawaySchema
+>
+
+/**
+ * This object represents a list of boosts added to a chat by a user.
+ */
+export const UserChatBoostsSchema = z.object({
+	boosts: z
+		.array(ChatBoostSchema)
+		.describe('The list of boosts added to the chat by the user'),
+})
+
+export type UserChatBoosts = z.infer<typeof UserChatBoostsSchema>
+
+/**
+ * Represents the rights of a business bot.
+ */
+export const BusinessBotRightsSchema = z.object({
+	can_reply: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the bot can send and edit messages in the private chats that had incoming messages in the last 24 hours',
+		),
+	can_read_messages: z
+		.boolean()
+		.optional()
+		.describe('True, if the bot can mark incoming private messages as read'),
+	can_delete_sent_messages: z
+		.boolean()
+		.optional()
+		.describe('True, if the bot can delete messages sent by the bot'),
+	can_delete_all_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the bot can delete all private messages in managed chats',
+		),
+	can_edit_name: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the bot can edit the first and last name of the business account',
+		),
+	can_edit_bio: z
+		.boolean()
+		.optional()
+		.describe('True, if the bot can edit the bio of the business account'),
+	can_edit_profile_photo: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the bot can edit the profile photo of the business account',
+		),
+	can_edit_username: z
+		.boolean()
+		.optional()
+		.describe('True, if the bot can edit the username of the business account'),
+	can_change_gift_settings: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the bot can change the privacy settings pertaining to gifts for the business account',
+		),
+	can_view_gifts_and_stars: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the bot can view gifts and the amount of Telegram Stars owned by the business account',
+		),
+	can_convert_gifts_to_stars: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the bot can convert regular gifts owned by the business account to Telegram Stars',
+		),
+	can_transfer_and_upgrade_gifts: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the bot can transfer and upgrade gifts owned by the business account',
+		),
+	can_transfer_stars: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the bot can transfer Telegram Stars received by the business account to its own account, or use them to upgrade and transfer gifts',
+		),
+	can_manage_stories: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the bot can post, edit and delete stories on behalf of the business account',
+		),
+})
+
+export type BusinessBotRights = z.infer<typeof BusinessBotRightsSchema>
+
+/**
+ * The paid media to send is a photo.
+ */
+export const InputPaidMediaPhotoSchema = z.object({
+	type: z.literal('photo').describe('Type of the media, must be photo'),
+	media: z
+		.union([InputFileSchema, z.string()])
+		.describe(
+			'File to send. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass “attach://\\<file_attach_name\\>” to upload a new one using multipart/form-data under \\<file_attach_name\\> name. More information on Sending Files »',
+		),
+})
+
+export type InputPaidMediaPhoto = z.infer<typeof InputPaidMediaPhotoSchema>
+
+/**
+ * The paid media to send is a video.
+ */
+export const InputPaidMediaVideoSchema = z.object({
+	type: z.literal('video').describe('Type of the media, must be video'),
+	media: z
+		.union([InputFileSchema, z.string()])
+		.describe(
+			'File to send. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass “attach://\\<file_attach_name\\>” to upload a new one using multipart/form-data under \\<file_attach_name\\> name. More information on Sending Files »',
+		),
+	thumbnail: z
+		.union([InputFileSchema, z.string()])
+		.optional()
+		.describe(
+			"Thumbnail of the file sent; can be ignored if thumbnail generation for the file is supported server-side. The thumbnail should be in JPEG format and less than 200 kB in size. A thumbnail's width and height should not exceed 320. Ignored if the file is not uploaded using multipart/form-data. Thumbnails can't be reused and can be only uploaded as a new file, so you can pass “attach://\\<file_attach_name\\>” if the thumbnail was uploaded using multipart/form-data under \\<file_attach_name\\>. More information on Sending Files »",
+		),
+	cover: z
+		.union([InputFileSchema, z.string()])
+		.optional()
+		.describe(
+			'Cover for the video in the message. Pass a file_id to send a file that exists on the Telegram servers (recommended), pass an HTTP URL for Telegram to get a file from the Internet, or pass “attach://\\<file_attach_name\\>” to upload a new one using multipart/form-data under \\<file_attach_name\\> name. More information on Sending Files »',
+		),
+	start_timestamp: z
+		.number()
+		.int()
+		.optional()
+		.describe('Start timestamp for the video in the message'),
+	width: z.number().int().optional().describe('Video width'),
+	height: z.number().int().optional().describe('Video height'),
+	duration: z.number().int().optional().describe('Video duration in seconds'),
+	supports_streaming: z
+		.boolean()
+		.optional()
+		.describe('Pass True if the uploaded video is suitable for streaming'),
+})
+
+export type InputPaidMediaVideo = z.infer<typeof InputPaidMediaVideoSchema>
+
+/**
+ * This object describes the paid media to be sent. Currently, it can be one of
+ */
+export const InputPaidMediaSchema = z.union([
+	InputPaidMediaPhotoSchema,
+	InputPaidMediaVideoSchema,
+])
+
+export type InputPaidMedia = z.infer<typeof InputPaidMediaSchema>
+
+/**
+ * A static profile photo in the .JPG format.
+ */
+export const InputProfilePhotoStaticSchema = z.object({
+	type: z
+		.literal('static')
+		.describe('Type of the profile photo, must be static'),
+	photo: z
+		.union([InputFileSchema, z.string()])
+		.describe(
+			"The static profile photo. Profile photos can't be reused and can only be uploaded as a new file, so you can pass “attach://\\<file_attach_name\\>” if the photo was uploaded using multipart/form-data under \\<file_attach_name\\>. More information on Sending Files »",
+		),
+})
+
+export type InputProfilePhotoStatic = z.infer<
+	typeof InputProfilePhotoStaticSchema
+>
+
+/**
+ * An animated profile photo in the MPEG4 format.
+ */
+export const InputProfilePhotoAnimatedSchema = z.object({
+	type: z
+		.literal('animated')
+		.describe('Type of the profile photo, must be animated'),
+	animation: z
+		.union([InputFileSchema, z.string()])
+		.describe(
+			"The animated profile photo. Profile photos can't be reused and can only be uploaded as a new file, so you can pass “attach://\\<file_attach_name\\>” if the photo was uploaded using multipart/form-data under \\<file_attach_name\\>. More information on Sending Files »",
+		),
+	main_frame_timestamp: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Timestamp in seconds of the frame that will be used as the static profile photo. Defaults to 0.0.',
+		),
+})
+
+export type InputProfilePhotoAnimated = z.infer<
+	typeof InputProfilePhotoAnimatedSchema
+>
+
+/**
+ * This object describes a profile photo to set. Currently, it can be one of
+ */
+export const InputProfilePhotoSchema = z.union([
+	InputProfilePhotoStaticSchema,
+	InputProfilePhotoAnimatedSchema,
+])
+
+export type InputProfilePhoto = z.infer<typeof InputProfilePhotoSchema>
+
+/**
+ * Describes a photo to post as a story.
+ */
+export const InputStoryContentPhotoSchema = z.object({
+	type: z.literal('photo').describe('Type of the content, must be photo'),
+	photo: z
+		.union([InputFileSchema, z.string()])
+		.describe(
+			"The photo to post as a story. The photo must be of the size 1080x1920 and must not exceed 10 MB. The photo can't be reused and can only be uploaded as a new file, so you can pass “attach://\\<file_attach_name\\>” if the photo was uploaded using multipart/form-data under \\<file_attach_name\\>. More information on Sending Files »",
+		),
+})
+
+export type InputStoryContentPhoto = z.infer<
+	typeof InputStoryContentPhotoSchema
+>
+
+/**
+ * Describes a video to post as a story.
+ */
+export const InputStoryContentVideoSchema = z.object({
+	type: z.literal('video').describe('Type of the content, must be video'),
+	video: z
+		.union([InputFileSchema, z.string()])
+		.describe(
+			"The video to post as a story. The video must be of the size 720x1280, streamable, encoded with H.265 codec, with key frames added each second in the MPEG4 format, and must not exceed 30 MB. The video can't be reused and can only be uploaded as a new file, so you can pass “attach://\\<file_attach_name\\>” if the video was uploaded using multipart/form-data under \\<file_attach_name\\>. More information on Sending Files »",
+		),
+	duration: z
+		.number()
+		.int()
+		.optional()
+		.describe('Precise duration of the video in seconds; 0-60'),
+	cover_frame_timestamp: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Timestamp in seconds of the frame that will be used as the static cover for the story. Defaults to 0.0.',
+		),
+	is_animation: z
+		.boolean()
+		.optional()
+		.describe('Pass True if the video has no sound'),
+})
+
+export type InputStoryContentVideo = z.infer<
+	typeof InputStoryContentVideoSchema
+>
+
+/**
+ * This object describes the content of a story to post. Currently, it can be one of
+ */
+export const InputStoryContentSchema = z.union([
+	InputStoryContentPhotoSchema,
+	InputStoryContentVideoSchema,
+])
+
+export type InputStoryContent = z.infer<typeof InputStoryContentSchema>
+
+/**
+ * This object represents a sticker set.
+ */
+export const StickerSetSchema = z.object({
+	name: z.string().describe('Sticker set name'),
+	title: z.string().describe('Sticker set title'),
+	sticker_type: z
+		.string()
+		.describe(
+			'Type of stickers in the set, currently one of “regular”, “mask”, “custom_emoji”',
+		),
+	stickers: z.array(StickerSchema).describe('List of all set stickers'),
+	thumbnail: PhotoSizeSchema.optional().describe(
+		'Sticker set thumbnail in the .WEBP, .TGS, or .WEBM format',
+	),
+})
+
+export type StickerSet = z.infer<typeof StickerSetSchema>
+
+/**
+ * This object describes the position on faces where a mask should be placed by default.
+ */
+export const MaskPositionSchema = z.object({
+	point: z
+		.string()
+		.describe(
+			'The part of the face relative to which the mask should be placed. One of “forehead”, “eyes”, “mouth”, or “chin”.',
+		),
+	x_shift: z
+		.number()
+		.describe(
+			'Shift by X-axis measured in widths of the mask scaled to the face size, from left to right. For example, choosing -1.0 will place mask just to the left of the default mask position.',
+		),
+	y_shift: z
+		.number()
+		.describe(
+			'Shift by Y-axis measured in heights of the mask scaled to the face size, from top to bottom. For example, 1.0 will place the mask just below the default mask position.',
+		),
+	scale: z
+		.number()
+		.describe('Mask scaling coefficient. For example, 2.0 means double size.'),
+})
+
+export type MaskPosition = z.infer<typeof MaskPositionSchema>
+
+/**
+ * This object describes a sticker to be added to a sticker set.
+ */
+export const InputStickerSchema = z.object({
+	sticker: z
+		.union([InputFileSchema, z.string()])
+		.describe(
+			"The added sticker. Pass a file_id as a String to send a file that already exists on the Telegram servers, pass an HTTP URL as a String for Telegram to get a file from the Internet, or pass “attach://\\<file_attach_name\\>” to upload a new file using multipart/form-data under \\<file_attach_name\\> name. Animated and video stickers can't be uploaded via HTTP URL. More information on Sending Files »",
+		),
+	format: z
+		.string()
+		.describe(
+			'Format of the added sticker, must be one of “static” for a .WEBP or .PNG image, “animated” for a .TGS animation, “video” for a .WEBM video',
+		),
+	emoji_list: z
+		.array(z.string())
+		.describe('List of 1-20 emoji associated with the sticker'),
+	mask_position: MaskPositionSchema.optional().describe(
+		'Position where the mask should be placed on faces. For “mask” stickers only.',
+	),
+	keywords: z
+		.array(z.string())
+		.optional()
+		.describe(
+			'List of 0-20 search keywords for the sticker with total length of up to 64 characters. For “regular” and “custom_emoji” stickers only.',
+		),
+})
+
+export type InputSticker = z.infer<typeof InputStickerSchema>
+
+/**
+ * This object represents a button to be shown above inline query results. You must use exactly one of the optional fields.
+ */
+export const InlineQueryResultsButtonSchema = z.object({
+	text: z.string().describe('Label text on the button'),
+	web_app: WebAppInfoSchema.optional().describe(
+		'Description of the Web App that will be launched when the user presses the button. The Web App will be able to switch back to the inline mode using the method switchInlineQuery inside the Web App.',
+	),
+	start_parameter: z
+		.string()
+		.optional()
+		.describe(
+			"Deep-linking parameter for the /start message sent to the bot when a user presses the button. 1-64 characters, only A-Z, a-z, 0-9, _ and - are allowed.\n\nExample: An inline bot that sends YouTube videos can ask the user to connect the bot to their YouTube account to adapt search results accordingly. To do this, it displays a 'Connect your YouTube account' button above the results, or even before showing any. The user presses the button, switches to a private chat with the bot and, in doing so, passes a start parameter that instructs the bot to return an OAuth link. Once done, the bot can offer a switch_inline button so that the user can easily return to the chat where they wanted to use the bot's inline capabilities.",
+		),
+})
+
+export type InlineQueryResultsButton = z.infer<
+	typeof InlineQueryResultsButtonSchema
+>
+
+/**
+ * Represents the content of a text message to be sent as the result of an inline query.
+ */
+export const InputTextMessageContentSchema = z.object({
+	message_text: z
+		.string()
+		.describe('Text of the message to be sent, 1-4096 characters'),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the message text. See formatting options for more details.',
+		),
+	entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in message text, which can be specified instead of parse_mode',
+		),
+	link_preview_options: LinkPreviewOptionsSchema.optional().describe(
+		'Link preview generation options for the message',
+	),
+})
+
+export type InputTextMessageContent = z.infer<
+	typeof InputTextMessageContentSchema
+>
+
+/**
+ * Represents the content of a location message to be sent as the result of an inline query.
+ */
+export const InputLocationMessageContentSchema = z.object({
+	latitude: z.number().describe('Latitude of the location in degrees'),
+	longitude: z.number().describe('Longitude of the location in degrees'),
+	horizontal_accuracy: z
+		.number()
+		.optional()
+		.describe(
+			'The radius of uncertainty for the location, measured in meters; 0-1500',
+		),
+	live_period: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Period in seconds during which the location can be updated, should be between 60 and 86400, or 0x7FFFFFFF for live locations that can be edited indefinitely.',
+		),
+	heading: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'For live locations, a direction in which the user is moving, in degrees. Must be between 1 and 360 if specified.',
+		),
+	proximity_alert_radius: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'For live locations, a maximum distance for proximity alerts about approaching another chat member, in meters. Must be between 1 and 100000 if specified.',
+		),
+})
+
+export type InputLocationMessageContent = z.infer<
+	typeof InputLocationMessageContentSchema
+>
+
+/**
+ * Represents the content of a venue message to be sent as the result of an inline query.
+ */
+export const InputVenueMessageContentSchema = z.object({
+	latitude: z.number().describe('Latitude of the venue in degrees'),
+	longitude: z.number().describe('Longitude of the venue in degrees'),
+	title: z.string().describe('Name of the venue'),
+	address: z.string().describe('Address of the venue'),
+	foursquare_id: z
+		.string()
+		.optional()
+		.describe('Foursquare identifier of the venue, if known'),
+	foursquare_type: z
+		.string()
+		.optional()
+		.describe(
+			'Foursquare type of the venue, if known. (For example, “arts_entertainment/default”, “arts_entertainment/aquarium” or “food/icecream”.)',
+		),
+	google_place_id: z
+		.string()
+		.optional()
+		.describe('Google Places identifier of the venue'),
+	google_place_type: z
+		.string()
+		.optional()
+		.describe('Google Places type of the venue. (See supported types.)'),
+})
+
+export type InputVenueMessageContent = z.infer<
+	typeof InputVenueMessageContentSchema
+>
+
+/**
+ * Represents the content of a contact message to be sent as the result of an inline query.
+ */
+export const InputContactMessageContentSchema = z.object({
+	phone_number: z.string().describe("Contact's phone number"),
+	first_name: z.string().describe("Contact's first name"),
+	last_name: z.string().optional().describe("Contact's last name"),
+	vcard: z
+		.string()
+		.optional()
+		.describe(
+			'Additional data about the contact in the form of a vCard, 0-2048 bytes',
+		),
+})
+
+export type InputContactMessageContent = z.infer<
+	typeof InputContactMessageContentSchema
+>
+
+/**
+ * This object represents a portion of the price for goods or services.
+ */
+export const LabeledPriceSchema = z.object({
+	label: z.string().describe('Portion label'),
+	amount: z
+		.number()
+		.int()
+		.describe(
+			'Price of the product in the smallest units of the currency (integer, not float/double). For example, for a price of US$ 1.45 pass amount = 145. See the exp parameter in currencies.json, it shows the number of digits past the decimal point for each currency (2 for the majority of currencies).',
+		),
+})
+
+export type LabeledPrice = z.infer<typeof LabeledPriceSchema>
+
+/**
+ * Represents the content of an invoice message to be sent as the result of an inline query.
+ */
+export const InputInvoiceMessageContentSchema = z.object({
+	title: z.string().describe('Product name, 1-32 characters'),
+	description: z.string().describe('Product description, 1-255 characters'),
+	payload: z
+		.string()
+		.describe(
+			'Bot-defined invoice payload, 1-128 bytes. This will not be displayed to the user, use it for your internal processes.',
+		),
+	provider_token: z
+		.string()
+		.optional()
+		.describe(
+			'Payment provider token, obtained via @BotFather. Pass an empty string for payments in Telegram Stars.',
+		),
+	currency: z
+		.string()
+		.describe(
+			'Three-letter ISO 4217 currency code, see more on currencies. Pass “XTR” for payments in Telegram Stars.',
+		),
+	prices: z
+		.array(LabeledPriceSchema)
+		.describe(
+			'Price breakdown, a JSON-serialized list of components (e.g. product price, tax, discount, delivery cost, delivery tax, bonus, etc.). Must contain exactly one item for payments in Telegram Stars.',
+		),
+	max_tip_amount: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The maximum accepted amount for tips in the smallest units of the currency (integer, not float/double). For example, for a maximum tip of US$ 1.45 pass max_tip_amount = 145. See the exp parameter in currencies.json, it shows the number of digits past the decimal point for each currency (2 for the majority of currencies). Defaults to 0. Not supported for payments in Telegram Stars.',
+		),
+	suggested_tip_amounts: z
+		.array(z.number().int())
+		.optional()
+		.describe(
+			'A JSON-serialized array of suggested amounts of tip in the smallest units of the currency (integer, not float/double). At most 4 suggested tip amounts can be specified. The suggested tip amounts must be positive, passed in a strictly increased order and must not exceed max_tip_amount.',
+		),
+	provider_data: z
+		.string()
+		.optional()
+		.describe(
+			'A JSON-serialized object for data about the invoice, which will be shared with the payment provider. A detailed description of the required fields should be provided by the payment provider.',
+		),
+	photo_url: z
+		.string()
+		.optional()
+		.describe(
+			'URL of the product photo for the invoice. Can be a photo of the goods or a marketing image for a service.',
+		),
+	photo_size: z.number().int().optional().describe('Photo size in bytes'),
+	photo_width: z.number().int().optional().describe('Photo width'),
+	photo_height: z.number().int().optional().describe('Photo height'),
+	need_name: z
+		.boolean()
+		.optional()
+		.describe(
+			"Pass True if you require the user's full name to complete the order. Ignored for payments in Telegram Stars.",
+		),
+	need_phone_number: z
+		.boolean()
+		.optional()
+		.describe(
+			"Pass True if you require the user's phone number to complete the order. Ignored for payments in Telegram Stars.",
+		),
+	need_email: z
+		.boolean()
+		.optional()
+		.describe(
+			"Pass True if you require the user's email address to complete the order. Ignored for payments in Telegram Stars.",
+		),
+	need_shipping_address: z
+		.boolean()
+		.optional()
+		.describe(
+			"Pass True if you require the user's shipping address to complete the order. Ignored for payments in Telegram Stars.",
+		),
+	send_phone_number_to_provider: z
+		.boolean()
+		.optional()
+		.describe(
+			"Pass True if the user's phone number should be sent to the provider. Ignored for payments in Telegram Stars.",
+		),
+	send_email_to_provider: z
+		.boolean()
+		.optional()
+		.describe(
+			"Pass True if the user's email address should be sent to the provider. Ignored for payments in Telegram Stars.",
+		),
+	is_flexible: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True if the final price depends on the shipping method. Ignored for payments in Telegram Stars.',
+		),
+})
+
+export type InputInvoiceMessageContent = z.infer<
+	typeof InputInvoiceMessageContentSchema
+>
+
+/**
+ * This object represents the content of a message to be sent as a result of an inline query. Telegram clients currently support the following 5 types:
+ */
+export const InputMessageContentSchema = z.union([
+	InputTextMessageContentSchema,
+	InputLocationMessageContentSchema,
+	InputVenueMessageContentSchema,
+	InputContactMessageContentSchema,
+	InputInvoiceMessageContentSchema,
+])
+
+export type InputMessageContent = z.infer<typeof InputMessageContentSchema>
+
+/**
+ * Represents a link to an MP3 audio file stored on the Telegram servers. By default, this audio file will be sent by the user. Alternatively, you can use input_message_content to send a message with the specified content instead of the audio.
+ */
+export const InlineQueryResultCachedAudioSchema = z.object({
+	type: z.literal('audio').describe('Type of the result, must be audio'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	audio_file_id: z
+		.string()
+		.describe('A valid file identifier for the audio file'),
+	caption: z
+		.string()
+		.optional()
+		.describe('Caption, 0-1024 characters after entities parsing'),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the audio caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the audio',
+	),
+})
+
+export type InlineQueryResultCachedAudio = z.infer<
+	typeof InlineQueryResultCachedAudioSchema
+>
+
+/**
+ * Represents a link to a file stored on the Telegram servers. By default, this file will be sent by the user with an optional caption. Alternatively, you can use input_message_content to send a message with the specified content instead of the file.
+ */
+export const InlineQueryResultCachedDocumentSchema = z.object({
+	type: z.literal('document').describe('Type of the result, must be document'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	title: z.string().describe('Title for the result'),
+	document_file_id: z.string().describe('A valid file identifier for the file'),
+	description: z
+		.string()
+		.optional()
+		.describe('Short description of the result'),
+	caption: z
+		.string()
+		.optional()
+		.describe(
+			'Caption of the document to be sent, 0-1024 characters after entities parsing',
+		),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the document caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the file',
+	),
+})
+
+export type InlineQueryResultCachedDocument = z.infer<
+	typeof InlineQueryResultCachedDocumentSchema
+>
+
+/**
+ * Represents a link to an animated GIF file stored on the Telegram servers. By default, this animated GIF file will be sent by the user with an optional caption. Alternatively, you can use input_message_content to send a message with specified content instead of the animation.
+ */
+export const InlineQueryResultCachedGifSchema = z.object({
+	type: z.literal('gif').describe('Type of the result, must be gif'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	gif_file_id: z.string().describe('A valid file identifier for the GIF file'),
+	title: z.string().optional().describe('Title for the result'),
+	caption: z
+		.string()
+		.optional()
+		.describe(
+			'Caption of the GIF file to be sent, 0-1024 characters after entities parsing',
+		),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	show_caption_above_media: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True, if the caption must be shown above the message media',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the GIF animation',
+	),
+})
+
+export type InlineQueryResultCachedGif = z.infer<
+	typeof InlineQueryResultCachedGifSchema
+>
+
+/**
+ * Represents a link to a video animation (H.264/MPEG-4 AVC video without sound) stored on the Telegram servers. By default, this animated MPEG-4 file will be sent by the user with an optional caption. Alternatively, you can use input_message_content to send a message with the specified content instead of the animation.
+ */
+export const InlineQueryResultCachedMpeg4GifSchema = z.object({
+	type: z.string().describe('Type of the result, must be mpeg4_gif'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	mpeg4_file_id: z
+		.string()
+		.describe('A valid file identifier for the MPEG4 file'),
+	title: z.string().optional().describe('Title for the result'),
+	caption: z
+		.string()
+		.optional()
+		.describe(
+			'Caption of the MPEG-4 file to be sent, 0-1024 characters after entities parsing',
+		),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	show_caption_above_media: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True, if the caption must be shown above the message media',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the video animation',
+	),
+})
+
+export type InlineQueryResultCachedMpeg4Gif = z.infer<
+	typeof InlineQueryResultCachedMpeg4GifSchema
+>
+
+/**
+ * Represents a link to a photo stored on the Telegram servers. By default, this photo will be sent by the user with an optional caption. Alternatively, you can use input_message_content to send a message with the specified content instead of the photo.
+ */
+export const InlineQueryResultCachedPhotoSchema = z.object({
+	type: z.literal('photo').describe('Type of the result, must be photo'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	photo_file_id: z.string().describe('A valid file identifier of the photo'),
+	title: z.string().optional().describe('Title for the result'),
+	description: z
+		.string()
+		.optional()
+		.describe('Short description of the result'),
+	caption: z
+		.string()
+		.optional()
+		.describe(
+			'Caption of the photo to be sent, 0-1024 characters after entities parsing',
+		),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the photo caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	show_caption_above_media: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True, if the caption must be shown above the message media',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the photo',
+	),
+})
+
+export type InlineQueryResultCachedPhoto = z.infer<
+	typeof InlineQueryResultCachedPhotoSchema
+>
+
+/**
+ * Represents a link to a sticker stored on the Telegram servers. By default, this sticker will be sent by the user. Alternatively, you can use input_message_content to send a message with the specified content instead of the sticker.
+ */
+export const InlineQueryResultCachedStickerSchema = z.object({
+	type: z.literal('sticker').describe('Type of the result, must be sticker'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	sticker_file_id: z
+		.string()
+		.describe('A valid file identifier of the sticker'),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the sticker',
+	),
+})
+
+export type InlineQueryResultCachedSticker = z.infer<
+	typeof InlineQueryResultCachedStickerSchema
+>
+
+/**
+ * Represents a link to a video file stored on the Telegram servers. By default, this video file will be sent by the user with an optional caption. Alternatively, you can use input_message_content to send a message with the specified content instead of the video.
+ */
+export const InlineQueryResultCachedVideoSchema = z.object({
+	type: z.literal('video').describe('Type of the result, must be video'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	video_file_id: z
+		.string()
+		.describe('A valid file identifier for the video file'),
+	title: z.string().describe('Title for the result'),
+	description: z
+		.string()
+		.optional()
+		.describe('Short description of the result'),
+	caption: z
+		.string()
+		.optional()
+		.describe(
+			'Caption of the video to be sent, 0-1024 characters after entities parsing',
+		),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the video caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	show_caption_above_media: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True, if the caption must be shown above the message media',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the video',
+	),
+})
+
+export type InlineQueryResultCachedVideo = z.infer<
+	typeof InlineQueryResultCachedVideoSchema
+>
+
+/**
+ * Represents a link to a voice message stored on the Telegram servers. By default, this voice message will be sent by the user. Alternatively, you can use input_message_content to send a message with the specified content instead of the voice message.
+ */
+export const InlineQueryResultCachedVoiceSchema = z.object({
+	type: z.literal('voice').describe('Type of the result, must be voice'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	voice_file_id: z
+		.string()
+		.describe('A valid file identifier for the voice message'),
+	title: z.string().describe('Voice message title'),
+	caption: z
+		.string()
+		.optional()
+		.describe('Caption, 0-1024 characters after entities parsing'),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the voice message caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the voice message',
+	),
+})
+
+export type InlineQueryResultCachedVoice = z.infer<
+	typeof InlineQueryResultCachedVoiceSchema
+>
+
+/**
+ * Represents a link to an article or web page.
+ */
+export const InlineQueryResultArticleSchema = z.object({
+	type: z.literal('article').describe('Type of the result, must be article'),
+	id: z.string().describe('Unique identifier for this result, 1-64 Bytes'),
+	title: z.string().describe('Title of the result'),
+	input_message_content: InputMessageContentSchema.describe(
+		'Content of the message to be sent',
+	),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	url: z.string().optional().describe('URL of the result'),
+	description: z
+		.string()
+		.optional()
+		.describe('Short description of the result'),
+	thumbnail_url: z
+		.string()
+		.optional()
+		.describe('Url of the thumbnail for the result'),
+	thumbnail_width: z.number().int().optional().describe('Thumbnail width'),
+	thumbnail_height: z.number().int().optional().describe('Thumbnail height'),
+})
+
+export type InlineQueryResultArticle = z.infer<
+	typeof InlineQueryResultArticleSchema
+>
+
+/**
+ * Represents a link to an MP3 audio file. By default, this audio file will be sent by the user. Alternatively, you can use input_message_content to send a message with the specified content instead of the audio.
+ */
+export const InlineQueryResultAudioSchema = z.object({
+	type: z.literal('audio').describe('Type of the result, must be audio'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	audio_url: z.string().describe('A valid URL for the audio file'),
+	title: z.string().describe('Title'),
+	caption: z
+		.string()
+		.optional()
+		.describe('Caption, 0-1024 characters after entities parsing'),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the audio caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	performer: z.string().optional().describe('Performer'),
+	audio_duration: z
+		.number()
+		.int()
+		.optional()
+		.describe('Audio duration in seconds'),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the audio',
+	),
+})
+
+export type InlineQueryResultAudio = z.infer<
+	typeof InlineQueryResultAudioSchema
+>
+
+/**
+ * Represents a contact with a phone number. By default, this contact will be sent by the user. Alternatively, you can use input_message_content to send a message with the specified content instead of the contact.
+ */
+export const InlineQueryResultContactSchema = z.object({
+	type: z.literal('contact').describe('Type of the result, must be contact'),
+	id: z.string().describe('Unique identifier for this result, 1-64 Bytes'),
+	phone_number: z.string().describe("Contact's phone number"),
+	first_name: z.string().describe("Contact's first name"),
+	last_name: z.string().optional().describe("Contact's last name"),
+	vcard: z
+		.string()
+		.optional()
+		.describe(
+			'Additional data about the contact in the form of a vCard, 0-2048 bytes',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the contact',
+	),
+	thumbnail_url: z
+		.string()
+		.optional()
+		.describe('Url of the thumbnail for the result'),
+	thumbnail_width: z.number().int().optional().describe('Thumbnail width'),
+	thumbnail_height: z.number().int().optional().describe('Thumbnail height'),
+})
+
+export type InlineQueryResultContact = z.infer<
+	typeof InlineQueryResultContactSchema
+>
+
+/**
+ * Represents a Game.
+ */
+export const InlineQueryResultGameSchema = z.object({
+	type: z.literal('game').describe('Type of the result, must be game'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	game_short_name: z.string().describe('Short name of the game'),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+})
+
+export type InlineQueryResultGame = z.infer<typeof InlineQueryResultGameSchema>
+
+/**
+ * Represents a link to a file. By default, this file will be sent by the user with an optional caption. Alternatively, you can use input_message_content to send a message with the specified content instead of the file. Currently, only .PDF and .ZIP files can be sent using this method.
+ */
+export const InlineQueryResultDocumentSchema = z.object({
+	type: z.literal('document').describe('Type of the result, must be document'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	title: z.string().describe('Title for the result'),
+	caption: z
+		.string()
+		.optional()
+		.describe(
+			'Caption of the document to be sent, 0-1024 characters after entities parsing',
+		),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the document caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	document_url: z.string().describe('A valid URL for the file'),
+	mime_type: z
+		.string()
+		.describe(
+			'MIME type of the content of the file, either “application/pdf” or “application/zip”',
+		),
+	description: z
+		.string()
+		.optional()
+		.describe('Short description of the result'),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the file',
+	),
+	thumbnail_url: z
+		.string()
+		.optional()
+		.describe('URL of the thumbnail (JPEG only) for the file'),
+	thumbnail_width: z.number().int().optional().describe('Thumbnail width'),
+	thumbnail_height: z.number().int().optional().describe('Thumbnail height'),
+})
+
+export type InlineQueryResultDocument = z.infer<
+	typeof InlineQueryResultDocumentSchema
+>
+
+/**
+ * Represents a link to an animated GIF file. By default, this animated GIF file will be sent by the user with optional caption. Alternatively, you can use input_message_content to send a message with the specified content instead of the animation.
+ */
+export const InlineQueryResultGifSchema = z.object({
+	type: z.literal('gif').describe('Type of the result, must be gif'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	gif_url: z.string().describe('A valid URL for the GIF file'),
+	gif_width: z.number().int().optional().describe('Width of the GIF'),
+	gif_height: z.number().int().optional().describe('Height of the GIF'),
+	gif_duration: z
+		.number()
+		.int()
+		.optional()
+		.describe('Duration of the GIF in seconds'),
+	thumbnail_url: z
+		.string()
+		.describe(
+			'URL of the static (JPEG or GIF) or animated (MPEG4) thumbnail for the result',
+		),
+	thumbnail_mime_type: z
+		.string()
+		.optional()
+		.describe(
+			'MIME type of the thumbnail, must be one of “image/jpeg”, “image/gif”, or “video/mp4”. Defaults to “image/jpeg”',
+		),
+	title: z.string().optional().describe('Title for the result'),
+	caption: z
+		.string()
+		.optional()
+		.describe(
+			'Caption of the GIF file to be sent, 0-1024 characters after entities parsing',
+		),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	show_caption_above_media: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True, if the caption must be shown above the message media',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the GIF animation',
+	),
+})
+
+export type InlineQueryResultGif = z.infer<typeof InlineQueryResultGifSchema>
+
+/**
+ * Represents a location on a map. By default, the location will be sent by the user. Alternatively, you can use input_message_content to send a message with the specified content instead of the location.
+ */
+export const InlineQueryResultLocationSchema = z.object({
+	type: z.literal('location').describe('Type of the result, must be location'),
+	id: z.string().describe('Unique identifier for this result, 1-64 Bytes'),
+	latitude: z.number().describe('Location latitude in degrees'),
+	longitude: z.number().describe('Location longitude in degrees'),
+	title: z.string().describe('Location title'),
+	horizontal_accuracy: z
+		.number()
+		.optional()
+		.describe(
+			'The radius of uncertainty for the location, measured in meters; 0-1500',
+		),
+	live_period: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Period in seconds during which the location can be updated, should be between 60 and 86400, or 0x7FFFFFFF for live locations that can be edited indefinitely.',
+		),
+	heading: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'For live locations, a direction in which the user is moving, in degrees. Must be between 1 and 360 if specified.',
+		),
+	proximity_alert_radius: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'For live locations, a maximum distance for proximity alerts about approaching another chat member, in meters. Must be between 1 and 100000 if specified.',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the location',
+	),
+	thumbnail_url: z
+		.string()
+		.optional()
+		.describe('Url of the thumbnail for the result'),
+	thumbnail_width: z.number().int().optional().describe('Thumbnail width'),
+	thumbnail_height: z.number().int().optional().describe('Thumbnail height'),
+})
+
+export type InlineQueryResultLocation = z.infer<
+	typeof InlineQueryResultLocationSchema
+>
+
+/**
+ * Represents a link to a video animation (H.264/MPEG-4 AVC video without sound). By default, this animated MPEG-4 file will be sent by the user with optional caption. Alternatively, you can use input_message_content to send a message with the specified content instead of the animation.
+ */
+export const InlineQueryResultMpeg4GifSchema = z.object({
+	type: z.string().describe('Type of the result, must be mpeg4_gif'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	mpeg4_url: z.string().describe('A valid URL for the MPEG4 file'),
+	mpeg4_width: z.number().int().optional().describe('Video width'),
+	mpeg4_height: z.number().int().optional().describe('Video height'),
+	mpeg4_duration: z
+		.number()
+		.int()
+		.optional()
+		.describe('Video duration in seconds'),
+	thumbnail_url: z
+		.string()
+		.describe(
+			'URL of the static (JPEG or GIF) or animated (MPEG4) thumbnail for the result',
+		),
+	thumbnail_mime_type: z
+		.string()
+		.optional()
+		.describe(
+			'MIME type of the thumbnail, must be one of “image/jpeg”, “image/gif”, or “video/mp4”. Defaults to “image/jpeg”',
+		),
+	title: z.string().optional().describe('Title for the result'),
+	caption: z
+		.string()
+		.optional()
+		.describe(
+			'Caption of the MPEG-4 file to be sent, 0-1024 characters after entities parsing',
+		),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	show_caption_above_media: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True, if the caption must be shown above the message media',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the video animation',
+	),
+})
+
+export type InlineQueryResultMpeg4Gif = z.infer<
+	typeof InlineQueryResultMpeg4GifSchema
+>
+
+/**
+ * Represents a link to a photo. By default, this photo will be sent by the user with optional caption. Alternatively, you can use input_message_content to send a message with the specified content instead of the photo.
+ */
+export const InlineQueryResultPhotoSchema = z.object({
+	type: z.literal('photo').describe('Type of the result, must be photo'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	photo_url: z
+		.string()
+		.describe(
+			'A valid URL of the photo. Photo must be in JPEG format. Photo size must not exceed 5MB',
+		),
+	thumbnail_url: z.string().describe('URL of the thumbnail for the photo'),
+	photo_width: z.number().int().optional().describe('Width of the photo'),
+	photo_height: z.number().int().optional().describe('Height of the photo'),
+	title: z.string().optional().describe('Title for the result'),
+	description: z
+		.string()
+		.optional()
+		.describe('Short description of the result'),
+	caption: z
+		.string()
+		.optional()
+		.describe(
+			'Caption of the photo to be sent, 0-1024 characters after entities parsing',
+		),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the photo caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	show_caption_above_media: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True, if the caption must be shown above the message media',
+		),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the photo',
+	),
+})
+
+export type InlineQueryResultPhoto = z.infer<
+	typeof InlineQueryResultPhotoSchema
+>
+
+/**
+ * Represents a venue. By default, the venue will be sent by the user. Alternatively, you can use input_message_content to send a message with the specified content instead of the venue.
+ */
+export const InlineQueryResultVenueSchema = z.object({
+	type: z.literal('venue').describe('Type of the result, must be venue'),
+	id: z.string().describe('Unique identifier for this result, 1-64 Bytes'),
+	latitude: z.number().describe('Latitude of the venue location in degrees'),
+	longitude: z.number().describe('Longitude of the venue location in degrees'),
+	title: z.string().describe('Title of the venue'),
+	address: z.string().describe('Address of the venue'),
+	foursquare_id: z
+		.string()
+		.optional()
+		.describe('Foursquare identifier of the venue if known'),
+	foursquare_type: z
+		.string()
+		.optional()
+		.describe(
+			'Foursquare type of the venue, if known. (For example, “arts_entertainment/default”, “arts_entertainment/aquarium” or “food/icecream”.)',
+		),
+	google_place_id: z
+		.string()
+		.optional()
+		.describe('Google Places identifier of the venue'),
+	google_place_type: z
+		.string()
+		.optional()
+		.describe('Google Places type of the venue. (See supported types.)'),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the venue',
+	),
+	thumbnail_url: z
+		.string()
+		.optional()
+		.describe('Url of the thumbnail for the result'),
+	thumbnail_width: z.number().int().optional().describe('Thumbnail width'),
+	thumbnail_height: z.number().int().optional().describe('Thumbnail height'),
+})
+
+export type InlineQueryResultVenue = z.infer<
+	typeof InlineQueryResultVenueSchema
+>
+
+/**
+ * Represents a link to a page containing an embedded video player or a video file. By default, this video file will be sent by the user with an optional caption. Alternatively, you can use input_message_content to send a message with the specified content instead of the video.
+ * If an InlineQueryResultVideo message contains an embedded video (e.g., YouTube), you must replace its content using input_message_content.
+ */
+export const InlineQueryResultVideoSchema = z.object({
+	type: z.literal('video').describe('Type of the result, must be video'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	video_url: z
+		.string()
+		.describe('A valid URL for the embedded video player or video file'),
+	mime_type: z
+		.string()
+		.describe(
+			'MIME type of the content of the video URL, “text/html” or “video/mp4”',
+		),
+	thumbnail_url: z
+		.string()
+		.describe('URL of the thumbnail (JPEG only) for the video'),
+	title: z.string().describe('Title for the result'),
+	caption: z
+		.string()
+		.optional()
+		.describe(
+			'Caption of the video to be sent, 0-1024 characters after entities parsing',
+		),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the video caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	show_caption_above_media: z
+		.boolean()
+		.optional()
+		.describe(
+			'Pass True, if the caption must be shown above the message media',
+		),
+	video_width: z.number().int().optional().describe('Video width'),
+	video_height: z.number().int().optional().describe('Video height'),
+	video_duration: z
+		.number()
+		.int()
+		.optional()
+		.describe('Video duration in seconds'),
+	description: z
+		.string()
+		.optional()
+		.describe('Short description of the result'),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the video. This field is required if InlineQueryResultVideo is used to send an HTML-page as a result (e.g., a YouTube video).',
+	),
+})
+
+export type InlineQueryResultVideo = z.infer<
+	typeof InlineQueryResultVideoSchema
+>
+
+/**
+ * Represents a link to a voice recording in an .OGG container encoded with OPUS. By default, this voice recording will be sent by the user. Alternatively, you can use input_message_content to send a message with the specified content instead of the the voice message.
+ */
+export const InlineQueryResultVoiceSchema = z.object({
+	type: z.literal('voice').describe('Type of the result, must be voice'),
+	id: z.string().describe('Unique identifier for this result, 1-64 bytes'),
+	voice_url: z.string().describe('A valid URL for the voice recording'),
+	title: z.string().describe('Recording title'),
+	caption: z
+		.string()
+		.optional()
+		.describe('Caption, 0-1024 characters after entities parsing'),
+	parse_mode: z
+		.string()
+		.optional()
+		.describe(
+			'Mode for parsing entities in the voice message caption. See formatting options for more details.',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'List of special entities that appear in the caption, which can be specified instead of parse_mode',
+		),
+	voice_duration: z
+		.number()
+		.int()
+		.optional()
+		.describe('Recording duration in seconds'),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+	input_message_content: InputMessageContentSchema.optional().describe(
+		'Content of the message to be sent instead of the voice recording',
+	),
+})
+
+export type InlineQueryResultVoice = z.infer<
+	typeof InlineQueryResultVoiceSchema
+>
+
+/**
+ * This object represents one result of an inline query. Telegram clients currently support results of the following 20 types:
+ */
+export const InlineQueryResultSchema = z.union([
+	InlineQueryResultCachedAudioSchema,
+	InlineQueryResultCachedDocumentSchema,
+	InlineQueryResultCachedGifSchema,
+	InlineQueryResultCachedMpeg4GifSchema,
+	InlineQueryResultCachedPhotoSchema,
+	InlineQueryResultCachedStickerSchema,
+	InlineQueryResultCachedVideoSchema,
+	InlineQueryResultCachedVoiceSchema,
+	InlineQueryResultArticleSchema,
+	InlineQueryResultAudioSchema,
+	InlineQueryResultContactSchema,
+	InlineQueryResultGameSchema,
+	InlineQueryResultDocumentSchema,
+	InlineQueryResultGifSchema,
+	InlineQueryResultLocationSchema,
+	InlineQueryResultMpeg4GifSchema,
+	InlineQueryResultPhotoSchema,
+	InlineQueryResultVenueSchema,
+	InlineQueryResultVideoSchema,
+	InlineQueryResultVoiceSchema,
+])
+
+export type InlineQueryResult = z.infer<typeof InlineQueryResultSchema>
+
+/**
+ * Describes an inline message sent by a Web App on behalf of a user.
+ */
+export const SentWebAppMessageSchema = z.object({
+	inline_message_id: z
+		.string()
+		.optional()
+		.describe(
+			'Identifier of the sent inline message. Available only if there is an inline keyboard attached to the message.',
+		),
+})
+
+export type SentWebAppMessage = z.infer<typeof SentWebAppMessageSchema>
+
+/**
+ * Describes an inline message to be sent by a user of a Mini App.
+ */
+export const PreparedInlineMessageSchema = z.object({
+	id: z.string().describe('Unique identifier of the prepared message'),
+	expiration_date: z
+		.number()
+		.int()
+		.describe(
+			'Expiration date of the prepared message, in Unix time. Expired prepared messages can no longer be used',
+		),
+})
+
+export type PreparedInlineMessage = z.infer<typeof PreparedInlineMessageSchema>
+
+/**
+ * This object represents one shipping option.
+ */
+export const ShippingOptionSchema = z.object({
+	id: z.string().describe('Shipping option identifier'),
+	title: z.string().describe('Option title'),
+	prices: z.array(LabeledPriceSchema).describe('List of price portions'),
+})
+
+export type ShippingOption = z.infer<typeof ShippingOptionSchema>
+
+/**
+ * The withdrawal is in progress.
+ */
+export const RevenueWithdrawalStatePendingSchema = z.object({
+	type: z.literal('pending').describe('Type of the state, always “pending”'),
+})
+
+export type RevenueWithdrawalStatePending = z.infer<
+	typeof RevenueWithdrawalStatePendingSchema
+>
+
+/**
+ * The withdrawal succeeded.
+ */
+export const RevenueWithdrawalStateSucceededSchema = z.object({
+	type: z
+		.literal('succeeded')
+		.describe('Type of the state, always “succeeded”'),
+	date: z
+		.number()
+		.int()
+		.describe('Date the withdrawal was completed in Unix time'),
+	url: z
+		.string()
+		.describe('An HTTPS URL that can be used to see transaction details'),
+})
+
+export type RevenueWithdrawalStateSucceeded = z.infer<
+	typeof RevenueWithdrawalStateSucceededSchema
+>
+
+/**
+ * The withdrawal failed and the transaction was refunded.
+ */
+export const RevenueWithdrawalStateFailedSchema = z.object({
+	type: z.literal('failed').describe('Type of the state, always “failed”'),
+})
+
+export type RevenueWithdrawalStateFailed = z.infer<
+	typeof RevenueWithdrawalStateFailedSchema
+>
+
+/**
+ * This object describes the state of a revenue withdrawal operation. Currently, it can be one of
+ */
+export const RevenueWithdrawalStateSchema = z.union([
+	RevenueWithdrawalStatePendingSchema,
+	RevenueWithdrawalStateSucceededSchema,
+	RevenueWithdrawalStateFailedSchema,
+])
+
+export type RevenueWithdrawalState = z.infer<
+	typeof RevenueWithdrawalStateSchema
+>
+
+/**
+ * Contains information about the affiliate that received a commission via this transaction.
+ */
+export const AffiliateInfoSchema = z.object({
+	affiliate_user: UserSchema.optional().describe(
+		'The bot or the user that received an affiliate commission if it was received by a bot or a user',
+	),
+	affiliate_chat: ChatSchema.optional().describe(
+		'The chat that received an affiliate commission if it was received by a chat',
+	),
+	commission_per_mille: z
+		.number()
+		.int()
+		.describe(
+			'The number of Telegram Stars received by the affiliate for each 1000 Telegram Stars received by the bot from referred users',
+		),
+	amount: z
+		.number()
+		.int()
+		.describe(
+			'Integer amount of Telegram Stars received by the affiliate from the transaction, rounded to 0; can be negative for refunds',
+		),
+	nanostar_amount: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of 1/1000000000 shares of Telegram Stars received by the affiliate; from -999999999 to 999999999; can be negative for refunds',
+		),
+})
+
+export type AffiliateInfo = z.infer<typeof AffiliateInfoSchema>
+
+/**
+ * Describes a transaction with a user.
+ */
+export const TransactionPartnerUserSchema = z.object({
+	type: z
+		.literal('user')
+		.describe('Type of the transaction partner, always “user”'),
+	transaction_type: z
+		.string()
+		.describe(
+			'Type of the transaction, currently one of “invoice_payment” for payments via invoices, “paid_media_payment” for payments for paid media, “gift_purchase” for gifts sent by the bot, “premium_purchase” for Telegram Premium subscriptions gifted by the bot, “business_account_transfer” for direct transfers from managed business accounts',
+		),
+	user: UserSchema.describe('Information about the user'),
+	affiliate: AffiliateInfoSchema.optional().describe(
+		'Information about the affiliate that received a commission via this transaction. Can be available only for “invoice_payment” and “paid_media_payment” transactions.',
+	),
+	invoice_payload: z
+		.string()
+		.optional()
+		.describe(
+			'Bot-specified invoice payload. Can be available only for “invoice_payment” transactions.',
+		),
+	subscription_period: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The duration of the paid subscription. Can be available only for “invoice_payment” transactions.',
+		),
+	paid_media: z
+		.array(PaidMediaSchema)
+		.optional()
+		.describe(
+			'Information about the paid media bought by the user; for “paid_media_payment” transactions only',
+		),
+	paid_media_payload: z
+		.string()
+		.optional()
+		.describe(
+			'Bot-specified paid media payload. Can be available only for “paid_media_payment” transactions.',
+		),
+	gift: GiftSchema.optional().describe(
+		'The gift sent to the user by the bot; for “gift_purchase” transactions only',
+	),
+	premium_subscription_duration: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Number of months the gifted Telegram Premium subscription will be active for; for “premium_purchase” transactions only',
+		),
+})
+
+export type TransactionPartnerUser = z.infer<
+	typeof TransactionPartnerUserSchema
+>
+
+/**
+ * Describes a transaction with a chat.
+ */
+export const TransactionPartnerChatSchema = z.object({
+	type: z
+		.literal('chat')
+		.describe('Type of the transaction partner, always “chat”'),
+	chat: ChatSchema.describe('Information about the chat'),
+	gift: GiftSchema.optional().describe('The gift sent to the chat by the bot'),
+})
+
+export type TransactionPartnerChat = z.infer<
+	typeof TransactionPartnerChatSchema
+>
+
+/**
+ * Describes the affiliate program that issued the affiliate commission received via this transaction.
+ */
+export const TransactionPartnerAffiliateProgramSchema = z.object({
+	type: z
+		.literal('affiliate_program')
+		.describe('Type of the transaction partner, always “affiliate_program”'),
+	sponsor_user: UserSchema.optional().describe(
+		'Information about the bot that sponsored the affiliate program',
+	),
+	commission_per_mille: z
+		.number()
+		.int()
+		.describe(
+			'The number of Telegram Stars received by the bot for each 1000 Telegram Stars received by the affiliate program sponsor from referred users',
+		),
+})
+
+export type TransactionPartnerAffiliateProgram = z.infer<
+	typeof TransactionPartnerAffiliateProgramSchema
+>
+
+/**
+ * Describes a withdrawal transaction with Fragment.
+ */
+export const TransactionPartnerFragmentSchema = z.object({
+	type: z
+		.literal('fragment')
+		.describe('Type of the transaction partner, always “fragment”'),
+	withdrawal_state: RevenueWithdrawalStateSchema.optional().describe(
+		'State of the transaction if the transaction is outgoing',
+	),
+})
+
+export type TransactionPartnerFragment = z.infer<
+	typeof TransactionPartnerFragmentSchema
+>
+
+/**
+ * Describes a withdrawal transaction to the Telegram Ads platform.
+ */
+export const TransactionPartnerTelegramAdsSchema = z.object({
+	type: z
+		.literal('telegram_ads')
+		.describe('Type of the transaction partner, always “telegram_ads”'),
+})
+
+export type TransactionPartnerTelegramAds = z.infer<
+	typeof TransactionPartnerTelegramAdsSchema
+>
+
+/**
+ * Describes a transaction with payment for paid broadcasting.
+ */
+export const TransactionPartnerTelegramApiSchema = z.object({
+	type: z
+		.literal('telegram_api')
+		.describe('Type of the transaction partner, always “telegram_api”'),
+	request_count: z
+		.number()
+		.int()
+		.describe(
+			'The number of successful requests that exceeded regular limits and were therefore billed',
+		),
+})
+
+export type TransactionPartnerTelegramApi = z.infer<
+	typeof TransactionPartnerTelegramApiSchema
+>
+
+/**
+ * Describes a transaction with an unknown source or recipient.
+ */
+export const TransactionPartnerOtherSchema = z.object({
+	type: z
+		.literal('other')
+		.describe('Type of the transaction partner, always “other”'),
+})
+
+export type TransactionPartnerOther = z.infer<
+	typeof TransactionPartnerOtherSchema
+>
+
+/**
+ * This object describes the source of a transaction, or its recipient for outgoing transactions. Currently, it can be one of
+ */
+export const TransactionPartnerSchema = z.union([
+	TransactionPartnerUserSchema,
+	TransactionPartnerChatSchema,
+	TransactionPartnerAffiliateProgramSchema,
+	TransactionPartnerFragmentSchema,
+	TransactionPartnerTelegramAdsSchema,
+	TransactionPartnerTelegramApiSchema,
+	TransactionPartnerOtherSchema,
+])
+
+export type TransactionPartner = z.infer<typeof TransactionPartnerSchema>
+
+/**
+ * Describes a Telegram Star transaction. Note that if the buyer initiates a chargeback with the payment provider from whom they acquired Stars (e.g., Apple, Google) following this transaction, the refunded Stars will be deducted from the bot's balance. This is outside of Telegram's control.
+ */
+export const StarTransactionSchema = z.object({
+	id: z
+		.string()
+		.describe(
+			'Unique identifier of the transaction. Coincides with the identifier of the original transaction for refund transactions. Coincides with SuccessfulPayment.telegram_payment_charge_id for successful incoming payments from users.',
+		),
+	amount: z
+		.number()
+		.int()
+		.describe(
+			'Integer amount of Telegram Stars transferred by the transaction',
+		),
+	nanostar_amount: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of 1/1000000000 shares of Telegram Stars transferred by the transaction; from 0 to 999999999',
+		),
+	date: z
+		.number()
+		.int()
+		.describe('Date the transaction was created in Unix time'),
+	source: TransactionPartnerSchema.optional().describe(
+		'Source of an incoming transaction (e.g., a user purchasing goods or services, Fragment refunding a failed withdrawal). Only for incoming transactions',
+	),
+	receiver: TransactionPartnerSchema.optional().describe(
+		'Receiver of an outgoing transaction (e.g., a user for a purchase refund, Fragment for a withdrawal). Only for outgoing transactions',
+	),
+})
+
+export type StarTransaction = z.infer<typeof StarTransactionSchema>
+
+/**
+ * Contains a list of Telegram Star transactions.
+ */
+export const StarTransactionsSchema = z.object({
+	transactions: z
+		.array(StarTransactionSchema)
+		.describe('The list of transactions'),
+})
+
+export type StarTransactions = z.infer<typeof StarTransactionsSchema>
+
+/**
+ * This object represents a file uploaded to Telegram Passport. Currently all Telegram Passport files are in JPEG format when decrypted and don't exceed 10MB.
+ */
+export const PassportFileSchema = z.object({
+	file_id: z
+		.string()
+		.describe(
+			'Identifier for this file, which can be used to download or reuse the file',
+		),
+	file_unique_id: z
+		.string()
+		.describe(
+			"Unique identifier for this file, which is supposed to be the same over time and for different bots. Can't be used to download or reuse the file.",
+		),
+	file_size: z.number().int().describe('File size in bytes'),
+	file_date: z.number().int().describe('Unix time when the file was uploaded'),
+})
+
+export type PassportFile = z.infer<typeof PassportFileSchema>
+
+/**
+ * Describes documents or other Telegram Passport elements shared with the bot by the user.
+ */
+export const EncryptedPassportElementSchema = z.object({
+	type: z
+		.string()
+		.describe(
+			'Element type. One of “personal_details”, “passport”, “driver_license”, “identity_card”, “internal_passport”, “address”, “utility_bill”, “bank_statement”, “rental_agreement”, “passport_registration”, “temporary_registration”, “phone_number”, “email”.',
+		),
+	data: z
+		.string()
+		.optional()
+		.describe(
+			'Base64-encoded encrypted Telegram Passport element data provided by the user; available only for “personal_details”, “passport”, “driver_license”, “identity_card”, “internal_passport” and “address” types. Can be decrypted and verified using the accompanying EncryptedCredentials.',
+		),
+	phone_number: z
+		.string()
+		.optional()
+		.describe(
+			"User's verified phone number; available only for “phone_number” type",
+		),
+	email: z
+		.string()
+		.optional()
+		.describe("User's verified email address; available only for “email” type"),
+	files: z
+		.array(PassportFileSchema)
+		.optional()
+		.describe(
+			'Array of encrypted files with documents provided by the user; available only for “utility_bill”, “bank_statement”, “rental_agreement”, “passport_registration” and “temporary_registration” types. Files can be decrypted and verified using the accompanying EncryptedCredentials.',
+		),
+	front_side: PassportFileSchema.optional().describe(
+		'Encrypted file with the front side of the document, provided by the user; available only for “passport”, “driver_license”, “identity_card” and “internal_passport”. The file can be decrypted and verified using the accompanying EncryptedCredentials.',
+	),
+	reverse_side: PassportFileSchema.optional().describe(
+		'Encrypted file with the reverse side of the document, provided by the user; available only for “driver_license” and “identity_card”. The file can be decrypted and verified using the accompanying EncryptedCredentials.',
+	),
+	selfie: PassportFileSchema.optional().describe(
+		'Encrypted file with the selfie of the user holding a document, provided by the user; available if requested for “passport”, “driver_license”, “identity_card” and “internal_passport”. The file can be decrypted and verified using the accompanying EncryptedCredentials.',
+	),
+	translation: z
+		.array(PassportFileSchema)
+		.optional()
+		.describe(
+			'Array of encrypted files with translated versions of documents provided by the user; available if requested for “passport”, “driver_license”, “identity_card”, “internal_passport”, “utility_bill”, “bank_statement”, “rental_agreement”, “passport_registration” and “temporary_registration” types. Files can be decrypted and verified using the accompanying EncryptedCredentials.',
+		),
+	hash: z
+		.string()
+		.describe(
+			'Base64-encoded element hash for using in PassportElementErrorUnspecified',
+		),
+})
+
+export type EncryptedPassportElement = z.infer<
+	typeof EncryptedPassportElementSchema
+>
+
+/**
+ * Describes data required for decrypting and authenticating EncryptedPassportElement. See the Telegram Passport Documentation for a complete description of the data decryption and authentication processes.
+ */
+export const EncryptedCredentialsSchema = z.object({
+	data: z
+		.string()
+		.describe(
+			"Base64-encoded encrypted JSON-serialized data with unique user's payload, data hashes and secrets required for EncryptedPassportElement decryption and authentication",
+		),
+	hash: z.string().describe('Base64-encoded data hash for data authentication'),
+	secret: z
+		.string()
+		.describe(
+			"Base64-encoded secret, encrypted with the bot's public RSA key, required for data decryption",
+		),
+})
+
+export type EncryptedCredentials = z.infer<typeof EncryptedCredentialsSchema>
+
+/**
+ * Describes Telegram Passport data shared with the bot by the user.
+ */
+export const PassportDataSchema = z.object({
+	data: z
+		.array(EncryptedPassportElementSchema)
+		.describe(
+			'Array with information about documents and other Telegram Passport elements that was shared with the bot',
+		),
+	credentials: EncryptedCredentialsSchema.describe(
+		'Encrypted credentials required to decrypt the data',
+	),
+})
+
+export type PassportData = z.infer<typeof PassportDataSchema>
+
+/**
+ * Represents an issue in one of the data fields that was provided by the user. The error is considered resolved when the field's value changes.
+ */
+export const PassportElementErrorDataFieldSchema = z.object({
+	source: z.literal('data').describe('Error source, must be data'),
+	type: z
+		.string()
+		.describe(
+			"The section of the user's Telegram Passport which has the error, one of “personal_details”, “passport”, “driver_license”, “identity_card”, “internal_passport”, “address”",
+		),
+	field_name: z.string().describe('Name of the data field which has the error'),
+	data_hash: z.string().describe('Base64-encoded data hash'),
+	message: z.string().describe('Error message'),
+})
+
+export type PassportElementErrorDataField = z.infer<
+	typeof PassportElementErrorDataFieldSchema
+>
+
+/**
+ * Represents an issue with the front side of a document. The error is considered resolved when the file with the front side of the document changes.
+ */
+export const PassportElementErrorFrontSideSchema = z.object({
+	source: z.literal('front_side').describe('Error source, must be front_side'),
+	type: z
+		.string()
+		.describe(
+			"The section of the user's Telegram Passport which has the issue, one of “passport”, “driver_license”, “identity_card”, “internal_passport”",
+		),
+	file_hash: z
+		.string()
+		.describe(
+			'Base64-encoded hash of the file with the front side of the document',
+		),
+	message: z.string().describe('Error message'),
+})
+
+export type PassportElementErrorFrontSide = z.infer<
+	typeof PassportElementErrorFrontSideSchema
+>
+
+/**
+ * Represents an issue with the reverse side of a document. The error is considered resolved when the file with reverse side of the document changes.
+ */
+export const PassportElementErrorReverseSideSchema = z.object({
+	source: z
+		.literal('reverse_side')
+		.describe('Error source, must be reverse_side'),
+	type: z
+		.string()
+		.describe(
+			"The section of the user's Telegram Passport which has the issue, one of “driver_license”, “identity_card”",
+		),
+	file_hash: z
+		.string()
+		.describe(
+			'Base64-encoded hash of the file with the reverse side of the document',
+		),
+	message: z.string().describe('Error message'),
+})
+
+export type PassportElementErrorReverseSide = z.infer<
+	typeof PassportElementErrorReverseSideSchema
+>
+
+/**
+ * Represents an issue with the selfie with a document. The error is considered resolved when the file with the selfie changes.
+ */
+export const PassportElementErrorSelfieSchema = z.object({
+	source: z.literal('selfie').describe('Error source, must be selfie'),
+	type: z
+		.string()
+		.describe(
+			"The section of the user's Telegram Passport which has the issue, one of “passport”, “driver_license”, “identity_card”, “internal_passport”",
+		),
+	file_hash: z
+		.string()
+		.describe('Base64-encoded hash of the file with the selfie'),
+	message: z.string().describe('Error message'),
+})
+
+export type PassportElementErrorSelfie = z.infer<
+	typeof PassportElementErrorSelfieSchema
+>
+
+/**
+ * Represents an issue with a document scan. The error is considered resolved when the file with the document scan changes.
+ */
+export const PassportElementErrorFileSchema = z.object({
+	source: z.literal('file').describe('Error source, must be file'),
+	type: z
+		.string()
+		.describe(
+			"The section of the user's Telegram Passport which has the issue, one of “utility_bill”, “bank_statement”, “rental_agreement”, “passport_registration”, “temporary_registration”",
+		),
+	file_hash: z.string().describe('Base64-encoded file hash'),
+	message: z.string().describe('Error message'),
+})
+
+export type PassportElementErrorFile = z.infer<
+	typeof PassportElementErrorFileSchema
+>
+
+/**
+ * Represents an issue with a list of scans. The error is considered resolved when the list of files containing the scans changes.
+ */
+export const PassportElementErrorFilesSchema = z.object({
+	source: z.literal('files').describe('Error source, must be files'),
+	type: z
+		.string()
+		.describe(
+			"The section of the user's Telegram Passport which has the issue, one of “utility_bill”, “bank_statement”, “rental_agreement”, “passport_registration”, “temporary_registration”",
+		),
+	file_hashes: z
+		.array(z.string())
+		.describe('List of base64-encoded file hashes'),
+	message: z.string().describe('Error message'),
+})
+
+export type PassportElementErrorFiles = z.infer<
+	typeof PassportElementErrorFilesSchema
+>
+
+/**
+ * Represents an issue with one of the files that constitute the translation of a document. The error is considered resolved when the file changes.
+ */
+export const PassportElementErrorTranslationFileSchema = z.object({
+	source: z
+		.literal('translation_file')
+		.describe('Error source, must be translation_file'),
+	type: z
+		.string()
+		.describe(
+			"Type of element of the user's Telegram Passport which has the issue, one of “passport”, “driver_license”, “identity_card”, “internal_passport”, “utility_bill”, “bank_statement”, “rental_agreement”, “passport_registration”, “temporary_registration”",
+		),
+	file_hash: z.string().describe('Base64-encoded file hash'),
+	message: z.string().describe('Error message'),
+})
+
+export type PassportElementErrorTranslationFile = z.infer<
+	typeof PassportElementErrorTranslationFileSchema
+>
+
+/**
+ * Represents an issue with the translated version of a document. The error is considered resolved when a file with the document translation change.
+ */
+export const PassportElementErrorTranslationFilesSchema = z.object({
+	source: z
+		.literal('translation_files')
+		.describe('Error source, must be translation_files'),
+	type: z
+		.string()
+		.describe(
+			"Type of element of the user's Telegram Passport which has the issue, one of “passport”, “driver_license”, “identity_card”, “internal_passport”, “utility_bill”, “bank_statement”, “rental_agreement”, “passport_registration”, “temporary_registration”",
+		),
+	file_hashes: z
+		.array(z.string())
+		.describe('List of base64-encoded file hashes'),
+	message: z.string().describe('Error message'),
+})
+
+export type PassportElementErrorTranslationFiles = z.infer<
+	typeof PassportElementErrorTranslationFilesSchema
+>
+
+/**
+ * Represents an issue in an unspecified place. The error is considered resolved when new data is added.
+ */
+export const PassportElementErrorUnspecifiedSchema = z.object({
+	source: z
+		.literal('unspecified')
+		.describe('Error source, must be unspecified'),
+	type: z
+		.string()
+		.describe(
+			"Type of element of the user's Telegram Passport which has the issue",
+		),
+	element_hash: z.string().describe('Base64-encoded element hash'),
+	message: z.string().describe('Error message'),
+})
+
+export type PassportElementErrorUnspecified = z.infer<
+	typeof PassportElementErrorUnspecifiedSchema
+>
+
+/**
+ * This object represents an error in the Telegram Passport element which was submitted that should be resolved by the user. It should be one of:
+ */
+export const PassportElementErrorSchema = z.union([
+	PassportElementErrorDataFieldSchema,
+	PassportElementErrorFrontSideSchema,
+	PassportElementErrorReverseSideSchema,
+	PassportElementErrorSelfieSchema,
+	PassportElementErrorFileSchema,
+	PassportElementErrorFilesSchema,
+	PassportElementErrorTranslationFileSchema,
+	PassportElementErrorTranslationFilesSchema,
+	PassportElementErrorUnspecifiedSchema,
+])
+
+export type PassportElementError = z.infer<typeof PassportElementErrorSchema>
+
+/**
+ * A placeholder, currently holds no information. Use BotFather to set up your game.
+ */
+export const CallbackGameSchema = z.object({})
+
+export type CallbackGame = z.infer<typeof CallbackGameSchema>
+
+/**
+ * This object represents one row of the high scores table for a game.
+ */
+export const GameHighScoreSchema = z.object({
+	position: z
+		.number()
+		.int()
+		.describe('Position in high score table for the game'),
+	user: UserSchema.describe('User'),
+	score: z.number().int().describe('Score'),
+})
+
+export type GameHighScore = z.infer<typeof GameHighScoreSchema>
+
+/**
+ * forwardMessage method parameters
+ */
+export interface ForwardMessageParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Identifier of the direct messages topic to which the message will be forwarded; required if the message is forwarded to a direct messages chat
+	 */
+	direct_messages_topic_id?: number
+
+	/**
+	 * Unique identifier for the chat where the original message was sent (or channel username in the format @channelusername)
+	 */
+	from_chat_id: number | string
+
+	/**
+	 * New start timestamp for the forwarded video in the message
+	 */
+	video_start_timestamp?: number
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the forwarded message from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * A JSON-serialized object containing the parameters of the suggested post to send; for direct messages chats only
+	 */
+	suggested_post_parameters?: SuggestedPostParameters
+
+	/**
+	 * Message identifier in the chat specified in from_chat_id
+	 */
+	message_id: number
+}
+
+/**
+ * forwardMessages method parameters
+ */
+export interface ForwardMessagesParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Identifier of the direct messages topic to which the messages will be forwarded; required if the messages are forwarded to a direct messages chat
+	 */
+	direct_messages_topic_id?: number
+
+	/**
+	 * Unique identifier for the chat where the original messages were sent (or channel username in the format @channelusername)
+	 */
+	from_chat_id: number | string
+
+	/**
+	 * A JSON-serialized list of 1-100 identifiers of messages in the chat from_chat_id to forward. The identifiers must be specified in a strictly increasing order.
+	 */
+	message_ids: number[]
+
+	/**
+	 * Sends the messages silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the forwarded messages from forwarding and saving
+	 */
+	protect_content?: boolean
+}
+
+/**
+ * copyMessage method parameters
+ */
+export interface CopyMessageParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Identifier of the direct messages topic to which the message will be sent; required if the message is sent to a direct messages chat
+	 */
+	direct_messages_topic_id?: number
+
+	/**
+	 * Unique identifier for the chat where the original message was sent (or channel username in the format @channelusername)
+	 */
+	from_chat_id: number | string
+
+	/**
+	 * Message identifier in the chat specified in from_chat_id
+	 */
+	message_id: number
+
+	/**
+	 * New start timestamp for the copied video in the message
+	 */
+	video_start_timestamp?: number
+
+	/**
+	 * New caption for media, 0-1024 characters after entities parsing. If not specified, the original caption is kept
+	 */
+	caption?: string
+
+	/**
+	 * Mode for parsing entities in the new caption. See formatting options for more details.
+	 */
+	parse_mode?: string
+
+	/**
+	 * A JSON-serialized list of special entities that appear in the new caption, which can be specified instead of parse_mode
+	 */
+	caption_entities?: MessageEntity[]
+
+	/**
+	 * Pass True, if the caption must be shown above the message media. Ignored if a new caption isn't specified.
+	 */
+	show_caption_above_media?: boolean
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent message from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * Pass True to allow up to 1000 messages per second, ignoring broadcasting limits for a fee of 0.1 Telegram Stars per message. The relevant Stars will be withdrawn from the bot's balance
+	 */
+	allow_paid_broadcast?: boolean
+
+	/**
+	 * A JSON-serialized object containing the parameters of the suggested post to send; for direct messages chats only. If the message is sent as a reply to another suggested post, then that suggested post is automatically declined.
+	 */
+	suggested_post_parameters?: SuggestedPostParameters
+
+	/**
+	 * Description of the message to reply to
+	 */
+	reply_parameters?: ReplyParameters
+
+	/**
+	 * Additional interface options. A JSON-serialized object for an inline keyboard, custom reply keyboard, instructions to remove a reply keyboard or to force a reply from the user
+	 */
+	reply_markup?:
+		| InlineKeyboardMarkup
+		| ReplyKeyboardMarkup
+		| ReplyKeyboardRemove
+		| ForceReply
+}
+
+/**
+ * copyMessages method parameters
+ */
+export interface CopyMessagesParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Identifier of the direct messages topic to which the messages will be sent; required if the messages are sent to a direct messages chat
+	 */
+	direct_messages_topic_id?: number
+
+	/**
+	 * Unique identifier for the chat where the original messages were sent (or channel username in the format @channelusername)
+	 */
+	from_chat_id: number | string
+
+	/**
+	 * A JSON-serialized list of 1-100 identifiers of messages in the chat from_chat_id to copy. The identifiers must be specified in a strictly increasing order.
+	 */
+	message_ids: number[]
+
+	/**
+	 * Sends the messages silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent messages from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * Pass True to copy the messages without their captions
+	 */
+	remove_caption?: boolean
+}
+
+/**
+ * sendPaidMedia method parameters
+ */
+export interface SendPaidMediaParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message will be sent
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername). If the chat is a channel, all Telegram Star proceeds from this media will be credited to the chat's balance. Otherwise, they will be credited to the bot's balance.
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Identifier of the direct messages topic to which the message will be sent; required if the message is sent to a direct messages chat
+	 */
+	direct_messages_topic_id?: number
+
+	/**
+	 * The number of Telegram Stars that must be paid to buy access to the media; 1-10000
+	 */
+	star_count: number
+
+	/**
+	 * A JSON-serialized array describing the media to be sent; up to 10 items
+	 */
+	media: InputPaidMedia[]
+
+	/**
+	 * Bot-defined paid media payload, 0-128 bytes. This will not be displayed to the user, use it for your internal processes.
+	 */
+	payload?: string
+
+	/**
+	 * Media caption, 0-1024 characters after entities parsing
+	 */
+	caption?: string
+
+	/**
+	 * Mode for parsing entities in the media caption. See formatting options for more details.
+	 */
+	parse_mode?: string
+
+	/**
+	 * A JSON-serialized list of special entities that appear in the caption, which can be specified instead of parse_mode
+	 */
+	caption_entities?: MessageEntity[]
+
+	/**
+	 * Pass True, if the caption must be shown above the message media
+	 */
+	show_caption_above_media?: boolean
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent message from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * Pass True to allow up to 1000 messages per second, ignoring broadcasting limits for a fee of 0.1 Telegram Stars per message. The relevant Stars will be withdrawn from the bot's balance
+	 */
+	allow_paid_broadcast?: boolean
+
+	/**
+	 * A JSON-serialized object containing the parameters of the suggested post to send; for direct messages chats only. If the message is sent as a reply to another suggested post, then that suggested post is automatically declined.
+	 */
+	suggested_post_parameters?: SuggestedPostParameters
+
+	/**
+	 * Description of the message to reply to
+	 */
+	reply_parameters?: ReplyParameters
+
+	/**
+	 * Additional interface options. A JSON-serialized object for an inline keyboard, custom reply keyboard, instructions to remove a reply keyboard or to force a reply from the user
+	 */
+	reply_markup?:
+		| InlineKeyboardMarkup
+		| ReplyKeyboardMarkup
+		| ReplyKeyboardRemove
+		| ForceReply
+}
+
+/**
+ * sendLocation method parameters
+ */
+export interface SendLocationParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message will be sent
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Identifier of the direct messages topic to which the message will be sent; required if the message is sent to a direct messages chat
+	 */
+	direct_messages_topic_id?: number
+
+	/**
+	 * Latitude of the location
+	 */
+	latitude: number
+
+	/**
+	 * Longitude of the location
+	 */
+	longitude: number
+
+	/**
+	 * The radius of uncertainty for the location, measured in meters; 0-1500
+	 */
+	horizontal_accuracy?: number
+
+	/**
+	 * Period in seconds during which the location will be updated (see Live Locations, should be between 60 and 86400, or 0x7FFFFFFF for live locations that can be edited indefinitely.
+	 */
+	live_period?: number
+
+	/**
+	 * For live locations, a direction in which the user is moving, in degrees. Must be between 1 and 360 if specified.
+	 */
+	heading?: number
+
+	/**
+	 * For live locations, a maximum distance for proximity alerts about approaching another chat member, in meters. Must be between 1 and 100000 if specified.
+	 */
+	proximity_alert_radius?: number
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent message from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * Pass True to allow up to 1000 messages per second, ignoring broadcasting limits for a fee of 0.1 Telegram Stars per message. The relevant Stars will be withdrawn from the bot's balance
+	 */
+	allow_paid_broadcast?: boolean
+
+	/**
+	 * Unique identifier of the message effect to be added to the message; for private chats only
+	 */
+	message_effect_id?: string
+
+	/**
+	 * A JSON-serialized object containing the parameters of the suggested post to send; for direct messages chats only. If the message is sent as a reply to another suggested post, then that suggested post is automatically declined.
+	 */
+	suggested_post_parameters?: SuggestedPostParameters
+
+	/**
+	 * Description of the message to reply to
+	 */
+	reply_parameters?: ReplyParameters
+
+	/**
+	 * Additional interface options. A JSON-serialized object for an inline keyboard, custom reply keyboard, instructions to remove a reply keyboard or to force a reply from the user
+	 */
+	reply_markup?:
+		| InlineKeyboardMarkup
+		| ReplyKeyboardMarkup
+		| ReplyKeyboardRemove
+		| ForceReply
+}
+
+/**
+ * sendVenue method parameters
+ */
+export interface SendVenueParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message will be sent
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Identifier of the direct messages topic to which the message will be sent; required if the message is sent to a direct messages chat
+	 */
+	direct_messages_topic_id?: number
+
+	/**
+	 * Latitude of the venue
+	 */
+	latitude: number
+
+	/**
+	 * Longitude of the venue
+	 */
+	longitude: number
+
+	/**
+	 * Name of the venue
+	 */
+	title: string
+
+	/**
+	 * Address of the venue
+	 */
+	address: string
+
+	/**
+	 * Foursquare identifier of the venue
+	 */
+	foursquare_id?: string
+
+	/**
+	 * Foursquare type of the venue, if known. (For example, “arts_entertainment/default”, “arts_entertainment/aquarium” or “food/icecream”.)
+	 */
+	foursquare_type?: string
+
+	/**
+	 * Google Places identifier of the venue
+	 */
+	google_place_id?: string
+
+	/**
+	 * Google Places type of the venue. (See supported types.)
+	 */
+	google_place_type?: string
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent message from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * Pass True to allow up to 1000 messages per second, ignoring broadcasting limits for a fee of 0.1 Telegram Stars per message. The relevant Stars will be withdrawn from the bot's balance
+	 */
+	allow_paid_broadcast?: boolean
+
+	/**
+	 * Unique identifier of the message effect to be added to the message; for private chats only
+	 */
+	message_effect_id?: string
+
+	/**
+	 * A JSON-serialized object containing the parameters of the suggested post to send; for direct messages chats only. If the message is sent as a reply to another suggested post, then that suggested post is automatically declined.
+	 */
+	suggested_post_parameters?: SuggestedPostParameters
+
+	/**
+	 * Description of the message to reply to
+	 */
+	reply_parameters?: ReplyParameters
+
+	/**
+	 * Additional interface options. A JSON-serialized object for an inline keyboard, custom reply keyboard, instructions to remove a reply keyboard or to force a reply from the user
+	 */
+	reply_markup?:
+		| InlineKeyboardMarkup
+		| ReplyKeyboardMarkup
+		| ReplyKeyboardRemove
+		| ForceReply
+}
+
+/**
+ * sendContact method parameters
+ */
+export interface SendContactParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message will be sent
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Identifier of the direct messages topic to which the message will be sent; required if the message is sent to a direct messages chat
+	 */
+	direct_messages_topic_id?: number
+
+	/**
+	 * Contact's phone number
+	 */
+	phone_number: string
+
+	/**
+	 * Contact's first name
+	 */
+	first_name: string
+
+	/**
+	 * Contact's last name
+	 */
+	last_name?: string
+
+	/**
+	 * Additional data about the contact in the form of a vCard, 0-2048 bytes
+	 */
+	vcard?: string
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent message from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * Pass True to allow up to 1000 messages per second, ignoring broadcasting limits for a fee of 0.1 Telegram Stars per message. The relevant Stars will be withdrawn from the bot's balance
+	 */
+	allow_paid_broadcast?: boolean
+
+	/**
+	 * Unique identifier of the message effect to be added to the message; for private chats only
+	 */
+	message_effect_id?: string
+
+	/**
+	 * A JSON-serialized object containing the parameters of the suggested post to send; for direct messages chats only. If the message is sent as a reply to another suggested post, then that suggested post is automatically declined.
+	 */
+	suggested_post_parameters?: SuggestedPostParameters
+
+	/**
+	 * Description of the message to reply to
+	 */
+	reply_parameters?: ReplyParameters
+
+	/**
+	 * Additional interface options. A JSON-serialized object for an inline keyboard, custom reply keyboard, instructions to remove a reply keyboard or to force a reply from the user
+	 */
+	reply_markup?:
+		| InlineKeyboardMarkup
+		| ReplyKeyboardMarkup
+		| ReplyKeyboardRemove
+		| ForceReply
+}
+
+/**
+ * sendPoll method parameters
+ */
+export interface SendPollParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message will be sent
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername). Polls can't be sent to channel direct messages chats.
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Poll question, 1-300 characters
+	 */
+	question: string
+
+	/**
+	 * Mode for parsing entities in the question. See formatting options for more details. Currently, only custom emoji entities are allowed
+	 */
+	question_parse_mode?: string
+
+	/**
+	 * A JSON-serialized list of special entities that appear in the poll question. It can be specified instead of question_parse_mode
+	 */
+	question_entities?: MessageEntity[]
+
+	/**
+	 * A JSON-serialized list of 2-12 answer options
+	 */
+	options: InputPollOption[]
+
+	/**
+	 * True, if the poll needs to be anonymous, defaults to True
+	 */
+	is_anonymous?: boolean
+
+	/**
+	 * Poll type, “quiz” or “regular”, defaults to “regular”
+	 */
+	type?: string
+
+	/**
+	 * True, if the poll allows multiple answers, ignored for polls in quiz mode, defaults to False
+	 */
+	allows_multiple_answers?: boolean
+
+	/**
+	 * 0-based identifier of the correct answer option, required for polls in quiz mode
+	 */
+	correct_option_id?: number
+
+	/**
+	 * Text that is shown when a user chooses an incorrect answer or taps on the lamp icon in a quiz-style poll, 0-200 characters with at most 2 line feeds after entities parsing
+	 */
+	explanation?: string
+
+	/**
+	 * Mode for parsing entities in the explanation. See formatting options for more details.
+	 */
+	explanation_parse_mode?: string
+
+	/**
+	 * A JSON-serialized list of special entities that appear in the poll explanation. It can be specified instead of explanation_parse_mode
+	 */
+	explanation_entities?: MessageEntity[]
+
+	/**
+	 * Amount of time in seconds the poll will be active after creation, 5-600. Can't be used together with close_date.
+	 */
+	open_period?: number
+
+	/**
+	 * Point in time (Unix timestamp) when the poll will be automatically closed. Must be at least 5 and no more than 600 seconds in the future. Can't be used together with open_period.
+	 */
+	close_date?: number
+
+	/**
+	 * Pass True if the poll needs to be immediately closed. This can be useful for poll preview.
+	 */
+	is_closed?: boolean
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent message from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * Pass True to allow up to 1000 messages per second, ignoring broadcasting limits for a fee of 0.1 Telegram Stars per message. The relevant Stars will be withdrawn from the bot's balance
+	 */
+	allow_paid_broadcast?: boolean
+
+	/**
+	 * Unique identifier of the message effect to be added to the message; for private chats only
+	 */
+	message_effect_id?: string
+
+	/**
+	 * Description of the message to reply to
+	 */
+	reply_parameters?: ReplyParameters
+
+	/**
+	 * Additional interface options. A JSON-serialized object for an inline keyboard, custom reply keyboard, instructions to remove a reply keyboard or to force a reply from the user
+	 */
+	reply_markup?:
+		| InlineKeyboardMarkup
+		| ReplyKeyboardMarkup
+		| ReplyKeyboardRemove
+		| ForceReply
+}
+
+/**
+ * sendChecklist method parameters
+ */
+export interface SendChecklistParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message will be sent
+	 */
+	business_connection_id: string
+
+	/**
+	 * Unique identifier for the target chat
+	 */
+	chat_id: number
+
+	/**
+	 * A JSON-serialized object for the checklist to send
+	 */
+	checklist: InputChecklist
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent message from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * Unique identifier of the message effect to be added to the message
+	 */
+	message_effect_id?: string
+
+	/**
+	 * A JSON-serialized object for description of the message to reply to
+	 */
+	reply_parameters?: ReplyParameters
+
+	/**
+	 * A JSON-serialized object for an inline keyboard
+	 */
+	reply_markup?: InlineKeyboardMarkup
+}
+
+/**
+ * sendDice method parameters
+ */
+export interface SendDiceParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message will be sent
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Identifier of the direct messages topic to which the message will be sent; required if the message is sent to a direct messages chat
+	 */
+	direct_messages_topic_id?: number
+
+	/**
+	 * Emoji on which the dice throw animation is based. Currently, must be one of “🎲”, “🎯”, “🏀”, “⚽”, “🎳”, or “🎰”. Dice can have values 1-6 for “🎲”, “🎯” and “🎳”, values 1-5 for “🏀” and “⚽”, and values 1-64 for “🎰”. Defaults to “🎲”
+	 */
+	emoji?: string
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent message from forwarding
+	 */
+	protect_content?: boolean
+
+	/**
+	 * Pass True to allow up to 1000 messages per second, ignoring broadcasting limits for a fee of 0.1 Telegram Stars per message. The relevant Stars will be withdrawn from the bot's balance
+	 */
+	allow_paid_broadcast?: boolean
+
+	/**
+	 * Unique identifier of the message effect to be added to the message; for private chats only
+	 */
+	message_effect_id?: string
+
+	/**
+	 * A JSON-serialized object containing the parameters of the suggested post to send; for direct messages chats only. If the message is sent as a reply to another suggested post, then that suggested post is automatically declined.
+	 */
+	suggested_post_parameters?: SuggestedPostParameters
+
+	/**
+	 * Description of the message to reply to
+	 */
+	reply_parameters?: ReplyParameters
+
+	/**
+	 * Additional interface options. A JSON-serialized object for an inline keyboard, custom reply keyboard, instructions to remove a reply keyboard or to force a reply from the user
+	 */
+	reply_markup?:
+		| InlineKeyboardMarkup
+		| ReplyKeyboardMarkup
+		| ReplyKeyboardRemove
+		| ForceReply
+}
+
+/**
+ * sendChatAction method parameters
+ */
+export interface SendChatActionParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the action will be sent
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername). Channel chats and channel direct messages chats aren't supported.
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread; for supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Type of action to broadcast. Choose one, depending on what the user is about to receive: typing for text messages, upload_photo for photos, record_video or upload_video for videos, record_voice or upload_voice for voice notes, upload_document for general files, choose_sticker for stickers, find_location for location data, record_video_note or upload_video_note for video notes.
+	 */
+	action: string
+}
+
+/**
+ * setMessageReaction method parameters
+ */
+export interface SetMessageReactionParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Identifier of the target message. If the message belongs to a media group, the reaction is set to the first non-deleted message in the group instead.
+	 */
+	message_id: number
+
+	/**
+	 * A JSON-serialized list of reaction types to set on the message. Currently, as non-premium users, bots can set up to one reaction per message. A custom emoji reaction can be used if it is either already present on the message or explicitly allowed by chat administrators. Paid reactions can't be used by bots.
+	 */
+	reaction?: ReactionType[]
+
+	/**
+	 * Pass True to set the reaction with a big animation
+	 */
+	is_big?: boolean
+}
+
+/**
+ * getUserProfilePhotos method parameters
+ */
+export interface GetUserProfilePhotosParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+
+	/**
+	 * Sequential number of the first photo to be returned. By default, all photos are returned.
+	 */
+	offset?: number
+
+	/**
+	 * Limits the number of photos to be retrieved. Values between 1-100 are accepted. Defaults to 100.
+	 */
+	limit?: number
+}
+
+/**
+ * setUserEmojiStatus method parameters
+ */
+export interface SetUserEmojiStatusParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+
+	/**
+	 * Custom emoji identifier of the emoji status to set. Pass an empty string to remove the status.
+	 */
+	emoji_status_custom_emoji_id?: string
+
+	/**
+	 * Expiration date of the emoji status, if any
+	 */
+	emoji_status_expiration_date?: number
+}
+
+/**
+ * banChatMember method parameters
+ */
+export interface BanChatMemberParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target group or username of the target supergroup or channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+
+	/**
+	 * Date when the user will be unbanned; Unix time. If user is banned for more than 366 days or less than 30 seconds from the current time they are considered to be banned forever. Applied for supergroups and channels only.
+	 */
+	until_date?: number
+
+	/**
+	 * Pass True to delete all messages from the chat for the user that is being removed. If False, the user will be able to see messages in the group that were sent before the user was removed. Always True for supergroups and channels.
+	 */
+	revoke_messages?: boolean
+}
+
+/**
+ * unbanChatMember method parameters
+ */
+export interface UnbanChatMemberParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target group or username of the target supergroup or channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+
+	/**
+	 * Do nothing if the user is not banned
+	 */
+	only_if_banned?: boolean
+}
+
+/**
+ * restrictChatMember method parameters
+ */
+export interface RestrictChatMemberParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+
+	/**
+	 * A JSON-serialized object for new user permissions
+	 */
+	permissions: ChatPermissions
+
+	/**
+	 * Pass True if chat permissions are set independently. Otherwise, the can_send_other_messages and can_add_web_page_previews permissions will imply the can_send_messages, can_send_audios, can_send_documents, can_send_photos, can_send_videos, can_send_video_notes, and can_send_voice_notes permissions; the can_send_polls permission will imply the can_send_messages permission.
+	 */
+	use_independent_chat_permissions?: boolean
+
+	/**
+	 * Date when restrictions will be lifted for the user; Unix time. If user is restricted for more than 366 days or less than 30 seconds from the current time, they are considered to be restricted forever
+	 */
+	until_date?: number
+}
+
+/**
+ * promoteChatMember method parameters
+ */
+export interface PromoteChatMemberParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+
+	/**
+	 * Pass True if the administrator's presence in the chat is hidden
+	 */
+	is_anonymous?: boolean
+
+	/**
+	 * Pass True if the administrator can access the chat event log, get boost list, see hidden supergroup and channel members, report spam messages, ignore slow mode, and send messages to the chat without paying Telegram Stars. Implied by any other administrator privilege.
+	 */
+	can_manage_chat?: boolean
+
+	/**
+	 * Pass True if the administrator can delete messages of other users
+	 */
+	can_delete_messages?: boolean
+
+	/**
+	 * Pass True if the administrator can manage video chats
+	 */
+	can_manage_video_chats?: boolean
+
+	/**
+	 * Pass True if the administrator can restrict, ban or unban chat members, or access supergroup statistics
+	 */
+	can_restrict_members?: boolean
+
+	/**
+	 * Pass True if the administrator can add new administrators with a subset of their own privileges or demote administrators that they have promoted, directly or indirectly (promoted by administrators that were appointed by him)
+	 */
+	can_promote_members?: boolean
+
+	/**
+	 * Pass True if the administrator can change chat title, photo and other settings
+	 */
+	can_change_info?: boolean
+
+	/**
+	 * Pass True if the administrator can invite new users to the chat
+	 */
+	can_invite_users?: boolean
+
+	/**
+	 * Pass True if the administrator can post stories to the chat
+	 */
+	can_post_stories?: boolean
+
+	/**
+	 * Pass True if the administrator can edit stories posted by other users, post stories to the chat page, pin chat stories, and access the chat's story archive
+	 */
+	can_edit_stories?: boolean
+
+	/**
+	 * Pass True if the administrator can delete stories posted by other users
+	 */
+	can_delete_stories?: boolean
+
+	/**
+	 * Pass True if the administrator can post messages in the channel, approve suggested posts, or access channel statistics; for channels only
+	 */
+	can_post_messages?: boolean
+
+	/**
+	 * Pass True if the administrator can edit messages of other users and can pin messages; for channels only
+	 */
+	can_edit_messages?: boolean
+
+	/**
+	 * Pass True if the administrator can pin messages; for supergroups only
+	 */
+	can_pin_messages?: boolean
+
+	/**
+	 * Pass True if the user is allowed to create, rename, close, and reopen forum topics; for supergroups only
+	 */
+	can_manage_topics?: boolean
+
+	/**
+	 * Pass True if the administrator can manage direct messages within the channel and decline suggested posts; for channels only
+	 */
+	can_manage_direct_messages?: boolean
+}
+
+/**
+ * setChatAdministratorCustomTitle method parameters
+ */
+export interface SetChatAdministratorCustomTitleParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+
+	/**
+	 * New custom title for the administrator; 0-16 characters, emoji are not allowed
+	 */
+	custom_title: string
+}
+
+/**
+ * banChatSenderChat method parameters
+ */
+export interface BanChatSenderChatParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier of the target sender chat
+	 */
+	sender_chat_id: number
+}
+
+/**
+ * unbanChatSenderChat method parameters
+ */
+export interface UnbanChatSenderChatParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier of the target sender chat
+	 */
+	sender_chat_id: number
+}
+
+/**
+ * setChatPermissions method parameters
+ */
+export interface SetChatPermissionsParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * A JSON-serialized object for new default chat permissions
+	 */
+	permissions: ChatPermissions
+
+	/**
+	 * Pass True if chat permissions are set independently. Otherwise, the can_send_other_messages and can_add_web_page_previews permissions will imply the can_send_messages, can_send_audios, can_send_documents, can_send_photos, can_send_videos, can_send_video_notes, and can_send_voice_notes permissions; the can_send_polls permission will imply the can_send_messages permission.
+	 */
+	use_independent_chat_permissions?: boolean
+}
+
+/**
+ * exportChatInviteLink method parameters
+ */
+export interface ExportChatInviteLinkParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * createChatInviteLink method parameters
+ */
+export interface CreateChatInviteLinkParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Invite link name; 0-32 characters
+	 */
+	name?: string
+
+	/**
+	 * Point in time (Unix timestamp) when the link will expire
+	 */
+	expire_date?: number
+
+	/**
+	 * The maximum number of users that can be members of the chat simultaneously after joining the chat via this invite link; 1-99999
+	 */
+	member_limit?: number
+
+	/**
+	 * True, if users joining the chat via the link need to be approved by chat administrators. If True, member_limit can't be specified
+	 */
+	creates_join_request?: boolean
+}
+
+/**
+ * editChatInviteLink method parameters
+ */
+export interface EditChatInviteLinkParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * The invite link to edit
+	 */
+	invite_link: string
+
+	/**
+	 * Invite link name; 0-32 characters
+	 */
+	name?: string
+
+	/**
+	 * Point in time (Unix timestamp) when the link will expire
+	 */
+	expire_date?: number
+
+	/**
+	 * The maximum number of users that can be members of the chat simultaneously after joining the chat via this invite link; 1-99999
+	 */
+	member_limit?: number
+
+	/**
+	 * True, if users joining the chat via the link need to be approved by chat administrators. If True, member_limit can't be specified
+	 */
+	creates_join_request?: boolean
+}
+
+/**
+ * createChatSubscriptionInviteLink method parameters
+ */
+export interface CreateChatSubscriptionInviteLinkParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target channel chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Invite link name; 0-32 characters
+	 */
+	name?: string
+
+	/**
+	 * The number of seconds the subscription will be active for before the next payment. Currently, it must always be 2592000 (30 days).
+	 */
+	subscription_period: number
+
+	/**
+	 * The amount of Telegram Stars a user must pay initially and after each subsequent subscription period to be a member of the chat; 1-10000
+	 */
+	subscription_price: number
+}
+
+/**
+ * editChatSubscriptionInviteLink method parameters
+ */
+export interface EditChatSubscriptionInviteLinkParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * The invite link to edit
+	 */
+	invite_link: string
+
+	/**
+	 * Invite link name; 0-32 characters
+	 */
+	name?: string
+}
+
+/**
+ * revokeChatInviteLink method parameters
+ */
+export interface RevokeChatInviteLinkParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * The invite link to revoke
+	 */
+	invite_link: string
+}
+
+/**
+ * approveChatJoinRequest method parameters
+ */
+export interface ApproveChatJoinRequestParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+}
+
+/**
+ * declineChatJoinRequest method parameters
+ */
+export interface DeclineChatJoinRequestParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+}
+
+/**
+ * setChatPhoto method parameters
+ */
+export interface SetChatPhotoParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * New chat photo, uploaded using multipart/form-data
+	 */
+	photo: InputFile
+}
+
+/**
+ * deleteChatPhoto method parameters
+ */
+export interface DeleteChatPhotoParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * setChatTitle method parameters
+ */
+export interface SetChatTitleParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * New chat title, 1-128 characters
+	 */
+	title: string
+}
+
+/**
+ * setChatDescription method parameters
+ */
+export interface SetChatDescriptionParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * New chat description, 0-255 characters
+	 */
+	description?: string
+}
+
+/**
+ * pinChatMessage method parameters
+ */
+export interface PinChatMessageParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message will be pinned
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Identifier of a message to pin
+	 */
+	message_id: number
+
+	/**
+	 * Pass True if it is not necessary to send a notification to all chat members about the new pinned message. Notifications are always disabled in channels and private chats.
+	 */
+	disable_notification?: boolean
+}
+
+/**
+ * unpinChatMessage method parameters
+ */
+export interface UnpinChatMessageParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message will be unpinned
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Identifier of the message to unpin. Required if business_connection_id is specified. If not specified, the most recent pinned message (by sending date) will be unpinned.
+	 */
+	message_id?: number
+}
+
+/**
+ * unpinAllChatMessages method parameters
+ */
+export interface UnpinAllChatMessagesParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * leaveChat method parameters
+ */
+export interface LeaveChatParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup or channel (in the format @channelusername). Channel direct messages chats aren't supported; leave the corresponding channel instead.
+	 */
+	chat_id: number | string
+}
+
+/**
+ * getChat method parameters
+ */
+export interface GetChatParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup or channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * getChatAdministrators method parameters
+ */
+export interface GetChatAdministratorsParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup or channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * getChatMemberCount method parameters
+ */
+export interface GetChatMemberCountParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup or channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * getChatMember method parameters
+ */
+export interface GetChatMemberParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup or channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+}
+
+/**
+ * setChatStickerSet method parameters
+ */
+export interface SetChatStickerSetParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Name of the sticker set to be set as the group sticker set
+	 */
+	sticker_set_name: string
+}
+
+/**
+ * deleteChatStickerSet method parameters
+ */
+export interface DeleteChatStickerSetParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * createForumTopic method parameters
+ */
+export interface CreateForumTopicParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Topic name, 1-128 characters
+	 */
+	name: string
+
+	/**
+	 * Color of the topic icon in RGB format. Currently, must be one of 7322096 (0x6FB9F0), 16766590 (0xFFD67E), 13338331 (0xCB86DB), 9367192 (0x8EEE98), 16749490 (0xFF93B2), or 16478047 (0xFB6F5F)
+	 */
+	icon_color?: number
+
+	/**
+	 * Unique identifier of the custom emoji shown as the topic icon. Use getForumTopicIconStickers to get all allowed custom emoji identifiers.
+	 */
+	icon_custom_emoji_id?: string
+}
+
+/**
+ * editForumTopic method parameters
+ */
+export interface EditForumTopicParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread of the forum topic
+	 */
+	message_thread_id: number
+
+	/**
+	 * New topic name, 0-128 characters. If not specified or empty, the current name of the topic will be kept
+	 */
+	name?: string
+
+	/**
+	 * New unique identifier of the custom emoji shown as the topic icon. Use getForumTopicIconStickers to get all allowed custom emoji identifiers. Pass an empty string to remove the icon. If not specified, the current icon will be kept
+	 */
+	icon_custom_emoji_id?: string
+}
+
+/**
+ * closeForumTopic method parameters
+ */
+export interface CloseForumTopicParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread of the forum topic
+	 */
+	message_thread_id: number
+}
+
+/**
+ * reopenForumTopic method parameters
+ */
+export interface ReopenForumTopicParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread of the forum topic
+	 */
+	message_thread_id: number
+}
+
+/**
+ * deleteForumTopic method parameters
+ */
+export interface DeleteForumTopicParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread of the forum topic
+	 */
+	message_thread_id: number
+}
+
+/**
+ * unpinAllForumTopicMessages method parameters
+ */
+export interface UnpinAllForumTopicMessagesParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread of the forum topic
+	 */
+	message_thread_id: number
+}
+
+/**
+ * editGeneralForumTopic method parameters
+ */
+export interface EditGeneralForumTopicParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * New topic name, 1-128 characters
+	 */
+	name: string
+}
+
+/**
+ * closeGeneralForumTopic method parameters
+ */
+export interface CloseGeneralForumTopicParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * reopenGeneralForumTopic method parameters
+ */
+export interface ReopenGeneralForumTopicParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * hideGeneralForumTopic method parameters
+ */
+export interface HideGeneralForumTopicParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * unhideGeneralForumTopic method parameters
+ */
+export interface UnhideGeneralForumTopicParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * unpinAllGeneralForumTopicMessages method parameters
+ */
+export interface UnpinAllGeneralForumTopicMessagesParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target supergroup (in the format @supergroupusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * getUserChatBoosts method parameters
+ */
+export interface GetUserChatBoostsParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the chat or username of the channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+}
+
+/**
+ * getBusinessConnection method parameters
+ */
+export interface GetBusinessConnectionParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+}
+
+/**
+ * setMyCommands method parameters
+ */
+export interface SetMyCommandsParams extends Record<string, unknown> {
+	/**
+	 * A JSON-serialized list of bot commands to be set as the list of the bot's commands. At most 100 commands can be specified.
+	 */
+	commands: BotCommand[]
+
+	/**
+	 * A JSON-serialized object, describing scope of users for which the commands are relevant. Defaults to BotCommandScopeDefault.
+	 */
+	scope?: BotCommandScope
+
+	/**
+	 * A two-letter ISO 639-1 language code. If empty, commands will be applied to all users from the given scope, for whose language there are no dedicated commands
+	 */
+	language_code?: string
+}
+
+/**
+ * deleteMyCommands method parameters
+ */
+export interface DeleteMyCommandsParams extends Record<string, unknown> {
+	/**
+	 * A JSON-serialized object, describing scope of users for which the commands are relevant. Defaults to BotCommandScopeDefault.
+	 */
+	scope?: BotCommandScope
+
+	/**
+	 * A two-letter ISO 639-1 language code. If empty, commands will be applied to all users from the given scope, for whose language there are no dedicated commands
+	 */
+	language_code?: string
+}
+
+/**
+ * getMyCommands method parameters
+ */
+export interface GetMyCommandsParams extends Record<string, unknown> {
+	/**
+	 * A JSON-serialized object, describing scope of users. Defaults to BotCommandScopeDefault.
+	 */
+	scope?: BotCommandScope
+
+	/**
+	 * A two-letter ISO 639-1 language code or an empty string
+	 */
+	language_code?: string
+}
+
+/**
+ * setMyName method parameters
+ */
+export interface SetMyNameParams extends Record<string, unknown> {
+	/**
+	 * New bot name; 0-64 characters. Pass an empty string to remove the dedicated name for the given language.
+	 */
+	name?: string
+
+	/**
+	 * A two-letter ISO 639-1 language code. If empty, the name will be shown to all users for whose language there is no dedicated name.
+	 */
+	language_code?: string
+}
+
+/**
+ * getMyName method parameters
+ */
+export interface GetMyNameParams extends Record<string, unknown> {
+	/**
+	 * A two-letter ISO 639-1 language code or an empty string
+	 */
+	language_code?: string
+}
+
+/**
+ * setMyDescription method parameters
+ */
+export interface SetMyDescriptionParams extends Record<string, unknown> {
+	/**
+	 * New bot description; 0-512 characters. Pass an empty string to remove the dedicated description for the given language.
+	 */
+	description?: string
+
+	/**
+	 * A two-letter ISO 639-1 language code. If empty, the description will be applied to all users for whose language there is no dedicated description.
+	 */
+	language_code?: string
+}
+
+/**
+ * getMyDescription method parameters
+ */
+export interface GetMyDescriptionParams extends Record<string, unknown> {
+	/**
+	 * A two-letter ISO 639-1 language code or an empty string
+	 */
+	language_code?: string
+}
+
+/**
+ * setMyShortDescription method parameters
+ */
+export interface SetMyShortDescriptionParams extends Record<string, unknown> {
+	/**
+	 * New short description for the bot; 0-120 characters. Pass an empty string to remove the dedicated short description for the given language.
+	 */
+	short_description?: string
+
+	/**
+	 * A two-letter ISO 639-1 language code. If empty, the short description will be applied to all users for whose language there is no dedicated short description.
+	 */
+	language_code?: string
+}
+
+/**
+ * getMyShortDescription method parameters
+ */
+export interface GetMyShortDescriptionParams extends Record<string, unknown> {
+	/**
+	 * A two-letter ISO 639-1 language code or an empty string
+	 */
+	language_code?: string
+}
+
+/**
+ * setChatMenuButton method parameters
+ */
+export interface SetChatMenuButtonParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target private chat. If not specified, default bot's menu button will be changed
+	 */
+	chat_id?: number
+
+	/**
+	 * A JSON-serialized object for the bot's new menu button. Defaults to MenuButtonDefault
+	 */
+	menu_button?: MenuButton
+}
+
+/**
+ * getChatMenuButton method parameters
+ */
+export interface GetChatMenuButtonParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target private chat. If not specified, default bot's menu button will be returned
+	 */
+	chat_id?: number
+}
+
+/**
+ * setMyDefaultAdministratorRights method parameters
+ */
+export interface SetMyDefaultAdministratorRightsParams
+	extends Record<string, unknown> {
+	/**
+	 * A JSON-serialized object describing new default administrator rights. If not specified, the default administrator rights will be cleared.
+	 */
+	rights?: ChatAdministratorRights
+
+	/**
+	 * Pass True to change the default administrator rights of the bot in channels. Otherwise, the default administrator rights of the bot for groups and supergroups will be changed.
+	 */
+	for_channels?: boolean
+}
+
+/**
+ * getMyDefaultAdministratorRights method parameters
+ */
+export interface GetMyDefaultAdministratorRightsParams
+	extends Record<string, unknown> {
+	/**
+	 * Pass True to get default administrator rights of the bot in channels. Otherwise, default administrator rights of the bot for groups and supergroups will be returned.
+	 */
+	for_channels?: boolean
+}
+
+/**
+ * sendGift method parameters
+ */
+export interface SendGiftParams extends Record<string, unknown> {
+	/**
+	 * Required if chat_id is not specified. Unique identifier of the target user who will receive the gift.
+	 */
+	user_id?: number
+
+	/**
+	 * Required if user_id is not specified. Unique identifier for the chat or username of the channel (in the format @channelusername) that will receive the gift.
+	 */
+	chat_id?: number | string
+
+	/**
+	 * Identifier of the gift
+	 */
+	gift_id: string
+
+	/**
+	 * Pass True to pay for the gift upgrade from the bot's balance, thereby making the upgrade free for the receiver
+	 */
+	pay_for_upgrade?: boolean
+
+	/**
+	 * Text that will be shown along with the gift; 0-128 characters
+	 */
+	text?: string
+
+	/**
+	 * Mode for parsing entities in the text. See formatting options for more details. Entities other than “bold”, “italic”, “underline”, “strikethrough”, “spoiler”, and “custom_emoji” are ignored.
+	 */
+	text_parse_mode?: string
+
+	/**
+	 * A JSON-serialized list of special entities that appear in the gift text. It can be specified instead of text_parse_mode. Entities other than “bold”, “italic”, “underline”, “strikethrough”, “spoiler”, and “custom_emoji” are ignored.
+	 */
+	text_entities?: MessageEntity[]
+}
+
+/**
+ * giftPremiumSubscription method parameters
+ */
+export interface GiftPremiumSubscriptionParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the target user who will receive a Telegram Premium subscription
+	 */
+	user_id: number
+
+	/**
+	 * Number of months the Telegram Premium subscription will be active for the user; must be one of 3, 6, or 12
+	 */
+	month_count: number
+
+	/**
+	 * Number of Telegram Stars to pay for the Telegram Premium subscription; must be 1000 for 3 months, 1500 for 6 months, and 2500 for 12 months
+	 */
+	star_count: number
+
+	/**
+	 * Text that will be shown along with the service message about the subscription; 0-128 characters
+	 */
+	text?: string
+
+	/**
+	 * Mode for parsing entities in the text. See formatting options for more details. Entities other than “bold”, “italic”, “underline”, “strikethrough”, “spoiler”, and “custom_emoji” are ignored.
+	 */
+	text_parse_mode?: string
+
+	/**
+	 * A JSON-serialized list of special entities that appear in the gift text. It can be specified instead of text_parse_mode. Entities other than “bold”, “italic”, “underline”, “strikethrough”, “spoiler”, and “custom_emoji” are ignored.
+	 */
+	text_entities?: MessageEntity[]
+}
+
+/**
+ * verifyUser method parameters
+ */
+export interface VerifyUserParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+
+	/**
+	 * Custom description for the verification; 0-70 characters. Must be empty if the organization isn't allowed to provide a custom verification description.
+	 */
+	custom_description?: string
+}
+
+/**
+ * verifyChat method parameters
+ */
+export interface VerifyChatParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername). Channel direct messages chats can't be verified.
+	 */
+	chat_id: number | string
+
+	/**
+	 * Custom description for the verification; 0-70 characters. Must be empty if the organization isn't allowed to provide a custom verification description.
+	 */
+	custom_description?: string
+}
+
+/**
+ * removeUserVerification method parameters
+ */
+export interface RemoveUserVerificationParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the target user
+	 */
+	user_id: number
+}
+
+/**
+ * removeChatVerification method parameters
+ */
+export interface RemoveChatVerificationParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+}
+
+/**
+ * readBusinessMessage method parameters
+ */
+export interface ReadBusinessMessageParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which to read the message
+	 */
+	business_connection_id: string
+
+	/**
+	 * Unique identifier of the chat in which the message was received. The chat must have been active in the last 24 hours.
+	 */
+	chat_id: number
+
+	/**
+	 * Unique identifier of the message to mark as read
+	 */
+	message_id: number
+}
+
+/**
+ * deleteBusinessMessages method parameters
+ */
+export interface DeleteBusinessMessagesParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which to delete the messages
+	 */
+	business_connection_id: string
+
+	/**
+	 * A JSON-serialized list of 1-100 identifiers of messages to delete. All messages must be from the same chat. See deleteMessage for limitations on which messages can be deleted
+	 */
+	message_ids: number[]
+}
+
+/**
+ * setBusinessAccountName method parameters
+ */
+export interface SetBusinessAccountNameParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * The new value of the first name for the business account; 1-64 characters
+	 */
+	first_name: string
+
+	/**
+	 * The new value of the last name for the business account; 0-64 characters
+	 */
+	last_name?: string
+}
+
+/**
+ * setBusinessAccountUsername method parameters
+ */
+export interface SetBusinessAccountUsernameParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * The new value of the username for the business account; 0-32 characters
+	 */
+	username?: string
+}
+
+/**
+ * setBusinessAccountBio method parameters
+ */
+export interface SetBusinessAccountBioParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * The new value of the bio for the business account; 0-140 characters
+	 */
+	bio?: string
+}
+
+/**
+ * setBusinessAccountProfilePhoto method parameters
+ */
+export interface SetBusinessAccountProfilePhotoParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * The new profile photo to set
+	 */
+	photo: InputProfilePhoto
+
+	/**
+	 * Pass True to set the public photo, which will be visible even if the main photo is hidden by the business account's privacy settings. An account can have only one public photo.
+	 */
+	is_public?: boolean
+}
+
+/**
+ * removeBusinessAccountProfilePhoto method parameters
+ */
+export interface RemoveBusinessAccountProfilePhotoParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * Pass True to remove the public photo, which is visible even if the main photo is hidden by the business account's privacy settings. After the main photo is removed, the previous profile photo (if present) becomes the main photo.
+	 */
+	is_public?: boolean
+}
+
+/**
+ * setBusinessAccountGiftSettings method parameters
+ */
+export interface SetBusinessAccountGiftSettingsParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * Pass True, if a button for sending a gift to the user or by the business account must always be shown in the input field
+	 */
+	show_gift_button: boolean
+
+	/**
+	 * Types of gifts accepted by the business account
+	 */
+	accepted_gift_types: AcceptedGiftTypes
+}
+
+/**
+ * getBusinessAccountStarBalance method parameters
+ */
+export interface GetBusinessAccountStarBalanceParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+}
+
+/**
+ * transferBusinessAccountStars method parameters
+ */
+export interface TransferBusinessAccountStarsParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * Number of Telegram Stars to transfer; 1-10000
+	 */
+	star_count: number
+}
+
+/**
+ * getBusinessAccountGifts method parameters
+ */
+export interface GetBusinessAccountGiftsParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * Pass True to exclude gifts that aren't saved to the account's profile page
+	 */
+	exclude_unsaved?: boolean
+
+	/**
+	 * Pass True to exclude gifts that are saved to the account's profile page
+	 */
+	exclude_saved?: boolean
+
+	/**
+	 * Pass True to exclude gifts that can be purchased an unlimited number of times
+	 */
+	exclude_unlimited?: boolean
+
+	/**
+	 * Pass True to exclude gifts that can be purchased a limited number of times
+	 */
+	exclude_limited?: boolean
+
+	/**
+	 * Pass True to exclude unique gifts
+	 */
+	exclude_unique?: boolean
+
+	/**
+	 * Pass True to sort results by gift price instead of send date. Sorting is applied before pagination.
+	 */
+	sort_by_price?: boolean
+
+	/**
+	 * Offset of the first entry to return as received from the previous request; use empty string to get the first chunk of results
+	 */
+	offset?: string
+
+	/**
+	 * The maximum number of gifts to be returned; 1-100. Defaults to 100
+	 */
+	limit?: number
+}
+
+/**
+ * convertGiftToStars method parameters
+ */
+export interface ConvertGiftToStarsParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * Unique identifier of the regular gift that should be converted to Telegram Stars
+	 */
+	owned_gift_id: string
+}
+
+/**
+ * upgradeGift method parameters
+ */
+export interface UpgradeGiftParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * Unique identifier of the regular gift that should be upgraded to a unique one
+	 */
+	owned_gift_id: string
+
+	/**
+	 * Pass True to keep the original gift text, sender and receiver in the upgraded gift
+	 */
+	keep_original_details?: boolean
+
+	/**
+	 * The amount of Telegram Stars that will be paid for the upgrade from the business account balance. If gift.prepaid_upgrade_star_count > 0, then pass 0, otherwise, the can_transfer_stars business bot right is required and gift.upgrade_star_count must be passed.
+	 */
+	star_count?: number
+}
+
+/**
+ * transferGift method parameters
+ */
+export interface TransferGiftParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * Unique identifier of the regular gift that should be transferred
+	 */
+	owned_gift_id: string
+
+	/**
+	 * Unique identifier of the chat which will own the gift. The chat must be active in the last 24 hours.
+	 */
+	new_owner_chat_id: number
+
+	/**
+	 * The amount of Telegram Stars that will be paid for the transfer from the business account balance. If positive, then the can_transfer_stars business bot right is required.
+	 */
+	star_count?: number
+}
+
+/**
+ * postStory method parameters
+ */
+export interface PostStoryParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * Content of the story
+	 */
+	content: InputStoryContent
+
+	/**
+	 * Period after which the story is moved to the archive, in seconds; must be one of 6  3600, 12  3600, 86400, or 2 * 86400
+	 */
+	active_period: number
+
+	/**
+	 * Caption of the story, 0-2048 characters after entities parsing
+	 */
+	caption?: string
+
+	/**
+	 * Mode for parsing entities in the story caption. See formatting options for more details.
+	 */
+	parse_mode?: string
+
+	/**
+	 * A JSON-serialized list of special entities that appear in the caption, which can be specified instead of parse_mode
+	 */
+	caption_entities?: MessageEntity[]
+
+	/**
+	 * A JSON-serialized list of clickable areas to be shown on the story
+	 */
+	areas?: StoryArea[]
+
+	/**
+	 * Pass True to keep the story accessible after it expires
+	 */
+	post_to_chat_page?: boolean
+
+	/**
+	 * Pass True if the content of the story must be protected from forwarding and screenshotting
+	 */
+	protect_content?: boolean
+}
+
+/**
+ * editStory method parameters
+ */
+export interface EditStoryParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * Unique identifier of the story to edit
+	 */
+	story_id: number
+
+	/**
+	 * Content of the story
+	 */
+	content: InputStoryContent
+
+	/**
+	 * Caption of the story, 0-2048 characters after entities parsing
+	 */
+	caption?: string
+
+	/**
+	 * Mode for parsing entities in the story caption. See formatting options for more details.
+	 */
+	parse_mode?: string
+
+	/**
+	 * A JSON-serialized list of special entities that appear in the caption, which can be specified instead of parse_mode
+	 */
+	caption_entities?: MessageEntity[]
+
+	/**
+	 * A JSON-serialized list of clickable areas to be shown on the story
+	 */
+	areas?: StoryArea[]
+}
+
+/**
+ * deleteStory method parameters
+ */
+export interface DeleteStoryParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection
+	 */
+	business_connection_id: string
+
+	/**
+	 * Unique identifier of the story to delete
+	 */
+	story_id: number
+}
+
+/**
+ * editMessageLiveLocation method parameters
+ */
+export interface EditMessageLiveLocationParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message to be edited was sent
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Required if inline_message_id is not specified. Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id?: number | string
+
+	/**
+	 * Required if inline_message_id is not specified. Identifier of the message to edit
+	 */
+	message_id?: number
+
+	/**
+	 * Required if chat_id and message_id are not specified. Identifier of the inline message
+	 */
+	inline_message_id?: string
+
+	/**
+	 * Latitude of new location
+	 */
+	latitude: number
+
+	/**
+	 * Longitude of new location
+	 */
+	longitude: number
+
+	/**
+	 * New period in seconds during which the location can be updated, starting from the message send date. If 0x7FFFFFFF is specified, then the location can be updated forever. Otherwise, the new value must not exceed the current live_period by more than a day, and the live location expiration date must remain within the next 90 days. If not specified, then live_period remains unchanged
+	 */
+	live_period?: number
+
+	/**
+	 * The radius of uncertainty for the location, measured in meters; 0-1500
+	 */
+	horizontal_accuracy?: number
+
+	/**
+	 * Direction in which the user is moving, in degrees. Must be between 1 and 360 if specified.
+	 */
+	heading?: number
+
+	/**
+	 * The maximum distance for proximity alerts about approaching another chat member, in meters. Must be between 1 and 100000 if specified.
+	 */
+	proximity_alert_radius?: number
+
+	/**
+	 * A JSON-serialized object for a new inline keyboard.
+	 */
+	reply_markup?: InlineKeyboardMarkup
+}
+
+/**
+ * stopMessageLiveLocation method parameters
+ */
+export interface StopMessageLiveLocationParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message to be edited was sent
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Required if inline_message_id is not specified. Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id?: number | string
+
+	/**
+	 * Required if inline_message_id is not specified. Identifier of the message with live location to stop
+	 */
+	message_id?: number
+
+	/**
+	 * Required if chat_id and message_id are not specified. Identifier of the inline message
+	 */
+	inline_message_id?: string
+
+	/**
+	 * A JSON-serialized object for a new inline keyboard.
+	 */
+	reply_markup?: InlineKeyboardMarkup
+}
+
+/**
+ * editMessageChecklist method parameters
+ */
+export interface EditMessageChecklistParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message will be sent
+	 */
+	business_connection_id: string
+
+	/**
+	 * Unique identifier for the target chat
+	 */
+	chat_id: number
+
+	/**
+	 * Unique identifier for the target message
+	 */
+	message_id: number
+
+	/**
+	 * A JSON-serialized object for the new checklist
+	 */
+	checklist: InputChecklist
+
+	/**
+	 * A JSON-serialized object for the new inline keyboard for the message
+	 */
+	reply_markup?: InlineKeyboardMarkup
+}
+
+/**
+ * stopPoll method parameters
+ */
+export interface StopPollParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message to be edited was sent
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Identifier of the original message with the poll
+	 */
+	message_id: number
+
+	/**
+	 * A JSON-serialized object for a new message inline keyboard.
+	 */
+	reply_markup?: InlineKeyboardMarkup
+}
+
+/**
+ * approveSuggestedPost method parameters
+ */
+export interface ApproveSuggestedPostParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target direct messages chat
+	 */
+	chat_id: number
+
+	/**
+	 * Identifier of a suggested post message to approve
+	 */
+	message_id: number
+
+	/**
+	 * Point in time (Unix timestamp) when the post is expected to be published; omit if the date has already been specified when the suggested post was created. If specified, then the date must be not more than 2678400 seconds (30 days) in the future
+	 */
+	send_date?: number
+}
+
+/**
+ * declineSuggestedPost method parameters
+ */
+export interface DeclineSuggestedPostParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target direct messages chat
+	 */
+	chat_id: number
+
+	/**
+	 * Identifier of a suggested post message to decline
+	 */
+	message_id: number
+
+	/**
+	 * Comment for the creator of the suggested post; 0-128 characters
+	 */
+	comment?: string
+}
+
+/**
+ * deleteMessages method parameters
+ */
+export interface DeleteMessagesParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * A JSON-serialized list of 1-100 identifiers of messages to delete. See deleteMessage for limitations on which messages can be deleted
+	 */
+	message_ids: number[]
+}
+
+/**
+ * getStickerSet method parameters
+ */
+export interface GetStickerSetParams extends Record<string, unknown> {
+	/**
+	 * Name of the sticker set
+	 */
+	name: string
+}
+
+/**
+ * getCustomEmojiStickers method parameters
+ */
+export interface GetCustomEmojiStickersParams extends Record<string, unknown> {
+	/**
+	 * A JSON-serialized list of custom emoji identifiers. At most 200 custom emoji identifiers can be specified.
+	 */
+	custom_emoji_ids: string[]
+}
+
+/**
+ * uploadStickerFile method parameters
+ */
+export interface UploadStickerFileParams extends Record<string, unknown> {
+	/**
+	 * User identifier of sticker file owner
+	 */
+	user_id: number
+
+	/**
+	 * A file with the sticker in .WEBP, .PNG, .TGS, or .WEBM format. See https://core.telegram.org/stickers for technical requirements. More information on Sending Files »
+	 */
+	sticker: InputFile
+
+	/**
+	 * Format of the sticker, must be one of “static”, “animated”, “video”
+	 */
+	sticker_format: string
+}
+
+/**
+ * createNewStickerSet method parameters
+ */
+export interface CreateNewStickerSetParams extends Record<string, unknown> {
+	/**
+	 * User identifier of created sticker set owner
+	 */
+	user_id: number
+
+	/**
+	 * Short name of sticker set, to be used in t.me/addstickers/ URLs (e.g., animals). Can contain only English letters, digits and underscores. Must begin with a letter, can't contain consecutive underscores and must end in "_by_<bot_username>". <bot_username> is case insensitive. 1-64 characters.
+	 */
+	name: string
+
+	/**
+	 * Sticker set title, 1-64 characters
+	 */
+	title: string
+
+	/**
+	 * A JSON-serialized list of 1-50 initial stickers to be added to the sticker set
+	 */
+	stickers: InputSticker[]
+
+	/**
+	 * Type of stickers in the set, pass “regular”, “mask”, or “custom_emoji”. By default, a regular sticker set is created.
+	 */
+	sticker_type?: string
+
+	/**
+	 * Pass True if stickers in the sticker set must be repainted to the color of text when used in messages, the accent color if used as emoji status, white on chat photos, or another appropriate color based on context; for custom emoji sticker sets only
+	 */
+	needs_repainting?: boolean
+}
+
+/**
+ * addStickerToSet method parameters
+ */
+export interface AddStickerToSetParams extends Record<string, unknown> {
+	/**
+	 * User identifier of sticker set owner
+	 */
+	user_id: number
+
+	/**
+	 * Sticker set name
+	 */
+	name: string
+
+	/**
+	 * A JSON-serialized object with information about the added sticker. If exactly the same sticker had already been added to the set, then the set isn't changed.
+	 */
+	sticker: InputSticker
+}
+
+/**
+ * setStickerPositionInSet method parameters
+ */
+export interface SetStickerPositionInSetParams extends Record<string, unknown> {
+	/**
+	 * File identifier of the sticker
+	 */
+	sticker: string
+
+	/**
+	 * New sticker position in the set, zero-based
+	 */
+	position: number
+}
+
+/**
+ * deleteStickerFromSet method parameters
+ */
+export interface DeleteStickerFromSetParams extends Record<string, unknown> {
+	/**
+	 * File identifier of the sticker
+	 */
+	sticker: string
+}
+
+/**
+ * replaceStickerInSet method parameters
+ */
+export interface ReplaceStickerInSetParams extends Record<string, unknown> {
+	/**
+	 * User identifier of the sticker set owner
+	 */
+	user_id: number
+
+	/**
+	 * Sticker set name
+	 */
+	name: string
+
+	/**
+	 * File identifier of the replaced sticker
+	 */
+	old_sticker: string
+
+	/**
+	 * A JSON-serialized object with information about the added sticker. If exactly the same sticker had already been added to the set, then the set remains unchanged.
+	 */
+	sticker: InputSticker
+}
+
+/**
+ * setStickerEmojiList method parameters
+ */
+export interface SetStickerEmojiListParams extends Record<string, unknown> {
+	/**
+	 * File identifier of the sticker
+	 */
+	sticker: string
+
+	/**
+	 * A JSON-serialized list of 1-20 emoji associated with the sticker
+	 */
+	emoji_list: string[]
+}
+
+/**
+ * setStickerKeywords method parameters
+ */
+export interface SetStickerKeywordsParams extends Record<string, unknown> {
+	/**
+	 * File identifier of the sticker
+	 */
+	sticker: string
+
+	/**
+	 * A JSON-serialized list of 0-20 search keywords for the sticker with total length of up to 64 characters
+	 */
+	keywords?: string[]
+}
+
+/**
+ * setStickerMaskPosition method parameters
+ */
+export interface SetStickerMaskPositionParams extends Record<string, unknown> {
+	/**
+	 * File identifier of the sticker
+	 */
+	sticker: string
+
+	/**
+	 * A JSON-serialized object with the position where the mask should be placed on faces. Omit the parameter to remove the mask position.
+	 */
+	mask_position?: MaskPosition
+}
+
+/**
+ * setStickerSetTitle method parameters
+ */
+export interface SetStickerSetTitleParams extends Record<string, unknown> {
+	/**
+	 * Sticker set name
+	 */
+	name: string
+
+	/**
+	 * Sticker set title, 1-64 characters
+	 */
+	title: string
+}
+
+/**
+ * setStickerSetThumbnail method parameters
+ */
+export interface SetStickerSetThumbnailParams extends Record<string, unknown> {
+	/**
+	 * Sticker set name
+	 */
+	name: string
+
+	/**
+	 * User identifier of the sticker set owner
+	 */
+	user_id: number
+
+	/**
+	 * A .WEBP or .PNG image with the thumbnail, must be up to 128 kilobytes in size and have a width and height of exactly 100px, or a .TGS animation with a thumbnail up to 32 kilobytes in size (see https://core.telegram.org/stickers#animation-requirements for animated sticker technical requirements), or a .WEBM video with the thumbnail up to 32 kilobytes in size; see https://core.telegram.org/stickers#video-requirements for video sticker technical requirements. Pass a file_id as a String to send a file that already exists on the Telegram servers, pass an HTTP URL as a String for Telegram to get a file from the Internet, or upload a new one using multipart/form-data. More information on Sending Files ». Animated and video sticker set thumbnails can't be uploaded via HTTP URL. If omitted, then the thumbnail is dropped and the first sticker is used as the thumbnail.
+	 */
+	thumbnail?: InputFile | string
+
+	/**
+	 * Format of the thumbnail, must be one of “static” for a .WEBP or .PNG image, “animated” for a .TGS animation, or “video” for a .WEBM video
+	 */
+	format: string
+}
+
+/**
+ * setCustomEmojiStickerSetThumbnail method parameters
+ */
+export interface SetCustomEmojiStickerSetThumbnailParams
+	extends Record<string, unknown> {
+	/**
+	 * Sticker set name
+	 */
+	name: string
+
+	/**
+	 * Custom emoji identifier of a sticker from the sticker set; pass an empty string to drop the thumbnail and use the first sticker as the thumbnail.
+	 */
+	custom_emoji_id?: string
+}
+
+/**
+ * deleteStickerSet method parameters
+ */
+export interface DeleteStickerSetParams extends Record<string, unknown> {
+	/**
+	 * Sticker set name
+	 */
+	name: string
+}
+
+/**
+ * answerInlineQuery method parameters
+ */
+export interface AnswerInlineQueryParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the answered query
+	 */
+	inline_query_id: string
+
+	/**
+	 * A JSON-serialized array of results for the inline query
+	 */
+	results: InlineQueryResult[]
+
+	/**
+	 * The maximum amount of time in seconds that the result of the inline query may be cached on the server. Defaults to 300.
+	 */
+	cache_time?: number
+
+	/**
+	 * Pass True if results may be cached on the server side only for the user that sent the query. By default, results may be returned to any user who sends the same query.
+	 */
+	is_personal?: boolean
+
+	/**
+	 * Pass the offset that a client should send in the next query with the same text to receive more results. Pass an empty string if there are no more results or if you don't support pagination. Offset length can't exceed 64 bytes.
+	 */
+	next_offset?: string
+
+	/**
+	 * A JSON-serialized object describing a button to be shown above inline query results
+	 */
+	button?: InlineQueryResultsButton
+}
+
+/**
+ * answerWebAppQuery method parameters
+ */
+export interface AnswerWebAppQueryParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the query to be answered
+	 */
+	web_app_query_id: string
+
+	/**
+	 * A JSON-serialized object describing the message to be sent
+	 */
+	result: InlineQueryResult
+}
+
+/**
+ * savePreparedInlineMessage method parameters
+ */
+export interface SavePreparedInlineMessageParams
+	extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the target user that can use the prepared message
+	 */
+	user_id: number
+
+	/**
+	 * A JSON-serialized object describing the message to be sent
+	 */
+	result: InlineQueryResult
+
+	/**
+	 * Pass True if the message can be sent to private chats with users
+	 */
+	allow_user_chats?: boolean
+
+	/**
+	 * Pass True if the message can be sent to private chats with bots
+	 */
+	allow_bot_chats?: boolean
+
+	/**
+	 * Pass True if the message can be sent to group and supergroup chats
+	 */
+	allow_group_chats?: boolean
+
+	/**
+	 * Pass True if the message can be sent to channel chats
+	 */
+	allow_channel_chats?: boolean
+}
+
+/**
+ * sendInvoice method parameters
+ */
+export interface SendInvoiceParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Identifier of the direct messages topic to which the message will be sent; required if the message is sent to a direct messages chat
+	 */
+	direct_messages_topic_id?: number
+
+	/**
+	 * Product name, 1-32 characters
+	 */
+	title: string
+
+	/**
+	 * Product description, 1-255 characters
+	 */
+	description: string
+
+	/**
+	 * Bot-defined invoice payload, 1-128 bytes. This will not be displayed to the user, use it for your internal processes.
+	 */
+	payload: string
+
+	/**
+	 * Payment provider token, obtained via @BotFather. Pass an empty string for payments in Telegram Stars.
+	 */
+	provider_token?: string
+
+	/**
+	 * Three-letter ISO 4217 currency code, see more on currencies. Pass “XTR” for payments in Telegram Stars.
+	 */
+	currency: string
+
+	/**
+	 * Price breakdown, a JSON-serialized list of components (e.g. product price, tax, discount, delivery cost, delivery tax, bonus, etc.). Must contain exactly one item for payments in Telegram Stars.
+	 */
+	prices: LabeledPrice[]
+
+	/**
+	 * The maximum accepted amount for tips in the smallest units of the currency (integer, not float/double). For example, for a maximum tip of US$ 1.45 pass max_tip_amount = 145. See the exp parameter in currencies.json, it shows the number of digits past the decimal point for each currency (2 for the majority of currencies). Defaults to 0. Not supported for payments in Telegram Stars.
+	 */
+	max_tip_amount?: number
+
+	/**
+	 * A JSON-serialized array of suggested amounts of tips in the smallest units of the currency (integer, not float/double). At most 4 suggested tip amounts can be specified. The suggested tip amounts must be positive, passed in a strictly increased order and must not exceed max_tip_amount.
+	 */
+	suggested_tip_amounts?: number[]
+
+	/**
+	 * Unique deep-linking parameter. If left empty, forwarded copies of the sent message will have a Pay button, allowing multiple users to pay directly from the forwarded message, using the same invoice. If non-empty, forwarded copies of the sent message will have a URL button with a deep link to the bot (instead of a Pay button), with the value used as the start parameter
+	 */
+	start_parameter?: string
+
+	/**
+	 * JSON-serialized data about the invoice, which will be shared with the payment provider. A detailed description of required fields should be provided by the payment provider.
+	 */
+	provider_data?: string
+
+	/**
+	 * URL of the product photo for the invoice. Can be a photo of the goods or a marketing image for a service. People like it better when they see what they are paying for.
+	 */
+	photo_url?: string
+
+	/**
+	 * Photo size in bytes
+	 */
+	photo_size?: number
+
+	/**
+	 * Photo width
+	 */
+	photo_width?: number
+
+	/**
+	 * Photo height
+	 */
+	photo_height?: number
+
+	/**
+	 * Pass True if you require the user's full name to complete the order. Ignored for payments in Telegram Stars.
+	 */
+	need_name?: boolean
+
+	/**
+	 * Pass True if you require the user's phone number to complete the order. Ignored for payments in Telegram Stars.
+	 */
+	need_phone_number?: boolean
+
+	/**
+	 * Pass True if you require the user's email address to complete the order. Ignored for payments in Telegram Stars.
+	 */
+	need_email?: boolean
+
+	/**
+	 * Pass True if you require the user's shipping address to complete the order. Ignored for payments in Telegram Stars.
+	 */
+	need_shipping_address?: boolean
+
+	/**
+	 * Pass True if the user's phone number should be sent to the provider. Ignored for payments in Telegram Stars.
+	 */
+	send_phone_number_to_provider?: boolean
+
+	/**
+	 * Pass True if the user's email address should be sent to the provider. Ignored for payments in Telegram Stars.
+	 */
+	send_email_to_provider?: boolean
+
+	/**
+	 * Pass True if the final price depends on the shipping method. Ignored for payments in Telegram Stars.
+	 */
+	is_flexible?: boolean
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent message from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * Pass True to allow up to 1000 messages per second, ignoring broadcasting limits for a fee of 0.1 Telegram Stars per message. The relevant Stars will be withdrawn from the bot's balance
+	 */
+	allow_paid_broadcast?: boolean
+
+	/**
+	 * Unique identifier of the message effect to be added to the message; for private chats only
+	 */
+	message_effect_id?: string
+
+	/**
+	 * A JSON-serialized object containing the parameters of the suggested post to send; for direct messages chats only. If the message is sent as a reply to another suggested post, then that suggested post is automatically declined.
+	 */
+	suggested_post_parameters?: SuggestedPostParameters
+
+	/**
+	 * Description of the message to reply to
+	 */
+	reply_parameters?: ReplyParameters
+
+	/**
+	 * A JSON-serialized object for an inline keyboard. If empty, one 'Pay total price' button will be shown. If not empty, the first button must be a Pay button.
+	 */
+	reply_markup?: InlineKeyboardMarkup
+}
+
+/**
+ * createInvoiceLink method parameters
+ */
+export interface CreateInvoiceLinkParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the link will be created. For payments in Telegram Stars only.
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Product name, 1-32 characters
+	 */
+	title: string
+
+	/**
+	 * Product description, 1-255 characters
+	 */
+	description: string
+
+	/**
+	 * Bot-defined invoice payload, 1-128 bytes. This will not be displayed to the user, use it for your internal processes.
+	 */
+	payload: string
+
+	/**
+	 * Payment provider token, obtained via @BotFather. Pass an empty string for payments in Telegram Stars.
+	 */
+	provider_token?: string
+
+	/**
+	 * Three-letter ISO 4217 currency code, see more on currencies. Pass “XTR” for payments in Telegram Stars.
+	 */
+	currency: string
+
+	/**
+	 * Price breakdown, a JSON-serialized list of components (e.g. product price, tax, discount, delivery cost, delivery tax, bonus, etc.). Must contain exactly one item for payments in Telegram Stars.
+	 */
+	prices: LabeledPrice[]
+
+	/**
+	 * The number of seconds the subscription will be active for before the next payment. The currency must be set to “XTR” (Telegram Stars) if the parameter is used. Currently, it must always be 2592000 (30 days) if specified. Any number of subscriptions can be active for a given bot at the same time, including multiple concurrent subscriptions from the same user. Subscription price must no exceed 10000 Telegram Stars.
+	 */
+	subscription_period?: number
+
+	/**
+	 * The maximum accepted amount for tips in the smallest units of the currency (integer, not float/double). For example, for a maximum tip of US$ 1.45 pass max_tip_amount = 145. See the exp parameter in currencies.json, it shows the number of digits past the decimal point for each currency (2 for the majority of currencies). Defaults to 0. Not supported for payments in Telegram Stars.
+	 */
+	max_tip_amount?: number
+
+	/**
+	 * A JSON-serialized array of suggested amounts of tips in the smallest units of the currency (integer, not float/double). At most 4 suggested tip amounts can be specified. The suggested tip amounts must be positive, passed in a strictly increased order and must not exceed max_tip_amount.
+	 */
+	suggested_tip_amounts?: number[]
+
+	/**
+	 * JSON-serialized data about the invoice, which will be shared with the payment provider. A detailed description of required fields should be provided by the payment provider.
+	 */
+	provider_data?: string
+
+	/**
+	 * URL of the product photo for the invoice. Can be a photo of the goods or a marketing image for a service.
+	 */
+	photo_url?: string
+
+	/**
+	 * Photo size in bytes
+	 */
+	photo_size?: number
+
+	/**
+	 * Photo width
+	 */
+	photo_width?: number
+
+	/**
+	 * Photo height
+	 */
+	photo_height?: number
+
+	/**
+	 * Pass True if you require the user's full name to complete the order. Ignored for payments in Telegram Stars.
+	 */
+	need_name?: boolean
+
+	/**
+	 * Pass True if you require the user's phone number to complete the order. Ignored for payments in Telegram Stars.
+	 */
+	need_phone_number?: boolean
+
+	/**
+	 * Pass True if you require the user's email address to complete the order. Ignored for payments in Telegram Stars.
+	 */
+	need_email?: boolean
+
+	/**
+	 * Pass True if you require the user's shipping address to complete the order. Ignored for payments in Telegram Stars.
+	 */
+	need_shipping_address?: boolean
+
+	/**
+	 * Pass True if the user's phone number should be sent to the provider. Ignored for payments in Telegram Stars.
+	 */
+	send_phone_number_to_provider?: boolean
+
+	/**
+	 * Pass True if the user's email address should be sent to the provider. Ignored for payments in Telegram Stars.
+	 */
+	send_email_to_provider?: boolean
+
+	/**
+	 * Pass True if the final price depends on the shipping method. Ignored for payments in Telegram Stars.
+	 */
+	is_flexible?: boolean
+}
+
+/**
+ * answerShippingQuery method parameters
+ */
+export interface AnswerShippingQueryParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the query to be answered
+	 */
+	shipping_query_id: string
+
+	/**
+	 * Pass True if delivery to the specified address is possible and False if there are any problems (for example, if delivery to the specified address is not possible)
+	 */
+	ok: boolean
+
+	/**
+	 * Required if ok is True. A JSON-serialized array of available shipping options.
+	 */
+	shipping_options?: ShippingOption[]
+
+	/**
+	 * Required if ok is False. Error message in human readable form that explains why it is impossible to complete the order (e.g. “Sorry, delivery to your desired address is unavailable”). Telegram will display this message to the user.
+	 */
+	error_message?: string
+}
+
+/**
+ * answerPreCheckoutQuery method parameters
+ */
+export interface AnswerPreCheckoutQueryParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the query to be answered
+	 */
+	pre_checkout_query_id: string
+
+	/**
+	 * Specify True if everything is alright (goods are available, etc.) and the bot is ready to proceed with the order. Use False if there are any problems.
+	 */
+	ok: boolean
+
+	/**
+	 * Required if ok is False. Error message in human readable form that explains the reason for failure to proceed with the checkout (e.g. "Sorry, somebody just bought the last of our amazing black T-shirts while you were busy filling out your payment details. Please choose a different color or garment!"). Telegram will display this message to the user.
+	 */
+	error_message?: string
+}
+
+/**
+ * getStarTransactions method parameters
+ */
+export interface GetStarTransactionsParams extends Record<string, unknown> {
+	/**
+	 * Number of transactions to skip in the response
+	 */
+	offset?: number
+
+	/**
+	 * The maximum number of transactions to be retrieved. Values between 1-100 are accepted. Defaults to 100.
+	 */
+	limit?: number
+}
+
+/**
+ * refundStarPayment method parameters
+ */
+export interface RefundStarPaymentParams extends Record<string, unknown> {
+	/**
+	 * Identifier of the user whose payment will be refunded
+	 */
+	user_id: number
+
+	/**
+	 * Telegram payment identifier
+	 */
+	telegram_payment_charge_id: string
+}
+
+/**
+ * editUserStarSubscription method parameters
+ */
+export interface EditUserStarSubscriptionParams
+	extends Record<string, unknown> {
+	/**
+	 * Identifier of the user whose subscription will be edited
+	 */
+	user_id: number
+
+	/**
+	 * Telegram payment identifier for the subscription
+	 */
+	telegram_payment_charge_id: string
+
+	/**
+	 * Pass True to cancel extension of the user subscription; the subscription must be active up to the end of the current subscription period. Pass False to allow the user to re-enable a subscription that was previously canceled by the bot.
+	 */
+	is_canceled: boolean
+}
+
+/**
+ * setPassportDataErrors method parameters
+ */
+export interface SetPassportDataErrorsParams extends Record<string, unknown> {
+	/**
+	 * User identifier
+	 */
+	user_id: number
+
+	/**
+	 * A JSON-serialized array describing the errors
+	 */
+	errors: PassportElementError[]
+}
+
+/**
+ * sendGame method parameters
+ */
+export interface SendGameParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier of the business connection on behalf of which the message will be sent
+	 */
+	business_connection_id?: string
+
+	/**
+	 * Unique identifier for the target chat. Games can't be sent to channel direct messages chats and channel chats.
+	 */
+	chat_id: number
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Short name of the game, serves as the unique identifier for the game. Set up your games via @BotFather.
+	 */
+	game_short_name: string
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound.
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent message from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * Pass True to allow up to 1000 messages per second, ignoring broadcasting limits for a fee of 0.1 Telegram Stars per message. The relevant Stars will be withdrawn from the bot's balance
+	 */
+	allow_paid_broadcast?: boolean
+
+	/**
+	 * Unique identifier of the message effect to be added to the message; for private chats only
+	 */
+	message_effect_id?: string
+
+	/**
+	 * Description of the message to reply to
+	 */
+	reply_parameters?: ReplyParameters
+
+	/**
+	 * A JSON-serialized object for an inline keyboard. If empty, one 'Play game_title' button will be shown. If not empty, the first button must launch the game.
+	 */
+	reply_markup?: InlineKeyboardMarkup
+}
+
+/**
+ * setGameScore method parameters
+ */
+export interface SetGameScoreParams extends Record<string, unknown> {
+	/**
+	 * User identifier
+	 */
+	user_id: number
+
+	/**
+	 * New score, must be non-negative
+	 */
+	score: number
+
+	/**
+	 * Pass True if the high score is allowed to decrease. This can be useful when fixing mistakes or banning cheaters
+	 */
+	force?: boolean
+
+	/**
+	 * Pass True if the game message should not be automatically edited to include the current scoreboard
+	 */
+	disable_edit_message?: boolean
+
+	/**
+	 * Required if inline_message_id is not specified. Unique identifier for the target chat
+	 */
+	chat_id?: number
+
+	/**
+	 * Required if inline_message_id is not specified. Identifier of the sent message
+	 */
+	message_id?: number
+
+	/**
+	 * Required if chat_id and message_id are not specified. Identifier of the inline message
+	 */
+	inline_message_id?: string
+}
+
+/**
+ * getGameHighScores method parameters
+ */
+export interface GetGameHighScoresParams extends Record<string, unknown> {
+	/**
+	 * Target user id
+	 */
+	user_id: number
+
+	/**
+	 * Required if inline_message_id is not specified. Unique identifier for the target chat
+	 */
+	chat_id?: number
+
+	/**
+	 * Required if inline_message_id is not specified. Identifier of the sent message
+	 */
+	message_id?: number
+
+	/**
+	 * Required if chat_id and message_id are not specified. Identifier of the inline message
+	 */
+	inline_message_id?: string
+}
+
+/**
+ * Bot API methods generated from the spec. `TelegramBot` extends this
+ * class and provides `request`
+ */
+export abstract class TelegramBotMethods {
+	/**
+	 * Call a Bot API method, checking the result against `schema` when
+	 * `validateResponses` is enabled
+	 */
+	protected abstract request<T>(
+		method: string,
+		params?: Record<string, unknown>,
+		options?: RequestOptions & { schema?: z.ZodType },
+	): Promise<T>
+
+	/**
+	 * A simple method for testing your bot's authentication token. Requires no parameters. Returns basic information about the bot in form of a User object.
+	 *
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `User`
+	 * @see https://core.telegram.org/bots/api#getme
+	 */
+	async getMe(options: RequestOptions = {}): Promise<User> {
+		return await this.request<User>('getMe', undefined, {
+			...options,
+			schema: UserSchema,
+		})
+	}
+
+	/**
+	 * Use this method to log out from the cloud Bot API server before launching the bot locally. You must log out the bot before running it locally, otherwise there is no guarantee that the bot will receive updates. After a successful call, you can immediately log in on a local server, but will not be able to log in back to the cloud Bot API server for 10 minutes. Returns True on success. Requires no parameters.
+	 *
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#logout
+	 */
+	async logOut(options: RequestOptions = {}): Promise<boolean> {
+		return await this.request<boolean>('logOut', undefined, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to close the bot instance before moving it from one local server to another. You need to delete the webhook before calling this method to ensure that the bot isn't launched again after server restart. The method will return error 429 in the first 10 minutes after the bot is launched. Returns True on success. Requires no parameters.
+	 *
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#close
+	 */
+	async close(options: RequestOptions = {}): Promise<boolean> {
+		return await this.request<boolean>('close', undefined, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to forward messages of any kind. Service messages and messages with protected content can't be forwarded. On success, the sent Message is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message`
+	 * @see https://core.telegram.org/bots/api#forwardmessage
+	 */
+	async forwardMessage(
+		params: ForwardMessageParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('forwardMessage', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Use this method to forward multiple messages of any kind. If some of the specified messages can't be found or forwarded, they are skipped. Service messages and messages with protected content can't be forwarded. Album grouping is kept for forwarded messages. On success, an array of MessageId of the sent messages is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `MessageId[]`
+	 * @see https://core.telegram.org/bots/api#forwardmessages
+	 */
+	async forwardMessages(
+		params: ForwardMessagesParams,
+		options: RequestOptions = {},
+	): Promise<MessageId[]> {
+		return await this.request<MessageId[]>('forwardMessages', params, {
+			...options,
+			schema: z.array(MessageIdSchema),
+		})
+	}
+
+	/**
+	 * Use this method to copy messages of any kind. Service messages, paid media messages, giveaway messages, giveaway winners messages, and invoice messages can't be copied. A quiz poll can be copied only if the value of the field correct_option_id is known to the bot. The method is analogous to the method forwardMessage, but the copied message doesn't have a link to the original message. Returns the MessageId of the sent message on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `MessageId`
+	 * @see https://core.telegram.org/bots/api#copymessage
+	 */
+	async copyMessage(
+		params: CopyMessageParams,
+		options: RequestOptions = {},
+	): Promise<MessageId> {
+		return await this.request<MessageId>('copyMessage', params, {
+			...options,
+			schema: MessageIdSchema,
+		})
+	}
+
+	/**
+	 * Use this method to copy messages of any kind. If some of the specified messages can't be found or copied, they are skipped. Service messages, paid media messages, giveaway messages, giveaway winners messages, and invoice messages can't be copied. A quiz poll can be copied only if the value of the field correct_option_id is known to the bot. The method is analogous to the method forwardMessages, but the copied messages don't have a link to the original message. Album grouping is kept for copied messages. On success, an array of MessageId of the sent messages is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `MessageId[]`
+	 * @see https://core.telegram.org/bots/api#copymessages
+	 */
+	async copyMessages(
+		params: CopyMessagesParams,
+		options: RequestOptions = {},
+	): Promise<MessageId[]> {
+		return await this.request<MessageId[]>('copyMessages', params, {
+			...options,
+			schema: z.array(MessageIdSchema),
+		})
+	}
+
+	/**
+	 * Use this method to send paid media. On success, the sent Message is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message`
+	 * @see https://core.telegram.org/bots/api#sendpaidmedia
+	 */
+	async sendPaidMedia(
+		params: SendPaidMediaParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendPaidMedia', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Use this method to send point on the map. On success, the sent Message is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message`
+	 * @see https://core.telegram.org/bots/api#sendlocation
+	 */
+	async sendLocation(
+		params: SendLocationParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendLocation', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Use this method to send information about a venue. On success, the sent Message is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message`
+	 * @see https://core.telegram.org/bots/api#sendvenue
+	 */
+	async sendVenue(
+		params: SendVenueParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendVenue', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Use this method to send phone contacts. On success, the sent Message is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message`
+	 * @see https://core.telegram.org/bots/api#sendcontact
+	 */
+	async sendContact(
+		params: SendContactParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendContact', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Use this method to send a native poll. On success, the sent Message is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message`
+	 * @see https://core.telegram.org/bots/api#sendpoll
+	 */
+	async sendPoll(
+		params: SendPollParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendPoll', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Use this method to send a checklist on behalf of a connected business account. On success, the sent Message is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message`
+	 * @see https://core.telegram.org/bots/api#sendchecklist
+	 */
+	async sendChecklist(
+		params: SendChecklistParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendChecklist', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Use this method to send an animated emoji that will display a random value. On success, the sent Message is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message`
+	 * @see https://core.telegram.org/bots/api#senddice
+	 */
+	async sendDice(
+		params: SendDiceParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendDice', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Use this method when you need to tell the user that something is happening on the bot's side. The status is set for 5 seconds or less (when a message arrives from your bot, Telegram clients clear its typing status). Returns True on success.
+	 * Example: The ImageBot needs some time to process a request and upload the image. Instead of sending a text message along the lines of “Retrieving image, please wait…”, the bot may use sendChatAction with action = upload_photo. The user will see a “sending photo” status for the bot.
+	 * We only recommend using this method when a response from the bot will take a noticeable amount of time to arrive.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#sendchataction
+	 */
+	async sendChatAction(
+		params: SendChatActionParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('sendChatAction', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to change the chosen reactions on a message. Service messages of some types can't be reacted to. Automatically forwarded messages from a channel to its discussion group have the same available reactions as messages in the channel. Bots can't use paid reactions. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setmessagereaction
+	 */
+	async setMessageReaction(
+		params: SetMessageReactionParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setMessageReaction', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to get a list of profile pictures for a user. Returns a UserProfilePhotos object.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `UserProfilePhotos`
+	 * @see https://core.telegram.org/bots/api#getuserprofilephotos
+	 */
+	async getUserProfilePhotos(
+		params: GetUserProfilePhotosParams,
+		options: RequestOptions = {},
+	): Promise<UserProfilePhotos> {
+		return await this.request<UserProfilePhotos>(
+			'getUserProfilePhotos',
+			params,
+			{ ...options, schema: UserProfilePhotosSchema },
+		)
+	}
+
+	/**
+	 * Changes the emoji status for a given user that previously allowed the bot to manage their emoji status via the Mini App method requestEmojiStatusAccess. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setuseremojistatus
+	 */
+	async setUserEmojiStatus(
+		params: SetUserEmojiStatusParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setUserEmojiStatus', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to ban a user in a group, a supergroup or a channel. In the case of supergroups and channels, the user will not be able to return to the chat on their own using invite links, etc., unless unbanned first. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#banchatmember
+	 */
+	async banChatMember(
+		params: BanChatMemberParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('banChatMember', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to unban a previously banned user in a supergroup or channel. The user will not return to the group or channel automatically, but will be able to join via link, etc. The bot must be an administrator for this to work. By default, this method guarantees that after the call the user is not a member of the chat, but will be able to join it. So if the user is a member of the chat they will also be removed from the chat. If you don't want this, use the parameter only_if_banned. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#unbanchatmember
+	 */
+	async unbanChatMember(
+		params: UnbanChatMemberParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('unbanChatMember', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to restrict a user in a supergroup. The bot must be an administrator in the supergroup for this to work and must have the appropriate administrator rights. Pass True for all permissions to lift restrictions from a user. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#restrictchatmember
+	 */
+	async restrictChatMember(
+		params: RestrictChatMemberParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('restrictChatMember', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to promote or demote a user in a supergroup or a channel. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. Pass False for all boolean parameters to demote a user. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#promotechatmember
+	 */
+	async promoteChatMember(
+		params: PromoteChatMemberParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('promoteChatMember', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to set a custom title for an administrator in a supergroup promoted by the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setchatadministratorcustomtitle
+	 */
+	async setChatAdministratorCustomTitle(
+		params: SetChatAdministratorCustomTitleParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>(
+			'setChatAdministratorCustomTitle',
+			params,
+			{ ...options, schema: z.boolean() },
+		)
+	}
+
+	/**
+	 * Use this method to ban a channel chat in a supergroup or a channel. Until the chat is unbanned, the owner of the banned chat won't be able to send messages on behalf of any of their channels. The bot must be an administrator in the supergroup or channel for this to work and must have the appropriate administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#banchatsenderchat
+	 */
+	async banChatSenderChat(
+		params: BanChatSenderChatParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('banChatSenderChat', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to unban a previously banned channel chat in a supergroup or channel. The bot must be an administrator for this to work and must have the appropriate administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#unbanchatsenderchat
+	 */
+	async unbanChatSenderChat(
+		params: UnbanChatSenderChatParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('unbanChatSenderChat', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to set default chat permissions for all members. The bot must be an administrator in the group or a supergroup for this to work and must have the can_restrict_members administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setchatpermissions
+	 */
+	async setChatPermissions(
+		params: SetChatPermissionsParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setChatPermissions', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to generate a new primary invite link for a chat; any previously generated primary link is revoked. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. Returns the new invite link as String on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `string`
+	 * @see https://core.telegram.org/bots/api#exportchatinvitelink
+	 */
+	async exportChatInviteLink(
+		params: ExportChatInviteLinkParams,
+		options: RequestOptions = {},
+	): Promise<string> {
+		return await this.request<string>('exportChatInviteLink', params, {
+			...options,
+			schema: z.string(),
+		})
+	}
+
+	/**
+	 * Use this method to create an additional invite link for a chat. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. The link can be revoked using the method revokeChatInviteLink. Returns the new invite link as ChatInviteLink object.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `ChatInviteLink`
+	 * @see https://core.telegram.org/bots/api#createchatinvitelink
+	 */
+	async createChatInviteLink(
+		params: CreateChatInviteLinkParams,
+		options: RequestOptions = {},
+	): Promise<ChatInviteLink> {
+		return await this.request<ChatInviteLink>('createChatInviteLink', params, {
+			...options,
+			schema: ChatInviteLinkSchema,
+		})
+	}
+
+	/**
+	 * Use this method to edit a non-primary invite link created by the bot. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. Returns the edited invite link as a ChatInviteLink object.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `ChatInviteLink`
+	 * @see https://core.telegram.org/bots/api#editchatinvitelink
+	 */
+	async editChatInviteLink(
+		params: EditChatInviteLinkParams,
+		options: RequestOptions = {},
+	): Promise<ChatInviteLink> {
+		return await this.request<ChatInviteLink>('editChatInviteLink', params, {
+			...options,
+			schema: ChatInviteLinkSchema,
+		})
+	}
+
+	/**
+	 * Use this method to create a subscription invite link for a channel chat. The bot must have the can_invite_users administrator rights. The link can be edited using the method editChatSubscriptionInviteLink or revoked using the method revokeChatInviteLink. Returns the new invite link as a ChatInviteLink object.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `ChatInviteLink`
+	 * @see https://core.telegram.org/bots/api#createchatsubscriptioninvitelink
+	 */
+	async createChatSubscriptionInviteLink(
+		params: CreateChatSubscriptionInviteLinkParams,
+		options: RequestOptions = {},
+	): Promise<ChatInviteLink> {
+		return await this.request<ChatInviteLink>(
+			'createChatSubscriptionInviteLink',
+			params,
+			{ ...options, schema: ChatInviteLinkSchema },
+		)
+	}
+
+	/**
+	 * Use this method to edit a subscription invite link created by the bot. The bot must have the can_invite_users administrator rights. Returns the edited invite link as a ChatInviteLink object.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `ChatInviteLink`
+	 * @see https://core.telegram.org/bots/api#editchatsubscriptioninvitelink
+	 */
+	async editChatSubscriptionInviteLink(
+		params: EditChatSubscriptionInviteLinkParams,
+		options: RequestOptions = {},
+	): Promise<ChatInviteLink> {
+		return await this.request<ChatInviteLink>(
+			'editChatSubscriptionInviteLink',
+			params,
+			{ ...options, schema: ChatInviteLinkSchema },
+		)
+	}
+
+	/**
+	 * Use this method to revoke an invite link created by the bot. If the primary link is revoked, a new link is automatically generated. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. Returns the revoked invite link as ChatInviteLink object.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `ChatInviteLink`
+	 * @see https://core.telegram.org/bots/api#revokechatinvitelink
+	 */
+	async revokeChatInviteLink(
+		params: RevokeChatInviteLinkParams,
+		options: RequestOptions = {},
+	): Promise<ChatInviteLink> {
+		return await this.request<ChatInviteLink>('revokeChatInviteLink', params, {
+			...options,
+			schema: ChatInviteLinkSchema,
+		})
+	}
+
+	/**
+	 * Use this method to approve a chat join request. The bot must be an administrator in the chat for this to work and must have the can_invite_users administrator right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#approvechatjoinrequest
+	 */
+	async approveChatJoinRequest(
+		params: ApproveChatJoinRequestParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('approveChatJoinRequest', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to decline a chat join request. The bot must be an administrator in the chat for this to work and must have the can_invite_users administrator right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#declinechatjoinrequest
+	 */
+	async declineChatJoinRequest(
+		params: DeclineChatJoinRequestParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('declineChatJoinRequest', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to set a new profile photo for the chat. Photos can't be changed for private chats. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setchatphoto
+	 */
+	async setChatPhoto(
+		params: SetChatPhotoParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setChatPhoto', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to delete a chat photo. Photos can't be changed for private chats. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#deletechatphoto
+	 */
+	async deleteChatPhoto(
+		params: DeleteChatPhotoParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('deleteChatPhoto', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to change the title of a chat. Titles can't be changed for private chats. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setchattitle
+	 */
+	async setChatTitle(
+		params: SetChatTitleParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setChatTitle', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to change the description of a group, a supergroup or a channel. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setchatdescription
+	 */
+	async setChatDescription(
+		params: SetChatDescriptionParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setChatDescription', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to add a message to the list of pinned messages in a chat. In private chats and channel direct messages chats, all non-service messages can be pinned. Conversely, the bot must be an administrator with the 'can_pin_messages' right or the 'can_edit_messages' right to pin messages in groups and channels respectively. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#pinchatmessage
+	 */
+	async pinChatMessage(
+		params: PinChatMessageParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('pinChatMessage', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to remove a message from the list of pinned messages in a chat. In private chats and channel direct messages chats, all messages can be unpinned. Conversely, the bot must be an administrator with the 'can_pin_messages' right or the 'can_edit_messages' right to unpin messages in groups and channels respectively. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#unpinchatmessage
+	 */
+	async unpinChatMessage(
+		params: UnpinChatMessageParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('unpinChatMessage', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to clear the list of pinned messages in a chat. In private chats and channel direct messages chats, no additional rights are required to unpin all pinned messages. Conversely, the bot must be an administrator with the 'can_pin_messages' right or the 'can_edit_messages' right to unpin all pinned messages in groups and channels respectively. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#unpinallchatmessages
+	 */
+	async unpinAllChatMessages(
+		params: UnpinAllChatMessagesParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('unpinAllChatMessages', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method for your bot to leave a group, supergroup or channel. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#leavechat
+	 */
+	async leaveChat(
+		params: LeaveChatParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('leaveChat', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to get up-to-date information about the chat. Returns a ChatFullInfo object on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `ChatFullInfo`
+	 * @see https://core.telegram.org/bots/api#getchat
+	 */
+	async getChat(
+		params: GetChatParams,
+		options: RequestOptions = {},
+	): Promise<ChatFullInfo> {
+		return await this.request<ChatFullInfo>('getChat', params, {
+			...options,
+			schema: ChatFullInfoSchema,
+		})
+	}
+
+	/**
+	 * Use this method to get a list of administrators in a chat, which aren't bots. Returns an Array of ChatMember objects.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `ChatMember[]`
+	 * @see https://core.telegram.org/bots/api#getchatadministrators
+	 */
+	async getChatAdministrators(
+		params: GetChatAdministratorsParams,
+		options: RequestOptions = {},
+	): Promise<ChatMember[]> {
+		return await this.request<ChatMember[]>('getChatAdministrators', params, {
+			...options,
+			schema: z.array(ChatMemberSchema),
+		})
+	}
+
+	/**
+	 * Use this method to get the number of members in a chat. Returns Int on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `number`
+	 * @see https://core.telegram.org/bots/api#getchatmembercount
+	 */
+	async getChatMemberCount(
+		params: GetChatMemberCountParams,
+		options: RequestOptions = {},
+	): Promise<number> {
+		return await this.request<number>('getChatMemberCount', params, {
+			...options,
+			schema: z.number().int(),
+		})
+	}
+
+	/**
+	 * Use this method to get information about a member of a chat. The method is only guaranteed to work for other users if the bot is an administrator in the chat. Returns a ChatMember object on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `ChatMember`
+	 * @see https://core.telegram.org/bots/api#getchatmember
+	 */
+	async getChatMember(
+		params: GetChatMemberParams,
+		options: RequestOptions = {},
+	): Promise<ChatMember> {
+		return await this.request<ChatMember>('getChatMember', params, {
+			...options,
+			schema: ChatMemberSchema,
+		})
+	}
+
+	/**
+	 * Use this method to set a new group sticker set for a supergroup. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. Use the field can_set_sticker_set optionally returned in getChat requests to check if the bot can use this method. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setchatstickerset
+	 */
+	async setChatStickerSet(
+		params: SetChatStickerSetParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setChatStickerSet', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to delete a group sticker set from a supergroup. The bot must be an administrator in the chat for this to work and must have the appropriate administrator rights. Use the field can_set_sticker_set optionally returned in getChat requests to check if the bot can use this method. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#deletechatstickerset
+	 */
+	async deleteChatStickerSet(
+		params: DeleteChatStickerSetParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('deleteChatStickerSet', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to get custom emoji stickers, which can be used as a forum topic icon by any user. Requires no parameters. Returns an Array of Sticker objects.
+	 *
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Sticker[]`
+	 * @see https://core.telegram.org/bots/api#getforumtopiciconstickers
+	 */
+	async getForumTopicIconStickers(
+		options: RequestOptions = {},
+	): Promise<Sticker[]> {
+		return await this.request<Sticker[]>(
+			'getForumTopicIconStickers',
+			undefined,
+			{ ...options, schema: z.array(StickerSchema) },
+		)
+	}
+
+	/**
+	 * Use this method to create a topic in a forum supergroup chat. The bot must be an administrator in the chat for this to work and must have the can_manage_topics administrator rights. Returns information about the created topic as a ForumTopic object.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `ForumTopic`
+	 * @see https://core.telegram.org/bots/api#createforumtopic
+	 */
+	async createForumTopic(
+		params: CreateForumTopicParams,
+		options: RequestOptions = {},
+	): Promise<ForumTopic> {
+		return await this.request<ForumTopic>('createForumTopic', params, {
+			...options,
+			schema: ForumTopicSchema,
+		})
+	}
+
+	/**
+	 * Use this method to edit name and icon of a topic in a forum supergroup chat. The bot must be an administrator in the chat for this to work and must have the can_manage_topics administrator rights, unless it is the creator of the topic. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#editforumtopic
+	 */
+	async editForumTopic(
+		params: EditForumTopicParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('editForumTopic', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to close an open topic in a forum supergroup chat. The bot must be an administrator in the chat for this to work and must have the can_manage_topics administrator rights, unless it is the creator of the topic. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#closeforumtopic
+	 */
+	async closeForumTopic(
+		params: CloseForumTopicParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('closeForumTopic', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to reopen a closed topic in a forum supergroup chat. The bot must be an administrator in the chat for this to work and must have the can_manage_topics administrator rights, unless it is the creator of the topic. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#reopenforumtopic
+	 */
+	async reopenForumTopic(
+		params: ReopenForumTopicParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('reopenForumTopic', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to delete a forum topic along with all its messages in a forum supergroup chat. The bot must be an administrator in the chat for this to work and must have the can_delete_messages administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#deleteforumtopic
+	 */
+	async deleteForumTopic(
+		params: DeleteForumTopicParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('deleteForumTopic', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to clear the list of pinned messages in a forum topic. The bot must be an administrator in the chat for this to work and must have the can_pin_messages administrator right in the supergroup. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#unpinallforumtopicmessages
+	 */
+	async unpinAllForumTopicMessages(
+		params: UnpinAllForumTopicMessagesParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('unpinAllForumTopicMessages', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to edit the name of the 'General' topic in a forum supergroup chat. The bot must be an administrator in the chat for this to work and must have the can_manage_topics administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#editgeneralforumtopic
+	 */
+	async editGeneralForumTopic(
+		params: EditGeneralForumTopicParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('editGeneralForumTopic', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to close an open 'General' topic in a forum supergroup chat. The bot must be an administrator in the chat for this to work and must have the can_manage_topics administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#closegeneralforumtopic
+	 */
+	async closeGeneralForumTopic(
+		params: CloseGeneralForumTopicParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('closeGeneralForumTopic', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to reopen a closed 'General' topic in a forum supergroup chat. The bot must be an administrator in the chat for this to work and must have the can_manage_topics administrator rights. The topic will be automatically unhidden if it was hidden. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#reopengeneralforumtopic
+	 */
+	async reopenGeneralForumTopic(
+		params: ReopenGeneralForumTopicParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('reopenGeneralForumTopic', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to hide the 'General' topic in a forum supergroup chat. The bot must be an administrator in the chat for this to work and must have the can_manage_topics administrator rights. The topic will be automatically closed if it was open. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#hidegeneralforumtopic
+	 */
+	async hideGeneralForumTopic(
+		params: HideGeneralForumTopicParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('hideGeneralForumTopic', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to unhide the 'General' topic in a forum supergroup chat. The bot must be an administrator in the chat for this to work and must have the can_manage_topics administrator rights. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#unhidegeneralforumtopic
+	 */
+	async unhideGeneralForumTopic(
+		params: UnhideGeneralForumTopicParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('unhideGeneralForumTopic', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to clear the list of pinned messages in a General forum topic. The bot must be an administrator in the chat for this to work and must have the can_pin_messages administrator right in the supergroup. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#unpinallgeneralforumtopicmessages
+	 */
+	async unpinAllGeneralForumTopicMessages(
+		params: UnpinAllGeneralForumTopicMessagesParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>(
+			'unpinAllGeneralForumTopicMessages',
+			params,
+			{ ...options, schema: z.boolean() },
+		)
+	}
+
+	/**
+	 * Use this method to get the list of boosts added to a chat by a user. Requires administrator rights in the chat. Returns a UserChatBoosts object.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `UserChatBoosts`
+	 * @see https://core.telegram.org/bots/api#getuserchatboosts
+	 */
+	async getUserChatBoosts(
+		params: GetUserChatBoostsParams,
+		options: RequestOptions = {},
+	): Promise<UserChatBoosts> {
+		return await this.request<UserChatBoosts>('getUserChatBoosts', params, {
+			...options,
+			schema: UserChatBoostsSchema,
+		})
+	}
+
+	/**
+	 * Use this method to get information about the connection of the bot with a business account. Returns a BusinessConnection object on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `BusinessConnection`
+	 * @see https://core.telegram.org/bots/api#getbusinessconnection
+	 */
+	async getBusinessConnection(
+		params: GetBusinessConnectionParams,
+		options: RequestOptions = {},
+	): Promise<BusinessConnection> {
+		return await this.request<BusinessConnection>(
+			'getBusinessConnection',
+			params,
+			{ ...options, schema: BusinessConnectionSchema },
+		)
+	}
+
+	/**
+	 * Use this method to change the list of the bot's commands. See this manual for more details about bot commands. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setmycommands
+	 */
+	async setMyCommands(
+		params: SetMyCommandsParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setMyCommands', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to delete the list of the bot's commands for the given scope and user language. After deletion, higher level commands will be shown to affected users. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#deletemycommands
+	 */
+	async deleteMyCommands(
+		params: DeleteMyCommandsParams = {},
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('deleteMyCommands', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to get the current list of the bot's commands for the given scope and user language. Returns an Array of BotCommand objects. If commands aren't set, an empty list is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `BotCommand[]`
+	 * @see https://core.telegram.org/bots/api#getmycommands
+	 */
+	async getMyCommands(
+		params: GetMyCommandsParams = {},
+		options: RequestOptions = {},
+	): Promise<BotCommand[]> {
+		return await this.request<BotCommand[]>('getMyCommands', params, {
+			...options,
+			schema: z.array(BotCommandSchema),
+		})
+	}
+
+	/**
+	 * Use this method to change the bot's name. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setmyname
+	 */
+	async setMyName(
+		params: SetMyNameParams = {},
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setMyName', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to get the current bot name for the given user language. Returns BotName on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `BotName`
+	 * @see https://core.telegram.org/bots/api#getmyname
+	 */
+	async getMyName(
+		params: GetMyNameParams = {},
+		options: RequestOptions = {},
+	): Promise<BotName> {
+		return await this.request<BotName>('getMyName', params, {
+			...options,
+			schema: BotNameSchema,
+		})
+	}
+
+	/**
+	 * Use this method to change the bot's description, which is shown in the chat with the bot if the chat is empty. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setmydescription
+	 */
+	async setMyDescription(
+		params: SetMyDescriptionParams = {},
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setMyDescription', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to get the current bot description for the given user language. Returns BotDescription on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `BotDescription`
+	 * @see https://core.telegram.org/bots/api#getmydescription
+	 */
+	async getMyDescription(
+		params: GetMyDescriptionParams = {},
+		options: RequestOptions = {},
+	): Promise<BotDescription> {
+		return await this.request<BotDescription>('getMyDescription', params, {
+			...options,
+			schema: BotDescriptionSchema,
+		})
+	}
+
+	/**
+	 * Use this method to change the bot's short description, which is shown on the bot's profile page and is sent together with the link when users share the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setmyshortdescription
+	 */
+	async setMyShortDescription(
+		params: SetMyShortDescriptionParams = {},
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setMyShortDescription', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to get the current bot short description for the given user language. Returns BotShortDescription on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `BotShortDescription`
+	 * @see https://core.telegram.org/bots/api#getmyshortdescription
+	 */
+	async getMyShortDescription(
+		params: GetMyShortDescriptionParams = {},
+		options: RequestOptions = {},
+	): Promise<BotShortDescription> {
+		return await this.request<BotShortDescription>(
+			'getMyShortDescription',
+			params,
+			{ ...options, schema: BotShortDescriptionSchema },
+		)
+	}
+
+	/**
+	 * Use this method to change the bot's menu button in a private chat, or the default menu button. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setchatmenubutton
+	 */
+	async setChatMenuButton(
+		params: SetChatMenuButtonParams = {},
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setChatMenuButton', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to get the current value of the bot's menu button in a private chat, or the default menu button. Returns MenuButton on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `MenuButton`
+	 * @see https://core.telegram.org/bots/api#getchatmenubutton
+	 */
+	async getChatMenuButton(
+		params: GetChatMenuButtonParams = {},
+		options: RequestOptions = {},
+	): Promise<MenuButton> {
+		return await this.request<MenuButton>('getChatMenuButton', params, {
+			...options,
+			schema: MenuButtonSchema,
+		})
+	}
+
+	/**
+	 * Use this method to change the default administrator rights requested by the bot when it's added as an administrator to groups or channels. These rights will be suggested to users, but they are free to modify the list before adding the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setmydefaultadministratorrights
+	 */
+	async setMyDefaultAdministratorRights(
+		params: SetMyDefaultAdministratorRightsParams = {},
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>(
+			'setMyDefaultAdministratorRights',
+			params,
+			{ ...options, schema: z.boolean() },
+		)
+	}
+
+	/**
+	 * Use this method to get the current default administrator rights of the bot. Returns ChatAdministratorRights on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `ChatAdministratorRights`
+	 * @see https://core.telegram.org/bots/api#getmydefaultadministratorrights
+	 */
+	async getMyDefaultAdministratorRights(
+		params: GetMyDefaultAdministratorRightsParams = {},
+		options: RequestOptions = {},
+	): Promise<ChatAdministratorRights> {
+		return await this.request<ChatAdministratorRights>(
+			'getMyDefaultAdministratorRights',
+			params,
+			{ ...options, schema: ChatAdministratorRightsSchema },
+		)
+	}
+
+	/**
+	 * Returns the list of gifts that can be sent by the bot to users and channel chats. Requires no parameters. Returns a Gifts object.
+	 *
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Gifts`
+	 * @see https://core.telegram.org/bots/api#getavailablegifts
+	 */
+	async getAvailableGifts(options: RequestOptions = {}): Promise<Gifts> {
+		return await this.request<Gifts>('getAvailableGifts', undefined, {
+			...options,
+			schema: GiftsSchema,
+		})
+	}
+
+	/**
+	 * Sends a gift to the given user or channel chat. The gift can't be converted to Telegram Stars by the receiver. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#sendgift
+	 */
+	async sendGift(
+		params: SendGiftParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('sendGift', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Gifts a Telegram Premium subscription to the given user. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#giftpremiumsubscription
+	 */
+	async giftPremiumSubscription(
+		params: GiftPremiumSubscriptionParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('giftPremiumSubscription', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Verifies a user on behalf of the organization which is represented by the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#verifyuser
+	 */
+	async verifyUser(
+		params: VerifyUserParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('verifyUser', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Verifies a chat on behalf of the organization which is represented by the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#verifychat
+	 */
+	async verifyChat(
+		params: VerifyChatParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('verifyChat', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Removes verification from a user who is currently verified on behalf of the organization represented by the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#removeuserverification
+	 */
+	async removeUserVerification(
+		params: RemoveUserVerificationParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('removeUserVerification', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Removes verification from a chat that is currently verified on behalf of the organization represented by the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#removechatverification
+	 */
+	async removeChatVerification(
+		params: RemoveChatVerificationParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('removeChatVerification', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Marks incoming message as read on behalf of a business account. Requires the can_read_messages business bot right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#readbusinessmessage
+	 */
+	async readBusinessMessage(
+		params: ReadBusinessMessageParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('readBusinessMessage', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Delete messages on behalf of a business account. Requires the can_delete_sent_messages business bot right to delete messages sent by the bot itself, or the can_delete_all_messages business bot right to delete any message. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#deletebusinessmessages
+	 */
+	async deleteBusinessMessages(
+		params: DeleteBusinessMessagesParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('deleteBusinessMessages', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Changes the first and last name of a managed business account. Requires the can_change_name business bot right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setbusinessaccountname
+	 */
+	async setBusinessAccountName(
+		params: SetBusinessAccountNameParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setBusinessAccountName', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Changes the username of a managed business account. Requires the can_change_username business bot right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setbusinessaccountusername
+	 */
+	async setBusinessAccountUsername(
+		params: SetBusinessAccountUsernameParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setBusinessAccountUsername', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Changes the bio of a managed business account. Requires the can_change_bio business bot right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setbusinessaccountbio
+	 */
+	async setBusinessAccountBio(
+		params: SetBusinessAccountBioParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setBusinessAccountBio', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Changes the profile photo of a managed business account. Requires the can_edit_profile_photo business bot right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setbusinessaccountprofilephoto
+	 */
+	async setBusinessAccountProfilePhoto(
+		params: SetBusinessAccountProfilePhotoParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>(
+			'setBusinessAccountProfilePhoto',
+			params,
+			{ ...options, schema: z.boolean() },
+		)
+	}
+
+	/**
+	 * Removes the current profile photo of a managed business account. Requires the can_edit_profile_photo business bot right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#removebusinessaccountprofilephoto
+	 */
+	async removeBusinessAccountProfilePhoto(
+		params: RemoveBusinessAccountProfilePhotoParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>(
+			'removeBusinessAccountProfilePhoto',
+			params,
+			{ ...options, schema: z.boolean() },
+		)
+	}
+
+	/**
+	 * Changes the privacy settings pertaining to incoming gifts in a managed business account. Requires the can_change_gift_settings business bot right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setbusinessaccountgiftsettings
+	 */
+	async setBusinessAccountGiftSettings(
+		params: SetBusinessAccountGiftSettingsParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>(
+			'setBusinessAccountGiftSettings',
+			params,
+			{ ...options, schema: z.boolean() },
+		)
+	}
+
+	/**
+	 * Returns the amount of Telegram Stars owned by a managed business account. Requires the can_view_gifts_and_stars business bot right. Returns StarAmount on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `StarAmount`
+	 * @see https://core.telegram.org/bots/api#getbusinessaccountstarbalance
+	 */
+	async getBusinessAccountStarBalance(
+		params: GetBusinessAccountStarBalanceParams,
+		options: RequestOptions = {},
+	): Promise<StarAmount> {
+		return await this.request<StarAmount>(
+			'getBusinessAccountStarBalance',
+			params,
+			{ ...options, schema: StarAmountSchema },
+		)
+	}
+
+	/**
+	 * Transfers Telegram Stars from the business account balance to the bot's balance. Requires the can_transfer_stars business bot right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#transferbusinessaccountstars
+	 */
+	async transferBusinessAccountStars(
+		params: TransferBusinessAccountStarsParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('transferBusinessAccountStars', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Returns the gifts received and owned by a managed business account. Requires the can_view_gifts_and_stars business bot right. Returns OwnedGifts on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `OwnedGifts`
+	 * @see https://core.telegram.org/bots/api#getbusinessaccountgifts
+	 */
+	async getBusinessAccountGifts(
+		params: GetBusinessAccountGiftsParams,
+		options: RequestOptions = {},
+	): Promise<OwnedGifts> {
+		return await this.request<OwnedGifts>('getBusinessAccountGifts', params, {
+			...options,
+			schema: OwnedGiftsSchema,
+		})
+	}
+
+	/**
+	 * Converts a given regular gift to Telegram Stars. Requires the can_convert_gifts_to_stars business bot right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#convertgifttostars
+	 */
+	async convertGiftToStars(
+		params: ConvertGiftToStarsParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('convertGiftToStars', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Upgrades a given regular gift to a unique gift. Requires the can_transfer_and_upgrade_gifts business bot right. Additionally requires the can_transfer_stars business bot right if the upgrade is paid. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#upgradegift
+	 */
+	async upgradeGift(
+		params: UpgradeGiftParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('upgradeGift', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Transfers an owned unique gift to another user. Requires the can_transfer_and_upgrade_gifts business bot right. Requires can_transfer_stars business bot right if the transfer is paid. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#transfergift
+	 */
+	async transferGift(
+		params: TransferGiftParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('transferGift', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Posts a story on behalf of a managed business account. Requires the can_manage_stories business bot right. Returns Story on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Story`
+	 * @see https://core.telegram.org/bots/api#poststory
+	 */
+	async postStory(
+		params: PostStoryParams,
+		options: RequestOptions = {},
+	): Promise<Story> {
+		return await this.request<Story>('postStory', params, {
+			...options,
+			schema: StorySchema,
+		})
+	}
+
+	/**
+	 * Edits a story previously posted by the bot on behalf of a managed business account. Requires the can_manage_stories business bot right. Returns Story on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Story`
+	 * @see https://core.telegram.org/bots/api#editstory
+	 */
+	async editStory(
+		params: EditStoryParams,
+		options: RequestOptions = {},
+	): Promise<Story> {
+		return await this.request<Story>('editStory', params, {
+			...options,
+			schema: StorySchema,
+		})
+	}
+
+	/**
+	 * Deletes a story previously posted by the bot on behalf of a managed business account. Requires the can_manage_stories business bot right. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#deletestory
+	 */
+	async deleteStory(
+		params: DeleteStoryParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('deleteStory', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to edit live location messages. A location can be edited until its live_period expires or editing is explicitly disabled by a call to stopMessageLiveLocation. On success, if the edited message is not an inline message, the edited Message is returned, otherwise True is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message | true`
+	 * @see https://core.telegram.org/bots/api#editmessagelivelocation
+	 */
+	async editMessageLiveLocation(
+		params: EditMessageLiveLocationParams,
+		options: RequestOptions = {},
+	): Promise<Message | true> {
+		return await this.request<Message | true>(
+			'editMessageLiveLocation',
+			params,
+			{ ...options, schema: z.union([MessageSchema, z.literal(true)]) },
+		)
+	}
+
+	/**
+	 * Use this method to stop updating a live location message before live_period expires. On success, if the message is not an inline message, the edited Message is returned, otherwise True is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message | true`
+	 * @see https://core.telegram.org/bots/api#stopmessagelivelocation
+	 */
+	async stopMessageLiveLocation(
+		params: StopMessageLiveLocationParams = {},
+		options: RequestOptions = {},
+	): Promise<Message | true> {
+		return await this.request<Message | true>(
+			'stopMessageLiveLocation',
+			params,
+			{ ...options, schema: z.union([MessageSchema, z.literal(true)]) },
+		)
+	}
+
+	/**
+	 * Use this method to edit a checklist on behalf of a connected business account. On success, the edited Message is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message`
+	 * @see https://core.telegram.org/bots/api#editmessagechecklist
+	 */
+	async editMessageChecklist(
+		params: EditMessageChecklistParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('editMessageChecklist', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Use this method to stop a poll which was sent by the bot. On success, the stopped Poll is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Poll`
+	 * @see https://core.telegram.org/bots/api#stoppoll
+	 */
+	async stopPoll(
+		params: StopPollParams,
+		options: RequestOptions = {},
+	): Promise<Poll> {
+		return await this.request<Poll>('stopPoll', params, {
+			...options,
+			schema: PollSchema,
+		})
+	}
+
+	/**
+	 * Use this method to approve a suggested post in a direct messages chat. The bot must have the 'can_post_messages' administrator right in the corresponding channel chat. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#approvesuggestedpost
+	 */
+	async approveSuggestedPost(
+		params: ApproveSuggestedPostParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('approveSuggestedPost', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to decline a suggested post in a direct messages chat. The bot must have the 'can_manage_direct_messages' administrator right in the corresponding channel chat. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#declinesuggestedpost
+	 */
+	async declineSuggestedPost(
+		params: DeclineSuggestedPostParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('declineSuggestedPost', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to delete multiple messages simultaneously. If some of the specified messages can't be found, they are skipped. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#deletemessages
+	 */
+	async deleteMessages(
+		params: DeleteMessagesParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('deleteMessages', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to get a sticker set. On success, a StickerSet object is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `StickerSet`
+	 * @see https://core.telegram.org/bots/api#getstickerset
+	 */
+	async getStickerSet(
+		params: GetStickerSetParams,
+		options: RequestOptions = {},
+	): Promise<StickerSet> {
+		return await this.request<StickerSet>('getStickerSet', params, {
+			...options,
+			schema: StickerSetSchema,
+		})
+	}
+
+	/**
+	 * Use this method to get information about custom emoji stickers by their identifiers. Returns an Array of Sticker objects.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Sticker[]`
+	 * @see https://core.telegram.org/bots/api#getcustomemojistickers
+	 */
+	async getCustomEmojiStickers(
+		params: GetCustomEmojiStickersParams,
+		options: RequestOptions = {},
+	): Promise<Sticker[]> {
+		return await this.request<Sticker[]>('getCustomEmojiStickers', params, {
+			...options,
+			schema: z.array(StickerSchema),
+		})
+	}
+
+	/**
+	 * Use this method to upload a file with a sticker for later use in the createNewStickerSet, addStickerToSet, or replaceStickerInSet methods (the file can be used multiple times). Returns the uploaded File on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `TelegramFile`
+	 * @see https://core.telegram.org/bots/api#uploadstickerfile
+	 */
+	async uploadStickerFile(
+		params: UploadStickerFileParams,
+		options: RequestOptions = {},
+	): Promise<TelegramFile> {
+		return await this.request<TelegramFile>('uploadStickerFile', params, {
+			...options,
+			schema: TelegramFileSchema,
+		})
+	}
+
+	/**
+	 * Use this method to create a new sticker set owned by a user. The bot will be able to edit the sticker set thus created. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#createnewstickerset
+	 */
+	async createNewStickerSet(
+		params: CreateNewStickerSetParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('createNewStickerSet', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to add a new sticker to a set created by the bot. Emoji sticker sets can have up to 200 stickers. Other sticker sets can have up to 120 stickers. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#addstickertoset
+	 */
+	async addStickerToSet(
+		params: AddStickerToSetParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('addStickerToSet', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to move a sticker in a set created by the bot to a specific position. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setstickerpositioninset
+	 */
+	async setStickerPositionInSet(
+		params: SetStickerPositionInSetParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setStickerPositionInSet', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to delete a sticker from a set created by the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#deletestickerfromset
+	 */
+	async deleteStickerFromSet(
+		params: DeleteStickerFromSetParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('deleteStickerFromSet', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to replace an existing sticker in a sticker set with a new one. The method is equivalent to calling deleteStickerFromSet, then addStickerToSet, then setStickerPositionInSet. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#replacestickerinset
+	 */
+	async replaceStickerInSet(
+		params: ReplaceStickerInSetParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('replaceStickerInSet', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to change the list of emoji assigned to a regular or custom emoji sticker. The sticker must belong to a sticker set created by the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setstickeremojilist
+	 */
+	async setStickerEmojiList(
+		params: SetStickerEmojiListParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setStickerEmojiList', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to change search keywords assigned to a regular or custom emoji sticker. The sticker must belong to a sticker set created by the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setstickerkeywords
+	 */
+	async setStickerKeywords(
+		params: SetStickerKeywordsParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setStickerKeywords', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to change the mask position of a mask sticker. The sticker must belong to a sticker set that was created by the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setstickermaskposition
+	 */
+	async setStickerMaskPosition(
+		params: SetStickerMaskPositionParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setStickerMaskPosition', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to set the title of a created sticker set. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setstickersettitle
+	 */
+	async setStickerSetTitle(
+		params: SetStickerSetTitleParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setStickerSetTitle', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to set the thumbnail of a regular or mask sticker set. The format of the thumbnail file must match the format of the stickers in the set. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setstickersetthumbnail
+	 */
+	async setStickerSetThumbnail(
+		params: SetStickerSetThumbnailParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setStickerSetThumbnail', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to set the thumbnail of a custom emoji sticker set. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setcustomemojistickersetthumbnail
+	 */
+	async setCustomEmojiStickerSetThumbnail(
+		params: SetCustomEmojiStickerSetThumbnailParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>(
+			'setCustomEmojiStickerSetThumbnail',
+			params,
+			{ ...options, schema: z.boolean() },
+		)
+	}
+
+	/**
+	 * Use this method to delete a sticker set that was created by the bot. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#deletestickerset
+	 */
+	async deleteStickerSet(
+		params: DeleteStickerSetParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('deleteStickerSet', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to send answers to an inline query. On success, True is returned.
+No more than 50 results per query are allowed.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#answerinlinequery
+	 */
+	async answerInlineQuery(
+		params: AnswerInlineQueryParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('answerInlineQuery', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to set the result of an interaction with a Web App and send a corresponding message on behalf of the user to the chat from which the query originated. On success, a SentWebAppMessage object is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `SentWebAppMessage`
+	 * @see https://core.telegram.org/bots/api#answerwebappquery
+	 */
+	async answerWebAppQuery(
+		params: AnswerWebAppQueryParams,
+		options: RequestOptions = {},
+	): Promise<SentWebAppMessage> {
+		return await this.request<SentWebAppMessage>('answerWebAppQuery', params, {
+			...options,
+			schema: SentWebAppMessageSchema,
+		})
+	}
+
+	/**
+	 * Stores a message that can be sent by a user of a Mini App. Returns a PreparedInlineMessage object.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `PreparedInlineMessage`
+	 * @see https://core.telegram.org/bots/api#savepreparedinlinemessage
+	 */
+	async savePreparedInlineMessage(
+		params: SavePreparedInlineMessageParams,
+		options: RequestOptions = {},
+	): Promise<PreparedInlineMessage> {
+		return await this.request<PreparedInlineMessage>(
+			'savePreparedInlineMessage',
+			params,
+			{ ...options, schema: PreparedInlineMessageSchema },
+		)
+	}
+
+	/**
+	 * Use this method to send invoices. On success, the sent Message is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message`
+	 * @see https://core.telegram.org/bots/api#sendinvoice
+	 */
+	async sendInvoice(
+		params: SendInvoiceParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendInvoice', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Use this method to create a link for an invoice. Returns the created invoice link as String on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `string`
+	 * @see https://core.telegram.org/bots/api#createinvoicelink
+	 */
+	async createInvoiceLink(
+		params: CreateInvoiceLinkParams,
+		options: RequestOptions = {},
+	): Promise<string> {
+		return await this.request<string>('createInvoiceLink', params, {
+			...options,
+			schema: z.string(),
+		})
+	}
+
+	/**
+	 * If you sent an invoice requesting a shipping address and the parameter is_flexible was specified, the Bot API will send an Update with a shipping_query field to the bot. Use this method to reply to shipping queries. On success, True is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#answershippingquery
+	 */
+	async answerShippingQuery(
+		params: AnswerShippingQueryParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('answerShippingQuery', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Once the user has confirmed their payment and shipping details, the Bot API sends the final confirmation in the form of an Update with the field pre_checkout_query. Use this method to respond to such pre-checkout queries. On success, True is returned. Note: The Bot API must receive an answer within 10 seconds after the pre-checkout query was sent.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#answerprecheckoutquery
+	 */
+	async answerPreCheckoutQuery(
+		params: AnswerPreCheckoutQueryParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('answerPreCheckoutQuery', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * A method to get the current Telegram Stars balance of the bot. Requires no parameters. On success, returns a StarAmount object.
+	 *
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `StarAmount`
+	 * @see https://core.telegram.org/bots/api#getmystarbalance
+	 */
+	async getMyStarBalance(options: RequestOptions = {}): Promise<StarAmount> {
+		return await this.request<StarAmount>('getMyStarBalance', undefined, {
+			...options,
+			schema: StarAmountSchema,
+		})
+	}
+
+	/**
+	 * Returns the bot's Telegram Star transactions in chronological order. On success, returns a StarTransactions object.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `StarTransactions`
+	 * @see https://core.telegram.org/bots/api#getstartransactions
+	 */
+	async getStarTransactions(
+		params: GetStarTransactionsParams = {},
+		options: RequestOptions = {},
+	): Promise<StarTransactions> {
+		return await this.request<StarTransactions>('getStarTransactions', params, {
+			...options,
+			schema: StarTransactionsSchema,
+		})
+	}
+
+	/**
+	 * Refunds a successful payment in Telegram Stars. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#refundstarpayment
+	 */
+	async refundStarPayment(
+		params: RefundStarPaymentParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('refundStarPayment', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Allows the bot to cancel or re-enable extension of a subscription paid in Telegram Stars. Returns True on success.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#edituserstarsubscription
+	 */
+	async editUserStarSubscription(
+		params: EditUserStarSubscriptionParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('editUserStarSubscription', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Informs a user that some of the Telegram Passport elements they provided contains errors. The user will not be able to re-submit their Passport to you until the errors are fixed (the contents of the field for which you returned the error must change). Returns True on success.
+	 * Use this if the data submitted by the user doesn't satisfy the standards your service requires for any reason. For example, if a birthday date seems invalid, a submitted document is blurry, a scan shows evidence of tampering, etc. Supply some details in the error message to make sure the user knows how to correct the issues.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `boolean`
+	 * @see https://core.telegram.org/bots/api#setpassportdataerrors
+	 */
+	async setPassportDataErrors(
+		params: SetPassportDataErrorsParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('setPassportDataErrors', params, {
+			...options,
+			schema: z.boolean(),
+		})
+	}
+
+	/**
+	 * Use this method to send a game. On success, the sent Message is returned.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message`
+	 * @see https://core.telegram.org/bots/api#sendgame
+	 */
+	async sendGame(
+		params: SendGameParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendGame', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Use this method to set the score of the specified user in a game message. On success, if the message is not an inline message, the Message is returned, otherwise True is returned. Returns an error, if the new score is not greater than the user's current score in the chat and force is False.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `Message | true`
+	 * @see https://core.telegram.org/bots/api#setgamescore
+	 */
+	async setGameScore(
+		params: SetGameScoreParams,
+		options: RequestOptions = {},
+	): Promise<Message | true> {
+		return await this.request<Message | true>('setGameScore', params, {
+			...options,
+			schema: z.union([MessageSchema, z.literal(true)]),
+		})
+	}
+
+	/**
+	 * Use this method to get data for high score tables. Will return the score of the specified user and several of their neighbors in a game. Returns an Array of GameHighScore objects.
+	 * This method will currently return scores for the target user, plus two of their closest neighbors on each side. Will also return the top three users if the user and their neighbors are not among them. Please note that this behavior is subject to change.
+	 *
+	 * @param params - Method parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result, `GameHighScore[]`
+	 * @see https://core.telegram.org/bots/api#getgamehighscores
+	 */
+	async getGameHighScores(
+		params: GetGameHighScoresParams,
+		options: RequestOptions = {},
+	): Promise<GameHighScore[]> {
+		return await this.request<GameHighScore[]>('getGameHighScores', params, {
+			...options,
+			schema: z.array(GameHighScoreSchema),
+		})
+	}
+}
@@ -7,20 +7,56 @@
  * @packageDocumentation
  */
 
-import type { z } from 'zod'
+import { z } from 'zod'
+import { splitMessageText } from '../formatting/split'
+import {
+	type Chat,
+	type Message,
+	MessageSchema,
+	type Update,
+} from '../webhooks/schemas'
 import {
-	TelegramAPIError,
 	type TelegramConfig,
 	TelegramConfigSchema,
 	type TelegramErrorResponse,
 	type TelegramResponse,
 	type TelegramSuccessResponse,
 } from './config'
+import {
+	createTelegramAPIError,
+	NetworkError,
+	ResponseValidationError,
+	TelegramError,
+	TimeoutError,
+} from './errors'
+import {
+	type GetFileParams,
+	type TelegramFile,
+	TelegramFileSchema,
+} from './files'
+import { TelegramBotMethods } from './generated'
+import type { CaptionEntities, InputMedia } from './input-media'
 import type {
 	InlineKeyboardMarkup,
 	ReplyKeyboardMarkup,
 	ReplyMarkup,
 } from './keyboards'
+import {
+	type SendAnimationParams,
+	type SendAudioParams,
+	type SendDocumentParams,
+	type SendMediaGroupParams,
+	type SendStickerParams,
+	type SendVideoNoteParams,
+	type SendVideoParams,
+	type SendVoiceParams,
+	validateMediaGroup,
+} from './media'
+import { RateLimiter, type RequestPriority } from './rate-limiter'
+import { getRetryDelay } from './retry'
+import { fetchTransport } from './transport'
+import { createMultipartBody, hasUploadFiles } from './uploads'
+import { sleep } from './utils'
 
 /**
  * SetWebhook method parameters
@@ -139,44 +175,17 @@ export interface SendMessageParams extends Record<string, unknown> {
 }
 
 /**
- * Message object returned by Telegram API
+ * Message object returned by Telegram API. The same type as the `Message`
+ * of incoming updates, kept under this name for compatibility
  */
-export interface TelegramMessage {
-	message_id: number
-	from?: {
-		id: number
-		is_bot: boolean
-		first_name: string
-		last_name?: string
-		username?: string
-	}
-	chat: {
-		id: number
-		type: string
-		title?: string
-		username?: string
-		first_name?: string
-		last_name?: string
-	}
-	date: number
-	text?: string
-	photo?: Array<{
-		file_id: string
-		file_unique_id: string
-		width: number
-		height: number
-		file_size?: number
-	}>
-	caption?: string
-	[key: string]: unknown
-}
+export type TelegramMessage = Message
 
 /**
  * SendMessage response
  */
 export interface SendMessageResponse {
 	ok: true
-	result: TelegramMessage
+	result: Message
 }
 
 /**
@@ -281,9 +290,308 @@ export interface SendPhotoParams extends Record<string, unknown> {
  */
 export interface SendPhotoResponse {
 	ok: true
-	result: TelegramMessage
+	result: Message
+}
+
+/**
+ * Identifies a message sent by the bot in a chat
+ */
+export interface ChatMessageTarget extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Identifier of the message to edit
+	 */
+	message_id: number
+
+	inline_message_id?: never
+}
+
+/**
+ * Identifies a message sent via the bot in inline mode
+ */
+export interface InlineMessageTarget extends Record<string, unknown> {
+	/**
+	 * Identifier of the inline message
+	 */
+	inline_message_id: string
+
+	chat_id?: never
+	message_id?: never
 }
 
+/**
+ * Target of an edit: either a chat message or an inline message
+ */
+export type EditMessageTarget = ChatMessageTarget | InlineMessageTarget
+
+/**
+ * Result of an edit. Telegram returns the edited message for chat messages
+ * and `true` for inline messages
+ */
+export type EditMessageResult<P extends EditMessageTarget> = P extends {
+	inline_message_id: string
+}
+	? true
+	: Message
+
+/**
+ * AnswerCallbackQuery method parameters
+ */
+export interface AnswerCallbackQueryParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the query to be answered
+	 */
+	callback_query_id: string
+
+	/**
+	 * Text of the notification. If not specified, nothing will be shown to the user, 0-200 characters
+	 */
+	text?: string
+
+	/**
+	 * If True, an alert will be shown by the client instead of a notification at the top of the chat screen
+	 */
+	show_alert?: boolean
+
+	/**
+	 * URL that will be opened by the user's client, for game buttons or t.me links that start the bot with a parameter
+	 */
+	url?: string
+
+	/**
+	 * The maximum amount of time in seconds that the result of the callback query may be cached client-side
+	 */
+	cache_time?: number
+}
+
+/**
+ * EditMessageText method parameters
+ */
+export type EditMessageTextParams = EditMessageTarget & {
+	/**
+	 * New text of the message, 1-4096 characters after entities parsing
+	 */
+	text: string
+
+	/**
+	 * Mode for parsing entities in the message text
+	 */
+	parse_mode?: 'MarkdownV2' | 'Markdown' | 'HTML'
+
+	/**
+	 * List of special entities that appear in message text
+	 */
+	entities?: CaptionEntities
+
+	/**
+	 * Disables link previews for links in this message
+	 */
+	disable_web_page_preview?: boolean
+
+	/**
+	 * An inline keyboard
+	 */
+	reply_markup?: InlineKeyboardMarkup
+}
+
+/**
+ * EditMessageCaption method parameters
+ */
+export type EditMessageCaptionParams = EditMessageTarget & {
+	/**
+	 * New caption of the message, 0-1024 characters after entities parsing
+	 */
+	caption?: string
+
+	/**
+	 * Mode for parsing entities in the message caption
+	 */
+	parse_mode?: 'MarkdownV2' | 'Markdown' | 'HTML'
+
+	/**
+	 * List of special entities that appear in the caption
+	 */
+	caption_entities?: CaptionEntities
+
+	/**
+	 * Pass True, if the caption must be shown above the message media
+	 */
+	show_caption_above_media?: boolean
+
+	/**
+	 * An inline keyboard
+	 */
+	reply_markup?: InlineKeyboardMarkup
+}
+
+/**
+ * EditMessageReplyMarkup method parameters
+ */
+export type EditMessageReplyMarkupParams = EditMessageTarget & {
+	/**
+	 * An inline keyboard. Omit it to remove the keyboard
+	 */
+	reply_markup?: InlineKeyboardMarkup
+}
+
+/**
+ * EditMessageMedia method parameters
+ */
+export type EditMessageMediaParams = EditMessageTarget & {
+	/**
+	 * New media content of the message
+	 */
+	media: InputMedia
+
+	/**
+	 * An inline keyboard
+	 */
+	reply_markup?: InlineKeyboardMarkup
+}
+
+/**
+ * GetUpdates method parameters
+ */
+export interface GetUpdatesParams extends Record<string, unknown> {
+	/**
+	 * Identifier of the first update to be returned. Must be greater by one than the highest among the identifiers of previously received updates
+	 */
+	offset?: number
+
+	/**
+	 * Limits the number of updates to be retrieved, 1-100. Defaults to 100
+	 */
+	limit?: number
+
+	/**
+	 * Timeout in seconds for long polling. Defaults to 0, i.e. usual short polling
+	 */
+	timeout?: number
+
+	/**
+	 * A JSON-serialized list of the update types you want your bot to receive
+	 */
+	allowed_updates?: string[]
+}
+
+/**
+ * DeleteWebhook method parameters
+ */
+export interface DeleteWebhookParams extends Record<string, unknown> {
+	/**
+	 * Pass True to drop all pending updates
+	 */
+	drop_pending_updates?: boolean
+}
+
+/**
+ * Current status of a webhook, as returned by getWebhookInfo
+ */
+export const WebhookInfoSchema = z.object({
+	url: z
+		.string()
+		.describe('Webhook URL, may be empty if webhook is not set up'),
+	has_custom_certificate: z
+		.boolean()
+		.describe(
+			'True, if a custom certificate was provided for webhook certificate checks',
+		),
+	pending_update_count: z
+		.number()
+		.int()
+		.describe('Number of updates awaiting delivery'),
+	ip_address: z
+		.string()
+		.optional()
+		.describe('Currently used webhook IP address'),
+	last_error_date: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Unix time for the most recent error that happened when trying to deliver an update via webhook',
+		),
+	last_error_message: z
+		.string()
+		.optional()
+		.describe(
+			'Error message in human-readable format for the most recent error that happened when trying to deliver an update via webhook',
+		),
+	last_synchronization_error_date: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Unix time of the most recent error that happened when trying to synchronize available updates with Telegram datacenters',
+		),
+	max_connections: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The maximum allowed number of simultaneous HTTPS connections to the webhook for update delivery',
+		),
+	allowed_updates: z
+		.array(z.string())
+		.optional()
+		.describe(
+			'A list of update types the bot is subscribed to. Defaults to all update types except chat_member',
+		),
+})
+
+export type WebhookInfo = z.infer<typeof WebhookInfoSchema>
+
+/**
+ * Per-call options for API requests
+ */
+export interface RequestOptions {
+	/**
+	 * Signal used to cancel the request before it completes
+	 */
+	signal?: AbortSignal
+
+	/**
+	 * Queue priority when rate limiting is enabled. Use `high` for
+	 * interactive replies and `low` for bulk sends
+	 * @default 'normal'
+	 */
+	priority?: RequestPriority
+
+	/**
+	 * Type of the target chat, so the rate limiter applies the group limits
+	 * to the right chats. When omitted it is guessed from `chat_id`:
+	 * negative ids and @usernames are treated as groups or channels
+	 */
+	chatType?: Chat['type']
+}
+
+/**
+ * File to download: a file_id, or an object holding one such as a `PhotoSize`
+ * or the result of getFile
+ */
+export type DownloadableFile =
+	| string
+	| Pick<TelegramFile, 'file_id' | 'file_path'>
+
+/**
+ * Schema of methods returning True on success
+ */
+const BooleanResultSchema = z.boolean()
+
+/**
+ * Schema of methods returning several messages
+ */
+const MessageListSchema = z.array(MessageSchema)
+
+/**
+ * Schema of edit methods, which return the message or True for inline messages
+ */
+const EditMessageResultSchema = z.union([MessageSchema, z.literal(true)])
+
 /**
  * Telegram Bot API Client
  *
@@ -321,12 +629,17 @@ export interface SendPhotoResponse {
  * })
  * ```
  */
-export class TelegramBot {
+export class TelegramBot extends TelegramBotMethods {
 	/**
 	 * Configuration for the Telegram Bot API client
 	 */
 	public readonly config: TelegramConfig
 
+	/**
+	 * Scheduler for outbound requests, when rate limiting is enabled
+	 */
+	private readonly rateLimiter?: RateLimiter
+
 	/**
 	 * Create a new Telegram Bot API client
 	 *
@@ -341,8 +654,14 @@ export class TelegramBot {
 	 * ```
 	 */
 	constructor(config: z.input<typeof TelegramConfigSchema>) {
+		super()
+
 		// Validate and parse configuration
 		this.config = TelegramConfigSchema.parse(config)
+
+		if (this.config.rateLimit.enabled) {
+			this.rateLimiter = new RateLimiter(this.config.rateLimit)
+		}
 	}
 
 	/**
@@ -354,76 +673,150 @@ export class TelegramBot {
 	}
 
 	/**
-	 * Make an API request to Telegram
+	 * Get the download URL of a file
+	 * @private
+	 */
+	private getFileUrl(filePath: string): string {
+		return `${this.config.baseUrl}/file/bot${this.config.botToken}/${filePath}`
+	}
+
+	/**
+	 * Remove the bot token from a message before it reaches an error
 	 * @private
 	 */
-	private async request<T>(
+	private redactToken(message: string): string {
+		return message.replaceAll(this.config.botToken, this.getBotTokenMasked())
+	}
+
+	/**
+	 * Make an API request to Telegram
+	 */
+	protected override async request<T>(
 		method: string,
 		params?: Record<string, unknown>,
-		isMultipart = false,
+		options: RequestOptions & { timeout?: number; schema?: z.ZodType } = {},
+	): Promise<T> {
+		// Only requests sent to a chat count towards the rate limits
+		const chatId =
+			typeof params?.chat_id === 'number' || typeof params?.chat_id === 'string'
+				? params.chat_id
+				: undefined
+
+		for (let attempt = 1; ; attempt++) {
+			try {
+				if (this.rateLimiter && chatId !== undefined) {
+					await this.rateLimiter.schedule(
+						chatId,
+						options.priority,
+						options.signal,
+						options.chatType,
+					)
+				}
+				const result = await this.performRequest<T>(method, params, options)
+				if (this.config.validateResponses && options.schema) {
+					const validation = options.schema.safeParse(result)
+					if (!validation.success) {
+						throw new ResponseValidationError(method, validation.error)
+					}
+				}
+				return result
+			} catch (error) {
+				if (options.signal?.aborted) throw error
+
+				const delay = getRetryDelay(error, attempt, this.config.retry)
+				if (delay === undefined) throw error
+
+				await sleep(delay, options.signal)
+				if (options.signal?.aborted) throw error
+			}
+		}
+	}
+
+	/**
+	 * Make a single API request attempt to Telegram
+	 * @private
+	 */
+	private async performRequest<T>(
+		method: string,
+		params: Record<string, unknown> | undefined,
+		options: RequestOptions & { timeout?: number },
 	): Promise<T> {
 		const url = this.getApiUrl(method)
+		const timeoutMs = options.timeout ?? this.config.timeout
 
 		const controller = new AbortController()
-		const timeout = setTimeout(() => controller.abort(), this.config.timeout)
+		const timeout = setTimeout(() => controller.abort(), timeoutMs)
+		const onAbort = () => controller.abort()
+		options.signal?.addEventListener('abort', onAbort, { once: true })
 
 		try {
 			let body: string | FormData
 			const headers: Record<string, string> = {}
 
-			if (isMultipart && params) {
-				// Create FormData for multipart/form-data requests
-				const formData = new FormData()
-				for (const [key, value] of Object.entries(params)) {
-					if (value === undefined || value === null) continue
-
-					if (value instanceof Blob || value instanceof File) {
-						formData.append(key, value)
-					} else if (typeof value === 'object') {
-						formData.append(key, JSON.stringify(value))
-					} else {
-						formData.append(key, String(value))
-					}
-				}
-				body = formData
+			if (params && hasUploadFiles(params)) {
+				// Use multipart/form-data when there are files to upload
+				body = createMultipartBody(params)
 			} else {
 				// Use JSON for regular requests
 				headers['Content-Type'] = 'application/json'
 				body = JSON.stringify(params || {})
 			}
 
-			const response = await fetch(url, {
-				method: 'POST',
-				headers,
-				body,
-				signal: controller.signal,
+			const transport = this.config.transport ?? fetchTransport
+			const response = await transport.send({
+				method,
+				params: params ?? {},
+				url,
+				init: {
+					method: 'POST',
+					headers,
+					body,
+					signal: controller.signal,
+				},
 			})
 
-			clearTimeout(timeout)
-
-			const data = (await response.json()) as TelegramResponse<T>
+			let data: TelegramResponse<T>
+			try {
+				data = (await response.json()) as TelegramResponse<T>
+			} catch (error) {
+				throw new NetworkError(
+					`Invalid response from Telegram (HTTP ${response.status})`,
+					{ cause: error },
+				)
+			}
 
 			if (!data.ok) {
 				const error = data as TelegramErrorResponse
-				throw new TelegramAPIError(error.error_code, error.description)
+				throw createTelegramAPIError(
+					error.error_code,
+					error.description,
+					error.parameters,
+				)
 			}
 
 			return (data as TelegramSuccessResponse<T>).result
 		} catch (error) {
-			clearTimeout(timeout)
-
-			if (error instanceof TelegramAPIError) {
+			if (error instanceof TelegramError) {
 				throw error
 			}
 
 			if (error instanceof Error) {
 				if (error.name === 'AbortError') {
-					throw new Error(`Request timeout after ${this.config.timeout}ms`)
+					// Cancelled by the caller, not by our own timeout
+					if (options.signal?.aborted) {
+						throw error
+					}
+					throw new TimeoutError(timeoutMs)
 				}
-				throw error
+				// Fetch errors may include the URL, which contains the token, so
+				// the original error is not attached as the cause
+				throw new NetworkError(this.redactToken(error.message))
 			}
 
-			throw new Error('Unknown error occurred during API request')
+			throw new NetworkError('Unknown error occurred during API request')
+		} finally {
+			clearTimeout(timeout)
+			options.signal?.removeEventListener('abort', onAbort)
 		}
 	}
 
@@ -447,16 +840,84 @@ export class TelegramBot {
 	 * ```
 	 */
 	async setWebhook(params: SetWebhookParams): Promise<boolean> {
-		const hasFile =
-			(typeof Blob !== 'undefined' && params.certificate instanceof Blob) ||
-			(typeof File !== 'undefined' && params.certificate instanceof File)
-		return await this.request<boolean>('setWebhook', params, hasFile)
+		return await this.request<boolean>('setWebhook', params, {
+			schema: BooleanResultSchema,
+		})
+	}
+
+	/**
+	 * Remove webhook integration if you decide to switch back to getUpdates
+	 *
+	 * @param params - Delete webhook parameters
+	 * @returns Promise with the result (true on success)
+	 *
+	 * @example
+	 * ```typescript
+	 * await bot.deleteWebhook({ drop_pending_updates: true })
+	 * ```
+	 */
+	async deleteWebhook(params: DeleteWebhookParams = {}): Promise<boolean> {
+		return await this.request<boolean>('deleteWebhook', params, {
+			schema: BooleanResultSchema,
+		})
+	}
+
+	/**
+	 * Get current webhook status
+	 *
+	 * @returns Promise with the webhook info. If the bot is using getUpdates, the url field is empty
+	 *
+	 * @example
+	 * ```typescript
+	 * const info = await bot.getWebhookInfo()
+	 * if (info.url) {
+	 *   console.log('Webhook is set to', info.url)
+	 * }
+	 * ```
+	 */
+	async getWebhookInfo(): Promise<WebhookInfo> {
+		return await this.request<WebhookInfo>('getWebhookInfo', undefined, {
+			schema: WebhookInfoSchema,
+		})
+	}
+
+	/**
+	 * Receive incoming updates using long polling
+	 * This method will not work if an outgoing webhook is set up
+	 *
+	 * @param params - Polling parameters
+	 * @param options - Request options, such as an abort signal
+	 * @returns Promise with the list of pending updates
+	 *
+	 * @example
+	 * ```typescript
+	 * const updates = await bot.getUpdates({
+	 *   offset: lastUpdateId + 1,
+	 *   timeout: 30,
+	 *   allowed_updates: ['message', 'callback_query']
+	 * })
+	 * ```
+	 */
+	async getUpdates(
+		params: GetUpdatesParams = {},
+		options: RequestOptions = {},
+	): Promise<Update[]> {
+		// Long polling holds the connection open for up to `timeout` seconds,
+		// so the request timeout has to cover it
+		const timeout = this.config.timeout + (params.timeout ?? 0) * 1000
+		// Not checked against a schema: startPolling validates each update on
+		// its own, so a single malformed update cannot stall the offset
+		return await this.request<Update[]>('getUpdates', params, {
+			signal: options.signal,
+			timeout,
+		})
 	}
 
 	/**
 	 * Send a text message
 	 *
 	 * @param params - Message parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
 	 * @returns Promise with the sent message
 	 *
 	 * @example
@@ -496,14 +957,88 @@ export class TelegramBot {
 	 * })
 	 * ```
 	 */
-	async sendMessage(params: SendMessageParams): Promise<TelegramMessage> {
-		return await this.request<TelegramMessage>('sendMessage', params)
+	async sendMessage(
+		params: SendMessageParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendMessage', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Send a text of any length, split into as many messages as needed
+	 *
+	 * The text is split at paragraph breaks, line breaks or spaces, and
+	 * `entities` are split along with it so formatting survives. Reply
+	 * parameters apply to the first message and `reply_markup` to the last.
+	 * Markup cannot be split safely, so pass `entities` (for example from
+	 * `fmt`) instead of a `parse_mode`.
+	 *
+	 * @param params - Message parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the sent messages, in order
+	 * @throws {TelegramError} If `parse_mode` is set or the text is empty
+	 *
+	 * @example
+	 * ```typescript
+	 * const report = fmt`${bold('Monthly fleet report')}\n\n${details}`
+	 * await bot.sendLongMessage({
+	 *   chat_id: 123456789,
+	 *   ...report,
+	 *   reply_markup: new InlineKeyboard().text('Export', 'export').build()
+	 * })
+	 * ```
+	 */
+	async sendLongMessage(
+		params: SendMessageParams,
+		options: RequestOptions = {},
+	): Promise<Message[]> {
+		if (params.parse_mode) {
+			throw new TelegramError(
+				'sendLongMessage cannot split text with a parse_mode, pass entities instead',
+			)
+		}
+		if (params.text.trim() === '') {
+			throw new TelegramError('sendLongMessage cannot send an empty text')
+		}
+
+		const {
+			text,
+			entities,
+			reply_markup,
+			reply_to_message_id,
+			allow_sending_without_reply,
+			...rest
+		} = params
+		const chunks = splitMessageText(text, entities)
+
+		const messages: Message[] = []
+		for (const [index, chunk] of chunks.entries()) {
+			const message = await this.sendMessage(
+				{
+					...rest,
+					text: chunk.text,
+					entities: entities && chunk.entities,
+					...(index === 0 && {
+						reply_to_message_id,
+						allow_sending_without_reply,
+					}),
+					...(index === chunks.length - 1 && { reply_markup }),
+				},
+				options,
+			)
+			messages.push(message)
+		}
+		return messages
 	}
 
 	/**
 	 * Send a photo
 	 *
 	 * @param params - Photo parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
 	 * @returns Promise with the sent message
 	 *
 	 * @example
@@ -538,11 +1073,523 @@ export class TelegramBot {
 	 * })
 	 * ```
 	 */
-	async sendPhoto(params: SendPhotoParams): Promise<TelegramMessage> {
-		const isFile =
-			(typeof Blob !== 'undefined' && params.photo instanceof Blob) ||
-			(typeof File !== 'undefined' && params.photo instanceof File)
-		return await this.request<TelegramMessage>('sendPhoto', params, isFile)
+	async sendPhoto(
+		params: SendPhotoParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendPhoto', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Send a group of photos, videos, documents or audios as an album
+	 *
+	 * Items can be file_ids, URLs or uploaded files, and uploads are sent
+	 * through `attach://` references automatically. The group is checked
+	 * against the album rules before it is sent.
+	 *
+	 * @param params - Media group parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the sent messages
+	 * @throws {TelegramError} If the group breaks the 2-10 items or mixing rules
+	 *
+	 * @example
+	 * ```typescript
+	 * await bot.sendMediaGroup({
+	 *   chat_id: 123456789,
+	 *   media: [
+	 *     { type: 'photo', media: frontPhoto, caption: 'Inspection photos' },
+	 *     { type: 'photo', media: backPhoto },
+	 *     { type: 'photo', media: 'AgACAgIAAxkBAAIBY2...' }
+	 *   ]
+	 * })
+	 * ```
+	 */
+	async sendMediaGroup(
+		params: SendMediaGroupParams,
+		options: RequestOptions = {},
+	): Promise<Message[]> {
+		validateMediaGroup(params.media)
+		return await this.request<Message[]>('sendMediaGroup', params, {
+			...options,
+			schema: MessageListSchema,
+		})
+	}
+
+	/**
+	 * Send a general file
+	 *
+	 * @param params - Message parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the sent message
+	 *
+	 * @example
+	 * ```typescript
+	 * // Upload a PDF report with a thumbnail
+	 * await bot.sendDocument({
+	 *   chat_id: 123456789,
+	 *   document: new File([pdfBuffer], 'report.pdf', { type: 'application/pdf' }),
+	 *   thumbnail: new File([thumbBuffer], 'thumb.jpg', { type: 'image/jpeg' }),
+	 *   caption: 'Inspection report'
+	 * })
+	 * ```
+	 */
+	async sendDocument(
+		params: SendDocumentParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendDocument', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Send a video (MPEG4)
+	 *
+	 * @param params - Message parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the sent message
+	 *
+	 * @example
+	 * ```typescript
+	 * await bot.sendVideo({
+	 *   chat_id: 123456789,
+	 *   video: 'https://example.com/video.mp4',
+	 *   caption: 'Walkaround video',
+	 *   supports_streaming: true
+	 * })
+	 * ```
+	 */
+	async sendVideo(
+		params: SendVideoParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendVideo', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Send an audio file to be displayed in the music player
+	 *
+	 * @param params - Message parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the sent message
+	 *
+	 * @example
+	 * ```typescript
+	 * await bot.sendAudio({
+	 *   chat_id: 123456789,
+	 *   audio: new File([mp3Buffer], 'track.mp3', { type: 'audio/mpeg' }),
+	 *   performer: 'Artist',
+	 *   title: 'Track'
+	 * })
+	 * ```
+	 */
+	async sendAudio(
+		params: SendAudioParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendAudio', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Send a voice message
+	 *
+	 * @param params - Message parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the sent message
+	 *
+	 * @example
+	 * ```typescript
+	 * await bot.sendVoice({
+	 *   chat_id: 123456789,
+	 *   voice: new File([oggBuffer], 'voice.ogg', { type: 'audio/ogg' })
+	 * })
+	 * ```
+	 */
+	async sendVoice(
+		params: SendVoiceParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendVoice', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Send an animation (GIF or H.264/MPEG-4 AVC video without sound)
+	 *
+	 * @param params - Message parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the sent message
+	 *
+	 * @example
+	 * ```typescript
+	 * await bot.sendAnimation({
+	 *   chat_id: 123456789,
+	 *   animation: 'https://example.com/animation.gif'
+	 * })
+	 * ```
+	 */
+	async sendAnimation(
+		params: SendAnimationParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendAnimation', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Send a rounded square video message
+	 *
+	 * @param params - Message parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the sent message
+	 *
+	 * @example
+	 * ```typescript
+	 * await bot.sendVideoNote({
+	 *   chat_id: 123456789,
+	 *   video_note: new File([mp4Buffer], 'note.mp4', { type: 'video/mp4' }),
+	 *   length: 240
+	 * })
+	 * ```
+	 */
+	async sendVideoNote(
+		params: SendVideoNoteParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendVideoNote', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Send a static .WEBP, animated .TGS, or video .WEBM sticker
+	 *
+	 * @param params - Message parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the sent message
+	 *
+	 * @example
+	 * ```typescript
+	 * await bot.sendSticker({
+	 *   chat_id: 123456789,
+	 *   sticker: 'CAACAgIAAxkBAAIBY2...'
+	 * })
+	 * ```
+	 */
+	async sendSticker(
+		params: SendStickerParams,
+		options: RequestOptions = {},
+	): Promise<Message> {
+		return await this.request<Message>('sendSticker', params, {
+			...options,
+			schema: MessageSchema,
+		})
+	}
+
+	/**
+	 * Send an answer to a callback query sent from an inline keyboard
+	 * The answer is displayed to the user as a notification or an alert,
+	 * and stops the loading indicator on the pressed button
+	 *
+	 * @param params - Answer parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the result (true on success)
+	 *
+	 * @example
+	 * ```typescript
+	 * await bot.answerCallbackQuery({
+	 *   callback_query_id: query.id,
+	 *   text: 'Saved ✓'
+	 * })
+	 * ```
+	 */
+	async answerCallbackQuery(
+		params: AnswerCallbackQueryParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('answerCallbackQuery', params, {
+			...options,
+			schema: BooleanResultSchema,
+		})
+	}
+
+	/**
+	 * Edit the text of a message
+	 *
+	 * @param params - Edit parameters, targeting a chat message or an inline message
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the edited message, or true for inline messages
+	 *
+	 * @example
+	 * ```typescript
+	 * // Update the message that holds the pressed button
+	 * await bot.editMessageText({
+	 *   chat_id: query.message.chat.id,
+	 *   message_id: query.message.message_id,
+	 *   text: '✅ Checklist completed',
+	 *   reply_markup: { inline_keyboard: [] }
+	 * })
+	 *
+	 * // Edit a message sent in inline mode
+	 * await bot.editMessageText({
+	 *   inline_message_id: query.inline_message_id,
+	 *   text: 'Updated'
+	 * })
+	 * ```
+	 */
+	async editMessageText<P extends EditMessageTextParams>(
+		params: P,
+		options: RequestOptions = {},
+	): Promise<EditMessageResult<P>> {
+		return await this.request<EditMessageResult<P>>('editMessageText', params, {
+			...options,
+			schema: EditMessageResultSchema,
+		})
+	}
+
+	/**
+	 * Edit the caption of a message
+	 *
+	 * @param params - Edit parameters, targeting a chat message or an inline message
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the edited message, or true for inline messages
+	 *
+	 * @example
+	 * ```typescript
+	 * await bot.editMessageCaption({
+	 *   chat_id: 123456789,
+	 *   message_id: 456,
+	 *   caption: 'New caption'
+	 * })
+	 * ```
+	 */
+	async editMessageCaption<P extends EditMessageCaptionParams>(
+		params: P,
+		options: RequestOptions = {},
+	): Promise<EditMessageResult<P>> {
+		return await this.request<EditMessageResult<P>>(
+			'editMessageCaption',
+			params,
+			{ ...options, schema: EditMessageResultSchema },
+		)
+	}
+
+	/**
+	 * Edit only the inline keyboard of a message
+	 *
+	 * @param params - Edit parameters, targeting a chat message or an inline message
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the edited message, or true for inline messages
+	 *
+	 * @example
+	 * ```typescript
+	 * // Remove the keyboard once an option was chosen
+	 * await bot.editMessageReplyMarkup({
+	 *   chat_id: 123456789,
+	 *   message_id: 456
+	 * })
+	 * ```
+	 */
+	async editMessageReplyMarkup<P extends EditMessageReplyMarkupParams>(
+		params: P,
+		options: RequestOptions = {},
+	): Promise<EditMessageResult<P>> {
+		return await this.request<EditMessageResult<P>>(
+			'editMessageReplyMarkup',
+			params,
+			{ ...options, schema: EditMessageResultSchema },
+		)
+	}
+
+	/**
+	 * Edit the animation, audio, document, photo or video of a message
+	 *
+	 * @param params - Edit parameters, targeting a chat message or an inline message
+	 * @param options - Request options, such as an abort signal or a queue priority
+	 * @returns Promise with the edited message, or true for inline messages
+	 *
+	 * @example
+	 * ```typescript
+	 * await bot.editMessageMedia({
+	 *   chat_id: 123456789,
+	 *   message_id: 456,
+	 *   media: {
+	 *     type: 'photo',
+	 *     media: new File([photoBuffer], 'photo.jpg', { type: 'image/jpeg' }),
+	 *     caption: 'Updated photo'
+	 *   }
+	 * })
+	 * ```
+	 */
+	async editMessageMedia<P extends EditMessageMediaParams>(
+		params: P,
+		options: RequestOptions = {},
+	): Promise<EditMessageResult<P>> {
+		return await this.request<EditMessageResult<P>>(
+			'editMessageMedia',
+			params,
+			{ ...options, schema: EditMessageResultSchema },
+		)
+	}
+
+	/**
+	 * Get basic information about a file and prepare it for downloading
+	 * Bots can download files of up to 20MB in size
+	 *
+	 * @param params - File parameters
+	 * @param options - Request options, such as an abort signal
+	 * @returns Promise with the file, whose `file_path` is valid for at least 1 hour
+	 *
+	 * @example
+	 * ```typescript
+	 * const file = await bot.getFile({ file_id: document.file_id })
+	 * console.log(file.file_size)
+	 * ```
+	 */
+	async getFile(
+		params: GetFileParams,
+		options: RequestOptions = {},
+	): Promise<TelegramFile> {
+		return await this.request<TelegramFile>('getFile', params, {
+			...options,
+			schema: TelegramFileSchema,
+		})
+	}
+
+	/**
+	 * Download a file into memory
+	 *
+	 * The file is resolved with getFile first unless it already has a
+	 * `file_path`. The whole download must complete within the configured
+	 * `timeout`.
+	 *
+	 * @param file - A file_id, or an object holding one
+	 * @param options - Request options, such as an abort signal
+	 * @returns Promise with the file contents
+	 * @throws {TelegramAPIError} If the file cannot be resolved or downloaded
+	 *
+	 * @example
+	 * ```typescript
+	 * const photo = getLargestPhotoSize(message.photo ?? [])
+	 * if (photo) {
+	 *   const data = await bot.downloadFile(photo)
+	 *   await Bun.write('photo.jpg', data)
+	 * }
+	 * ```
+	 */
+	async downloadFile(
+		file: DownloadableFile,
+		options: RequestOptions = {},
+	): Promise<ArrayBuffer> {
+		return await this.fetchFile(file, options, (response) =>
+			response.arrayBuffer(),
+		)
+	}
+
+	/**
+	 * Download a file as a stream
+	 *
+	 * The file is resolved with getFile first unless it already has a
+	 * `file_path`. The configured `timeout` applies until the response
+	 * headers are received; reading the stream is not time limited.
+	 *
+	 * @param file - A file_id, or an object holding one
+	 * @param options - Request options, such as an abort signal
+	 * @returns Promise with a stream of the file contents
+	 * @throws {TelegramAPIError} If the file cannot be resolved or downloaded
+	 *
+	 * @example
+	 * ```typescript
+	 * const stream = await bot.downloadFileStream(message.document.file_id)
+	 * await Bun.write('report.pdf', new Response(stream))
+	 * ```
+	 */
+	async downloadFileStream(
+		file: DownloadableFile,
+		options: RequestOptions = {},
+	): Promise<ReadableStream<Uint8Array>> {
+		return await this.fetchFile(file, options, async (response) => {
+			if (!response.body) {
+				throw new NetworkError('Empty response body while downloading file')
+			}
+			return response.body
+		})
+	}
+
+	/**
+	 * Resolve and fetch a file, reading the response within the timeout
+	 * @private
+	 */
+	private async fetchFile<T>(
+		file: DownloadableFile,
+		options: RequestOptions,
+		read: (response: Response) => Promise<T>,
+	): Promise<T> {
+		let filePath = typeof file === 'string' ? undefined : file.file_path
+		if (!filePath) {
+			const fileId = typeof file === 'string' ? file : file.file_id
+			const resolved = await this.getFile({ file_id: fileId }, options)
+			filePath = resolved.file_path
+		}
+		if (!filePath) {
+			throw new TelegramError('File is not available for download')
+		}
+
+		const timeoutMs = this.config.timeout
+		const controller = new AbortController()
+		const timeout = setTimeout(() => controller.abort(), timeoutMs)
+		const onAbort = () => controller.abort()
+		options.signal?.addEventListener('abort', onAbort, { once: true })
+
+		try {
+			const response = await fetch(this.getFileUrl(filePath), {
+				signal: controller.signal,
+			})
+
+			if (!response.ok) {
+				throw createTelegramAPIError(
+					response.status,
+					`Failed to download file: ${response.statusText || 'HTTP error'}`,
+				)
+			}
+
+			return await read(response)
+		} catch (error) {
+			if (error instanceof TelegramError) {
+				throw error
+			}
+
+			if (error instanceof Error) {
+				if (error.name === 'AbortError') {
+					if (options.signal?.aborted) {
+						throw error
+					}
+					throw new TimeoutError(timeoutMs)
+				}
+				// Fetch errors may include the URL, which contains the token
+				throw new NetworkError(this.redactToken(error.message))
+			}
+
+			throw new NetworkError('Unknown error occurred during file download')
+		} finally {
+			clearTimeout(timeout)
+			options.signal?.removeEventListener('abort', onAbort)
+		}
 	}
 
 	/**
@@ -567,6 +1614,7 @@ export class TelegramBot {
 	 * - If the bot has can_delete_messages permission in a supergroup or a channel, it can delete any message there
 	 *
 	 * @param params - Delete message parameters
+	 * @param options - Request options, such as an abort signal or a queue priority
 	 * @returns Promise with the result (true on success)
 	 *
 	 * @example
@@ -584,8 +1632,14 @@ export class TelegramBot {
 	 * })
 	 * ```
 	 */
-	async deleteMessage(params: DeleteMessageParams): Promise<boolean> {
-		return await this.request<boolean>('deleteMessage', params)
+	async deleteMessage(
+		params: DeleteMessageParams,
+		options: RequestOptions = {},
+	): Promise<boolean> {
+		return await this.request<boolean>('deleteMessage', params, {
+			...options,
+			schema: BooleanResultSchema,
+		})
 	}
 
 	/**
@@ -600,4 +1654,10 @@ export class TelegramBot {
 
 // Re-export types and schemas
 export * from './config'
+export * from './errors'
+export * from './files'
+export * from './generated'
+export * from './input-media'
 export * from './keyboards'
+export * from './media'
+export * from './rate-limiter'
@@ -0,0 +1,243 @@
+/**
+ * Telegram Bot API Inline Query Results
+ *
+ * A builder for answerInlineQuery results that enforces Telegram's id and
+ * count limits, and offset-based pagination through long result lists
+ */
+
+import { TelegramError } from './errors'
+import {
+	type InlineQueryResult,
+	type InlineQueryResultArticle,
+	type InlineQueryResultPhoto,
+	InlineQueryResultSchema,
+	type InputMessageContent,
+} from './generated'
+
+/**
+ * Maximum number of results in a single answer to an inline query
+ */
+export const MAX_INLINE_QUERY_RESULTS = 50
+
+/**
+ * Maximum length of a result id, in bytes
+ */
+const MAX_RESULT_ID_BYTES = 64
+
+const encoder = new TextEncoder()
+
+/**
+ * Error thrown when inline query results break Telegram's limits
+ */
+export class InlineQueryResultError extends TelegramError {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options)
+		this.name = 'InlineQueryResultError'
+	}
+}
+
+/**
+ * A page of items to answer an inline query with
+ */
+export interface InlineResultsPage<T> {
+	/**
+	 * Items of the requested page
+	 */
+	items: T[]
+
+	/**
+	 * Offset of the next page, or an empty string on the last page.
+	 * Pass it as `next_offset` to answerInlineQuery
+	 */
+	nextOffset: string
+}
+
+/**
+ * Builder for the results of an inline query
+ *
+ * Every result is validated against `InlineQueryResultSchema`, and result ids
+ * must be unique and 1-64 bytes long. At most 50 results can be added.
+ *
+ * @example
+ * ```typescript
+ * router.on('inline_query', async (ctx) => {
+ *   const query = ctx.update.inline_query
+ *   const page = paginateInlineResults(await searchVehicles(query.query), query.offset, 20)
+ *
+ *   await bot.answerInlineQuery({
+ *     inline_query_id: query.id,
+ *     results: new InlineQueryResults()
+ *       .fromList(page.items, (vehicle) => ({
+ *         type: 'article',
+ *         id: vehicle.id,
+ *         title: vehicle.name,
+ *         input_message_content: { message_text: vehicle.summary },
+ *       }))
+ *       .build(),
+ *     next_offset: page.nextOffset,
+ *   })
+ * })
+ * ```
+ */
+export class InlineQueryResults {
+	private readonly results: InlineQueryResult[] = []
+	private readonly ids = new Set<string>()
+
+	/**
+	 * Add results
+	 *
+	 * @param results - Results to add
+	 * @returns The builder, for chaining
+	 * @throws {InlineQueryResultError} If an id is invalid or repeated, a result
+	 * doesn't match any result type, or there are more than 50 results
+	 */
+	add(...results: InlineQueryResult[]): this {
+		for (const result of results) {
+			if (this.results.length >= MAX_INLINE_QUERY_RESULTS) {
+				throw new InlineQueryResultError(
+					`An inline query can be answered with at most ${MAX_INLINE_QUERY_RESULTS} results`,
+				)
+			}
+
+			const bytes = encoder.encode(result.id).length
+			if (bytes < 1 || bytes > MAX_RESULT_ID_BYTES) {
+				throw new InlineQueryResultError(
+					`Result id must be 1-${MAX_RESULT_ID_BYTES} bytes, got ${bytes}: "${result.id}"`,
+				)
+			}
+			if (this.ids.has(result.id)) {
+				throw new InlineQueryResultError(`Duplicate result id: "${result.id}"`)
+			}
+
+			// Validate without keeping the parsed copy: a result matching several
+			// variants could lose fields to the first one
+			const validation = InlineQueryResultSchema.safeParse(result)
+			if (!validation.success) {
+				throw new InlineQueryResultError(
+					`Invalid inline query result "${result.id}": ${validation.error.message}`,
+					{ cause: validation.error },
+				)
+			}
+
+			this.ids.add(result.id)
+			this.results.push(result)
+		}
+		return this
+	}
+
+	/**
+	 * Add an article result
+	 *
+	 * @param id - Unique identifier of the result, 1-64 bytes
+	 * @param title - Title of the result
+	 * @param content - Message sent when the result is chosen, or its text
+	 * @param options - Other fields of the result, such as `description` or `reply_markup`
+	 * @returns The builder, for chaining
+	 */
+	article(
+		id: string,
+		title: string,
+		content: InputMessageContent | string,
+		options: Omit<
+			InlineQueryResultArticle,
+			'type' | 'id' | 'title' | 'input_message_content'
+		> = {},
+	): this {
+		return this.add({
+			type: 'article',
+			id,
+			title,
+			input_message_content:
+				typeof content === 'string' ? { message_text: content } : content,
+			...options,
+		})
+	}
+
+	/**
+	 * Add a photo result
+	 *
+	 * @param id - Unique identifier of the result, 1-64 bytes
+	 * @param photoUrl - URL of the JPEG photo, up to 5MB
+	 * @param thumbnailUrl - URL of the thumbnail
+	 * @param options - Other fields of the result, such as `caption` or `reply_markup`
+	 * @returns The builder, for chaining
+	 */
+	photo(
+		id: string,
+		photoUrl: string,
+		thumbnailUrl: string,
+		options: Omit<
+			InlineQueryResultPhoto,
+			'type' | 'id' | 'photo_url' | 'thumbnail_url'
+		> = {},
+	): this {
+		return this.add({
+			type: 'photo',
+			id,
+			photo_url: photoUrl,
+			thumbnail_url: thumbnailUrl,
+			...options,
+		})
+	}
+
+	/**
+	 * Add one result per item of a list
+	 *
+	 * @param items - Items to create results for
+	 * @param toResult - Function creating the result for an item
+	 * @returns The builder, for chaining
+	 */
+	fromList<T>(
+		items: T[],
+		toResult: (item: T, index: number) => InlineQueryResult,
+	): this {
+		return this.add(...items.map(toResult))
+	}
+
+	/**
+	 * Build the list of results
+	 *
+	 * @returns Results to pass to answerInlineQuery
+	 */
+	build(): InlineQueryResult[] {
+		return [...this.results]
+	}
+}
+
+/**
+ * Pick the page of items requested by an inline query
+ *
+ * Offsets are item indices encoded as strings. An empty or unrecognized
+ * offset starts from the first item.
+ *
+ * @param items - All items matching the query
+ * @param offset - The `offset` of the inline query
+ * @param pageSize - Number of items per page, 1-50
+ * @returns The items of the page and the offset of the next one
+ *
+ * @example
+ * ```typescript
+ * const page = paginateInlineResults(vehicles, query.offset, 20)
+ * // page.items: vehicles 0-19, page.nextOffset: "20"
+ * ```
+ */
+export function paginateInlineResults<T>(
+	items: T[],
+	offset: string,
+	pageSize = MAX_INLINE_QUERY_RESULTS,
+): InlineResultsPage<T> {
+	if (
+		!Number.isInteger(pageSize) ||
+		pageSize < 1 ||
+		pageSize > MAX_INLINE_QUERY_RESULTS
+	) {
+		throw new RangeError(`Invalid inline results page size: ${pageSize}`)
+	}
+
+	const start = /^\d+$/.test(offset) ? Number(offset) : 0
+	const end = start + pageSize
+	return {
+		items: items.slice(start, end),
+		nextOffset: end < items.length ? String(end) : '',
+	}
+}
@@ -0,0 +1,206 @@
+/**
+ * Telegram Bot API Input Media Types
+ *
+ * Types describing media content to be sent or edited
+ */
+
+import { z } from 'zod'
+
+/**
+ * Entities that can be attached to a caption
+ */
+export type CaptionEntities = Array<{
+	type: string
+	offset: number
+	length: number
+	url?: string
+	user?: unknown
+	language?: string
+	custom_emoji_id?: string
+}>
+
+/**
+ * File to send. Pass a file_id to send a file that exists on the Telegram servers,
+ * an HTTP URL for Telegram to get a file from the Internet, or a Blob/File to upload
+ */
+export type InputFile = string | Blob | File
+
+/**
+ * Schema of an `InputFile`
+ */
+export const InputFileSchema = z.union([z.string(), z.instanceof(Blob)])
+
+/**
+ * Fields shared by every input media type
+ */
+interface InputMediaBase {
+	/**
+	 * File to send
+	 */
+	media: InputFile
+
+	/**
+	 * Caption of the media to be sent, 0-1024 characters after entities parsing
+	 */
+	caption?: string
+
+	/**
+	 * Mode for parsing entities in the caption
+	 */
+	parse_mode?: 'MarkdownV2' | 'Markdown' | 'HTML'
+
+	/**
+	 * List of special entities that appear in the caption
+	 */
+	caption_entities?: CaptionEntities
+}
+
+/**
+ * Represents a photo to be sent
+ */
+export interface InputMediaPhoto extends InputMediaBase {
+	type: 'photo'
+
+	/**
+	 * Pass True, if the caption must be shown above the message media
+	 */
+	show_caption_above_media?: boolean
+
+	/**
+	 * Pass True if the photo needs to be covered with a spoiler animation
+	 */
+	has_spoiler?: boolean
+}
+
+/**
+ * Represents a video to be sent
+ */
+export interface InputMediaVideo extends InputMediaBase {
+	type: 'video'
+
+	/**
+	 * Thumbnail of the file sent. JPEG, less than 200 kB, at most 320x320
+	 */
+	thumbnail?: InputFile
+
+	/**
+	 * Pass True, if the caption must be shown above the message media
+	 */
+	show_caption_above_media?: boolean
+
+	/**
+	 * Video width
+	 */
+	width?: number
+
+	/**
+	 * Video height
+	 */
+	height?: number
+
+	/**
+	 * Video duration in seconds
+	 */
+	duration?: number
+
+	/**
+	 * Pass True if the uploaded video is suitable for streaming
+	 */
+	supports_streaming?: boolean
+
+	/**
+	 * Pass True if the video needs to be covered with a spoiler animation
+	 */
+	has_spoiler?: boolean
+}
+
+/**
+ * Represents an animation file (GIF or H.264/MPEG-4 AVC video without sound) to be sent
+ */
+export interface InputMediaAnimation extends InputMediaBase {
+	type: 'animation'
+
+	/**
+	 * Thumbnail of the file sent. JPEG, less than 200 kB, at most 320x320
+	 */
+	thumbnail?: InputFile
+
+	/**
+	 * Pass True, if the caption must be shown above the message media
+	 */
+	show_caption_above_media?: boolean
+
+	/**
+	 * Animation width
+	 */
+	width?: number
+
+	/**
+	 * Animation height
+	 */
+	height?: number
+
+	/**
+	 * Animation duration in seconds
+	 */
+	duration?: number
+
+	/**
+	 * Pass True if the animation needs to be covered with a spoiler animation
+	 */
+	has_spoiler?: boolean
+}
+
+/**
+ * Represents an audio file to be treated as music to be sent
+ */
+export interface InputMediaAudio extends InputMediaBase {
+	type: 'audio'
+
+	/**
+	 * Thumbnail of the file sent. JPEG, less than 200 kB, at most 320x320
+	 */
+	thumbnail?: InputFile
+
+	/**
+	 * Duration of the audio in seconds
+	 */
+	duration?: number
+
+	/**
+	 * Performer of the audio
+	 */
+	performer?: string
+
+	/**
+	 * Title of the audio
+	 */
+	title?: string
+}
+
+/**
+ * Represents a general file to be sent
+ */
+export interface InputMediaDocument extends InputMediaBase {
+	type: 'document'
+
+	/**
+	 * Thumbnail of the file sent. JPEG, less than 200 kB, at most 320x320
+	 */
+	thumbnail?: InputFile
+
+	/**
+	 * Disables automatic server-side content type detection for files uploaded using multipart/form-data
+	 */
+	disable_content_type_detection?: boolean
+}
+
+/**
+ * Content of a media message to be sent
+ */
+export type InputMedia =
+	| InputMediaAnimation
+	| InputMediaAudio
+	| InputMediaDocument
+	| InputMediaPhoto
+	| InputMediaVideo
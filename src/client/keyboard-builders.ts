@@ -0,0 +1,322 @@
+/**
+ * Telegram Bot API Keyboard Builders
+ *
+ * Fluent builders for inline and reply keyboards, producing markup validated
+ * against the keyboard schemas
+ */
+
+import {
+	type ForceReply,
+	ForceReplySchema,
+	type InlineKeyboardButton,
+	type InlineKeyboardMarkup,
+	InlineKeyboardMarkupSchema,
+	type KeyboardButton,
+	type ReplyKeyboardMarkup,
+	ReplyKeyboardMarkupSchema,
+	type ReplyKeyboardRemove,
+	ReplyKeyboardRemoveSchema,
+} from './keyboards'
+
+/**
+ * Shared row handling for keyboard builders
+ */
+abstract class KeyboardBuilder<B> {
+	protected rows: B[][] = [[]]
+	private maxColumns?: number
+	// Index of the row started by the last `row()` call
+	private rowStart = 0
+
+	/**
+	 * Add buttons to the current row, wrapping to a new row when `columns` is set
+	 *
+	 * @param buttons - Buttons to add
+	 * @returns The builder, for chaining
+	 */
+	add(...buttons: B[]): this {
+		for (const button of buttons) {
+			let row = this.rows[this.rows.length - 1]
+			if (!row || (this.maxColumns && row.length >= this.maxColumns)) {
+				row = []
+				this.rows.push(row)
+			}
+			row.push(button)
+		}
+		return this
+	}
+
+	/**
+	 * Start a new row. Calling it on an empty row has no effect
+	 *
+	 * @returns The builder, for chaining
+	 */
+	row(): this {
+		if (this.rows[this.rows.length - 1]?.length !== 0) {
+			this.rows.push([])
+		}
+		this.rowStart = this.rows.length - 1
+		return this
+	}
+
+	/**
+	 * Lay out buttons in rows of `n`, reflowing those added since the last
+	 * `row()` call and wrapping the ones added afterwards. Rows ended with
+	 * `row()` are kept as they are
+	 *
+	 * @param n - Number of buttons per row
+	 * @returns The builder, for chaining
+	 */
+	columns(n: number): this {
+		if (!Number.isInteger(n) || n < 1) {
+			throw new RangeError(`Invalid number of columns: ${n}`)
+		}
+
+		const buttons = this.rows.slice(this.rowStart).flat()
+		this.maxColumns = n
+		this.rows = [...this.rows.slice(0, this.rowStart), []]
+		return this.add(...buttons)
+	}
+
+	/**
+	 * Add one button per item of a list
+	 *
+	 * @param items - Items to create buttons for
+	 * @param toButton - Function creating the button for an item
+	 * @returns The builder, for chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * new InlineKeyboard()
+	 *   .columns(1)
+	 *   .fromList(vehicles, (v) => ({ text: v.name, callback_data: `vehicle_${v.id}` }))
+	 * ```
+	 */
+	fromList<T>(items: T[], toButton: (item: T, index: number) => B): this {
+		return this.add(...items.map(toButton))
+	}
+
+	/**
+	 * Get the rows without trailing empty rows
+	 */
+	protected getRows(): B[][] {
+		return this.rows.filter((row) => row.length > 0)
+	}
+}
+
+/**
+ * Builder for inline keyboards
+ *
+ * @example
+ * ```typescript
+ * await bot.sendMessage({
+ *   chat_id: chatId,
+ *   text: 'Choose an option:',
+ *   reply_markup: new InlineKeyboard()
+ *     .text('👍 Like', 'like')
+ *     .text('👎 Dislike', 'dislike')
+ *     .row()
+ *     .url('Website', 'https://example.com')
+ *     .build(),
+ * })
+ * ```
+ */
+export class InlineKeyboard extends KeyboardBuilder<InlineKeyboardButton> {
+	/**
+	 * Add a callback button
+	 *
+	 * @param text - Label of the button
+	 * @param callbackData - Data sent to the bot when the button is pressed, 1-64 bytes
+	 * @returns The builder, for chaining
+	 */
+	text(text: string, callbackData: string): this {
+		return this.add({ text, callback_data: callbackData })
+	}
+
+	/**
+	 * Add a button opening a URL
+	 *
+	 * @param text - Label of the button
+	 * @param url - HTTP or tg:// URL to open
+	 * @returns The builder, for chaining
+	 */
+	url(text: string, url: string): this {
+		return this.add({ text, url })
+	}
+
+	/**
+	 * Add a button launching a Web App
+	 *
+	 * @param text - Label of the button
+	 * @param url - HTTPS URL of the Web App
+	 * @returns The builder, for chaining
+	 */
+	webApp(text: string, url: string): this {
+		return this.add({ text, web_app: { url } })
+	}
+
+	/**
+	 * Build the inline keyboard markup
+	 *
+	 * @returns Markup validated against `InlineKeyboardMarkupSchema`
+	 * @throws {z.ZodError} If a button is invalid
+	 */
+	build(): InlineKeyboardMarkup {
+		return InlineKeyboardMarkupSchema.parse({
+			inline_keyboard: this.getRows(),
+		})
+	}
+}
+
+/**
+ * Builder for custom reply keyboards
+ *
+ * @example
+ * ```typescript
+ * await bot.sendMessage({
+ *   chat_id: chatId,
+ *   text: 'Select from keyboard:',
+ *   reply_markup: new ReplyKeyboard()
+ *     .text('Button 1')
+ *     .text('Button 2')
+ *     .row()
+ *     .add({ text: 'Share Contact', request_contact: true })
+ *     .resize()
+ *     .oneTime()
+ *     .build(),
+ * })
+ * ```
+ */
+export class ReplyKeyboard extends KeyboardBuilder<KeyboardButton> {
+	private options: Omit<ReplyKeyboardMarkup, 'keyboard'> = {}
+
+	/**
+	 * Add a text button
+	 *
+	 * @param text - Text of the button, sent as a message when pressed
+	 * @returns The builder, for chaining
+	 */
+	text(text: string): this {
+		return this.add({ text })
+	}
+
+	/**
+	 * Add a button launching a Web App
+	 *
+	 * @param text - Text of the button
+	 * @param url - HTTPS URL of the Web App
+	 * @returns The builder, for chaining
+	 */
+	webApp(text: string, url: string): this {
+		return this.add({ text, web_app: { url } })
+	}
+
+	/**
+	 * Request clients to resize the keyboard vertically for optimal fit
+	 *
+	 * @param value - Whether to resize the keyboard
+	 * @returns The builder, for chaining
+	 */
+	resize(value = true): this {
+		this.options.resize_keyboard = value
+		return this
+	}
+
+	/**
+	 * Request clients to hide the keyboard as soon as it's been used
+	 *
+	 * @param value - Whether to hide the keyboard after use
+	 * @returns The builder, for chaining
+	 */
+	oneTime(value = true): this {
+		this.options.one_time_keyboard = value
+		return this
+	}
+
+	/**
+	 * Request clients to always show the keyboard when the regular keyboard is hidden
+	 *
+	 * @param value - Whether the keyboard is persistent
+	 * @returns The builder, for chaining
+	 */
+	persistent(value = true): this {
+		this.options.is_persistent = value
+		return this
+	}
+
+	/**
+	 * Show the keyboard to specific users only
+	 *
+	 * @param value - Whether the keyboard is selective
+	 * @returns The builder, for chaining
+	 */
+	selective(value = true): this {
+		this.options.selective = value
+		return this
+	}
+
+	/**
+	 * Set the placeholder shown in the input field when the keyboard is active
+	 *
+	 * @param text - Placeholder text, 1-64 characters
+	 * @returns The builder, for chaining
+	 */
+	placeholder(text: string): this {
+		this.options.input_field_placeholder = text
+		return this
+	}
+
+	/**
+	 * Build the reply keyboard markup
+	 *
+	 * @returns Markup validated against `ReplyKeyboardMarkupSchema`
+	 * @throws {z.ZodError} If a button or option is invalid
+	 */
+	build(): ReplyKeyboardMarkup {
+		return ReplyKeyboardMarkupSchema.parse({
+			keyboard: this.getRows(),
+			...this.options,
+		})
+	}
+}
+
+/**
+ * Create markup removing the current custom keyboard
+ *
+ * @param options - Whether to remove the keyboard for specific users only
+ * @returns Markup validated against `ReplyKeyboardRemoveSchema`
+ *
+ * @example
+ * ```typescript
+ * await bot.sendMessage({ chat_id: chatId, text: 'Done!', reply_markup: removeKeyboard() })
+ * ```
+ */
+export function removeKeyboard(
+	options: { selective?: boolean } = {},
+): ReplyKeyboardRemove {
+	return ReplyKeyboardRemoveSchema.parse({ remove_keyboard: true, ...options })
+}
+
+/**
+ * Create markup forcing the client to show a reply interface
+ *
+ * @param options - Placeholder and selective options
+ * @returns Markup validated against `ForceReplySchema`
+ *
+ * @example
+ * ```typescript
+ * await bot.sendMessage({
+ *   chat_id: chatId,
+ *   text: 'What is the odometer reading?',
+ *   reply_markup: forceReply({ placeholder: 'Kilometers' }),
+ * })
+ * ```
+ */
+export function forceReply(
+	options: { placeholder?: string; selective?: boolean } = {},
+): ForceReply {
+	return ForceReplySchema.parse({
+		force_reply: true,
+		input_field_placeholder: options.placeholder,
+		selective: options.selective,
+	})
+}
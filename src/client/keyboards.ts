@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod'
+import { getByteLength, MAX_CALLBACK_DATA_BYTES } from './callback-data'
 
 /**
  * InlineKeyboardButton represents one button of an inline keyboard
@@ -23,7 +24,16 @@ export const InlineKeyboardButtonSchema = z.object({
 	/**
 	 * Data to be sent in a callback query to the bot when button is pressed, 1-64 bytes
 	 */
-	callback_data: z.string().max(64).optional(),
+	callback_data: z
+		.string()
+		.refine(
+			(value) => {
+				const size = getByteLength(value)
+				return size >= 1 && size <= MAX_CALLBACK_DATA_BYTES
+			},
+			{ message: 'callback_data must be 1-64 bytes in UTF-8' },
+		)
+		.optional(),
 
 	/**
 	 * Description of the Web App that will be launched when the user presses the button
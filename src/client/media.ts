@@ -0,0 +1,345 @@
+/**
+ * Telegram Bot API Media Message Parameters
+ *
+ * Parameter types for the methods sending documents, videos, audio, voice
+ * notes, animations, video notes, stickers and media groups
+ */
+
+import { TelegramError } from './errors'
+import type {
+	CaptionEntities,
+	InputFile,
+	InputMediaAudio,
+	InputMediaDocument,
+	InputMediaPhoto,
+	InputMediaVideo,
+} from './input-media'
+import type {
+	InlineKeyboardMarkup,
+	ReplyKeyboardMarkup,
+	ReplyMarkup,
+} from './keyboards'
+
+/**
+ * Parameters shared by every method sending a message
+ */
+export interface SendMessageBaseParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Sends the message silently. Users will receive a notification with no sound
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent message from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * If the message is a reply, ID of the original message
+	 */
+	reply_to_message_id?: number
+
+	/**
+	 * Pass True if the message should be sent even if the specified replied-to message is not found
+	 */
+	allow_sending_without_reply?: boolean
+
+	/**
+	 * Additional interface options. An InlineKeyboardMarkup or ReplyKeyboardMarkup object
+	 */
+	reply_markup?: InlineKeyboardMarkup | ReplyKeyboardMarkup | ReplyMarkup
+}
+
+/**
+ * Parameters shared by every method sending a message with a caption
+ */
+export interface SendCaptionedMediaParams extends SendMessageBaseParams {
+	/**
+	 * Media caption (may also be used when resending media by file_id), 0-1024 characters after entities parsing
+	 */
+	caption?: string
+
+	/**
+	 * Mode for parsing entities in the caption
+	 */
+	parse_mode?: 'MarkdownV2' | 'Markdown' | 'HTML'
+
+	/**
+	 * List of special entities that appear in the caption
+	 */
+	caption_entities?: CaptionEntities
+}
+
+/**
+ * SendDocument method parameters
+ */
+export interface SendDocumentParams extends SendCaptionedMediaParams {
+	/**
+	 * File to send. Pass a file_id, an HTTP URL, or upload a new file
+	 */
+	document: InputFile
+
+	/**
+	 * Thumbnail of the file sent. JPEG, less than 200 kB, at most 320x320
+	 */
+	thumbnail?: InputFile
+
+	/**
+	 * Disables automatic server-side content type detection for files uploaded using multipart/form-data
+	 */
+	disable_content_type_detection?: boolean
+}
+
+/**
+ * SendVideo method parameters
+ */
+export interface SendVideoParams extends SendCaptionedMediaParams {
+	/**
+	 * Video to send. Pass a file_id, an HTTP URL, or upload a new video
+	 */
+	video: InputFile
+
+	/**
+	 * Duration of sent video in seconds
+	 */
+	duration?: number
+
+	/**
+	 * Video width
+	 */
+	width?: number
+
+	/**
+	 * Video height
+	 */
+	height?: number
+
+	/**
+	 * Thumbnail of the file sent. JPEG, less than 200 kB, at most 320x320
+	 */
+	thumbnail?: InputFile
+
+	/**
+	 * Pass True, if the caption must be shown above the message media
+	 */
+	show_caption_above_media?: boolean
+
+	/**
+	 * Pass True if the video needs to be covered with a spoiler animation
+	 */
+	has_spoiler?: boolean
+
+	/**
+	 * Pass True if the uploaded video is suitable for streaming
+	 */
+	supports_streaming?: boolean
+}
+
+/**
+ * SendAudio method parameters
+ */
+export interface SendAudioParams extends SendCaptionedMediaParams {
+	/**
+	 * Audio file to send, in the .MP3 or .M4A format
+	 */
+	audio: InputFile
+
+	/**
+	 * Duration of the audio in seconds
+	 */
+	duration?: number
+
+	/**
+	 * Performer
+	 */
+	performer?: string
+
+	/**
+	 * Track name
+	 */
+	title?: string
+
+	/**
+	 * Thumbnail of the file sent. JPEG, less than 200 kB, at most 320x320
+	 */
+	thumbnail?: InputFile
+}
+
+/**
+ * SendVoice method parameters
+ */
+export interface SendVoiceParams extends SendCaptionedMediaParams {
+	/**
+	 * Audio file to send, in the .OGG format encoded with OPUS, .MP3 or .M4A
+	 */
+	voice: InputFile
+
+	/**
+	 * Duration of the voice message in seconds
+	 */
+	duration?: number
+}
+
+/**
+ * SendAnimation method parameters
+ */
+export interface SendAnimationParams extends SendCaptionedMediaParams {
+	/**
+	 * Animation to send (GIF or H.264/MPEG-4 AVC video without sound)
+	 */
+	animation: InputFile
+
+	/**
+	 * Duration of sent animation in seconds
+	 */
+	duration?: number
+
+	/**
+	 * Animation width
+	 */
+	width?: number
+
+	/**
+	 * Animation height
+	 */
+	height?: number
+
+	/**
+	 * Thumbnail of the file sent. JPEG, less than 200 kB, at most 320x320
+	 */
+	thumbnail?: InputFile
+
+	/**
+	 * Pass True, if the caption must be shown above the message media
+	 */
+	show_caption_above_media?: boolean
+
+	/**
+	 * Pass True if the animation needs to be covered with a spoiler animation
+	 */
+	has_spoiler?: boolean
+}
+
+/**
+ * SendVideoNote method parameters
+ */
+export interface SendVideoNoteParams extends SendMessageBaseParams {
+	/**
+	 * Video note to send. Pass a file_id or upload a new video. Sending video notes by a URL is currently unsupported
+	 */
+	video_note: InputFile
+
+	/**
+	 * Duration of sent video in seconds
+	 */
+	duration?: number
+
+	/**
+	 * Video width and height, i.e. diameter of the video message
+	 */
+	length?: number
+
+	/**
+	 * Thumbnail of the file sent. JPEG, less than 200 kB, at most 320x320
+	 */
+	thumbnail?: InputFile
+}
+
+/**
+ * SendSticker method parameters
+ */
+export interface SendStickerParams extends SendMessageBaseParams {
+	/**
+	 * Sticker to send. Pass a file_id, an HTTP URL for a .WEBP sticker, or upload a new .WEBP, .TGS or .WEBM sticker
+	 */
+	sticker: InputFile
+
+	/**
+	 * Emoji associated with the sticker; only for just uploaded stickers
+	 */
+	emoji?: string
+}
+
+/**
+ * Media that can be sent as part of an album
+ */
+export type MediaGroupItem =
+	| InputMediaAudio
+	| InputMediaDocument
+	| InputMediaPhoto
+	| InputMediaVideo
+
+/**
+ * SendMediaGroup method parameters
+ */
+export interface SendMediaGroupParams extends Record<string, unknown> {
+	/**
+	 * Unique identifier for the target chat or username of the target channel (in the format @channelusername)
+	 */
+	chat_id: number | string
+
+	/**
+	 * Unique identifier for the target message thread (topic) of the forum; for forum supergroups only
+	 */
+	message_thread_id?: number
+
+	/**
+	 * Photos, videos, documents or audios to be sent, 2-10 items.
+	 * Documents and audio files can only be grouped with items of the same type
+	 */
+	media: MediaGroupItem[]
+
+	/**
+	 * Sends the messages silently. Users will receive a notification with no sound
+	 */
+	disable_notification?: boolean
+
+	/**
+	 * Protects the contents of the sent messages from forwarding and saving
+	 */
+	protect_content?: boolean
+
+	/**
+	 * If the messages are a reply, ID of the original message
+	 */
+	reply_to_message_id?: number
+
+	/**
+	 * Pass True if the messages should be sent even if the specified replied-to message is not found
+	 */
+	allow_sending_without_reply?: boolean
+}
+
+/**
+ * Check that a media group follows Telegram's album rules
+ *
+ * @param media - Items of the media group
+ * @throws {TelegramError} If the group has fewer than 2 or more than 10 items,
+ * or mixes documents or audio files with other types
+ */
+export function validateMediaGroup(media: MediaGroupItem[]): void {
+	if (media.length < 2 || media.length > 10) {
+		throw new TelegramError(
+			`A media group must contain 2-10 items, got ${media.length}`,
+		)
+	}
+
+	const types = new Set(media.map((item) => item.type))
+	for (const exclusive of ['audio', 'document'] as const) {
+		if (types.has(exclusive) && types.size > 1) {
+			throw new TelegramError(
+				`Items of type "${exclusive}" can only be grouped with other "${exclusive}" items, got ${[...types].join(', ')}`,
+			)
+		}
+	}
+}
@@ -0,0 +1,119 @@
+/**
+ * Telegram Bot API Payments
+ *
+ * Helper to answer pre-checkout queries, which Telegram expects an answer to
+ * within 10 seconds
+ */
+
+import type { PreCheckoutQuery } from '../webhooks/schemas'
+import type { TelegramBotMethods } from './generated'
+import type { RequestOptions } from './index'
+
+/**
+ * Decides whether a checkout may proceed. Return `true` to accept, or `false`
+ * or an error message shown to the user to decline
+ */
+export type PreCheckoutValidator = (
+	query: PreCheckoutQuery,
+	signal: AbortSignal,
+) => boolean | string | Promise<boolean | string>
+
+/**
+ * Options for answering a pre-checkout query
+ */
+export interface PreCheckoutOptions extends RequestOptions {
+	/**
+	 * Time the validator may take before the checkout is declined, in
+	 * milliseconds. Keeps a margin under Telegram's 10 second limit
+	 * @default 8000
+	 */
+	timeout?: number
+
+	/**
+	 * Message shown to the user when the checkout is declined without a
+	 * specific reason, including when the validator times out or throws
+	 * @default 'Sorry, this order cannot be completed right now. Please try again later.'
+	 */
+	errorMessage?: string
+}
+
+const DEFAULT_TIMEOUT = 8000
+const DEFAULT_ERROR_MESSAGE =
+	'Sorry, this order cannot be completed right now. Please try again later.'
+
+/**
+ * Run a validator on a pre-checkout query and answer it in time
+ *
+ * The checkout is accepted only if the validator returns `true`. If it
+ * doesn't settle within `timeout`, the checkout is declined and the signal
+ * passed to the validator is aborted. If it throws, the checkout is declined
+ * and the error is rethrown once the query has been answered.
+ *
+ * @param bot - Client used to answer the query
+ * @param query - The pre-checkout query
+ * @param validate - Checks the order, such as stock or the invoice payload
+ * @param options - Timeout, default error message and request options
+ * @returns Promise with `true` if the checkout was accepted
+ *
+ * @example
+ * ```typescript
+ * router.on('pre_checkout_query', async (ctx) => {
+ *   await answerPreCheckout(bot, ctx.update.pre_checkout_query, async (query) => {
+ *     const report = await reports.find(query.invoice_payload)
+ *     return report?.available || 'This report is no longer available'
+ *   })
+ * })
+ * ```
+ */
+export async function answerPreCheckout(
+	bot: Pick<TelegramBotMethods, 'answerPreCheckoutQuery'>,
+	query: PreCheckoutQuery,
+	validate: PreCheckoutValidator,
+	options: PreCheckoutOptions = {},
+): Promise<boolean> {
+	const {
+		timeout = DEFAULT_TIMEOUT,
+		errorMessage = DEFAULT_ERROR_MESSAGE,
+		...requestOptions
+	} = options
+
+	const controller = new AbortController()
+	let timer: ReturnType<typeof setTimeout> | undefined
+	const timedOut = new Promise<false>((resolve) => {
+		timer = setTimeout(() => {
+			// Settle first, so a validator reacting to the abort can't win the race
+			resolve(false)
+			controller.abort()
+		}, timeout)
+	})
+
+	let verdict: boolean | string
+	let failure: { error: unknown } | undefined
+	try {
+		verdict = await Promise.race([
+			Promise.resolve(validate(query, controller.signal)),
+			timedOut,
+		])
+	} catch (error) {
+		verdict = false
+		failure = { error }
+	} finally {
+		clearTimeout(timer)
+	}
+
+	const ok = verdict === true
+	await bot.answerPreCheckoutQuery(
+		{
+			pre_checkout_query_id: query.id,
+			ok,
+			...(!ok && {
+				error_message:
+					typeof verdict === 'string' && verdict ? verdict : errorMessage,
+			}),
+		},
+		requestOptions,
+	)
+
+	if (failure) throw failure.error
+	return ok
+}
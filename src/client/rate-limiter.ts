@@ -0,0 +1,343 @@
+/**
+ * Telegram Bot API Rate Limiter
+ *
+ * Token buckets per chat and across all chats, with a priority queue so
+ * interactive replies are sent before bulk messages
+ */
+
+import type { Chat } from '../webhooks/schemas'
+import type { RateLimit } from './config'
+
+/**
+ * Priority of a queued request. Higher priorities are sent first
+ */
+export type RequestPriority = 'high' | 'normal' | 'low'
+
+/**
+ * Source of time and timers for the rate limiter. Replace it in tests to
+ * control time instead of waiting
+ */
+export interface RateLimiterClock {
+	/**
+	 * Current time in milliseconds
+	 */
+	now(): number
+
+	/**
+	 * Call a function after a delay in milliseconds
+	 */
+	setTimeout(callback: () => void, ms: number): unknown
+
+	/**
+	 * Cancel a call scheduled with `setTimeout`
+	 */
+	clearTimeout(handle: unknown): void
+}
+
+/**
+ * Clock using the system time and the global timers
+ */
+const systemClock: RateLimiterClock = {
+	now: () => Date.now(),
+	setTimeout: (callback, ms) => setTimeout(callback, ms),
+	clearTimeout: (handle) =>
+		clearTimeout(handle as ReturnType<typeof setTimeout>),
+}
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+	high: 0,
+	normal: 1,
+	low: 2,
+}
+
+/**
+ * Number of idle chat buckets kept before full ones are discarded
+ */
+const MAX_IDLE_BUCKETS = 1000
+
+/**
+ * Token bucket refilling continuously up to its capacity
+ */
+class TokenBucket {
+	private tokens: number
+	private updatedAt: number
+
+	constructor(
+		private readonly capacity: number,
+		private readonly refillPerMs: number,
+		now: number,
+	) {
+		this.tokens = capacity
+		this.updatedAt = now
+	}
+
+	private refill(now: number): void {
+		const elapsed = now - this.updatedAt
+		this.tokens = Math.min(
+			this.capacity,
+			this.tokens + elapsed * this.refillPerMs,
+		)
+		this.updatedAt = now
+	}
+
+	/**
+	 * Time in milliseconds until a token is available
+	 */
+	waitTime(now: number): number {
+		this.refill(now)
+		if (this.tokens >= 1) return 0
+		return Math.ceil((1 - this.tokens) / this.refillPerMs)
+	}
+
+	/**
+	 * Consume a token. Call only when `waitTime` returned 0
+	 */
+	take(): void {
+		this.tokens -= 1
+	}
+
+	/**
+	 * Check whether the bucket is back to its capacity
+	 */
+	isFull(now: number): boolean {
+		this.refill(now)
+		return this.tokens >= this.capacity
+	}
+}
+
+interface QueueEntry {
+	chatKey: string
+	group: boolean
+	priority: number
+	sequence: number
+	resolve: () => void
+}
+
+/**
+ * Token buckets of a chat
+ */
+interface ChatBuckets {
+	perSecond: TokenBucket
+	// Only for groups and channels
+	perMinute?: TokenBucket
+}
+
+/**
+ * Check whether a chat is a group or a channel. Without its type, this is
+ * guessed from the identifier: groups, supergroups and channels have
+ * negative ids, and only channels can be addressed by @username, while
+ * users and bots have positive ids
+ */
+function isGroupChat(
+	chatId: number | string,
+	chatType?: Chat['type'],
+): boolean {
+	if (chatType) return chatType !== 'private'
+	if (typeof chatId === 'number') return chatId < 0
+	return chatId.startsWith('@') || chatId.startsWith('-')
+}
+
+/**
+ * Outbound request scheduler enforcing Telegram's per-chat and global limits
+ *
+ * Each chat has one queue per priority. A request is released once the
+ * global bucket and its chat's buckets have a token, highest priority
+ * first, then by arrival, so a busy chat never blocks requests to other
+ * chats. Every chat gets the per-second limit; groups and channels also get
+ * the per-minute limit, with a small burst. A chat first guessed to be
+ * private gets the group limits as soon as a request says otherwise.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter(RateLimitSchema.parse({ enabled: true }))
+ * await limiter.schedule(chatId, 'low')
+ * // Send the request
+ * ```
+ */
+export class RateLimiter {
+	private readonly global: TokenBucket
+	private readonly chats = new Map<string, ChatBuckets>()
+	// Waiting requests of each chat, one queue per priority
+	private readonly queues = new Map<string, QueueEntry[][]>()
+	private readonly clock: RateLimiterClock
+	private size = 0
+	private sequence = 0
+	private timer?: unknown
+
+	/**
+	 * Create a rate limiter
+	 *
+	 * @param options - Rate limits to enforce
+	 */
+	constructor(private readonly options: RateLimit) {
+		this.clock = options.clock ?? systemClock
+		this.global = new TokenBucket(
+			options.globalPerSecond,
+			options.globalPerSecond / 1000,
+			this.clock.now(),
+		)
+	}
+
+	/**
+	 * Number of requests waiting to be sent
+	 */
+	get pending(): number {
+		return this.size
+	}
+
+	/**
+	 * Wait until a request to a chat may be sent
+	 *
+	 * @param chatId - Target chat of the request
+	 * @param priority - Priority of the request
+	 * @param signal - Signal used to leave the queue early
+	 * @param chatType - Type of the chat. Guessed from its id when omitted
+	 * @returns Promise resolved when the request may be sent
+	 * @throws The signal's abort reason if it is aborted while waiting
+	 */
+	schedule(
+		chatId: number | string,
+		priority: RequestPriority = 'normal',
+		signal?: AbortSignal,
+		chatType?: Chat['type'],
+	): Promise<void> {
+		if (signal?.aborted) {
+			return Promise.reject(signal.reason)
+		}
+
+		return new Promise<void>((resolve, reject) => {
+			const onAbort = () => {
+				this.remove(entry)
+				reject(signal?.reason)
+			}
+			const entry: QueueEntry = {
+				chatKey: String(chatId),
+				group: isGroupChat(chatId, chatType),
+				priority: PRIORITY_ORDER[priority],
+				sequence: this.sequence++,
+				resolve: () => {
+					signal?.removeEventListener('abort', onAbort)
+					resolve()
+				},
+			}
+			signal?.addEventListener('abort', onAbort, { once: true })
+
+			let queues = this.queues.get(entry.chatKey)
+			if (!queues) {
+				queues = [[], [], []]
+				this.queues.set(entry.chatKey, queues)
+			}
+			queues[entry.priority]?.push(entry)
+			this.size++
+			this.drain()
+		})
+	}
+
+	/**
+	 * Remove a request from its chat's queue
+	 */
+	private remove(entry: QueueEntry): void {
+		const queues = this.queues.get(entry.chatKey)
+		const queue = queues?.[entry.priority]
+		const index = queue?.indexOf(entry) ?? -1
+		if (!queues || !queue || index === -1) return
+
+		queue.splice(index, 1)
+		this.size--
+		if (queues.every((items) => items.length === 0)) {
+			this.queues.delete(entry.chatKey)
+		}
+	}
+
+	/**
+	 * Get the buckets of a chat, creating full ones if needed
+	 */
+	private getChatBuckets(entry: QueueEntry, now: number): TokenBucket[] {
+		let chat = this.chats.get(entry.chatKey)
+		if (!chat) {
+			chat = {
+				perSecond: new TokenBucket(
+					1,
+					this.options.perChatPerSecond / 1000,
+					now,
+				),
+			}
+			this.chats.set(entry.chatKey, chat)
+		}
+		// The chat may have been guessed private on its first request
+		if (entry.group && !chat.perMinute) {
+			chat.perMinute = new TokenBucket(
+				this.options.perGroupBurst,
+				this.options.perGroupPerMinute / 60_000,
+				now,
+			)
+		}
+		return chat.perMinute ? [chat.perSecond, chat.perMinute] : [chat.perSecond]
+	}
+
+	/**
+	 * Release every queued request that may be sent now, then wait for the next one
+	 */
+	private drain(): void {
+		if (this.timer !== undefined) {
+			this.clock.clearTimeout(this.timer)
+			this.timer = undefined
+		}
+
+		const now = this.clock.now()
+		let nextWait = Number.POSITIVE_INFINITY
+
+		// Only the first request of each chat may go: its per-second bucket
+		// holds a single token, which also keeps the chat's requests in order
+		const heads: QueueEntry[] = []
+		for (const queues of this.queues.values()) {
+			const head = queues.find((items) => items.length > 0)?.[0]
+			if (head) heads.push(head)
+		}
+		heads.sort((a, b) => a.priority - b.priority || a.sequence - b.sequence)
+
+		for (const entry of heads) {
+			const globalWait = this.global.waitTime(now)
+			if (globalWait > 0) {
+				nextWait = Math.min(nextWait, globalWait)
+				break
+			}
+
+			const chat = this.getChatBuckets(entry, now)
+			const wait = Math.max(...chat.map((bucket) => bucket.waitTime(now)))
+			if (wait > 0) {
+				nextWait = Math.min(nextWait, wait)
+				continue
+			}
+
+			this.global.take()
+			for (const bucket of chat) bucket.take()
+			this.remove(entry)
+			entry.resolve()
+
+			if (this.queues.has(entry.chatKey)) {
+				// Its next request waits for the chat's buckets to refill
+				nextWait = Math.min(
+					nextWait,
+					Math.max(...chat.map((bucket) => bucket.waitTime(now))),
+				)
+			}
+		}
+
+		if (this.chats.size > MAX_IDLE_BUCKETS) {
+			for (const [chatKey, chat] of this.chats) {
+				if (
+					!this.queues.has(chatKey) &&
+					chat.perSecond.isFull(now) &&
+					(chat.perMinute?.isFull(now) ?? true)
+				) {
+					this.chats.delete(chatKey)
+				}
+			}
+		}
+
+		if (this.size > 0) {
+			this.timer = this.clock.setTimeout(() => this.drain(), nextWait)
+		}
+	}
+}
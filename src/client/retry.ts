@@ -0,0 +1,66 @@
+/**
+ * Telegram Bot API Retry Policy
+ *
+ * Decides whether a failed request should be retried and how long to wait
+ */
+
+import type { RetryPolicy } from './config'
+import {
+	FloodWaitError,
+	NetworkError,
+	TelegramAPIError,
+	TimeoutError,
+} from './errors'
+
+/**
+ * Compute the exponential backoff delay for the given attempt
+ *
+ * @param attempt - Number of attempts made so far (1-based)
+ * @param policy - Retry policy
+ * @returns Delay in milliseconds
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+	const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1))
+	// Full jitter: pick a random delay between 0 and the backoff ceiling
+	return policy.jitter ? Math.floor(Math.random() * delay) : delay
+}
+
+/**
+ * Get the delay before retrying a failed request
+ *
+ * Flood control (429) errors wait for `retry_after` when available, server
+ * errors (5xx) and network failures back off exponentially. Any other API
+ * error is a client error and is never retried.
+ *
+ * @param error - Error thrown by the failed attempt
+ * @param attempt - Number of attempts made so far (1-based)
+ * @param policy - Retry policy
+ * @returns Delay in milliseconds, or `undefined` if the request should not be retried
+ */
+export function getRetryDelay(
+	error: unknown,
+	attempt: number,
+	policy: RetryPolicy,
+): number | undefined {
+	if (attempt >= policy.maxAttempts) return undefined
+
+	if (error instanceof NetworkError || error instanceof TimeoutError) {
+		return getBackoffDelay(attempt, policy)
+	}
+
+	if (!(error instanceof TelegramAPIError)) return undefined
+
+	if (error.errorCode === 429) {
+		if (policy.respectRetryAfter && error instanceof FloodWaitError) {
+			if (error.retryAfter > policy.maxRetryAfter) return undefined
+			return error.retryAfter * 1000
+		}
+		return getBackoffDelay(attempt, policy)
+	}
+
+	if (error.errorCode >= 500) {
+		return getBackoffDelay(attempt, policy)
+	}
+
+	return undefined
+}
@@ -0,0 +1,382 @@
+/**
+ * Telegram Bot API Transports
+ *
+ * The layer sending API requests over HTTP, and a transport recording
+ * request/response pairs to a fixture file and replaying them in tests
+ */
+
+import { FixtureError, ReplayMismatchError } from './errors'
+import { isUploadFile } from './uploads'
+
+/**
+ * An API request ready to be sent
+ */
+export interface TransportRequest {
+	/**
+	 * Name of the Bot API method, such as `'sendMessage'`
+	 */
+	method: string
+
+	/**
+	 * Parameters of the call, before they are encoded in the body
+	 */
+	params: Record<string, unknown>
+
+	/**
+	 * URL of the method, including the bot token
+	 */
+	url: string
+
+	/**
+	 * Options to pass to `fetch`, with the encoded body
+	 */
+	init: RequestInit
+}
+
+/**
+ * Sends API requests. Set one as the `transport` of a client to change how
+ * requests reach Telegram
+ */
+export interface Transport {
+	/**
+	 * Send a request
+	 *
+	 * @param request - The API request
+	 * @returns The HTTP response of the Bot API
+	 */
+	send(request: TransportRequest): Promise<Response>
+}
+
+/**
+ * Transport sending requests with the global `fetch`. Used by default
+ */
+export const fetchTransport: Transport = {
+	send: ({ url, init }) => fetch(url, init),
+}
+
+/**
+ * What a record/replay transport does with requests
+ *
+ * - `record`: send them and save every request/response pair to the fixture
+ * - `replay`: answer them from the fixture without sending anything
+ * - `passthrough`: send them without touching the fixture
+ */
+export type RecordReplayMode = 'record' | 'replay' | 'passthrough'
+
+/**
+ * A request/response pair saved in a fixture
+ */
+export interface RecordedInteraction {
+	/**
+	 * Name of the Bot API method
+	 */
+	method: string
+
+	/**
+	 * Normalized parameters of the request
+	 */
+	params: Record<string, unknown>
+
+	/**
+	 * HTTP status of the response
+	 */
+	status: number
+
+	/**
+	 * JSON body of the response
+	 */
+	body: unknown
+}
+
+/**
+ * Record/replay transport options
+ */
+export interface RecordReplayOptions {
+	/**
+	 * What to do with requests
+	 */
+	mode: RecordReplayMode
+
+	/**
+	 * Path of the JSON fixture file. Overwritten in record mode
+	 */
+	fixture: string
+
+	/**
+	 * Parameters left out when saving and matching requests, such as ones
+	 * holding timestamps
+	 */
+	ignoreParams?: string[]
+
+	/**
+	 * Transport sending requests in record and passthrough modes
+	 * @default fetchTransport
+	 */
+	transport?: Transport
+}
+
+/**
+ * Placeholder replacing the bot token in fixtures
+ */
+const REDACTED_TOKEN = '<BOT_TOKEN>'
+
+/**
+ * Normalize a value for comparison: sort object keys, drop undefined values
+ * and replace files with their type and size
+ */
+function normalizeValue(value: unknown): unknown {
+	if (isUploadFile(value)) {
+		return {
+			file: {
+				...(value instanceof File && { name: value.name }),
+				type: value.type,
+				size: value.size,
+			},
+		}
+	}
+	if (Array.isArray(value)) return value.map(normalizeValue)
+	if (typeof value === 'object' && value !== null) {
+		return Object.fromEntries(
+			Object.keys(value)
+				.sort()
+				.filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+				.map((key) => [
+					key,
+					normalizeValue((value as Record<string, unknown>)[key]),
+				]),
+		)
+	}
+	return value
+}
+
+/**
+ * Normalize request parameters so equal requests compare equal: object keys
+ * are sorted, undefined values dropped, and files replaced with their name,
+ * type and size
+ *
+ * @param params - Request parameters
+ * @param ignore - Names of top-level parameters to leave out
+ * @returns Parameters safe to save as JSON and compare
+ */
+export function normalizeParams(
+	params: Record<string, unknown>,
+	ignore: string[] = [],
+): Record<string, unknown> {
+	const kept = Object.fromEntries(
+		Object.entries(params).filter(([key]) => !ignore.includes(key)),
+	)
+	return normalizeValue(kept) as Record<string, unknown>
+}
+
+/**
+ * Replace a bot token anywhere in a JSON-compatible value
+ */
+function redact<T>(value: T, token: string | undefined): T {
+	if (!token) return value
+	return JSON.parse(JSON.stringify(value).replaceAll(token, REDACTED_TOKEN))
+}
+
+/**
+ * Get the bot token from the URL of a method
+ */
+function getToken(url: string): string | undefined {
+	const match = /\/bot([^/]+)\/[^/]+$/.exec(new URL(url).pathname)
+	return match?.[1] && decodeURIComponent(match[1])
+}
+
+/**
+ * Transport recording real API responses to a fixture file and replaying
+ * them in tests, without network access
+ *
+ * Requests are matched by method and normalized parameters. Each recorded
+ * interaction is replayed once, in order, so repeated calls get the
+ * responses they got while recording. The bot token is replaced with
+ * `<BOT_TOKEN>` in fixtures. Reading and writing fixtures requires a runtime
+ * with `node:fs`, such as Node.js or Bun.
+ *
+ * @example
+ * ```typescript
+ * const transport = new RecordReplayTransport({
+ *   mode: process.env.RECORD ? 'record' : 'replay',
+ *   fixture: './test/fixtures/send-report.json',
+ * })
+ * const bot = new TelegramBot({
+ *   botToken: process.env.TELEGRAM_BOT_TOKEN ?? 'test:token',
+ *   transport,
+ * })
+ *
+ * await sendReport(bot, chatId)
+ * expect(transport.unused).toEqual([])
+ * ```
+ */
+export class RecordReplayTransport implements Transport {
+	private interactions?: RecordedInteraction[]
+	private loading?: Promise<RecordedInteraction[]>
+	private readonly used = new Set<RecordedInteraction>()
+	private writing: Promise<void> = Promise.resolve()
+
+	/**
+	 * Create a record/replay transport
+	 *
+	 * @param options - Mode, fixture path and matching options
+	 */
+	constructor(private readonly options: RecordReplayOptions) {}
+
+	/**
+	 * Interactions of the fixture not replayed yet. Empty once a test has
+	 * made every recorded request
+	 */
+	get unused(): RecordedInteraction[] {
+		return (this.interactions ?? []).filter((i) => !this.used.has(i))
+	}
+
+	async send(request: TransportRequest): Promise<Response> {
+		const { mode, transport = fetchTransport } = this.options
+		if (mode === 'passthrough') return transport.send(request)
+
+		const token = getToken(request.url)
+		const params = redact(
+			normalizeParams(request.params, this.options.ignoreParams),
+			token,
+		)
+
+		if (mode === 'replay') return this.replay(request.method, params)
+
+		const response = await transport.send(request)
+		let body: unknown
+		try {
+			body = await response.clone().json()
+		} catch {
+			// Not an API response, nothing worth replaying
+			return response
+		}
+
+		await this.record({
+			method: request.method,
+			params,
+			status: response.status,
+			body: redact(body, token),
+		})
+		return response
+	}
+
+	/**
+	 * Answer a request from the fixture
+	 * @private
+	 */
+	private async replay(
+		method: string,
+		params: Record<string, unknown>,
+	): Promise<Response> {
+		const interactions = await this.load()
+		const key = JSON.stringify(params)
+		const interaction = interactions.find(
+			(i) =>
+				!this.used.has(i) &&
+				i.method === method &&
+				JSON.stringify(i.params) === key,
+		)
+
+		if (!interaction) {
+			const recorded = interactions
+				.filter((i) => i.method === method)
+				.map(
+					(i) =>
+						`  ${JSON.stringify(i.params)}${this.used.has(i) ? ' (used)' : ''}`,
+				)
+				.join('\n')
+			throw new ReplayMismatchError(
+				method,
+				params,
+				`No recorded response for ${method} with ${key} in ${this.options.fixture}${
+					recorded
+						? `. Recorded ${method} calls:\n${recorded}`
+						: `. No ${method} calls were recorded`
+				}`,
+			)
+		}
+
+		this.used.add(interaction)
+		return new Response(JSON.stringify(interaction.body), {
+			status: interaction.status,
+			headers: { 'Content-Type': 'application/json' },
+		})
+	}
+
+	/**
+	 * Read the fixture once
+	 * @private
+	 */
+	private load(): Promise<RecordedInteraction[]> {
+		this.loading ??= (async () => {
+			const { fixture } = this.options
+			const { readFile } = await import('node:fs/promises')
+			let text: string
+			try {
+				text = await readFile(fixture, 'utf8')
+			} catch (error) {
+				throw new FixtureError(
+					fixture,
+					`Cannot read fixture ${fixture}, record it first`,
+					{ cause: error },
+				)
+			}
+
+			let interactions: unknown
+			try {
+				interactions = (JSON.parse(text) as { interactions?: unknown })
+					.interactions
+			} catch (error) {
+				throw new FixtureError(
+					fixture,
+					`Fixture ${fixture} is not valid JSON`,
+					{
+						cause: error,
+					},
+				)
+			}
+			if (!Array.isArray(interactions)) {
+				throw new FixtureError(
+					fixture,
+					`Fixture ${fixture} has no interactions list, record it again`,
+				)
+			}
+			this.interactions = interactions as RecordedInteraction[]
+			return this.interactions
+		})()
+		return this.loading
+	}
+
+	/**
+	 * Add an interaction and rewrite the fixture
+	 * @private
+	 */
+	private record(interaction: RecordedInteraction): Promise<void> {
+		this.interactions ??= []
+		this.interactions.push(interaction)
+		const interactions = [...this.interactions]
+
+		// Writes run one after another, each with every interaction so far
+		this.writing = this.writing
+			.catch(() => {})
+			.then(async () => {
+				const { fixture } = this.options
+				const { mkdir, writeFile } = await import('node:fs/promises')
+				try {
+					const directory = fixture.replace(/[\\/][^\\/]*$/, '')
+					if (directory !== fixture) {
+						await mkdir(directory, { recursive: true })
+					}
+					await writeFile(
+						fixture,
+						`${JSON.stringify({ interactions }, null, '\t')}\n`,
+					)
+				} catch (error) {
+					throw new FixtureError(fixture, `Cannot write fixture ${fixture}`, {
+						cause: error,
+					})
+				}
+			})
+		return this.writing
+	}
+}
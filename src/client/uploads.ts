@@ -0,0 +1,101 @@
+/**
+ * Telegram Bot API File Uploads
+ *
+ * Detects files anywhere in request parameters and builds multipart bodies,
+ * rewriting nested files to `attach://` references
+ */
+
+/**
+ * Top-level parameters that must be uploaded through an `attach://` reference
+ */
+const ATTACH_ONLY_FIELDS = new Set(['thumbnail'])
+
+/**
+ * Check whether a value is a file to upload
+ */
+export function isUploadFile(value: unknown): value is Blob {
+	return typeof Blob !== 'undefined' && value instanceof Blob
+}
+
+/**
+ * Check whether request parameters contain a file to upload, at any depth
+ *
+ * @param value - Request parameters or a nested value
+ * @returns True if a `Blob` or `File` is found
+ */
+export function hasUploadFiles(value: unknown): boolean {
+	if (isUploadFile(value)) return true
+	if (Array.isArray(value)) return value.some(hasUploadFiles)
+	if (typeof value === 'object' && value !== null) {
+		return Object.values(value).some(hasUploadFiles)
+	}
+	return false
+}
+
+/**
+ * Build a multipart/form-data body from request parameters
+ *
+ * Top-level files are sent as parts named after their parameter, as Telegram
+ * expects for fields like `photo` or `document`. Files nested in objects or
+ * arrays (such as `InputMedia` items) and thumbnails are sent as separate
+ * parts and replaced by an `attach://<name>` reference. Parameters can also
+ * reference extra top-level files by name with `attach://` explicitly.
+ *
+ * @param params - Request parameters
+ * @returns The multipart body
+ *
+ * @example
+ * ```typescript
+ * createMultipartBody({
+ *   chat_id: 1,
+ *   media: { type: 'photo', media: photoFile },
+ * })
+ * // chat_id=1, media={"type":"photo","media":"attach://file0"}, file0=<photoFile>
+ * ```
+ */
+export function createMultipartBody(params: Record<string, unknown>): FormData {
+	const formData = new FormData()
+	const attachments: Array<[string, Blob]> = []
+	let counter = 0
+
+	const attach = (file: Blob): string => {
+		let name: string
+		do {
+			name = `file${counter++}`
+		} while (name in params)
+		attachments.push([name, file])
+		return `attach://${name}`
+	}
+
+	// Replace nested files with attach:// references
+	const replaceFiles = (value: unknown): unknown => {
+		if (isUploadFile(value)) return attach(value)
+		if (Array.isArray(value)) return value.map(replaceFiles)
+		if (typeof value === 'object' && value !== null) {
+			return Object.fromEntries(
+				Object.entries(value).map(([key, item]) => [key, replaceFiles(item)]),
+			)
+		}
+		return value
+	}
+
+	for (const [key, value] of Object.entries(params)) {
+		if (value === undefined || value === null) continue
+
+		if (isUploadFile(value) && !ATTACH_ONLY_FIELDS.has(key)) {
+			formData.append(key, value)
+		} else if (isUploadFile(value)) {
+			formData.append(key, attach(value))
+		} else if (typeof value === 'object') {
+			formData.append(key, JSON.stringify(replaceFiles(value)))
+		} else {
+			formData.append(key, String(value))
+		}
+	}
+
+	for (const [name, file] of attachments) {
+		formData.append(name, file)
+	}
+
+	return formData
+}
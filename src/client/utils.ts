@@ -0,0 +1,24 @@
+/**
+ * Telegram Bot API Client Utilities
+ *
+ * Internal helpers shared by the client and the update runners
+ */
+
+/**
+ * Wait for the given time, resolving early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) return resolve()
+
+		const onAbort = () => {
+			clearTimeout(timer)
+			resolve()
+		}
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+		signal?.addEventListener('abort', onAbort, { once: true })
+	})
+}
@@ -0,0 +1,254 @@
+/**
+ * Telegram Entity-Based Formatting
+ *
+ * Formatting primitives producing plain text with `MessageEntity` offsets,
+ * which can be sent without a parse mode or rendered to MarkdownV2 or HTML
+ */
+
+import type { MessageEntity, User } from '../webhooks/schemas'
+
+/**
+ * Plain text with formatting entities, ready to be spread into message parameters
+ *
+ * Offsets and lengths are in UTF-16 code units, like JavaScript string
+ * indices, so they can be computed with `String.prototype.length`.
+ *
+ * @example
+ * ```typescript
+ * await bot.sendMessage({ chat_id: chatId, ...fmt`Hello ${bold(name)}!` })
+ * ```
+ */
+export interface FormattedText {
+	/**
+	 * Text without any markup
+	 */
+	text: string
+
+	/**
+	 * Formatting entities of the text
+	 */
+	entities: MessageEntity[]
+}
+
+/**
+ * Content accepted by formatting primitives and templates. Strings and
+ * numbers are inserted as plain text
+ */
+export type Formattable = string | number | FormattedText
+
+/**
+ * Check whether a value is formatted text
+ */
+export function isFormattedText(value: unknown): value is FormattedText {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as FormattedText).text === 'string' &&
+		Array.isArray((value as FormattedText).entities)
+	)
+}
+
+/**
+ * Convert content to formatted text
+ */
+function toFormatted(content: Formattable): FormattedText {
+	if (isFormattedText(content)) return content
+	return { text: String(content), entities: [] }
+}
+
+/**
+ * Wrap content in an entity covering all of it
+ */
+function wrap(
+	content: Formattable,
+	entity: Omit<MessageEntity, 'offset' | 'length'>,
+): FormattedText {
+	const { text, entities } = toFormatted(content)
+	if (text.length === 0) return { text, entities }
+	return {
+		text,
+		entities: [{ ...entity, offset: 0, length: text.length }, ...entities],
+	}
+}
+
+/**
+ * Concatenate formatted parts, shifting their entities
+ *
+ * @param parts - Parts to concatenate
+ * @param separator - Content inserted between parts
+ * @returns The concatenated text
+ *
+ * @example
+ * ```typescript
+ * join(vehicles.map((v) => fmt`${bold(v.name)}: ${v.plate}`), '\n')
+ * ```
+ */
+export function join(
+	parts: Formattable[],
+	separator: Formattable = '',
+): FormattedText {
+	const sep = toFormatted(separator)
+	let text = ''
+	const entities: MessageEntity[] = []
+
+	const append = (part: FormattedText) => {
+		for (const entity of part.entities) {
+			entities.push({ ...entity, offset: entity.offset + text.length })
+		}
+		text += part.text
+	}
+
+	parts.forEach((part, index) => {
+		if (index > 0) append(sep)
+		append(toFormatted(part))
+	})
+
+	return { text, entities }
+}
+
+/**
+ * Build formatted text from a template. Interpolated strings are inserted as
+ * plain text, so they never need escaping
+ *
+ * @returns The text and its entities
+ *
+ * @example
+ * ```typescript
+ * const message = fmt`Vehicle ${bold(vehicle.name)} is due for ${italic('service')}`
+ * await bot.sendMessage({ chat_id: chatId, ...message })
+ * ```
+ */
+export function fmt(
+	strings: TemplateStringsArray,
+	...values: Formattable[]
+): FormattedText {
+	const parts: Formattable[] = []
+	strings.forEach((literal, index) => {
+		parts.push(literal)
+		if (index < values.length) parts.push(values[index] as Formattable)
+	})
+	return join(parts)
+}
+
+/**
+ * Format content as bold
+ */
+export function bold(content: Formattable): FormattedText {
+	return wrap(content, { type: 'bold' })
+}
+
+/**
+ * Format content as italic
+ */
+export function italic(content: Formattable): FormattedText {
+	return wrap(content, { type: 'italic' })
+}
+
+/**
+ * Format content as underlined
+ */
+export function underline(content: Formattable): FormattedText {
+	return wrap(content, { type: 'underline' })
+}
+
+/**
+ * Format content as strikethrough
+ */
+export function strikethrough(content: Formattable): FormattedText {
+	return wrap(content, { type: 'strikethrough' })
+}
+
+/**
+ * Hide content behind a spoiler
+ */
+export function spoiler(content: Formattable): FormattedText {
+	return wrap(content, { type: 'spoiler' })
+}
+
+/**
+ * Format text as inline code. Code cannot contain other entities
+ */
+export function code(text: string): FormattedText {
+	return wrap(text, { type: 'code' })
+}
+
+/**
+ * Format text as a pre-formatted code block
+ *
+ * @param text - Code of the block
+ * @param language - Programming language used for syntax highlighting
+ */
+export function pre(text: string, language?: string): FormattedText {
+	return wrap(text, language ? { type: 'pre', language } : { type: 'pre' })
+}
+
+/**
+ * Link content to a URL
+ *
+ * @param content - Text of the link
+ * @param url - URL opened when the link is tapped
+ */
+export function link(content: Formattable, url: string): FormattedText {
+	return wrap(content, { type: 'text_link', url })
+}
+
+/**
+ * Mention a user by id, which works for users without a username
+ *
+ * @param content - Text of the mention, usually the user's name
+ * @param user - User or user id to mention
+ */
+export function mention(
+	content: Formattable,
+	user: number | Pick<User, 'id'>,
+): FormattedText {
+	const id = typeof user === 'number' ? user : user.id
+	return link(content, `tg://user?id=${id}`)
+}
+
+/**
+ * Format content as a block quotation
+ *
+ * @param content - Quoted content
+ * @param options - Whether the quotation is collapsed by default
+ */
+export function blockquote(
+	content: Formattable,
+	options: { expandable?: boolean } = {},
+): FormattedText {
+	return wrap(content, {
+		type: options.expandable ? 'expandable_blockquote' : 'blockquote',
+	})
+}
+
+/**
+ * Insert a custom emoji. Only bots that purchased a Fragment username can send them
+ *
+ * @param emoji - Emoji shown by clients that cannot display the custom emoji
+ * @param customEmojiId - Unique identifier of the custom emoji
+ */
+export function customEmoji(
+	emoji: string,
+	customEmojiId: string,
+): FormattedText {
+	return wrap(emoji, { type: 'custom_emoji', custom_emoji_id: customEmojiId })
+}
+
+/**
+ * Convert formatted text to caption parameters
+ *
+ * @param content - Formatted caption
+ * @returns The `caption` and `caption_entities` parameters
+ *
+ * @example
+ * ```typescript
+ * await bot.sendPhoto({ chat_id: chatId, photo, ...asCaption(fmt`${bold('Front')} view`) })
+ * ```
+ */
+export function asCaption(content: Formattable): {
+	caption: string
+	caption_entities: MessageEntity[]
+} {
+	const { text, entities } = toFormatted(content)
+	return { caption: text, caption_entities: entities }
+}
@@ -0,0 +1,63 @@
+/**
+ * Telegram Text Escaping
+ *
+ * Escaping rules for text inserted into MarkdownV2 or HTML messages
+ */
+
+/**
+ * Escape text for use in a MarkdownV2 message
+ *
+ * @param text - Text to escape
+ * @returns Text with every MarkdownV2 special character escaped
+ *
+ * @example
+ * ```typescript
+ * escapeMarkdownV2('Price: 5.00 (incl. tax)')
+ * // "Price: 5\\.00 \\(incl\\. tax\\)"
+ * ```
+ */
+export function escapeMarkdownV2(text: string): string {
+	return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&')
+}
+
+/**
+ * Escape text for use inside a MarkdownV2 `code` or `pre` entity,
+ * where only backticks and backslashes must be escaped
+ *
+ * @param text - Code to escape
+ * @returns Escaped code
+ */
+export function escapeMarkdownV2Code(text: string): string {
+	return text.replace(/[`\\]/g, '\\$&')
+}
+
+/**
+ * Escape a URL for use inside the `(...)` part of a MarkdownV2 link,
+ * where only closing parentheses and backslashes must be escaped
+ *
+ * @param url - URL to escape
+ * @returns Escaped URL
+ */
+export function escapeMarkdownV2Url(url: string): string {
+	return url.replace(/[)\\]/g, '\\$&')
+}
+
+/**
+ * Escape text for use in an HTML message or attribute value
+ *
+ * @param text - Text to escape
+ * @returns Text with `&`, `<`, `>` and `"` replaced by HTML entities
+ *
+ * @example
+ * ```typescript
+ * escapeHtml('<b> & "quotes"')
+ * // "&lt;b&gt; &amp; &quot;quotes&quot;"
+ * ```
+ */
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
@@ -0,0 +1,228 @@
+/**
+ * Telegram Entity Extraction
+ *
+ * Helpers to read formatted text from incoming messages, slice it by
+ * entities and collect mentions, hashtags, URLs and commands
+ */
+
+import type { Message, MessageEntity, User } from '../webhooks/schemas'
+import type { FormattedText } from './entities'
+
+/**
+ * A run of text covered by the same set of entities
+ */
+export interface TextSegment {
+	/**
+	 * Text of the segment
+	 */
+	text: string
+
+	/**
+	 * Offset of the segment in UTF-16 code units
+	 */
+	offset: number
+
+	/**
+	 * Entities covering the whole segment, outermost first
+	 */
+	entities: MessageEntity[]
+}
+
+/**
+ * Values of the entities found in a text, by kind
+ */
+export interface ExtractedEntities {
+	/**
+	 * Usernames mentioned with `@`, including the `@`
+	 */
+	mentions: string[]
+
+	/**
+	 * Users mentioned without a username
+	 */
+	mentionedUsers: User[]
+
+	/**
+	 * Hashtags, including the `#`
+	 */
+	hashtags: string[]
+
+	/**
+	 * Cashtags, including the `$`
+	 */
+	cashtags: string[]
+
+	/**
+	 * URLs written in the text and targets of text links
+	 */
+	urls: string[]
+
+	/**
+	 * Email addresses
+	 */
+	emails: string[]
+
+	/**
+	 * Phone numbers
+	 */
+	phoneNumbers: string[]
+
+	/**
+	 * Bot commands, including the `/` and any `@username` suffix
+	 */
+	botCommands: string[]
+}
+
+/**
+ * Get the text covered by an entity
+ *
+ * Entity offsets are in UTF-16 code units, the same units as JavaScript
+ * string indices, so emoji and other astral characters are sliced correctly.
+ *
+ * @param text - Text of the message
+ * @param entity - Entity of the text
+ * @returns The text covered by the entity
+ *
+ * @example
+ * ```typescript
+ * getEntityText('👋 /start now', { type: 'bot_command', offset: 3, length: 6 })
+ * // "/start"
+ * ```
+ */
+export function getEntityText(text: string, entity: MessageEntity): string {
+	return text.slice(entity.offset, entity.offset + entity.length)
+}
+
+/**
+ * Get the text and entities of a message, or of its caption for media messages
+ *
+ * @param message - Incoming message
+ * @returns The formatted text, or `undefined` if the message has neither
+ *
+ * @example
+ * ```typescript
+ * const content = getMessageText(message)
+ * if (content) {
+ *   await archive.save(renderHtml(content.text, content.entities))
+ * }
+ * ```
+ */
+export function getMessageText(message: Message): FormattedText | undefined {
+	if (message.text !== undefined) {
+		return { text: message.text, entities: message.entities ?? [] }
+	}
+	if (message.caption !== undefined) {
+		return { text: message.caption, entities: message.caption_entities ?? [] }
+	}
+	return undefined
+}
+
+/**
+ * Split text into runs covered by the same set of entities
+ *
+ * @param text - Plain text
+ * @param entities - Entities of the text
+ * @returns Consecutive segments covering the whole text
+ *
+ * @example
+ * ```typescript
+ * splitByEntities('Hi bold', [{ type: 'bold', offset: 3, length: 4 }])
+ * // [{ text: 'Hi ', offset: 0, entities: [] },
+ * //  { text: 'bold', offset: 3, entities: [{ type: 'bold', ... }] }]
+ * ```
+ */
+export function splitByEntities(
+	text: string,
+	entities: MessageEntity[] = [],
+): TextSegment[] {
+	const boundaries = new Set([0, text.length])
+	for (const entity of entities) {
+		boundaries.add(Math.min(entity.offset, text.length))
+		boundaries.add(Math.min(entity.offset + entity.length, text.length))
+	}
+	const points = [...boundaries].sort((a, b) => a - b)
+
+	const ordered = [...entities].sort(
+		(a, b) => a.offset - b.offset || b.length - a.length,
+	)
+
+	const segments: TextSegment[] = []
+	for (let i = 0; i < points.length - 1; i++) {
+		const start = points[i] as number
+		const end = points[i + 1] as number
+		segments.push({
+			text: text.slice(start, end),
+			offset: start,
+			entities: ordered.filter(
+				(entity) =>
+					entity.offset <= start && entity.offset + entity.length >= end,
+			),
+		})
+	}
+	return segments
+}
+
+/**
+ * Collect the values of mentions, hashtags, URLs, commands and other
+ * detected entities in a text
+ *
+ * @param text - Plain text
+ * @param entities - Entities of the text
+ * @returns Values grouped by kind, in order of appearance
+ *
+ * @example
+ * ```typescript
+ * const { hashtags, botCommands } = extractEntities(message.text, message.entities)
+ * ```
+ */
+export function extractEntities(
+	text: string,
+	entities: MessageEntity[] = [],
+): ExtractedEntities {
+	const extracted: ExtractedEntities = {
+		mentions: [],
+		mentionedUsers: [],
+		hashtags: [],
+		cashtags: [],
+		urls: [],
+		emails: [],
+		phoneNumbers: [],
+		botCommands: [],
+	}
+
+	const ordered = [...entities].sort((a, b) => a.offset - b.offset)
+	for (const entity of ordered) {
+		const value = getEntityText(text, entity)
+		switch (entity.type) {
+			case 'mention':
+				extracted.mentions.push(value)
+				break
+			case 'text_mention':
+				if (entity.user) extracted.mentionedUsers.push(entity.user)
+				break
+			case 'hashtag':
+				extracted.hashtags.push(value)
+				break
+			case 'cashtag':
+				extracted.cashtags.push(value)
+				break
+			case 'url':
+				extracted.urls.push(value)
+				break
+			case 'text_link':
+				if (entity.url) extracted.urls.push(entity.url)
+				break
+			case 'email':
+				extracted.emails.push(value)
+				break
+			case 'phone_number':
+				extracted.phoneNumbers.push(value)
+				break
+			case 'bot_command':
+				extracted.botCommands.push(value)
+				break
+		}
+	}
+
+	return extracted
+}
@@ -0,0 +1,63 @@
+/**
+ * Telegram Text Formatting
+ *
+ * This module exports helpers to format messages safely: tagged templates
+ * escaping interpolations for MarkdownV2 or HTML, formatting primitives, and
+ * an entity-based builder that needs no parse mode at all. It also renders
+ * incoming messages back to markup, extracts their entities and splits
+ * long texts without losing formatting.
+ *
+ * @example
+ * ```typescript
+ * import { bold, fmt, html, md } from 'telegram-api-fetch'
+ *
+ * // Entities, no escaping involved
+ * await bot.sendMessage({ chat_id: chatId, ...fmt`Hello ${bold(name)}!` })
+ *
+ * // MarkdownV2 or HTML, with user input escaped
+ * await bot.sendMessage({ chat_id: chatId, text: md`Hello ${bold(name)}\\!`, parse_mode: 'MarkdownV2' })
+ * await bot.sendMessage({ chat_id: chatId, text: html`Hello ${bold(name)}!`, parse_mode: 'HTML' })
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+export type { Formattable, FormattedText } from './entities'
+export {
+	asCaption,
+	blockquote,
+	bold,
+	code,
+	customEmoji,
+	fmt,
+	isFormattedText,
+	italic,
+	join,
+	link,
+	mention,
+	pre,
+	spoiler,
+	strikethrough,
+	underline,
+} from './entities'
+export {
+	escapeHtml,
+	escapeMarkdownV2,
+	escapeMarkdownV2Code,
+	escapeMarkdownV2Url,
+} from './escape'
+export type { ExtractedEntities, TextSegment } from './extract'
+export {
+	extractEntities,
+	getEntityText,
+	getMessageText,
+	splitByEntities,
+} from './extract'
+export { renderHtml, renderMarkdownV2 } from './render'
+export type { SplitOptions, TextChunk } from './split'
+export {
+	MAX_CAPTION_LENGTH,
+	MAX_MESSAGE_LENGTH,
+	splitMessageText,
+} from './split'
+export { html, md } from './templates'
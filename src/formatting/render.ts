@@ -0,0 +1,223 @@
+/**
+ * Telegram Entity Rendering
+ *
+ * Renders text with `MessageEntity` offsets to MarkdownV2 or HTML markup
+ */
+
+import type { MessageEntity } from '../webhooks/schemas'
+import {
+	escapeHtml,
+	escapeMarkdownV2,
+	escapeMarkdownV2Code,
+	escapeMarkdownV2Url,
+} from './escape'
+
+/**
+ * An entity in the nesting tree, covering `text.slice(start, end)`
+ */
+interface EntityNode {
+	entity: MessageEntity
+	start: number
+	end: number
+	children: EntityNode[]
+}
+
+/**
+ * Entities whose content is rendered verbatim, without nested entities
+ */
+const CODE_ENTITIES = new Set<MessageEntity['type']>(['code', 'pre'])
+
+/**
+ * Arrange entities in a tree. Entities crossing the end of an enclosing
+ * entity are split in two, so any set of entities can be rendered as
+ * properly nested markup
+ */
+function buildEntityTree(entities: MessageEntity[]): EntityNode[] {
+	const pending = entities
+		.filter((entity) => entity.length > 0)
+		.map((entity) => ({
+			entity,
+			start: entity.offset,
+			end: entity.offset + entity.length,
+		}))
+
+	const compare = (a: { start: number; end: number }, b: typeof a) =>
+		a.start - b.start || b.end - a.end
+	pending.sort(compare)
+
+	const roots: EntityNode[] = []
+	const stack: EntityNode[] = []
+
+	for (let item = pending.shift(); item; item = pending.shift()) {
+		const { start } = item
+		while (stack.length > 0 && start >= (stack[stack.length - 1]?.end ?? 0)) {
+			stack.pop()
+		}
+
+		const parent = stack[stack.length - 1]
+		let { end } = item
+		if (parent && end > parent.end) {
+			// Continue the rest of the entity after its parent closes
+			const rest = { entity: item.entity, start: parent.end, end }
+			const index = pending.findIndex((other) => compare(rest, other) < 0)
+			pending.splice(index === -1 ? pending.length : index, 0, rest)
+			end = parent.end
+		}
+
+		const node: EntityNode = { entity: item.entity, start, end, children: [] }
+		if (parent) {
+			parent.children.push(node)
+		} else {
+			roots.push(node)
+		}
+		stack.push(node)
+	}
+
+	return roots
+}
+
+/**
+ * Render text and entities with mode-specific escaping and wrapping
+ */
+function render(
+	text: string,
+	entities: MessageEntity[],
+	escapeText: (text: string) => string,
+	wrapEntity: (node: EntityNode, inner: string, raw: string) => string,
+): string {
+	const renderRange = (
+		start: number,
+		end: number,
+		nodes: EntityNode[],
+	): string => {
+		let output = ''
+		let cursor = start
+		for (const node of nodes) {
+			output += escapeText(text.slice(cursor, node.start))
+			const raw = text.slice(node.start, node.end)
+			const inner = CODE_ENTITIES.has(node.entity.type)
+				? ''
+				: renderRange(node.start, node.end, node.children)
+			output += wrapEntity(node, inner, raw)
+			cursor = node.end
+		}
+		return output + escapeText(text.slice(cursor, end))
+	}
+
+	return renderRange(0, text.length, buildEntityTree(entities))
+}
+
+/**
+ * Render text with entities to MarkdownV2
+ *
+ * @param text - Plain text
+ * @param entities - Entities of the text, in UTF-16 code units
+ * @returns MarkdownV2 markup, to be sent with `parse_mode: 'MarkdownV2'`
+ *
+ * @example
+ * ```typescript
+ * renderMarkdownV2('Hello world!', [{ type: 'bold', offset: 6, length: 5 }])
+ * // "Hello *world*\\!"
+ * ```
+ */
+export function renderMarkdownV2(
+	text: string,
+	entities: MessageEntity[] = [],
+): string {
+	// `___` is ambiguous between italic and underline, so a closing marker
+	// following another is separated by \r, which Telegram ignores
+	const close = (inner: string, marker: string) =>
+		`${inner}${inner.endsWith('_') ? '\r' : ''}${marker}`
+
+	// Telegram only quotes whole lines, so a blockquote that starts or ends
+	// within a line is moved onto lines of its own
+	const quote = ({ start, end }: EntityNode, lines: string) =>
+		`${start > 0 && text[start - 1] !== '\n' ? '\n' : ''}${lines}${
+			end < text.length && text[end] !== '\n' ? '\n' : ''
+		}`
+
+	return render(text, entities, escapeMarkdownV2, (node, inner, raw) => {
+		const { entity } = node
+		switch (entity.type) {
+			case 'bold':
+				return `*${inner}*`
+			case 'italic':
+				return `_${close(inner, '_')}`
+			case 'underline':
+				return `__${close(inner, '__')}`
+			case 'strikethrough':
+				return `~${inner}~`
+			case 'spoiler':
+				return `||${inner}||`
+			case 'code':
+				return `\`${escapeMarkdownV2Code(raw)}\``
+			case 'pre':
+				return `\`\`\`${entity.language ?? ''}\n${escapeMarkdownV2Code(raw)}\n\`\`\``
+			case 'text_link':
+				return `[${inner}](${escapeMarkdownV2Url(entity.url ?? '')})`
+			case 'text_mention':
+				return `[${inner}](tg://user?id=${entity.user?.id})`
+			case 'custom_emoji':
+				return `![${inner}](tg://emoji?id=${entity.custom_emoji_id})`
+			case 'blockquote':
+				return quote(node, inner.replace(/^/gm, '>'))
+			case 'expandable_blockquote':
+				return quote(node, `**${inner.replace(/^/gm, '>')}||`)
+			default:
+				// Mentions, hashtags, URLs and the like are detected by Telegram
+				return inner
+		}
+	})
+}
+
+/**
+ * Render text with entities to HTML
+ *
+ * @param text - Plain text
+ * @param entities - Entities of the text, in UTF-16 code units
+ * @returns HTML markup, to be sent with `parse_mode: 'HTML'`
+ *
+ * @example
+ * ```typescript
+ * renderHtml('Hello world!', [{ type: 'bold', offset: 6, length: 5 }])
+ * // "Hello <b>world</b>!"
+ * ```
+ */
+export function renderHtml(
+	text: string,
+	entities: MessageEntity[] = [],
+): string {
+	return render(text, entities, escapeHtml, ({ entity }, inner, raw) => {
+		switch (entity.type) {
+			case 'bold':
+				return `<b>${inner}</b>`
+			case 'italic':
+				return `<i>${inner}</i>`
+			case 'underline':
+				return `<u>${inner}</u>`
+			case 'strikethrough':
+				return `<s>${inner}</s>`
+			case 'spoiler':
+				return `<tg-spoiler>${inner}</tg-spoiler>`
+			case 'code':
+				return `<code>${escapeHtml(raw)}</code>`
+			case 'pre':
+				return entity.language
+					? `<pre><code class="language-${escapeHtml(entity.language)}">${escapeHtml(raw)}</code></pre>`
+					: `<pre>${escapeHtml(raw)}</pre>`
+			case 'text_link':
+				return `<a href="${escapeHtml(entity.url ?? '')}">${inner}</a>`
+			case 'text_mention':
+				return `<a href="tg://user?id=${entity.user?.id}">${inner}</a>`
+			case 'custom_emoji':
+				return `<tg-emoji emoji-id="${escapeHtml(entity.custom_emoji_id ?? '')}">${inner}</tg-emoji>`
+			case 'blockquote':
+				return `<blockquote>${inner}</blockquote>`
+			case 'expandable_blockquote':
+				return `<blockquote expandable>${inner}</blockquote>`
+			default:
+				// Mentions, hashtags, URLs and the like are detected by Telegram
+				return inner
+		}
+	})
+}
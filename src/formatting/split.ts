@@ -0,0 +1,147 @@
+/**
+ * Telegram Long Message Splitting
+ *
+ * Splits text longer than Telegram's limits into chunks at natural
+ * boundaries, carrying formatting entities over to every chunk
+ */
+
+/**
+ * Maximum length of a message text, in UTF-16 code units
+ */
+export const MAX_MESSAGE_LENGTH = 4096
+
+/**
+ * Maximum length of a media caption, in UTF-16 code units
+ */
+export const MAX_CAPTION_LENGTH = 1024
+
+/**
+ * Minimal shape of an entity that can be split
+ */
+interface SplittableEntity {
+	offset: number
+	length: number
+}
+
+/**
+ * A chunk of split text with its rebased entities
+ */
+export interface TextChunk<E extends SplittableEntity> {
+	/**
+	 * Text of the chunk
+	 */
+	text: string
+
+	/**
+	 * Entities of the chunk, with offsets relative to its start
+	 */
+	entities: E[]
+}
+
+/**
+ * Options for splitting text
+ */
+export interface SplitOptions {
+	/**
+	 * Maximum length of a chunk in UTF-16 code units
+	 * @default 4096
+	 */
+	maxLength?: number
+}
+
+/**
+ * Find where to end a chunk starting at `start`: at a paragraph break,
+ * a line break or a space, in that order of preference
+ *
+ * @returns The end of the chunk and the start of the next one
+ */
+function findBreak(
+	text: string,
+	start: number,
+	maxLength: number,
+): [end: number, next: number] {
+	const limit = start + maxLength
+	// Only break at paragraphs and lines if the chunk stays reasonably full
+	const minimum = start + Math.floor(maxLength / 2)
+
+	for (const separator of ['\n\n', '\n']) {
+		const index = text.lastIndexOf(separator, limit)
+		if (index >= minimum) return [index, index + separator.length]
+	}
+
+	const space = text.lastIndexOf(' ', limit)
+	if (space > start) return [space, space + 1]
+
+	// No boundary: cut hard, without splitting a surrogate pair
+	const code = text.charCodeAt(limit - 1)
+	const end = code >= 0xd800 && code <= 0xdbff ? limit - 1 : limit
+	return [end, end]
+}
+
+/**
+ * Split text into chunks that fit Telegram's length limits
+ *
+ * Chunks end at paragraph breaks, line breaks or spaces when possible, and
+ * the break itself is dropped. Chunks holding only whitespace are left out,
+ * since Telegram rejects them. Entities are rebased on each chunk, and an
+ * entity spanning a break is split so its formatting survives on both sides.
+ *
+ * @param text - Plain text to split
+ * @param entities - Entities of the text
+ * @param options - Maximum chunk length, 4096 by default
+ * @returns Chunks of at most `maxLength` code units
+ * @throws {RangeError} If the text is empty or only whitespace, or the
+ * maximum length is invalid
+ *
+ * @example
+ * ```typescript
+ * const report = fmt`${bold('Fleet report')}\n\n${details}`
+ * for (const chunk of splitMessageText(report.text, report.entities)) {
+ *   await bot.sendMessage({ chat_id: chatId, ...chunk })
+ * }
+ *
+ * // Captions are limited to 1024 code units
+ * const [caption, ...rest] = splitMessageText(text, [], { maxLength: MAX_CAPTION_LENGTH })
+ * ```
+ */
+export function splitMessageText<E extends SplittableEntity>(
+	text: string,
+	entities: E[] = [],
+	options: SplitOptions = {},
+): TextChunk<E>[] {
+	const maxLength = options.maxLength ?? MAX_MESSAGE_LENGTH
+	if (!Number.isInteger(maxLength) || maxLength < 2) {
+		throw new RangeError(`Invalid maximum chunk length: ${maxLength}`)
+	}
+	if (text.trim() === '') {
+		throw new RangeError('Cannot split an empty text')
+	}
+
+	const ranges: Array<[start: number, end: number]> = []
+	const addRange = (start: number, end: number) => {
+		if (text.slice(start, end).trim() !== '') ranges.push([start, end])
+	}
+	let start = 0
+	while (text.length - start > maxLength) {
+		const [end, next] = findBreak(text, start, maxLength)
+		addRange(start, end)
+		start = next
+	}
+	addRange(start, text.length)
+
+	return ranges.map(([chunkStart, chunkEnd]) => ({
+		text: text.slice(chunkStart, chunkEnd),
+		entities: entities.flatMap((entity) => {
+			const entityStart = Math.max(entity.offset, chunkStart)
+			const entityEnd = Math.min(entity.offset + entity.length, chunkEnd)
+			if (entityEnd <= entityStart) return []
+			return [
+				{
+					...entity,
+					offset: entityStart - chunkStart,
+					length: entityEnd - entityStart,
+				},
+			]
+		}),
+	}))
+}
@@ -0,0 +1,69 @@
+/**
+ * Telegram Markup Templates
+ *
+ * Tagged templates producing MarkdownV2 or HTML with every interpolation
+ * escaped for the target parse mode
+ */
+
+import type { MessageEntity } from '../webhooks/schemas'
+import { type Formattable, isFormattedText } from './entities'
+import { escapeHtml, escapeMarkdownV2 } from './escape'
+import { renderHtml, renderMarkdownV2 } from './render'
+
+/**
+ * Build a template tag from an escaping and a rendering function
+ */
+function createTemplate(
+	escapeText: (text: string) => string,
+	renderFormatted: (text: string, entities: MessageEntity[]) => string,
+) {
+	return (strings: TemplateStringsArray, ...values: Formattable[]): string => {
+		let output = ''
+		strings.forEach((literal, index) => {
+			output += literal
+			if (index >= values.length) return
+
+			const value = values[index]
+			output += isFormattedText(value)
+				? renderFormatted(value.text, value.entities)
+				: escapeText(String(value))
+		})
+		return output
+	}
+}
+
+/**
+ * Build a MarkdownV2 message. The template itself is MarkdownV2 markup,
+ * while interpolated strings are escaped and formatting primitives are
+ * rendered as MarkdownV2
+ *
+ * @returns MarkdownV2 markup, to be sent with `parse_mode: 'MarkdownV2'`
+ *
+ * @example
+ * ```typescript
+ * await bot.sendMessage({
+ *   chat_id: chatId,
+ *   text: md`*Odometer:* ${reading} km \\(${italic(user.first_name)}\\)`,
+ *   parse_mode: 'MarkdownV2',
+ * })
+ * ```
+ */
+export const md = createTemplate(escapeMarkdownV2, renderMarkdownV2)
+
+/**
+ * Build an HTML message. The template itself is HTML markup, while
+ * interpolated strings are escaped and formatting primitives are rendered
+ * as HTML
+ *
+ * @returns HTML markup, to be sent with `parse_mode: 'HTML'`
+ *
+ * @example
+ * ```typescript
+ * await bot.sendMessage({
+ *   chat_id: chatId,
+ *   text: html`<b>Odometer:</b> ${reading} km (${italic(user.first_name)})`,
+ *   parse_mode: 'HTML',
+ * })
+ * ```
+ */
+export const html = createTemplate(escapeHtml, renderHtml)
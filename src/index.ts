@@ -41,6 +41,19 @@
  */
 
 export type {
+	AnswerCallbackQueryParams,
+	ChatMessageTarget,
+	DeleteWebhookParams,
+	DownloadableFile,
+	EditMessageCaptionParams,
+	EditMessageMediaParams,
+	EditMessageReplyMarkupParams,
+	EditMessageResult,
+	EditMessageTarget,
+	EditMessageTextParams,
+	GetUpdatesParams,
+	InlineMessageTarget,
+	RequestOptions,
 	SendMessageParams,
 	SendMessageResponse,
 	SendPhotoParams,
@@ -48,19 +61,89 @@ export type {
 	SetWebhookParams,
 	SetWebhookResponse,
 	TelegramMessage,
+	WebhookInfo,
 } from './client'
 // Export the Telegram Bot API client
-export { TelegramBot } from './client'
+export { TelegramBot, WebhookInfoSchema } from './client'
 export type {
+	CallbackDataCodec,
+	CallbackDataResult,
+} from './client/callback-data'
+// Export the typed callback data codec
+export {
+	CallbackDataError,
+	createCallbackData,
+	MAX_CALLBACK_DATA_BYTES,
+} from './client/callback-data'
+export type {
+	RateLimit,
+	ResponseParameters,
+	RetryPolicy,
 	TelegramConfig,
 	TelegramErrorResponse,
 	TelegramResponse,
 	TelegramSuccessResponse,
 } from './client/config'
 export {
-	TelegramAPIError,
+	RateLimitSchema,
+	RetryPolicySchema,
 	TelegramConfigSchema,
 } from './client/config'
+// Export client error classes
+export {
+	BadRequestError,
+	BotBlockedError,
+	ChatMigratedError,
+	createTelegramAPIError,
+	FixtureError,
+	FloodWaitError,
+	ForbiddenError,
+	MessageNotModifiedError,
+	NetworkError,
+	ReplayMismatchError,
+	ResponseValidationError,
+	TelegramAPIError,
+	TelegramError,
+	TimeoutError,
+} from './client/errors'
+export type {
+	GetFileParams,
+	PhotoSizeConstraints,
+	TelegramFile,
+} from './client/files'
+// Export file download helpers
+export {
+	getLargestPhotoSize,
+	pickPhotoSize,
+	TelegramFileSchema,
+} from './client/files'
+// Export the Bot API objects and methods generated from spec/bot-api.json
+export * from './client/generated'
+export type { InlineResultsPage } from './client/inline-results'
+// Export inline query result helpers
+export {
+	InlineQueryResultError,
+	InlineQueryResults,
+	MAX_INLINE_QUERY_RESULTS,
+	paginateInlineResults,
+} from './client/inline-results'
+export type {
+	CaptionEntities,
+	InputFile,
+	InputMedia,
+	InputMediaAnimation,
+	InputMediaAudio,
+	InputMediaDocument,
+	InputMediaPhoto,
+	InputMediaVideo,
+} from './client/input-media'
+// Export keyboard builders
+export {
+	forceReply,
+	InlineKeyboard,
+	ReplyKeyboard,
+	removeKeyboard,
+} from './client/keyboard-builders'
 // Export client types and schemas
 export type {
 	ForceReply,
@@ -81,23 +164,292 @@ export {
 	ReplyMarkupSchema,
 } from './client/keyboards'
 export type {
+	MediaGroupItem,
+	SendAnimationParams,
+	SendAudioParams,
+	SendCaptionedMediaParams,
+	SendDocumentParams,
+	SendMediaGroupParams,
+	SendMessageBaseParams,
+	SendStickerParams,
+	SendVideoNoteParams,
+	SendVideoParams,
+	SendVoiceParams,
+} from './client/media'
+export { validateMediaGroup } from './client/media'
+export type {
+	PreCheckoutOptions,
+	PreCheckoutValidator,
+} from './client/payments'
+// Export payment helpers
+export { answerPreCheckout } from './client/payments'
+export type {
+	RateLimiterClock,
+	RequestPriority,
+} from './client/rate-limiter'
+// Export the outbound rate limiter
+export { RateLimiter } from './client/rate-limiter'
+export type {
+	RecordedInteraction,
+	RecordReplayMode,
+	RecordReplayOptions,
+	Transport,
+	TransportRequest,
+} from './client/transport'
+// Export request transports and the record/replay transport for tests
+export {
+	fetchTransport,
+	normalizeParams,
+	RecordReplayTransport,
+} from './client/transport'
+export type {
+	ExtractedEntities,
+	Formattable,
+	FormattedText,
+	SplitOptions,
+	TextChunk,
+	TextSegment,
+} from './formatting'
+// Export text formatting helpers
+export {
+	asCaption,
+	blockquote,
+	bold,
+	code,
+	customEmoji,
+	escapeHtml,
+	escapeMarkdownV2,
+	escapeMarkdownV2Code,
+	escapeMarkdownV2Url,
+	extractEntities,
+	fmt,
+	getEntityText,
+	getMessageText,
+	html,
+	isFormattedText,
+	italic,
+	join,
+	link,
+	MAX_CAPTION_LENGTH,
+	MAX_MESSAGE_LENGTH,
+	md,
+	mention,
+	pre,
+	renderHtml,
+	renderMarkdownV2,
+	splitByEntities,
+	splitMessageText,
+	spoiler,
+	strikethrough,
+	underline,
+} from './formatting'
+export type { PollingOptions, UpdateHandler } from './polling'
+// Export the long polling runner
+export { startPolling } from './polling'
+export type {
+	CallbackQueryContext,
+	ChatType,
+	CommandContext,
+	CommandMatch,
+	KindContext,
+	Middleware,
+	NextFunction,
+	RouterOptions,
+	UpdateContext,
+	UpdateKind,
+} from './router'
+// Export the update router
+export {
+	compose,
+	getUpdateChat,
+	getUpdateKind,
+	getUpdateUser,
+	matchCallbackData,
+	parseCommand,
+	Router,
+} from './router'
+export type {
+	FileSessionStorageOptions,
+	MemorySessionStorageOptions,
+	SessionFlavor,
+	SessionOptions,
+	SessionStorage,
+} from './session'
+// Export session middleware and storage adapters
+export {
+	FileSessionStorage,
+	getSessionKey,
+	MemorySessionStorage,
+	SessionError,
+	session,
+} from './session'
+export type {
+	Animation,
+	Audio,
+	BusinessConnection,
+	BusinessMessagesDeleted,
 	CallbackQuery,
 	Chat,
+	ChatBoost,
+	ChatBoostAdded,
+	ChatBoostRemoved,
+	ChatBoostSource,
+	ChatBoostUpdated,
+	ChatInviteLink,
+	ChatJoinRequest,
+	ChatMember,
+	ChatMemberUpdated,
+	ChatShared,
+	ChosenInlineResult,
+	Contact,
+	Dice,
+	Document,
+	ExternalReplyInfo,
+	ForumTopicClosed,
+	ForumTopicCreated,
+	ForumTopicEdited,
+	ForumTopicReopened,
+	Game,
+	GeneralForumTopicHidden,
+	GeneralForumTopicUnhidden,
+	Giveaway,
+	GiveawayCompleted,
+	GiveawayCreated,
+	GiveawayWinners,
+	InlineQuery,
+	InvalidUpdateBehavior,
+	Invoice,
+	LinkPreviewOptions,
 	Location,
 	Message,
+	MessageAutoDeleteTimerChanged,
 	MessageEntity,
+	MessageOrigin,
+	MessageReactionCountUpdated,
+	MessageReactionUpdated,
+	OrderInfo,
+	PaidMedia,
+	PaidMediaInfo,
+	PaidMediaPurchased,
 	PhotoSize,
+	Poll,
+	PollAnswer,
+	PollOption,
+	PreCheckoutQuery,
+	ReactionCount,
+	ReactionType,
+	RefundedPayment,
+	SharedUser,
+	ShippingAddress,
+	ShippingQuery,
+	Sticker,
+	Story,
+	SuccessfulPayment,
+	TextQuote,
 	Update,
+	UpdateType,
 	User,
+	UsersShared,
+	Venue,
+	Video,
+	VideoChatEnded,
+	VideoChatParticipantsInvited,
+	VideoChatScheduled,
+	VideoChatStarted,
+	VideoNote,
+	Voice,
+	WebAppData,
+	WebhookHandler,
+	WebhookHandlerOptions,
+	WriteAccessAllowed,
 } from './webhooks'
-// Export all webhook schemas and types
+// Export all webhook schemas, types and the request handler
 export {
+	AnimationSchema,
+	AudioSchema,
+	BusinessConnectionSchema,
+	BusinessMessagesDeletedSchema,
 	CallbackQuerySchema,
+	ChatBoostAddedSchema,
+	ChatBoostRemovedSchema,
+	ChatBoostSchema,
+	ChatBoostSourceSchema,
+	ChatBoostUpdatedSchema,
+	ChatInviteLinkSchema,
+	ChatJoinRequestSchema,
+	ChatMemberAdministratorSchema,
+	ChatMemberBannedSchema,
+	ChatMemberLeftSchema,
+	ChatMemberMemberSchema,
+	ChatMemberOwnerSchema,
+	ChatMemberRestrictedSchema,
+	ChatMemberSchema,
+	ChatMemberUpdatedSchema,
 	ChatSchema,
+	ChatSharedSchema,
+	ChosenInlineResultSchema,
+	ContactSchema,
+	createWebhookHandler,
+	DiceSchema,
+	DocumentSchema,
+	ExternalReplyInfoSchema,
+	ForumTopicClosedSchema,
+	ForumTopicCreatedSchema,
+	ForumTopicEditedSchema,
+	ForumTopicReopenedSchema,
+	GameSchema,
+	GeneralForumTopicHiddenSchema,
+	GeneralForumTopicUnhiddenSchema,
+	GiveawayCompletedSchema,
+	GiveawayCreatedSchema,
+	GiveawaySchema,
+	GiveawayWinnersSchema,
+	getUpdateType,
+	InlineQuerySchema,
+	InvoiceSchema,
+	LinkPreviewOptionsSchema,
 	LocationSchema,
+	MessageAutoDeleteTimerChangedSchema,
 	MessageEntitySchema,
+	MessageOriginSchema,
+	MessageReactionCountUpdatedSchema,
+	MessageReactionUpdatedSchema,
 	MessageSchema,
+	OrderInfoSchema,
+	PaidMediaInfoSchema,
+	PaidMediaPurchasedSchema,
+	PaidMediaSchema,
 	PhotoSizeSchema,
+	PollAnswerSchema,
+	PollOptionSchema,
+	PollSchema,
+	PreCheckoutQuerySchema,
+	ReactionCountSchema,
+	ReactionTypeSchema,
+	RefundedPaymentSchema,
+	SECRET_TOKEN_HEADER,
+	SharedUserSchema,
+	ShippingAddressSchema,
+	ShippingQuerySchema,
+	StickerSchema,
+	StorySchema,
+	SuccessfulPaymentSchema,
+	TextQuoteSchema,
+	UPDATE_TYPES,
 	UpdateSchema,
 	UserSchema,
+	UsersSharedSchema,
+	VenueSchema,
+	VideoChatEndedSchema,
+	VideoChatParticipantsInvitedSchema,
+	VideoChatScheduledSchema,
+	VideoChatStartedSchema,
+	VideoNoteSchema,
+	VideoSchema,
+	VoiceSchema,
+	WebAppDataSchema,
+	WriteAccessAllowedSchema,
 } from './webhooks'
+export type { WizardOptions, WizardState, WizardStep } from './wizard'
+// Export multi-step conversation wizards
+export { getWizardInput, Wizard, WizardError } from './wizard'
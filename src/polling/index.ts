@@ -0,0 +1,208 @@
+/**
+ * Telegram Bot API Long Polling
+ *
+ * A polling runner built on top of `getUpdates`, useful for local development
+ * where exposing a public HTTPS webhook endpoint is not practical.
+ *
+ * @example
+ * ```typescript
+ * import { TelegramBot, startPolling } from 'telegram-api-fetch'
+ *
+ * const bot = new TelegramBot({ botToken: process.env.TELEGRAM_BOT_TOKEN! })
+ * const controller = new AbortController()
+ *
+ * process.on('SIGINT', () => controller.abort())
+ *
+ * await startPolling(
+ *   bot,
+ *   async (update) => {
+ *     if (update.message?.text) {
+ *       await bot.sendMessage({
+ *         chat_id: update.message.chat.id,
+ *         text: `You said: ${update.message.text}`,
+ *       })
+ *     }
+ *   },
+ *   {
+ *     signal: controller.signal,
+ *     allowedUpdates: ['message'],
+ *     onError: (error) => logger.error(error),
+ *   },
+ * )
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import type { TelegramBot } from '../client'
+import { sleep } from '../client/utils'
+import { type Update, UpdateSchema } from '../webhooks/schemas'
+
+/**
+ * Handler invoked for every update received while polling
+ */
+export type UpdateHandler = (update: Update) => unknown | Promise<unknown>
+
+/**
+ * Long polling runner options
+ */
+export interface PollingOptions {
+	/**
+	 * Timeout in seconds for each long polling request
+	 * @default 30
+	 */
+	timeout?: number
+
+	/**
+	 * Maximum number of updates retrieved per request, 1-100
+	 * @default 100
+	 */
+	limit?: number
+
+	/**
+	 * List of update types the bot should receive
+	 */
+	allowedUpdates?: string[]
+
+	/**
+	 * Drop all updates that were pending before polling started
+	 * @default false
+	 */
+	dropPendingUpdates?: boolean
+
+	/**
+	 * Signal used to stop polling. The runner resolves once it is aborted
+	 */
+	signal?: AbortSignal
+
+	/**
+	 * Delay in milliseconds before retrying after a failed getUpdates call
+	 * @default 1000
+	 */
+	retryDelay?: number
+
+	/**
+	 * Called when getUpdates fails, an update fails validation or the handler throws,
+	 * such as to log the error. Polling continues afterwards, even if `onError`
+	 * itself throws
+	 */
+	onError: (error: unknown, update?: unknown) => unknown | Promise<unknown>
+}
+
+/**
+ * Get the update_id of a raw update, even if it fails validation
+ */
+function getUpdateId(update: unknown): number | undefined {
+	if (typeof update === 'object' && update !== null) {
+		const id = (update as { update_id?: unknown }).update_id
+		if (typeof id === 'number') return id
+	}
+	return undefined
+}
+
+/**
+ * Receive updates through long polling and feed them to a handler
+ *
+ * If a webhook is currently set it is removed first, since Telegram refuses
+ * getUpdates calls while a webhook is active. Updates are processed one at a
+ * time, in order, and each is validated through `UpdateSchema` before being
+ * passed to the handler. The offset always advances past a received update,
+ * so a failing handler does not cause it to be delivered again.
+ *
+ * @param bot - Bot client used to call the API
+ * @param handler - Function invoked for every valid update
+ * @param options - Polling options
+ * @returns Promise that resolves when polling is stopped through `options.signal`
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController()
+ * const polling = startPolling(bot, handleUpdate, {
+ *   signal: controller.signal,
+ *   onError: (error) => logger.error(error),
+ * })
+ *
+ * // Later, stop polling gracefully
+ * controller.abort()
+ * await polling
+ * ```
+ */
+export async function startPolling(
+	bot: TelegramBot,
+	handler: UpdateHandler,
+	options: PollingOptions,
+): Promise<void> {
+	const {
+		timeout = 30,
+		limit,
+		allowedUpdates,
+		dropPendingUpdates = false,
+		signal,
+		retryDelay = 1000,
+		onError,
+	} = options
+
+	const webhookInfo = await bot.getWebhookInfo()
+	if (webhookInfo.url || dropPendingUpdates) {
+		await bot.deleteWebhook({ drop_pending_updates: dropPendingUpdates })
+	}
+
+	const report = async (error: unknown, update?: unknown) => {
+		try {
+			await onError(error, update)
+		} catch {
+			// Nowhere left to report it, and polling must go on
+		}
+	}
+
+	let offset: number | undefined
+
+	while (!signal?.aborted) {
+		let updates: unknown[]
+
+		try {
+			updates = await bot.getUpdates(
+				{
+					offset,
+					limit,
+					timeout,
+					allowed_updates: allowedUpdates,
+				},
+				{ signal },
+			)
+		} catch (error) {
+			if (signal?.aborted) break
+			await report(error)
+			await sleep(retryDelay, signal)
+			continue
+		}
+
+		for (const raw of updates) {
+			const updateId = getUpdateId(raw)
+			if (updateId !== undefined) {
+				offset = updateId + 1
+			}
+
+			const result = UpdateSchema.safeParse(raw)
+			if (!result.success) {
+				await report(result.error, raw)
+				continue
+			}
+
+			try {
+				await handler(result.data)
+			} catch (error) {
+				await report(error, result.data)
+			}
+		}
+	}
+
+	// Confirm the processed updates so they are not delivered again on restart
+	if (offset !== undefined) {
+		try {
+			await bot.getUpdates({ offset, limit: 1, timeout: 0 })
+		} catch (error) {
+			await report(error)
+		}
+	}
+}
@@ -0,0 +1,50 @@
+/**
+ * Telegram Bot API Update Router
+ *
+ * This module exports a composable router for dispatching incoming updates
+ * through middleware, with matchers for commands, callback data, update kinds
+ * and chat types.
+ *
+ * @example
+ * ```typescript
+ * import { Router, startPolling } from 'telegram-api-fetch'
+ *
+ * const router = new Router({ botUsername: 'my_bot' })
+ *
+ * router.command('start', async (ctx) => {
+ *   await bot.sendMessage({
+ *     chat_id: ctx.update.message.chat.id,
+ *     text: `Welcome! Payload: ${ctx.command.args}`,
+ *   })
+ * })
+ *
+ * router.callbackQuery(/^vehicle_(\d+)$/, async (ctx) => {
+ *   console.log('Vehicle selected:', ctx.match)
+ * })
+ *
+ * await startPolling(bot, (update) => router.handle(update), {
+ *   onError: (error) => logger.error(error),
+ * })
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+export type { ChatType, CommandMatch, UpdateKind } from './matchers'
+export {
+	getUpdateChat,
+	getUpdateKind,
+	getUpdateUser,
+	matchCallbackData,
+	parseCommand,
+} from './matchers'
+export type {
+	CallbackQueryContext,
+	CommandContext,
+	KindContext,
+	Middleware,
+	NextFunction,
+	RouterOptions,
+	UpdateContext,
+} from './router'
+export { compose, Router } from './router'
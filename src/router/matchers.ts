@@ -0,0 +1,157 @@
+/**
+ * Telegram Bot API Update Matchers
+ *
+ * Helpers used by the router to inspect and match incoming updates
+ */
+
+import {
+	type Chat,
+	getUpdateType,
+	type Update,
+	type UpdateType,
+	type User,
+} from '../webhooks/schemas'
+
+/**
+ * Kinds of updates, one per optional field of `Update`
+ */
+export type UpdateKind = UpdateType
+
+/**
+ * Chat types as reported by Telegram
+ */
+export type ChatType = Chat['type']
+
+/**
+ * A bot command parsed from message text
+ */
+export interface CommandMatch {
+	/**
+	 * Command name without the leading slash or bot username
+	 * @example "start"
+	 */
+	command: string
+
+	/**
+	 * Bot username the command was addressed to, if any
+	 * @example "my_bot" for "/start@my_bot"
+	 */
+	username?: string
+
+	/**
+	 * Text following the command, trimmed
+	 * @example "vehicle_1" for "/start vehicle_1"
+	 */
+	args: string
+}
+
+const COMMAND_PATTERN =
+	/^\/([a-zA-Z0-9_]{1,32})(?:@([a-zA-Z0-9_]+))?(?:\s+([\s\S]*))?$/
+
+/**
+ * Get the kind of an update, i.e. the name of its payload field
+ *
+ * @param update - Incoming update
+ * @returns The update kind, or `undefined` if the update has no known payload
+ */
+export function getUpdateKind(update: Update): UpdateKind | undefined {
+	return getUpdateType(update)
+}
+
+/**
+ * Get the chat an update belongs to
+ *
+ * @param update - Incoming update
+ * @returns The chat, or `undefined` if the update is not tied to a chat
+ */
+export function getUpdateChat(update: Update): Chat | undefined {
+	return (
+		update.message?.chat ??
+		update.edited_message?.chat ??
+		update.channel_post?.chat ??
+		update.edited_channel_post?.chat ??
+		update.business_message?.chat ??
+		update.edited_business_message?.chat ??
+		update.deleted_business_messages?.chat ??
+		update.message_reaction?.chat ??
+		update.message_reaction_count?.chat ??
+		update.callback_query?.message?.chat ??
+		update.my_chat_member?.chat ??
+		update.chat_member?.chat ??
+		update.chat_join_request?.chat ??
+		update.chat_boost?.chat ??
+		update.removed_chat_boost?.chat
+	)
+}
+
+/**
+ * Get the user who caused an update
+ *
+ * @param update - Incoming update
+ * @returns The user, or `undefined` for anonymous and channel updates
+ */
+export function getUpdateUser(update: Update): User | undefined {
+	return (
+		update.message?.from ??
+		update.edited_message?.from ??
+		update.channel_post?.from ??
+		update.edited_channel_post?.from ??
+		update.business_connection?.user ??
+		update.business_message?.from ??
+		update.edited_business_message?.from ??
+		update.message_reaction?.user ??
+		update.inline_query?.from ??
+		update.chosen_inline_result?.from ??
+		update.callback_query?.from ??
+		update.shipping_query?.from ??
+		update.pre_checkout_query?.from ??
+		update.purchased_paid_media?.from ??
+		update.poll_answer?.user ??
+		update.my_chat_member?.from ??
+		update.chat_member?.from ??
+		update.chat_join_request?.from
+	)
+}
+
+/**
+ * Parse a bot command from the start of a text
+ *
+ * @param text - Message text
+ * @returns The parsed command, or `undefined` if the text is not a command
+ *
+ * @example
+ * ```typescript
+ * parseCommand('/start@my_bot vehicle_1')
+ * // { command: 'start', username: 'my_bot', args: 'vehicle_1' }
+ * ```
+ */
+export function parseCommand(text: string): CommandMatch | undefined {
+	const match = COMMAND_PATTERN.exec(text)
+	if (!match?.[1]) return undefined
+
+	return {
+		command: match[1],
+		username: match[2],
+		args: match[3]?.trim() ?? '',
+	}
+}
+
+/**
+ * Match callback data against a prefix or regular expression
+ *
+ * @param data - Callback data of the query
+ * @param trigger - Prefix string or regular expression
+ * @returns The data after the prefix, the regular expression match, or `undefined` if it does not match
+ */
+export function matchCallbackData(
+	data: string,
+	trigger: string | RegExp,
+): string | RegExpExecArray | undefined {
+	if (typeof trigger === 'string') {
+		return data.startsWith(trigger) ? data.slice(trigger.length) : undefined
+	}
+
+	// Reset stateful (global or sticky) expressions before matching
+	trigger.lastIndex = 0
+	return trigger.exec(data) ?? undefined
+}
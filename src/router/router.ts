@@ -0,0 +1,355 @@
+/**
+ * Telegram Bot API Update Router
+ *
+ * A composable router that passes updates through a chain of middleware
+ */
+
+import type { CallbackQuery, Message, Update } from '../webhooks/schemas'
+import {
+	type ChatType,
+	type CommandMatch,
+	getUpdateChat,
+	matchCallbackData,
+	parseCommand,
+	type UpdateKind,
+} from './matchers'
+
+/**
+ * Context passed through the middleware chain for every update
+ */
+export interface UpdateContext<U extends Update = Update> {
+	/**
+	 * The update being handled
+	 */
+	update: U
+}
+
+/**
+ * Invokes the next middleware in the chain
+ */
+export type NextFunction = () => Promise<void>
+
+/**
+ * A function handling an update. Call `next()` to pass it down the chain
+ */
+export type Middleware<C extends UpdateContext = UpdateContext> = (
+	ctx: C,
+	next: NextFunction,
+) => unknown | Promise<unknown>
+
+/**
+ * Context narrowed to updates of the given kinds
+ */
+export type KindContext<C extends UpdateContext, K extends UpdateKind> = {
+	[P in K]: C & { update: { [F in P]-?: NonNullable<Update[F]> } }
+}[K]
+
+/**
+ * Context of a message update carrying a bot command
+ */
+export type CommandContext<C extends UpdateContext> = C & {
+	update: { message: Message & { text: string } }
+
+	/**
+	 * The matched command
+	 */
+	command: CommandMatch
+}
+
+/**
+ * Context of a callback query update whose data matched a trigger
+ */
+export type CallbackQueryContext<C extends UpdateContext> = C & {
+	update: { callback_query: CallbackQuery & { data: string } }
+
+	/**
+	 * The data after the prefix for string triggers, or the regular expression match
+	 */
+	match: string | RegExpExecArray
+}
+
+/**
+ * Router options
+ */
+export interface RouterOptions {
+	/**
+	 * Username of the bot, without the @. When set, commands addressed to
+	 * another bot (like `/start@other_bot`) are not matched
+	 */
+	botUsername?: string
+}
+
+/**
+ * Compose a list of middleware into a single middleware
+ *
+ * @param middleware - Middleware to run in order
+ * @returns A middleware running the whole chain before calling `next`
+ */
+export function compose<C extends UpdateContext>(
+	middleware: Array<Middleware<C>>,
+): Middleware<C> {
+	return (ctx, next) => {
+		let index = -1
+
+		const dispatch = async (i: number): Promise<void> => {
+			if (i <= index) {
+				throw new Error('next() called multiple times')
+			}
+			index = i
+
+			const fn = middleware[i]
+			if (!fn) {
+				await next()
+				return
+			}
+			await fn(ctx, () => dispatch(i + 1))
+		}
+
+		return dispatch(0)
+	}
+}
+
+const noop: NextFunction = async () => {}
+
+/**
+ * Update router with a middleware chain and matchers
+ *
+ * Middleware run in registration order. A matcher only runs its handlers when
+ * the update matches, otherwise the update continues down the chain. Handlers
+ * that don't call `next()` stop the chain.
+ *
+ * @example
+ * ```typescript
+ * const router = new Router({ botUsername: 'my_bot' })
+ *
+ * router.use(async (ctx, next) => {
+ *   const start = Date.now()
+ *   await next()
+ *   console.log(`Update ${ctx.update.update_id} took ${Date.now() - start}ms`)
+ * })
+ *
+ * router.command('start', async (ctx) => {
+ *   await bot.sendMessage({ chat_id: ctx.update.message.chat.id, text: 'Welcome!' })
+ * })
+ *
+ * router.callbackQuery(/^vehicle_(\d+)$/, async (ctx) => {
+ *   const vehicleId = Number((ctx.match as RegExpExecArray)[1])
+ *   await sendVehicleDetail(ctx.update.callback_query.from.id, vehicleId)
+ * })
+ *
+ * router.on('message', async (ctx) => {
+ *   await bot.sendMessage({ chat_id: ctx.update.message.chat.id, text: 'Unknown command' })
+ * })
+ *
+ * await startPolling(bot, (update) => router.handle(update), {
+ *   onError: (error) => logger.error(error),
+ * })
+ * ```
+ */
+export class Router<C extends UpdateContext = UpdateContext> {
+	private readonly stack: Array<Middleware<C>> = []
+
+	/**
+	 * Create a new router
+	 *
+	 * @param options - Router options
+	 */
+	constructor(private readonly options: RouterOptions = {}) {}
+
+	/**
+	 * Register middleware or nested routers that run for every update
+	 *
+	 * @param middleware - Middleware functions or routers
+	 * @returns The router, for chaining
+	 */
+	use(...middleware: Array<Middleware<C> | Router<C>>): this {
+		for (const fn of middleware) {
+			this.stack.push(fn instanceof Router ? fn.middleware() : fn)
+		}
+		return this
+	}
+
+	/**
+	 * Register handlers for updates matching a predicate
+	 *
+	 * @param predicate - Function deciding whether the update matches
+	 * @param middleware - Handlers run for matching updates
+	 * @returns The router, for chaining
+	 */
+	filter<D extends C>(
+		predicate: (ctx: C) => ctx is D,
+		...middleware: Array<Middleware<D>>
+	): this
+	filter(
+		predicate: (ctx: C) => boolean,
+		...middleware: Array<Middleware<C>>
+	): this
+	filter(
+		predicate: (ctx: C) => boolean,
+		...middleware: Array<Middleware<C>>
+	): this {
+		const handler = compose(middleware)
+		this.stack.push((ctx, next) =>
+			predicate(ctx) ? handler(ctx, next) : next(),
+		)
+		return this
+	}
+
+	/**
+	 * Register handlers for updates of the given kinds
+	 *
+	 * @param kind - Update kind or list of kinds, such as `'message'` or `'callback_query'`
+	 * @param middleware - Handlers run for matching updates
+	 * @returns The router, for chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * router.on(['message', 'edited_message'], (ctx) => {
+	 *   const message = ctx.update.message ?? ctx.update.edited_message
+	 * })
+	 * ```
+	 */
+	on<K extends UpdateKind>(
+		kind: K | K[],
+		...middleware: Array<Middleware<KindContext<C, K>>>
+	): this {
+		const kinds: UpdateKind[] = Array.isArray(kind) ? kind : [kind]
+		return this.filter(
+			(ctx): ctx is KindContext<C, K> =>
+				kinds.some((k) => ctx.update[k] !== undefined),
+			...middleware,
+		)
+	}
+
+	/**
+	 * Register handlers for bot commands in messages
+	 *
+	 * @param command - Command name or list of names, without the leading slash
+	 * @param middleware - Handlers run for matching commands
+	 * @returns The router, for chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * router.command(['start', 'help'], async (ctx) => {
+	 *   console.log(ctx.command.command, ctx.command.args)
+	 * })
+	 * ```
+	 */
+	command(
+		command: string | string[],
+		...middleware: Array<Middleware<CommandContext<C>>>
+	): this {
+		const commands = Array.isArray(command) ? command : [command]
+		const botUsername = this.options.botUsername?.toLowerCase()
+
+		return this.filter(
+			(ctx): ctx is CommandContext<C> => {
+				const text = ctx.update.message?.text
+				if (text === undefined) return false
+
+				const match = parseCommand(text)
+				if (!match || !commands.includes(match.command)) return false
+				if (
+					botUsername &&
+					match.username &&
+					match.username.toLowerCase() !== botUsername
+				) {
+					return false
+				}
+
+				Object.assign(ctx, { command: match })
+				return true
+			},
+			...middleware,
+		)
+	}
+
+	/**
+	 * Register handlers for callback queries whose data matches a trigger
+	 *
+	 * String triggers match data starting with the given prefix, regular
+	 * expressions are tested against the whole data.
+	 *
+	 * @param trigger - Prefix, regular expression, or a list of them
+	 * @param middleware - Handlers run for matching callback queries
+	 * @returns The router, for chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * router.callbackQuery('vehicle_', (ctx) => {
+	 *   const vehicleId = Number(ctx.match)
+	 * })
+	 * ```
+	 */
+	callbackQuery(
+		trigger: string | RegExp | Array<string | RegExp>,
+		...middleware: Array<Middleware<CallbackQueryContext<C>>>
+	): this {
+		const triggers = Array.isArray(trigger) ? trigger : [trigger]
+
+		return this.filter(
+			(ctx): ctx is CallbackQueryContext<C> => {
+				const data = ctx.update.callback_query?.data
+				if (data === undefined) return false
+
+				for (const t of triggers) {
+					const match = matchCallbackData(data, t)
+					if (match !== undefined) {
+						Object.assign(ctx, { match })
+						return true
+					}
+				}
+				return false
+			},
+			...middleware,
+		)
+	}
+
+	/**
+	 * Register handlers for updates from chats of the given types
+	 *
+	 * @param type - Chat type or list of types
+	 * @param middleware - Handlers run for matching updates
+	 * @returns The router, for chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * router.chatType('private', (ctx) => {
+	 *   // Only direct messages reach this handler
+	 * })
+	 * ```
+	 */
+	chatType(
+		type: ChatType | ChatType[],
+		...middleware: Array<Middleware<C>>
+	): this {
+		const types: ChatType[] = Array.isArray(type) ? type : [type]
+		return this.filter(
+			(ctx) => {
+				const chat = getUpdateChat(ctx.update)
+				return chat !== undefined && types.includes(chat.type)
+			},
+			...middleware,
+		)
+	}
+
+	/**
+	 * Get the router as a single middleware, to nest it in another router
+	 *
+	 * @returns Middleware running the whole chain
+	 */
+	middleware(): Middleware<C> {
+		return compose(this.stack)
+	}
+
+	/**
+	 * Pass an update through the middleware chain
+	 *
+	 * @param update - Incoming update
+	 * @returns Promise resolving once the chain has finished
+	 */
+	async handle(update: Update): Promise<void> {
+		const ctx = { update } as C
+		await this.middleware()(ctx, noop)
+	}
+}
@@ -0,0 +1,45 @@
+/**
+ * Telegram Bot Sessions
+ *
+ * This module exports a session middleware for the router, keeping state
+ * per chat or per user across updates, and storage adapters for it.
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   FileSessionStorage,
+ *   Router,
+ *   session,
+ *   type SessionFlavor,
+ *   type UpdateContext,
+ * } from 'telegram-api-fetch'
+ *
+ * interface Checklist {
+ *   done: string[]
+ * }
+ *
+ * const router = new Router<UpdateContext & SessionFlavor<Checklist>>()
+ *
+ * router.use(
+ *   session({
+ *     initial: (): Checklist => ({ done: [] }),
+ *     storage: new FileSessionStorage({ directory: './sessions' }),
+ *   }),
+ * )
+ *
+ * router.callbackQuery('check_', async (ctx) => {
+ *   ctx.session.done.push(String(ctx.match))
+ * })
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+export type { SessionFlavor, SessionOptions } from './session'
+export { getSessionKey, SessionError, session } from './session'
+export type {
+	FileSessionStorageOptions,
+	MemorySessionStorageOptions,
+	SessionStorage,
+} from './storage'
+export { FileSessionStorage, MemorySessionStorage } from './storage'
@@ -0,0 +1,30 @@
+/**
+ * Telegram Bot Per-Key Locks
+ *
+ * Serializes async work on the same key, such as updates sharing a session
+ */
+
+/**
+ * Run a task once all earlier tasks for the same key have finished
+ */
+export async function withLock<T>(
+	locks: Map<string, Promise<void>>,
+	key: string,
+	task: () => Promise<T>,
+): Promise<T> {
+	const previous = locks.get(key)
+	let release = () => {}
+	const current = new Promise<void>((resolve) => {
+		release = resolve
+	})
+	const tail = previous ? previous.then(() => current) : current
+	locks.set(key, tail)
+
+	try {
+		await previous
+		return await task()
+	} finally {
+		release()
+		if (locks.get(key) === tail) locks.delete(key)
+	}
+}
@@ -0,0 +1,164 @@
+/**
+ * Telegram Bot Session Middleware
+ *
+ * Loads per-chat or per-user state before the handlers run and persists it
+ * once they finish
+ */
+
+import { TelegramError } from '../client/errors'
+import { getUpdateChat, getUpdateUser } from '../router/matchers'
+import type { Middleware, UpdateContext } from '../router/router'
+import type { Update } from '../webhooks/schemas'
+import { withLock } from './lock'
+import { MemorySessionStorage, type SessionStorage } from './storage'
+
+/**
+ * Context properties added by the session middleware
+ */
+export interface SessionFlavor<S> {
+	/**
+	 * Session of the update's key. Changes are stored once the handlers
+	 * finish; assign `undefined` or `null` to delete the session
+	 */
+	session: S
+}
+
+/**
+ * Session middleware options
+ */
+export interface SessionOptions<S> {
+	/**
+	 * Create the session for a key that has none yet
+	 */
+	initial: () => S
+
+	/**
+	 * Where sessions are stored
+	 * @default new MemorySessionStorage()
+	 */
+	storage?: SessionStorage<S>
+
+	/**
+	 * Get the session key of an update. Updates without a key have no session
+	 * @default getSessionKey, one session per chat
+	 */
+	getKey?: (update: Update) => string | undefined
+}
+
+/**
+ * Error thrown when a session is used on an update that has no session key
+ */
+export class SessionError extends TelegramError {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options)
+		this.name = 'SessionError'
+	}
+}
+
+/**
+ * Default session key: the chat id, or the user id for updates outside
+ * of chats such as inline queries
+ *
+ * @param update - Incoming update
+ * @returns The session key, or `undefined` if the update has neither
+ *
+ * @example
+ * ```typescript
+ * // One session per user in each chat instead
+ * session({
+ *   initial: () => ({ steps: [] }),
+ *   getKey: (update) => {
+ *     const chat = getUpdateChat(update)
+ *     const user = getUpdateUser(update)
+ *     return chat && user ? `${chat.id}:${user.id}` : undefined
+ *   },
+ * })
+ * ```
+ */
+export function getSessionKey(update: Update): string | undefined {
+	const chat = getUpdateChat(update)
+	if (chat) return String(chat.id)
+
+	const user = getUpdateUser(update)
+	if (user) return `user:${user.id}`
+
+	return undefined
+}
+
+/**
+ * Create a middleware giving handlers a persistent `ctx.session`
+ *
+ * The session is loaded before the next handlers run and stored after they
+ * finish, unless they throw or never used it. Updates with the same key are
+ * handled one at a time, so concurrent updates from a chat can't overwrite
+ * each other's changes.
+ *
+ * @param options - Initial session, storage and key function
+ * @returns Middleware adding `session` to the context
+ *
+ * @example
+ * ```typescript
+ * interface Checklist {
+ *   done: string[]
+ * }
+ *
+ * const router = new Router<UpdateContext & SessionFlavor<Checklist>>()
+ *
+ * router.use(session({ initial: (): Checklist => ({ done: [] }) }))
+ *
+ * router.callbackQuery('check_', (ctx) => {
+ *   ctx.session.done.push(String(ctx.match))
+ * })
+ * ```
+ */
+export function session<S>(
+	options: SessionOptions<S>,
+): Middleware<UpdateContext & SessionFlavor<S>> {
+	const storage = options.storage ?? new MemorySessionStorage<S>()
+	const getKey = options.getKey ?? getSessionKey
+	const locks = new Map<string, Promise<void>>()
+
+	return async (ctx, next) => {
+		const key = getKey(ctx.update)
+		if (key === undefined) {
+			const unavailable = (): never => {
+				throw new SessionError('This update has no session key')
+			}
+			Object.defineProperty(ctx, 'session', {
+				get: unavailable,
+				set: unavailable,
+				configurable: true,
+			})
+			await next()
+			return
+		}
+
+		await withLock(locks, key, async () => {
+			let value: S | null | undefined = await storage.get(key)
+			if (value === undefined) value = options.initial()
+
+			let used = false
+			Object.defineProperty(ctx, 'session', {
+				get: () => {
+					used = true
+					return value
+				},
+				set: (updated: S | null | undefined) => {
+					used = true
+					value = updated
+				},
+				configurable: true,
+				enumerable: true,
+			})
+
+			await next()
+
+			if (!used) return
+			if (value === undefined || value === null) {
+				await storage.delete(key)
+			} else {
+				await storage.set(key, value)
+			}
+		})
+	}
+}
@@ -0,0 +1,200 @@
+/**
+ * Telegram Bot Session Storage
+ *
+ * The storage interface used by the session middleware, with in-memory and
+ * JSON file adapters
+ */
+
+/**
+ * Backend storing sessions by key. Implement it to keep sessions in a
+ * database, a KV store or any other place
+ *
+ * @example
+ * ```typescript
+ * const redisStorage: SessionStorage<Checklist> = {
+ *   async get(key) {
+ *     const json = await redis.get(`session:${key}`)
+ *     return json ? JSON.parse(json) : undefined
+ *   },
+ *   async set(key, value) {
+ *     await redis.set(`session:${key}`, JSON.stringify(value))
+ *   },
+ *   async delete(key) {
+ *     await redis.del(`session:${key}`)
+ *   },
+ * }
+ * ```
+ */
+export interface SessionStorage<T> {
+	/**
+	 * Read a session
+	 *
+	 * @param key - Session key
+	 * @returns The session, or `undefined` if there is none
+	 */
+	get(key: string): Promise<T | undefined>
+
+	/**
+	 * Create or replace a session
+	 *
+	 * @param key - Session key
+	 * @param value - Session data
+	 */
+	set(key: string, value: T): Promise<void>
+
+	/**
+	 * Remove a session. Removing a missing session is not an error
+	 *
+	 * @param key - Session key
+	 */
+	delete(key: string): Promise<void>
+}
+
+/**
+ * Options for the in-memory session storage
+ */
+export interface MemorySessionStorageOptions {
+	/**
+	 * Time in milliseconds after which a session that was not written expires.
+	 * Sessions never expire when not set
+	 */
+	ttl?: number
+}
+
+/**
+ * A stored session with its expiry time
+ */
+interface MemoryEntry<T> {
+	value: T
+	expiresAt: number
+}
+
+/**
+ * Number of sessions above which expired ones are swept on write
+ */
+const SWEEP_THRESHOLD = 1000
+
+/**
+ * Session storage keeping sessions in memory, optionally expiring them
+ *
+ * Sessions are copied with `structuredClone` when read and written, so
+ * changes made by a failed handler are never stored. Sessions are lost when
+ * the process exits.
+ *
+ * @example
+ * ```typescript
+ * // Forget sessions idle for a day
+ * const storage = new MemorySessionStorage<Checklist>({ ttl: 24 * 60 * 60 * 1000 })
+ * ```
+ */
+export class MemorySessionStorage<T> implements SessionStorage<T> {
+	private readonly sessions = new Map<string, MemoryEntry<T>>()
+
+	/**
+	 * Create an in-memory session storage
+	 *
+	 * @param options - Expiry options
+	 */
+	constructor(private readonly options: MemorySessionStorageOptions = {}) {
+		const { ttl } = options
+		if (ttl !== undefined && !(ttl > 0)) {
+			throw new RangeError(`Invalid session TTL: ${ttl}`)
+		}
+	}
+
+	async get(key: string): Promise<T | undefined> {
+		const entry = this.sessions.get(key)
+		if (!entry) return undefined
+		if (entry.expiresAt <= Date.now()) {
+			this.sessions.delete(key)
+			return undefined
+		}
+		return structuredClone(entry.value)
+	}
+
+	async set(key: string, value: T): Promise<void> {
+		const now = Date.now()
+		this.sessions.set(key, {
+			value: structuredClone(value),
+			expiresAt:
+				this.options.ttl === undefined
+					? Number.POSITIVE_INFINITY
+					: now + this.options.ttl,
+		})
+
+		if (this.sessions.size > SWEEP_THRESHOLD) {
+			for (const [k, entry] of this.sessions) {
+				if (entry.expiresAt <= now) this.sessions.delete(k)
+			}
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		this.sessions.delete(key)
+	}
+}
+
+/**
+ * Options for the JSON file session storage
+ */
+export interface FileSessionStorageOptions {
+	/**
+	 * Directory holding one JSON file per session. Created when needed
+	 */
+	directory: string
+}
+
+/**
+ * Session storage keeping each session in a JSON file
+ *
+ * Files are replaced atomically, so a crash never leaves a half-written
+ * session. Requires a runtime with `node:fs`, such as Node.js or Bun.
+ *
+ * @example
+ * ```typescript
+ * const storage = new FileSessionStorage<Checklist>({ directory: './data/sessions' })
+ * ```
+ */
+export class FileSessionStorage<T> implements SessionStorage<T> {
+	/**
+	 * Create a JSON file session storage
+	 *
+	 * @param options - Directory of the session files
+	 */
+	constructor(private readonly options: FileSessionStorageOptions) {}
+
+	/**
+	 * Get the path of the file holding a session
+	 * @private
+	 */
+	private getPath(key: string): string {
+		const directory = this.options.directory.replace(/[\\/]+$/, '')
+		return `${directory}/${encodeURIComponent(key)}.json`
+	}
+
+	async get(key: string): Promise<T | undefined> {
+		// Imported lazily so the library still loads in runtimes without node:fs
+		const { readFile } = await import('node:fs/promises')
+		try {
+			return JSON.parse(await readFile(this.getPath(key), 'utf8')) as T
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+			throw error
+		}
+	}
+
+	async set(key: string, value: T): Promise<void> {
+		const { mkdir, rename, writeFile } = await import('node:fs/promises')
+		const path = this.getPath(key)
+		const temporaryPath = `${path}.${crypto.randomUUID()}.tmp`
+
+		await mkdir(this.options.directory, { recursive: true })
+		await writeFile(temporaryPath, JSON.stringify(value), 'utf8')
+		await rename(temporaryPath, path)
+	}
+
+	async delete(key: string): Promise<void> {
+		const { rm } = await import('node:fs/promises')
+		await rm(this.getPath(key), { force: true })
+	}
+}
@@ -0,0 +1,30 @@
+/**
+ * Telegram Bot Testing Utilities
+ *
+ * This module exports a mock Bot API server to run bots in integration tests
+ * without network access.
+ *
+ * @example
+ * ```typescript
+ * import { TelegramBot } from 'telegram-api-fetch'
+ * import { MockBotApiServer } from 'telegram-api-fetch/testing'
+ *
+ * const server = new MockBotApiServer()
+ * const bot = new TelegramBot({ botToken: 'test:token', baseUrl: await server.listen() })
+ *
+ * await bot.sendMessage({ chat_id: 1, text: 'Hello' })
+ * server.expectSent({ chat_id: 1, text: 'Hello' }, 'sendMessage')
+ *
+ * await server.close()
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+export type {
+	MockBotApiServerOptions,
+	MockErrorInit,
+	MockMethodHandler,
+	RecordedCall,
+} from './mock-server'
+export { MockApiError, MockBotApiServer } from './mock-server'
@@ -0,0 +1,973 @@
+/**
+ * Telegram Bot API Mock Server
+ *
+ * An in-process fake of the Bot API for integration tests without network
+ * access. It records every call, answers with plausible results and can be
+ * told to fail or to deliver updates.
+ */
+
+import type {
+	ResponseParameters,
+	TelegramErrorResponse,
+	TelegramResponse,
+} from '../client/config'
+import { TelegramError } from '../client/errors'
+import type { WebhookHandler } from '../webhooks/handler'
+import type {
+	Chat,
+	ChatInviteLink,
+	ChatMember,
+	Message,
+	Poll,
+	Update,
+	User,
+} from '../webhooks/schemas'
+
+/**
+ * A request received by the mock server
+ */
+export interface RecordedCall {
+	/**
+	 * Name of the Bot API method, such as `'sendMessage'`
+	 */
+	method: string
+
+	/**
+	 * Parameters of the call. Multipart values are kept as strings, except
+	 * JSON objects and arrays which are parsed, and uploaded files
+	 */
+	params: Record<string, unknown>
+}
+
+/**
+ * An error for the mock server to answer with. The description and
+ * parameters default to typical ones for the error code
+ */
+export interface MockErrorInit {
+	error_code: number
+	description?: string
+	parameters?: ResponseParameters
+}
+
+/**
+ * Produces the result of a method, or throws a `MockApiError` to fail it
+ */
+export type MockMethodHandler = (
+	params: Record<string, unknown>,
+	call: RecordedCall,
+) => unknown | Promise<unknown>
+
+/**
+ * Mock server options
+ */
+export interface MockBotApiServerOptions {
+	/**
+	 * Only accept requests using this token, answering others with 401.
+	 * Any token is accepted when not set
+	 */
+	botToken?: string
+
+	/**
+	 * Fields of the bot returned by getMe and used as sender of its messages
+	 */
+	botInfo?: Partial<User>
+}
+
+/**
+ * Error thrown by method handlers to make the mock server answer with an
+ * error response
+ */
+export class MockApiError extends TelegramError {
+	/**
+	 * The error response sent to the client
+	 */
+	readonly response: TelegramErrorResponse
+
+	constructor(error: number | MockErrorInit) {
+		const response = createErrorResponse(error)
+		super(response.description)
+		this.name = 'MockApiError'
+		this.response = response
+	}
+}
+
+/**
+ * Typical descriptions and parameters of Bot API errors
+ */
+const DEFAULT_ERRORS: Record<number, Omit<TelegramErrorResponse, 'ok'>> = {
+	400: { error_code: 400, description: 'Bad Request: chat not found' },
+	401: { error_code: 401, description: 'Unauthorized' },
+	403: {
+		error_code: 403,
+		description: 'Forbidden: bot was blocked by the user',
+	},
+	404: { error_code: 404, description: 'Not Found' },
+	429: {
+		error_code: 429,
+		description: 'Too Many Requests: retry after 1',
+		parameters: { retry_after: 1 },
+	},
+	500: { error_code: 500, description: 'Internal Server Error' },
+}
+
+/**
+ * Build an error response from an error code or a partial error
+ */
+function createErrorResponse(
+	error: number | MockErrorInit,
+): TelegramErrorResponse {
+	const init = typeof error === 'number' ? { error_code: error } : error
+	const defaults = DEFAULT_ERRORS[init.error_code]
+	return {
+		ok: false,
+		error_code: init.error_code,
+		description:
+			init.description ?? defaults?.description ?? `Error ${init.error_code}`,
+		...((init.parameters ?? defaults?.parameters) && {
+			parameters: init.parameters ?? defaults?.parameters,
+		}),
+	}
+}
+
+/**
+ * Create a JSON response
+ */
+function json(body: TelegramResponse, status = 200): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json' },
+	})
+}
+
+/**
+ * Check whether the params of a call contain the expected values.
+ * Primitives are compared as strings, since multipart bodies only carry strings
+ */
+function matchesPartial(actual: unknown, expected: unknown): boolean {
+	if (Array.isArray(expected)) {
+		return (
+			Array.isArray(actual) &&
+			actual.length === expected.length &&
+			expected.every((item, i) => matchesPartial(actual[i], item))
+		)
+	}
+	if (typeof expected === 'object' && expected !== null) {
+		if (typeof actual !== 'object' || actual === null) return false
+		return Object.entries(expected).every(([key, value]) =>
+			matchesPartial((actual as Record<string, unknown>)[key], value),
+		)
+	}
+	if (actual === undefined || actual === null) return actual === expected
+	return String(actual) === String(expected)
+}
+
+/**
+ * Read the params of a Bot API request from its query string and body
+ */
+async function readParams(request: Request): Promise<Record<string, unknown>> {
+	const params: Record<string, unknown> = Object.fromEntries(
+		new URL(request.url).searchParams,
+	)
+	const contentType = request.headers.get('Content-Type') ?? ''
+
+	if (contentType.includes('application/json')) {
+		const text = await request.text()
+		return { ...params, ...(text ? JSON.parse(text) : {}) }
+	}
+
+	if (
+		contentType.includes('multipart/form-data') ||
+		contentType.includes('application/x-www-form-urlencoded')
+	) {
+		for (const [key, value] of await request.formData()) {
+			if (typeof value === 'string' && /^[[{]/.test(value)) {
+				try {
+					params[key] = JSON.parse(value)
+					continue
+				} catch {
+					// Not JSON, keep the string
+				}
+			}
+			params[key] = value
+		}
+	}
+
+	return params
+}
+
+/**
+ * Methods answered with `true` unless a handler says otherwise
+ */
+const BOOLEAN_METHOD =
+	/^(set|delete|answer|pin|unpin|leave|ban|unban|restrict|promote|approve|decline|refund|close|reopen|hide|unhide|log|add|convert|create|edit|gift|read|remove|replace|transfer|upgrade|verify)/
+
+/**
+ * Fake Telegram Bot API server for integration tests
+ *
+ * Point a `TelegramBot` at it with `baseUrl`. Every request is recorded in
+ * `calls` and answered with a plausible result for every method of
+ * `TelegramBot`: `send*` methods return a new message, `set*`, `delete*`,
+ * `answer*` and similar methods return `true`, and `getMe`, `getFile`,
+ * `getUpdates`, `stopPoll` and the webhook methods keep their own state.
+ * Use `on` to answer methods differently, `failNext` to simulate errors,
+ * and `pushUpdate` or `deliverWebhook` to send updates to the bot. A
+ * handler throwing anything but a `MockApiError` gets a 500 response.
+ *
+ * @example
+ * ```typescript
+ * const server = new MockBotApiServer()
+ * const bot = new TelegramBot({ botToken: 'test:token', baseUrl: await server.listen() })
+ *
+ * server.failNext('sendMessage', 403)
+ * await expect(bot.sendMessage({ chat_id: 1, text: 'Hi' })).rejects.toThrow(BotBlockedError)
+ *
+ * await bot.sendMessage({ chat_id: 1, text: 'Hi again' })
+ * server.expectSent({ chat_id: 1, text: 'Hi again' })
+ *
+ * await server.close()
+ * ```
+ */
+export class MockBotApiServer {
+	/**
+	 * Every request received, in order
+	 */
+	readonly calls: RecordedCall[] = []
+
+	/**
+	 * The bot returned by getMe
+	 */
+	readonly botInfo: User
+
+	private readonly handlers = new Map<string, MockMethodHandler>()
+	private readonly failures: Array<{
+		method: string
+		response: TelegramErrorResponse
+		remaining: number
+	}> = []
+	private readonly files = new Map<string, { path: string; content: Blob }>()
+	private readonly polls = new Map<string, Poll>()
+	private updates: Update[] = []
+	private readonly waiters = new Set<() => void>()
+	private lastUpdateId = 0
+	private lastMessageId = 0
+	private webhook?: {
+		url: string
+		secretToken?: string
+	}
+	private server?: import('node:http').Server
+	private url?: string
+
+	/**
+	 * Create a mock server. Call `listen` to get its base URL
+	 *
+	 * @param options - Accepted token and bot info
+	 */
+	constructor(private readonly options: MockBotApiServerOptions = {}) {
+		this.botInfo = {
+			id: 1000000001,
+			is_bot: true,
+			first_name: 'Mock Bot',
+			username: 'mock_bot',
+			...options.botInfo,
+		}
+	}
+
+	/**
+	 * Base URL to pass as `baseUrl`, once the server is listening
+	 */
+	get baseUrl(): string {
+		if (!this.url) {
+			throw new Error('The mock server is not listening, call listen() first')
+		}
+		return this.url
+	}
+
+	/**
+	 * Start listening on a local port
+	 *
+	 * Requires a runtime with `node:http`, such as Node.js or Bun. Runtimes
+	 * serving Fetch API handlers can use `fetch` directly instead.
+	 *
+	 * @param port - Port to listen on, a random free one by default
+	 * @returns The base URL of the server
+	 */
+	async listen(port = 0): Promise<string> {
+		if (this.url) return this.url
+
+		const { createServer } = await import('node:http')
+		const server = createServer(async (req, res) => {
+			const chunks: Uint8Array[] = []
+			for await (const chunk of req) chunks.push(chunk)
+
+			const headers = new Headers()
+			for (const [name, value] of Object.entries(req.headers)) {
+				if (value !== undefined) {
+					headers.set(name, Array.isArray(value) ? value.join(', ') : value)
+				}
+			}
+
+			const hasBody = req.method !== 'GET' && req.method !== 'HEAD'
+			try {
+				const response = await this.fetch(
+					new Request(`http://127.0.0.1${req.url ?? '/'}`, {
+						method: req.method,
+						headers,
+						body: hasBody ? Buffer.concat(chunks) : undefined,
+					}),
+				)
+				res.writeHead(response.status, Object.fromEntries(response.headers))
+				res.end(Buffer.from(await response.arrayBuffer()))
+			} catch (error) {
+				// Never leave the client waiting for a response
+				if (!res.headersSent) res.writeHead(500)
+				res.end(String(error))
+			}
+		})
+
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', reject)
+			server.listen(port, '127.0.0.1', () => resolve())
+		})
+
+		const address = server.address()
+		if (address === null || typeof address === 'string') {
+			server.close()
+			throw new Error('The mock server did not get a TCP address')
+		}
+
+		this.server = server
+		this.url = `http://127.0.0.1:${address.port}`
+		return this.url
+	}
+
+	/**
+	 * Stop the server, answering pending getUpdates requests first
+	 */
+	async close(): Promise<void> {
+		for (const wake of this.waiters) wake()
+
+		const server = this.server
+		if (!server) return
+		this.server = undefined
+		this.url = undefined
+
+		await new Promise<void>((resolve, reject) => {
+			server.close((error) => (error ? reject(error) : resolve()))
+			server.closeAllConnections()
+		})
+	}
+
+	/**
+	 * Answer a method with a custom handler, replacing the default result
+	 *
+	 * @param method - Bot API method name
+	 * @param handler - Function returning the result
+	 * @returns The server, for chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * server.on('getChatMember', (params) => ({
+	 *   status: 'member',
+	 *   user: { id: Number(params.user_id), is_bot: false, first_name: 'John' },
+	 * }))
+	 * ```
+	 */
+	on(method: string, handler: MockMethodHandler): this {
+		this.handlers.set(method, handler)
+		return this
+	}
+
+	/**
+	 * Fail the next calls of a method with an error
+	 *
+	 * A code alone uses a typical description: 400 "chat not found", 403
+	 * "bot was blocked by the user", 429 with `retry_after` 1, and so on.
+	 *
+	 * @param method - Bot API method name, or `'*'` for any method
+	 * @param error - Error code, or the error response to send
+	 * @param times - Number of calls to fail
+	 * @returns The server, for chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * server.failNext('sendMessage', {
+	 *   error_code: 429,
+	 *   description: 'Too Many Requests: retry after 5',
+	 *   parameters: { retry_after: 5 },
+	 * })
+	 * ```
+	 */
+	failNext(method: string, error: number | MockErrorInit, times = 1): this {
+		this.failures.push({
+			method,
+			response: createErrorResponse(error),
+			remaining: times,
+		})
+		return this
+	}
+
+	/**
+	 * Make a file available to getFile and file downloads
+	 *
+	 * @param fileId - Identifier of the file
+	 * @param content - Content served when the file is downloaded
+	 * @returns The server, for chaining
+	 */
+	addFile(fileId: string, content: string | Uint8Array | Blob): this {
+		this.files.set(fileId, {
+			path: `documents/${encodeURIComponent(fileId)}`,
+			content:
+				content instanceof Blob
+					? content
+					: new Blob([
+							typeof content === 'string' ? content : new Uint8Array(content),
+						]),
+		})
+		return this
+	}
+
+	/**
+	 * Queue an update for getUpdates. Pending long polling requests return
+	 * it right away
+	 *
+	 * @param update - Update, with `update_id` assigned when missing
+	 * @returns The queued update
+	 */
+	pushUpdate(
+		update: Omit<Update, 'update_id'> & { update_id?: number },
+	): Update {
+		const queued = this.assignUpdateId(update)
+		this.updates.push(queued)
+		for (const wake of this.waiters) wake()
+		return queued
+	}
+
+	/**
+	 * Send an update the way Telegram calls a webhook, with the secret token
+	 * of the last setWebhook call
+	 *
+	 * @param update - Update, with `update_id` assigned when missing
+	 * @param handler - Webhook handler to call in-process. Without it, the
+	 *   update is posted to the URL set with setWebhook
+	 * @returns The response of the webhook
+	 * @throws {Error} If no handler is given and no webhook is set
+	 */
+	async deliverWebhook(
+		update: Omit<Update, 'update_id'> & { update_id?: number },
+		handler?: WebhookHandler,
+	): Promise<Response> {
+		if (!handler && !this.webhook) {
+			throw new Error('No webhook is set, call setWebhook first')
+		}
+
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json',
+		}
+		if (this.webhook?.secretToken) {
+			headers['X-Telegram-Bot-Api-Secret-Token'] = this.webhook.secretToken
+		}
+
+		const request = new Request(this.webhook?.url ?? 'http://localhost/', {
+			method: 'POST',
+			headers,
+			body: JSON.stringify(this.assignUpdateId(update)),
+		})
+		return handler ? handler(request) : fetch(request)
+	}
+
+	/**
+	 * Get the calls of a method
+	 *
+	 * @param method - Bot API method name
+	 * @returns The calls, in order
+	 */
+	callsTo(method: string): RecordedCall[] {
+		return this.calls.filter((call) => call.method === method)
+	}
+
+	/**
+	 * Assert that a call was made with the given params. Nested objects match
+	 * when they contain the expected fields
+	 *
+	 * @param params - Expected params, such as `{ chat_id, text }`
+	 * @param method - Only consider calls of this method
+	 * @returns The first matching call
+	 * @throws {Error} Listing the calls received, if none matches
+	 */
+	expectSent(params: Record<string, unknown>, method?: string): RecordedCall {
+		const candidates = method ? this.callsTo(method) : this.calls
+		const call = candidates.find((c) => matchesPartial(c.params, params))
+		if (call) return call
+
+		const received = this.calls
+			.map((c) => `  ${c.method} ${JSON.stringify(c.params)}`)
+			.join('\n')
+		throw new Error(
+			`Expected ${method ?? 'a call'} with ${JSON.stringify(params)}, but received ${
+				received ? `:\n${received}` : 'no calls'
+			}`,
+		)
+	}
+
+	/**
+	 * Forget the recorded calls, handlers, failures, files and updates
+	 */
+	reset(): void {
+		this.calls.length = 0
+		this.handlers.clear()
+		this.failures.length = 0
+		this.files.clear()
+		this.polls.clear()
+		this.updates = []
+		this.webhook = undefined
+	}
+
+	/**
+	 * Handle a Bot API request. Usable as a Fetch API handler, such as
+	 * `Bun.serve({ fetch: server.fetch })`
+	 *
+	 * @param request - Request to the Bot API
+	 * @returns The Bot API response
+	 */
+	fetch = async (request: Request): Promise<Response> => {
+		const { pathname } = new URL(request.url)
+
+		const download = /^\/file\/bot([^/]+)\/(.+)$/.exec(pathname)
+		if (download) {
+			if (!this.acceptsToken(download[1]))
+				return new Response(null, { status: 401 })
+			const file = [...this.files.values()].find((f) => f.path === download[2])
+			return file
+				? new Response(file.content)
+				: new Response(null, { status: 404 })
+		}
+
+		const match = /^\/bot([^/]+)\/(\w+)$/.exec(pathname)
+		if (!match?.[2]) return json(createErrorResponse(404), 404)
+		if (!this.acceptsToken(match[1])) return json(createErrorResponse(401), 401)
+
+		let params: Record<string, unknown>
+		try {
+			params = await readParams(request)
+		} catch {
+			return json(
+				createErrorResponse({
+					error_code: 400,
+					description: 'Bad Request: invalid request body',
+				}),
+				400,
+			)
+		}
+
+		const call: RecordedCall = { method: match[2], params }
+		this.calls.push(call)
+
+		const failure = this.failures.find(
+			(f) => f.method === call.method || f.method === '*',
+		)
+		if (failure) {
+			failure.remaining--
+			if (failure.remaining <= 0) {
+				this.failures.splice(this.failures.indexOf(failure), 1)
+			}
+			return json(failure.response, failure.response.error_code)
+		}
+
+		try {
+			const handler = this.handlers.get(call.method)
+			const result = handler
+				? await handler(params, call)
+				: await this.defaultResult(call)
+			return json({ ok: true, result })
+		} catch (error) {
+			if (error instanceof MockApiError) {
+				return json(error.response, error.response.error_code)
+			}
+			const message = error instanceof Error ? error.message : String(error)
+			return json(
+				createErrorResponse({
+					error_code: 500,
+					description: `Internal Server Error: ${call.method} failed: ${message}`,
+				}),
+				500,
+			)
+		}
+	}
+
+	/**
+	 * Check a request token against the accepted one
+	 * @private
+	 */
+	private acceptsToken(token: string | undefined): boolean {
+		return (
+			this.options.botToken === undefined ||
+			decodeURIComponent(token ?? '') === this.options.botToken
+		)
+	}
+
+	/**
+	 * Give an update the next free update id when it has none
+	 * @private
+	 */
+	private assignUpdateId(
+		update: Omit<Update, 'update_id'> & { update_id?: number },
+	): Update {
+		const updateId = update.update_id ?? this.lastUpdateId + 1
+		this.lastUpdateId = Math.max(this.lastUpdateId, updateId)
+		return { ...update, update_id: updateId }
+	}
+
+	/**
+	 * Build the chat a message is sent to
+	 * @private
+	 */
+	private createChat(chatId: unknown): Chat {
+		if (typeof chatId === 'string' && chatId.startsWith('@')) {
+			return { id: -1001000000001, type: 'channel', username: chatId.slice(1) }
+		}
+		const id = Number(chatId)
+		return { id, type: id > 0 ? 'private' : 'supergroup' }
+	}
+
+	/**
+	 * Build the user a call refers to
+	 * @private
+	 */
+	private createUser(userId: unknown): User {
+		const id = Number(userId)
+		return id === this.botInfo.id
+			? this.botInfo
+			: { id, is_bot: false, first_name: 'Mock User' }
+	}
+
+	/**
+	 * Build a message sent by the bot
+	 * @private
+	 */
+	private createMessage(
+		params: Record<string, unknown>,
+		messageId = ++this.lastMessageId,
+	): Message {
+		const markup = params.reply_markup as { inline_keyboard?: unknown }
+		return {
+			message_id: messageId,
+			date: Math.floor(Date.now() / 1000),
+			chat: this.createChat(params.chat_id),
+			from: this.botInfo,
+			...(typeof params.text === 'string' && { text: params.text }),
+			...(typeof params.caption === 'string' && { caption: params.caption }),
+			...(markup?.inline_keyboard !== undefined && {
+				reply_markup: markup as Message['reply_markup'],
+			}),
+		}
+	}
+
+	/**
+	 * Produce the default result of a call
+	 * @private
+	 */
+	private async defaultResult({
+		method,
+		params,
+	}: RecordedCall): Promise<unknown> {
+		switch (method) {
+			case 'getMe':
+				return this.botInfo
+			case 'getUpdates':
+				return this.getUpdates(params)
+			case 'setWebhook':
+				this.webhook = params.url
+					? {
+							url: String(params.url),
+							secretToken:
+								params.secret_token === undefined
+									? undefined
+									: String(params.secret_token),
+						}
+					: undefined
+				return true
+			case 'deleteWebhook':
+				this.webhook = undefined
+				if (String(params.drop_pending_updates) === 'true') this.updates = []
+				return true
+			case 'getWebhookInfo':
+				return {
+					url: this.webhook?.url ?? '',
+					has_custom_certificate: false,
+					pending_update_count: this.webhook ? 0 : this.updates.length,
+				}
+			case 'getFile': {
+				const fileId = String(params.file_id)
+				const file = this.files.get(fileId)
+				if (!file) {
+					throw new MockApiError({
+						error_code: 400,
+						description: 'Bad Request: invalid file_id',
+					})
+				}
+				return {
+					file_id: fileId,
+					file_unique_id: fileId,
+					file_size: file.content.size,
+					file_path: file.path,
+				}
+			}
+			case 'sendMediaGroup':
+				this.requireChat(params)
+				return (Array.isArray(params.media) ? params.media : []).map(
+					(media: { caption?: unknown }) =>
+						this.createMessage({
+							chat_id: params.chat_id,
+							caption: media.caption,
+						}),
+				)
+			case 'copyMessage':
+				this.requireChat(params)
+				return { message_id: ++this.lastMessageId }
+			case 'getMyCommands':
+			case 'getChatAdministrators':
+				return []
+			case 'getChatMemberCount':
+				return 1
+			case 'getChatMember':
+				this.requireChat(params)
+				return {
+					status: 'member',
+					user: this.createUser(params.user_id),
+				} satisfies ChatMember
+			case 'getUserProfilePhotos':
+				return { total_count: 0, photos: [] }
+			case 'sendChatAction':
+				this.requireChat(params)
+				return true
+			case 'sendPoll': {
+				this.requireChat(params)
+				const message = this.createMessage(params)
+				message.poll = {
+					id: String(message.message_id),
+					question: String(params.question ?? ''),
+					options: (Array.isArray(params.options) ? params.options : []).map(
+						(option: { text?: unknown }) => ({
+							text: String(option.text ?? ''),
+							voter_count: 0,
+						}),
+					),
+					total_voter_count: 0,
+					is_closed: false,
+					is_anonymous: String(params.is_anonymous) !== 'false',
+					type: params.type === 'quiz' ? 'quiz' : 'regular',
+					allows_multiple_answers:
+						String(params.allows_multiple_answers) === 'true',
+				}
+				this.polls.set(`${message.chat.id}:${message.message_id}`, message.poll)
+				return message
+			}
+			case 'stopPoll': {
+				this.requireChat(params)
+				const key = `${this.createChat(params.chat_id).id}:${params.message_id}`
+				const poll = this.polls.get(key)
+				if (!poll) {
+					throw new MockApiError({
+						error_code: 400,
+						description: 'Bad Request: message with poll to stop not found',
+					})
+				}
+				poll.is_closed = true
+				return poll
+			}
+			case 'exportChatInviteLink':
+				this.requireChat(params)
+				return `https://t.me/+mock${String(params.chat_id).replace(/\W/g, '')}`
+			case 'createInvoiceLink':
+				return `https://t.me/$mock-invoice-${this.calls.length}`
+			case 'forwardMessages':
+			case 'copyMessages':
+				this.requireChat(params)
+				return (
+					Array.isArray(params.message_ids) ? params.message_ids : []
+				).map(() => ({ message_id: ++this.lastMessageId }))
+			case 'createChatInviteLink':
+			case 'createChatSubscriptionInviteLink':
+			case 'editChatInviteLink':
+			case 'editChatSubscriptionInviteLink':
+			case 'revokeChatInviteLink':
+				this.requireChat(params)
+				return {
+					invite_link:
+						typeof params.invite_link === 'string'
+							? params.invite_link
+							: `https://t.me/+mock-${this.calls.length}`,
+					creator: this.botInfo,
+					creates_join_request: String(params.creates_join_request) === 'true',
+					is_primary: false,
+					is_revoked: method === 'revokeChatInviteLink',
+					...(typeof params.name === 'string' && { name: params.name }),
+				} satisfies ChatInviteLink
+			case 'getChat':
+				this.requireChat(params)
+				return {
+					...this.createChat(params.chat_id),
+					accent_color_id: 0,
+					max_reaction_count: 11,
+					accepted_gift_types: {
+						unlimited_gifts: false,
+						limited_gifts: false,
+						unique_gifts: false,
+						premium_subscription: false,
+					},
+				}
+			case 'createForumTopic':
+				this.requireChat(params)
+				return {
+					message_thread_id: ++this.lastMessageId,
+					name: String(params.name ?? ''),
+					icon_color: Number(params.icon_color ?? 7322096),
+				}
+			case 'getForumTopicIconStickers':
+			case 'getCustomEmojiStickers':
+			case 'getGameHighScores':
+				return []
+			case 'getUserChatBoosts':
+				return { boosts: [] }
+			case 'getBusinessConnection':
+				return {
+					id: String(params.business_connection_id),
+					user: this.createUser(1),
+					user_chat_id: 1,
+					date: Math.floor(Date.now() / 1000),
+					is_enabled: true,
+				}
+			case 'getMyName':
+				return { name: this.botInfo.first_name }
+			case 'getMyDescription':
+				return { description: '' }
+			case 'getMyShortDescription':
+				return { short_description: '' }
+			case 'getChatMenuButton':
+				return { type: 'default' }
+			case 'getMyDefaultAdministratorRights':
+				return {
+					is_anonymous: false,
+					can_manage_chat: false,
+					can_delete_messages: false,
+					can_manage_video_chats: false,
+					can_restrict_members: false,
+					can_promote_members: false,
+					can_change_info: false,
+					can_invite_users: false,
+					can_post_stories: false,
+					can_edit_stories: false,
+					can_delete_stories: false,
+				}
+			case 'getAvailableGifts':
+				return { gifts: [] }
+			case 'getMyStarBalance':
+			case 'getBusinessAccountStarBalance':
+				return { amount: 0 }
+			case 'getBusinessAccountGifts':
+				return { total_count: 0, gifts: [] }
+			case 'getStarTransactions':
+				return { transactions: [] }
+			case 'postStory':
+			case 'editStory':
+				return {
+					chat: this.createChat(1),
+					id: Number(params.story_id ?? ++this.lastMessageId),
+				}
+			case 'getStickerSet':
+				return {
+					name: String(params.name),
+					title: String(params.name),
+					sticker_type: 'regular',
+					stickers: [],
+				}
+			case 'uploadStickerFile': {
+				const fileId = `sticker-${this.calls.length}`
+				if (params.sticker instanceof Blob) this.addFile(fileId, params.sticker)
+				return { file_id: fileId, file_unique_id: fileId }
+			}
+			case 'answerWebAppQuery':
+				return {}
+			case 'savePreparedInlineMessage':
+				return {
+					id: `prepared-${this.calls.length}`,
+					expiration_date: Math.floor(Date.now() / 1000) + 86_400,
+				}
+			case 'sendGift':
+				return true
+		}
+
+		if (method.startsWith('send') || method === 'forwardMessage') {
+			this.requireChat(params)
+			if (method === 'sendMessage' && !params.text) {
+				throw new MockApiError({
+					error_code: 400,
+					description: 'Bad Request: message text is empty',
+				})
+			}
+			return this.createMessage(params)
+		}
+
+		if (
+			method.startsWith('editMessage') ||
+			method === 'stopMessageLiveLocation'
+		) {
+			if (params.inline_message_id !== undefined) return true
+			this.requireChat(params)
+			return this.createMessage(params, Number(params.message_id))
+		}
+
+		if (BOOLEAN_METHOD.test(method)) return true
+
+		throw new MockApiError({
+			error_code: 404,
+			description: `Not Found: ${method} has no mock result, set one with on()`,
+		})
+	}
+
+	/**
+	 * Fail like Telegram when a call has no chat
+	 * @private
+	 */
+	private requireChat(params: Record<string, unknown>): void {
+		if (params.chat_id === undefined || params.chat_id === '') {
+			throw new MockApiError({
+				error_code: 400,
+				description: 'Bad Request: chat_id is empty',
+			})
+		}
+	}
+
+	/**
+	 * Return queued updates, waiting for one up to the long polling timeout
+	 * @private
+	 */
+	private async getUpdates(params: Record<string, unknown>): Promise<Update[]> {
+		if (this.webhook) {
+			throw new MockApiError({
+				error_code: 409,
+				description:
+					"Conflict: can't use getUpdates method while webhook is active; use deleteWebhook to delete the webhook first",
+			})
+		}
+
+		// Updates below the offset are confirmed and dropped, like in the Bot API
+		const offset = Number(params.offset ?? 0)
+		this.updates = this.updates.filter((u) => u.update_id >= offset)
+
+		const timeout = Number(params.timeout ?? 0)
+		if (this.updates.length === 0 && timeout > 0) {
+			await new Promise<void>((resolve) => {
+				const wake = () => {
+					clearTimeout(timer)
+					this.waiters.delete(wake)
+					resolve()
+				}
+				const timer = setTimeout(wake, timeout * 1000)
+				this.waiters.add(wake)
+			})
+		}
+
+		return this.updates.slice(0, Number(params.limit ?? 100))
+	}
+}
@@ -0,0 +1,226 @@
+/**
+ * Telegram Bot API Webhook Handler
+ *
+ * A framework-agnostic webhook handler built on the Fetch API `Request` and
+ * `Response` types. Works with Bun, Deno, Cloudflare Workers and any framework
+ * exposing standard requests.
+ */
+
+import type { z } from 'zod'
+import { type Update, UpdateSchema } from './schemas'
+
+/**
+ * Header Telegram uses to send the webhook secret token
+ */
+export const SECRET_TOKEN_HEADER = 'X-Telegram-Bot-Api-Secret-Token'
+
+/**
+ * Behavior when an incoming payload does not match `UpdateSchema`
+ *
+ * - `'ignore'`: acknowledge with 200 so Telegram does not redeliver it
+ * - `'reject'`: respond with 400, Telegram will retry the delivery
+ * - a function: called with the validation error and the raw payload, then acknowledged with 200,
+ *   even if it throws
+ */
+export type InvalidUpdateBehavior =
+	| 'ignore'
+	| 'reject'
+	| ((error: z.ZodError, payload: unknown) => unknown | Promise<unknown>)
+
+/**
+ * Webhook handler options
+ */
+export interface WebhookHandlerOptions {
+	/**
+	 * Function invoked for every valid update
+	 */
+	onUpdate: (update: Update) => unknown | Promise<unknown>
+
+	/**
+	 * Secret token configured with `setWebhook`. When set, requests without a
+	 * matching `X-Telegram-Bot-Api-Secret-Token` header are rejected with 401
+	 */
+	secretToken?: string
+
+	/**
+	 * Maximum accepted body size in bytes. Larger requests are rejected with 413
+	 * @default 1048576 (1 MiB)
+	 */
+	maxBodySize?: number
+
+	/**
+	 * Behavior when the payload fails validation
+	 * @default 'ignore'
+	 */
+	onInvalidUpdate?: InvalidUpdateBehavior
+
+	/**
+	 * Called when `onUpdate` throws or rejects, such as to log the error.
+	 * Errors thrown by `onError` itself are ignored, since the response has
+	 * already been sent
+	 */
+	onError: (error: unknown, update: Update) => unknown | Promise<unknown>
+
+	/**
+	 * Keeps the runtime alive until the update has been handled, such as
+	 * `ctx.waitUntil` on Cloudflare Workers. Without it the update is handled
+	 * in the background after the response is returned
+	 */
+	waitUntil?: (promise: Promise<unknown>) => void
+}
+
+/**
+ * A function handling a webhook request
+ */
+export type WebhookHandler = (request: Request) => Promise<Response>
+
+/**
+ * Compare two strings in constant time, to avoid leaking the secret through timing
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+	const encoder = new TextEncoder()
+	const left = encoder.encode(a)
+	const right = encoder.encode(b)
+
+	const length = Math.max(left.length, right.length)
+	let diff = left.length ^ right.length
+	for (let i = 0; i < length; i++) {
+		diff |= (left[i] ?? 0) ^ (right[i] ?? 0)
+	}
+	return diff === 0
+}
+
+/**
+ * Read the request body as text, giving up once it exceeds the size limit
+ *
+ * @returns The body text, or `undefined` if it is too large
+ */
+async function readBody(
+	request: Request,
+	maxBodySize: number,
+): Promise<string | undefined> {
+	const contentLength = Number(request.headers.get('Content-Length'))
+	if (contentLength > maxBodySize) return undefined
+	if (!request.body) return ''
+
+	const reader = request.body.getReader()
+	const chunks: Uint8Array[] = []
+	let size = 0
+
+	while (true) {
+		const { done, value } = await reader.read()
+		if (done) break
+
+		size += value.byteLength
+		if (size > maxBodySize) {
+			await reader.cancel()
+			return undefined
+		}
+		chunks.push(value)
+	}
+
+	const body = new Uint8Array(size)
+	let offset = 0
+	for (const chunk of chunks) {
+		body.set(chunk, offset)
+		offset += chunk.byteLength
+	}
+	return new TextDecoder().decode(body)
+}
+
+/**
+ * Create a webhook handler that validates incoming requests and dispatches updates
+ *
+ * The handler responds as soon as the update has been validated, without
+ * waiting for `onUpdate` to finish, so slow handlers don't cause Telegram to
+ * time out and redeliver the update.
+ *
+ * @param options - Webhook handler options
+ * @returns A function that takes a `Request` and returns a `Response`
+ *
+ * @example
+ * ```typescript
+ * const handleWebhook = createWebhookHandler({
+ *   secretToken: process.env.WEBHOOK_SECRET,
+ *   onUpdate: async (update) => {
+ *     if (update.message?.text) {
+ *       await bot.sendMessage({
+ *         chat_id: update.message.chat.id,
+ *         text: `You said: ${update.message.text}`,
+ *       })
+ *     }
+ *   },
+ *   onError: (error, update) => logger.error({ error, updateId: update.update_id }),
+ * })
+ *
+ * Bun.serve({ port: 3000, fetch: handleWebhook })
+ * ```
+ */
+export function createWebhookHandler(
+	options: WebhookHandlerOptions,
+): WebhookHandler {
+	const {
+		onUpdate,
+		secretToken,
+		maxBodySize = 1024 * 1024,
+		onInvalidUpdate = 'ignore',
+		onError,
+		waitUntil,
+	} = options
+
+	return async (request: Request): Promise<Response> => {
+		if (request.method !== 'POST') {
+			return new Response(null, { status: 405, headers: { Allow: 'POST' } })
+		}
+
+		if (secretToken !== undefined) {
+			const received = request.headers.get(SECRET_TOKEN_HEADER) ?? ''
+			if (!timingSafeEqual(received, secretToken)) {
+				return new Response(null, { status: 401 })
+			}
+		}
+
+		const body = await readBody(request, maxBodySize)
+		if (body === undefined) {
+			return new Response(null, { status: 413 })
+		}
+
+		let payload: unknown
+		try {
+			payload = JSON.parse(body)
+		} catch {
+			return new Response(null, { status: 400 })
+		}
+
+		const result = UpdateSchema.safeParse(payload)
+		if (!result.success) {
+			if (onInvalidUpdate === 'reject') {
+				return new Response(null, { status: 400 })
+			}
+			if (typeof onInvalidUpdate === 'function') {
+				try {
+					await onInvalidUpdate(result.error, payload)
+				} catch {
+					// A failing callback must not make Telegram redeliver the payload
+				}
+			}
+			return new Response(null, { status: 200 })
+		}
+
+		const update = result.data
+		const dispatch = (async () => {
+			try {
+				await onUpdate(update)
+			} catch (error) {
+				try {
+					await onError(error, update)
+				} catch {
+					// Nowhere left to report it, and a rejection here would go unhandled
+				}
+			}
+		})()
+		waitUntil?.(dispatch)
+
+		return new Response(null, { status: 200 })
+	}
+}
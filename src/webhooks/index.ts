@@ -26,22 +26,169 @@
  */
 
 export type {
+	InvalidUpdateBehavior,
+	WebhookHandler,
+	WebhookHandlerOptions,
+} from './handler'
+export { createWebhookHandler, SECRET_TOKEN_HEADER } from './handler'
+export type {
+	Animation,
+	Audio,
+	BusinessConnection,
+	BusinessMessagesDeleted,
 	CallbackQuery,
 	Chat,
+	ChatBoost,
+	ChatBoostAdded,
+	ChatBoostRemoved,
+	ChatBoostSource,
+	ChatBoostUpdated,
+	ChatInviteLink,
+	ChatJoinRequest,
+	ChatMember,
+	ChatMemberUpdated,
+	ChatShared,
+	ChosenInlineResult,
+	Contact,
+	Dice,
+	Document,
+	ExternalReplyInfo,
+	ForumTopicClosed,
+	ForumTopicCreated,
+	ForumTopicEdited,
+	ForumTopicReopened,
+	Game,
+	GeneralForumTopicHidden,
+	GeneralForumTopicUnhidden,
+	Giveaway,
+	GiveawayCompleted,
+	GiveawayCreated,
+	GiveawayWinners,
+	InlineQuery,
+	Invoice,
+	LinkPreviewOptions,
 	Location,
 	Message,
+	MessageAutoDeleteTimerChanged,
 	MessageEntity,
+	MessageOrigin,
+	MessageReactionCountUpdated,
+	MessageReactionUpdated,
+	OrderInfo,
+	PaidMedia,
+	PaidMediaInfo,
+	PaidMediaPurchased,
 	PhotoSize,
+	Poll,
+	PollAnswer,
+	PollOption,
+	PreCheckoutQuery,
+	ReactionCount,
+	ReactionType,
+	RefundedPayment,
+	SharedUser,
+	ShippingAddress,
+	ShippingQuery,
+	Sticker,
+	Story,
+	SuccessfulPayment,
+	TextQuote,
 	Update,
+	UpdateType,
 	User,
+	UsersShared,
+	Venue,
+	Video,
+	VideoChatEnded,
+	VideoChatParticipantsInvited,
+	VideoChatScheduled,
+	VideoChatStarted,
+	VideoNote,
+	Voice,
+	WebAppData,
+	WriteAccessAllowed,
 } from './schemas'
 export {
+	AnimationSchema,
+	AudioSchema,
+	BusinessConnectionSchema,
+	BusinessMessagesDeletedSchema,
 	CallbackQuerySchema,
+	ChatBoostAddedSchema,
+	ChatBoostRemovedSchema,
+	ChatBoostSchema,
+	ChatBoostSourceSchema,
+	ChatBoostUpdatedSchema,
+	ChatInviteLinkSchema,
+	ChatJoinRequestSchema,
+	ChatMemberAdministratorSchema,
+	ChatMemberBannedSchema,
+	ChatMemberLeftSchema,
+	ChatMemberMemberSchema,
+	ChatMemberOwnerSchema,
+	ChatMemberRestrictedSchema,
+	ChatMemberSchema,
+	ChatMemberUpdatedSchema,
 	ChatSchema,
+	ChatSharedSchema,
+	ChosenInlineResultSchema,
+	ContactSchema,
+	DiceSchema,
+	DocumentSchema,
+	ExternalReplyInfoSchema,
+	ForumTopicClosedSchema,
+	ForumTopicCreatedSchema,
+	ForumTopicEditedSchema,
+	ForumTopicReopenedSchema,
+	GameSchema,
+	GeneralForumTopicHiddenSchema,
+	GeneralForumTopicUnhiddenSchema,
+	GiveawayCompletedSchema,
+	GiveawayCreatedSchema,
+	GiveawaySchema,
+	GiveawayWinnersSchema,
+	getUpdateType,
+	InlineQuerySchema,
+	InvoiceSchema,
+	LinkPreviewOptionsSchema,
 	LocationSchema,
+	MessageAutoDeleteTimerChangedSchema,
 	MessageEntitySchema,
+	MessageOriginSchema,
+	MessageReactionCountUpdatedSchema,
+	MessageReactionUpdatedSchema,
 	MessageSchema,
+	OrderInfoSchema,
+	PaidMediaInfoSchema,
+	PaidMediaPurchasedSchema,
+	PaidMediaSchema,
 	PhotoSizeSchema,
+	PollAnswerSchema,
+	PollOptionSchema,
+	PollSchema,
+	PreCheckoutQuerySchema,
+	ReactionCountSchema,
+	ReactionTypeSchema,
+	RefundedPaymentSchema,
+	SharedUserSchema,
+	ShippingAddressSchema,
+	ShippingQuerySchema,
+	StickerSchema,
+	StorySchema,
+	SuccessfulPaymentSchema,
+	TextQuoteSchema,
+	UPDATE_TYPES,
 	UpdateSchema,
 	UserSchema,
+	UsersSharedSchema,
+	VenueSchema,
+	VideoChatEndedSchema,
+	VideoChatParticipantsInvitedSchema,
+	VideoChatScheduledSchema,
+	VideoChatStartedSchema,
+	VideoNoteSchema,
+	VideoSchema,
+	VoiceSchema,
+	WebAppDataSchema,
+	WriteAccessAllowedSchema,
 } from './schemas'
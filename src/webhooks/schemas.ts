@@ -166,6 +166,8 @@ export const MessageEntitySchema = z.object({
 			'text_link',
 			'text_mention',
 			'custom_emoji',
+			'blockquote',
+			'expandable_blockquote',
 		])
 		.describe('Type of the entity'),
 	offset: z
@@ -198,199 +200,2337 @@ export const MessageEntitySchema = z.object({
 
 export type MessageEntity = z.infer<typeof MessageEntitySchema>
 
+/**
+ * Animation object represents an animation file (GIF or H.264/MPEG-4 AVC video without sound)
+ */
+export const AnimationSchema = z.object({
+	file_id: z
+		.string()
+		.describe(
+			'Identifier for this file, which can be used to download or reuse the file',
+		),
+	file_unique_id: z
+		.string()
+		.describe(
+			"Unique identifier for this file, which is supposed to be the same over time and for different bots. Can't be used to download or reuse the file.",
+		),
+	width: z.number().int().describe('Video width as defined by the sender'),
+	height: z.number().int().describe('Video height as defined by the sender'),
+	duration: z
+		.number()
+		.int()
+		.describe('Duration of the video in seconds as defined by the sender'),
+	thumbnail: PhotoSizeSchema.optional().describe(
+		'Animation thumbnail as defined by the sender',
+	),
+	file_name: z
+		.string()
+		.optional()
+		.describe('Original animation filename as defined by the sender'),
+	mime_type: z
+		.string()
+		.optional()
+		.describe('MIME type of the file as defined by the sender'),
+	file_size: z.number().int().optional().describe('File size in bytes'),
+})
+
+export type Animation = z.infer<typeof AnimationSchema>
+
+/**
+ * Audio object represents an audio file to be treated as music by the Telegram clients
+ */
+export const AudioSchema = z.object({
+	file_id: z
+		.string()
+		.describe(
+			'Identifier for this file, which can be used to download or reuse the file',
+		),
+	file_unique_id: z
+		.string()
+		.describe(
+			"Unique identifier for this file, which is supposed to be the same over time and for different bots. Can't be used to download or reuse the file.",
+		),
+	duration: z
+		.number()
+		.int()
+		.describe('Duration of the audio in seconds as defined by the sender'),
+	performer: z
+		.string()
+		.optional()
+		.describe(
+			'Performer of the audio as defined by the sender or by audio tags',
+		),
+	title: z
+		.string()
+		.optional()
+		.describe('Title of the audio as defined by the sender or by audio tags'),
+	file_name: z
+		.string()
+		.optional()
+		.describe('Original filename as defined by the sender'),
+	mime_type: z
+		.string()
+		.optional()
+		.describe('MIME type of the file as defined by the sender'),
+	file_size: z.number().int().optional().describe('File size in bytes'),
+	thumbnail: PhotoSizeSchema.optional().describe(
+		'Thumbnail of the album cover to which the music file belongs',
+	),
+})
+
+export type Audio = z.infer<typeof AudioSchema>
+
+/**
+ * Document object represents a general file (as opposed to photos, voice messages and audio files)
+ */
+export const DocumentSchema = z.object({
+	file_id: z
+		.string()
+		.describe(
+			'Identifier for this file, which can be used to download or reuse the file',
+		),
+	file_unique_id: z
+		.string()
+		.describe(
+			"Unique identifier for this file, which is supposed to be the same over time and for different bots. Can't be used to download or reuse the file.",
+		),
+	thumbnail: PhotoSizeSchema.optional().describe(
+		'Document thumbnail as defined by the sender',
+	),
+	file_name: z
+		.string()
+		.optional()
+		.describe('Original filename as defined by the sender'),
+	mime_type: z
+		.string()
+		.optional()
+		.describe('MIME type of the file as defined by the sender'),
+	file_size: z.number().int().optional().describe('File size in bytes'),
+})
+
+export type Document = z.infer<typeof DocumentSchema>
+
+/**
+ * Video object represents a video file
+ */
+export const VideoSchema = z.object({
+	file_id: z
+		.string()
+		.describe(
+			'Identifier for this file, which can be used to download or reuse the file',
+		),
+	file_unique_id: z
+		.string()
+		.describe(
+			"Unique identifier for this file, which is supposed to be the same over time and for different bots. Can't be used to download or reuse the file.",
+		),
+	width: z.number().int().describe('Video width as defined by the sender'),
+	height: z.number().int().describe('Video height as defined by the sender'),
+	duration: z
+		.number()
+		.int()
+		.describe('Duration of the video in seconds as defined by the sender'),
+	thumbnail: PhotoSizeSchema.optional().describe('Video thumbnail'),
+	file_name: z
+		.string()
+		.optional()
+		.describe('Original filename as defined by the sender'),
+	mime_type: z
+		.string()
+		.optional()
+		.describe('MIME type of the file as defined by the sender'),
+	file_size: z.number().int().optional().describe('File size in bytes'),
+})
+
+export type Video = z.infer<typeof VideoSchema>
+
+/**
+ * VideoNote object represents a video message
+ */
+export const VideoNoteSchema = z.object({
+	file_id: z
+		.string()
+		.describe(
+			'Identifier for this file, which can be used to download or reuse the file',
+		),
+	file_unique_id: z
+		.string()
+		.describe(
+			"Unique identifier for this file, which is supposed to be the same over time and for different bots. Can't be used to download or reuse the file.",
+		),
+	length: z
+		.number()
+		.int()
+		.describe(
+			'Video width and height (diameter of the video message) as defined by the sender',
+		),
+	duration: z
+		.number()
+		.int()
+		.describe('Duration of the video in seconds as defined by the sender'),
+	thumbnail: PhotoSizeSchema.optional().describe('Video thumbnail'),
+	file_size: z.number().int().optional().describe('File size in bytes'),
+})
+
+export type VideoNote = z.infer<typeof VideoNoteSchema>
+
+/**
+ * Voice object represents a voice note
+ */
+export const VoiceSchema = z.object({
+	file_id: z
+		.string()
+		.describe(
+			'Identifier for this file, which can be used to download or reuse the file',
+		),
+	file_unique_id: z
+		.string()
+		.describe(
+			"Unique identifier for this file, which is supposed to be the same over time and for different bots. Can't be used to download or reuse the file.",
+		),
+	duration: z
+		.number()
+		.int()
+		.describe('Duration of the audio in seconds as defined by the sender'),
+	mime_type: z
+		.string()
+		.optional()
+		.describe('MIME type of the file as defined by the sender'),
+	file_size: z.number().int().optional().describe('File size in bytes'),
+})
+
+export type Voice = z.infer<typeof VoiceSchema>
+
+/**
+ * Sticker object represents a sticker
+ */
+export const StickerSchema = z.object({
+	file_id: z
+		.string()
+		.describe(
+			'Identifier for this file, which can be used to download or reuse the file',
+		),
+	file_unique_id: z
+		.string()
+		.describe(
+			"Unique identifier for this file, which is supposed to be the same over time and for different bots. Can't be used to download or reuse the file.",
+		),
+	type: z
+		.enum(['regular', 'mask', 'custom_emoji'])
+		.describe(
+			'Type of the sticker. The type of the sticker is independent from its format',
+		),
+	width: z.number().int().describe('Sticker width'),
+	height: z.number().int().describe('Sticker height'),
+	is_animated: z.boolean().describe('True, if the sticker is animated'),
+	is_video: z.boolean().describe('True, if the sticker is a video sticker'),
+	thumbnail: PhotoSizeSchema.optional().describe(
+		'Sticker thumbnail in the .WEBP or .JPG format',
+	),
+	emoji: z.string().optional().describe('Emoji associated with the sticker'),
+	set_name: z
+		.string()
+		.optional()
+		.describe('Name of the sticker set to which the sticker belongs'),
+	custom_emoji_id: z
+		.string()
+		.optional()
+		.describe(
+			'For custom emoji stickers, unique identifier of the custom emoji',
+		),
+	needs_repainting: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the sticker must be repainted to a text color in messages, the color of the Telegram Premium badge in emoji status, white color on chat photos, or another appropriate color in other places',
+		),
+	file_size: z.number().int().optional().describe('File size in bytes'),
+})
+
+export type Sticker = z.infer<typeof StickerSchema>
+
+/**
+ * Contact object represents a phone contact
+ */
+export const ContactSchema = z.object({
+	phone_number: z.string().describe("Contact's phone number"),
+	first_name: z.string().describe("Contact's first name"),
+	last_name: z.string().optional().describe("Contact's last name"),
+	user_id: z
+		.number()
+		.int()
+		.optional()
+		.describe("Contact's user identifier in Telegram"),
+	vcard: z
+		.string()
+		.optional()
+		.describe('Additional data about the contact in the form of a vCard'),
+})
+
+export type Contact = z.infer<typeof ContactSchema>
+
+/**
+ * Dice object represents an animated emoji that displays a random value
+ */
+export const DiceSchema = z.object({
+	emoji: z
+		.string()
+		.describe('Emoji on which the dice throw animation is based'),
+	value: z
+		.number()
+		.int()
+		.describe(
+			'Value of the dice, 1-6 for 🎲, 🎯 and 🎳 base emoji, 1-5 for 🏀 and ⚽ base emoji, 1-64 for 🎰 base emoji',
+		),
+})
+
+export type Dice = z.infer<typeof DiceSchema>
+
+/**
+ * Venue object represents a venue
+ */
+export const VenueSchema = z.object({
+	location: LocationSchema.describe("Venue location. Can't be a live location"),
+	title: z.string().describe('Name of the venue'),
+	address: z.string().describe('Address of the venue'),
+	foursquare_id: z
+		.string()
+		.optional()
+		.describe('Foursquare identifier of the venue'),
+	foursquare_type: z
+		.string()
+		.optional()
+		.describe('Foursquare type of the venue'),
+	google_place_id: z
+		.string()
+		.optional()
+		.describe('Google Places identifier of the venue'),
+	google_place_type: z
+		.string()
+		.optional()
+		.describe('Google Places type of the venue'),
+})
+
+export type Venue = z.infer<typeof VenueSchema>
+
+/**
+ * PollOption object contains information about one answer option in a poll
+ */
+export const PollOptionSchema = z.object({
+	text: z.string().describe('Option text, 1-100 characters'),
+	text_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe('Special entities that appear in the option text'),
+	voter_count: z
+		.number()
+		.int()
+		.describe('Number of users that voted for this option'),
+})
+
+export type PollOption = z.infer<typeof PollOptionSchema>
+
+/**
+ * Poll object contains information about a poll
+ */
+export const PollSchema = z.object({
+	id: z.string().describe('Unique poll identifier'),
+	question: z.string().describe('Poll question, 1-300 characters'),
+	question_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe('Special entities that appear in the question'),
+	options: z.array(PollOptionSchema).describe('List of poll options'),
+	total_voter_count: z
+		.number()
+		.int()
+		.describe('Total number of users that voted in the poll'),
+	is_closed: z.boolean().describe('True, if the poll is closed'),
+	is_anonymous: z.boolean().describe('True, if the poll is anonymous'),
+	type: z.enum(['regular', 'quiz']).describe('Poll type'),
+	allows_multiple_answers: z
+		.boolean()
+		.describe('True, if the poll allows multiple answers'),
+	correct_option_id: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'0-based identifier of the correct answer option. Available only for closed polls in the quiz mode, or sent by the bot to the chat',
+		),
+	explanation: z
+		.string()
+		.optional()
+		.describe(
+			'Text that is shown when a user chooses an incorrect answer or taps on the lamp icon in a quiz-style poll, 0-200 characters',
+		),
+	explanation_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'Special entities like usernames, URLs, bot commands, etc. that appear in the explanation',
+		),
+	open_period: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Amount of time in seconds the poll will be active after creation',
+		),
+	close_date: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Point in time (Unix timestamp) when the poll will be automatically closed',
+		),
+})
+
+export type Poll = z.infer<typeof PollSchema>
+
+/**
+ * MessageAutoDeleteTimerChanged object represents a service message about a change in auto-delete timer settings
+ */
+export const MessageAutoDeleteTimerChangedSchema = z.object({
+	message_auto_delete_time: z
+		.number()
+		.int()
+		.describe('New auto-delete time for messages in the chat; in seconds'),
+})
+
+export type MessageAutoDeleteTimerChanged = z.infer<
+	typeof MessageAutoDeleteTimerChangedSchema
+>
+
+/**
+ * ForumTopicCreated object represents a service message about a new forum topic created in the chat
+ */
+export const ForumTopicCreatedSchema = z.object({
+	name: z.string().describe('Name of the topic'),
+	icon_color: z
+		.number()
+		.int()
+		.describe('Color of the topic icon in RGB format'),
+	icon_custom_emoji_id: z
+		.string()
+		.optional()
+		.describe('Unique identifier of the custom emoji shown as the topic icon'),
+})
+
+export type ForumTopicCreated = z.infer<typeof ForumTopicCreatedSchema>
+
+/**
+ * ForumTopicEdited object represents a service message about an edited forum topic
+ */
+export const ForumTopicEditedSchema = z.object({
+	name: z
+		.string()
+		.optional()
+		.describe('New name of the topic, if it was edited'),
+	icon_custom_emoji_id: z
+		.string()
+		.optional()
+		.describe(
+			'New identifier of the custom emoji shown as the topic icon, if it was edited; an empty string if the icon was removed',
+		),
+})
+
+export type ForumTopicEdited = z.infer<typeof ForumTopicEditedSchema>
+
+/**
+ * ForumTopicClosed object represents a service message about a forum topic closed in the chat
+ */
+export const ForumTopicClosedSchema = z.object({})
+
+export type ForumTopicClosed = z.infer<typeof ForumTopicClosedSchema>
+
+/**
+ * ForumTopicReopened object represents a service message about a forum topic reopened in the chat
+ */
+export const ForumTopicReopenedSchema = z.object({})
+
+export type ForumTopicReopened = z.infer<typeof ForumTopicReopenedSchema>
+
+/**
+ * GeneralForumTopicHidden object represents a service message about General forum topic hidden in the chat
+ */
+export const GeneralForumTopicHiddenSchema = z.object({})
+
+export type GeneralForumTopicHidden = z.infer<
+	typeof GeneralForumTopicHiddenSchema
+>
+
+/**
+ * GeneralForumTopicUnhidden object represents a service message about General forum topic unhidden in the chat
+ */
+export const GeneralForumTopicUnhiddenSchema = z.object({})
+
+export type GeneralForumTopicUnhidden = z.infer<
+	typeof GeneralForumTopicUnhiddenSchema
+>
+
+/**
+ * VideoChatScheduled object represents a service message about a video chat scheduled in the chat
+ */
+export const VideoChatScheduledSchema = z.object({
+	start_date: z
+		.number()
+		.int()
+		.describe(
+			'Point in time (Unix timestamp) when the video chat is supposed to be started by a chat administrator',
+		),
+})
+
+export type VideoChatScheduled = z.infer<typeof VideoChatScheduledSchema>
+
+/**
+ * VideoChatStarted object represents a service message about a video chat started in the chat
+ */
+export const VideoChatStartedSchema = z.object({})
+
+export type VideoChatStarted = z.infer<typeof VideoChatStartedSchema>
+
+/**
+ * VideoChatEnded object represents a service message about a video chat ended in the chat
+ */
+export const VideoChatEndedSchema = z.object({
+	duration: z.number().int().describe('Video chat duration in seconds'),
+})
+
+export type VideoChatEnded = z.infer<typeof VideoChatEndedSchema>
+
+/**
+ * VideoChatParticipantsInvited object represents a service message about new members invited to a video chat
+ */
+export const VideoChatParticipantsInvitedSchema = z.object({
+	users: z
+		.array(UserSchema)
+		.describe('New members that were invited to the video chat'),
+})
+
+export type VideoChatParticipantsInvited = z.infer<
+	typeof VideoChatParticipantsInvitedSchema
+>
+
+/**
+ * WebAppData object describes data sent from a Web App to the bot
+ */
+export const WebAppDataSchema = z.object({
+	data: z
+		.string()
+		.describe(
+			'The data. Be aware that a bad client can send arbitrary data in this field',
+		),
+	button_text: z
+		.string()
+		.describe(
+			'Text of the web_app keyboard button from which the Web App was opened',
+		),
+})
+
+export type WebAppData = z.infer<typeof WebAppDataSchema>
+
+/**
+ * ShippingAddress object represents a shipping address
+ */
+export const ShippingAddressSchema = z.object({
+	country_code: z
+		.string()
+		.describe('Two-letter ISO 3166-1 alpha-2 country code'),
+	state: z.string().describe('State, if applicable'),
+	city: z.string().describe('City'),
+	street_line1: z.string().describe('First line for the address'),
+	street_line2: z.string().describe('Second line for the address'),
+	post_code: z.string().describe('Address post code'),
+})
+
+export type ShippingAddress = z.infer<typeof ShippingAddressSchema>
+
+/**
+ * OrderInfo object represents information about an order
+ */
+export const OrderInfoSchema = z.object({
+	name: z.string().optional().describe('User name'),
+	phone_number: z.string().optional().describe("User's phone number"),
+	email: z.string().optional().describe('User email'),
+	shipping_address: ShippingAddressSchema.optional().describe(
+		'User shipping address',
+	),
+})
+
+export type OrderInfo = z.infer<typeof OrderInfoSchema>
+
+/**
+ * Invoice object contains basic information about an invoice
+ */
+export const InvoiceSchema = z.object({
+	title: z.string().describe('Product name'),
+	description: z.string().describe('Product description'),
+	start_parameter: z
+		.string()
+		.describe(
+			'Unique bot deep-linking parameter that can be used to generate this invoice',
+		),
+	currency: z
+		.string()
+		.describe(
+			'Three-letter ISO 4217 currency code, or "XTR" for payments in Telegram Stars',
+		),
+	total_amount: z
+		.number()
+		.int()
+		.describe(
+			'Total price in the smallest units of the currency (integer, not float/double)',
+		),
+})
+
+export type Invoice = z.infer<typeof InvoiceSchema>
+
+/**
+ * SuccessfulPayment object contains basic information about a successful payment
+ */
+export const SuccessfulPaymentSchema = z.object({
+	currency: z
+		.string()
+		.describe(
+			'Three-letter ISO 4217 currency code, or "XTR" for payments in Telegram Stars',
+		),
+	total_amount: z
+		.number()
+		.int()
+		.describe(
+			'Total price in the smallest units of the currency (integer, not float/double)',
+		),
+	invoice_payload: z.string().describe('Bot-specified invoice payload'),
+	subscription_expiration_date: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Expiration date of the subscription, in Unix time; for recurring payments only',
+		),
+	is_recurring: z
+		.literal(true)
+		.optional()
+		.describe('True, if the payment is a recurring payment for a subscription'),
+	is_first_recurring: z
+		.literal(true)
+		.optional()
+		.describe('True, if the payment is the first payment for a subscription'),
+	shipping_option_id: z
+		.string()
+		.optional()
+		.describe('Identifier of the shipping option chosen by the user'),
+	order_info: OrderInfoSchema.optional().describe(
+		'Order information provided by the user',
+	),
+	telegram_payment_charge_id: z
+		.string()
+		.describe('Telegram payment identifier'),
+	provider_payment_charge_id: z
+		.string()
+		.describe('Provider payment identifier'),
+})
+
+export type SuccessfulPayment = z.infer<typeof SuccessfulPaymentSchema>
+
+/**
+ * RefundedPayment object contains basic information about a refunded payment
+ */
+export const RefundedPaymentSchema = z.object({
+	currency: z
+		.literal('XTR')
+		.describe(
+			'Three-letter ISO 4217 currency code, or "XTR" for payments in Telegram Stars. Currently, always "XTR"',
+		),
+	total_amount: z
+		.number()
+		.int()
+		.describe(
+			'Total refunded price in the smallest units of the currency (integer, not float/double)',
+		),
+	invoice_payload: z.string().describe('Bot-specified invoice payload'),
+	telegram_payment_charge_id: z
+		.string()
+		.describe('Telegram payment identifier'),
+	provider_payment_charge_id: z
+		.string()
+		.optional()
+		.describe('Provider payment identifier'),
+})
+
+export type RefundedPayment = z.infer<typeof RefundedPaymentSchema>
+
+/**
+ * MessageOrigin object describes the origin of a forwarded message
+ */
+export const MessageOriginSchema = z.discriminatedUnion('type', [
+	z.object({
+		type: z.literal('user').describe('Type of the message origin'),
+		date: z
+			.number()
+			.int()
+			.describe('Date the message was sent originally in Unix time'),
+		sender_user: UserSchema.describe('User that sent the message originally'),
+	}),
+	z.object({
+		type: z.literal('hidden_user').describe('Type of the message origin'),
+		date: z
+			.number()
+			.int()
+			.describe('Date the message was sent originally in Unix time'),
+		sender_user_name: z
+			.string()
+			.describe('Name of the user that sent the message originally'),
+	}),
+	z.object({
+		type: z.literal('chat').describe('Type of the message origin'),
+		date: z
+			.number()
+			.int()
+			.describe('Date the message was sent originally in Unix time'),
+		sender_chat: ChatSchema.describe('Chat that sent the message originally'),
+		author_signature: z
+			.string()
+			.optional()
+			.describe(
+				'For messages originally sent by an anonymous chat administrator, original message author signature',
+			),
+	}),
+	z.object({
+		type: z.literal('channel').describe('Type of the message origin'),
+		date: z
+			.number()
+			.int()
+			.describe('Date the message was sent originally in Unix time'),
+		chat: ChatSchema.describe(
+			'Channel chat to which the message was originally sent',
+		),
+		message_id: z
+			.number()
+			.int()
+			.describe('Unique message identifier inside the chat'),
+		author_signature: z
+			.string()
+			.optional()
+			.describe('Signature of the original post author'),
+	}),
+])
+
+export type MessageOrigin = z.infer<typeof MessageOriginSchema>
+
+/**
+ * TextQuote object contains information about the quoted part of a message
+ * that is replied to by the given message
+ */
+export const TextQuoteSchema = z.object({
+	text: z
+		.string()
+		.describe(
+			'Text of the quoted part of a message that is replied to by the given message',
+		),
+	entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'Special entities that appear in the quote. Currently, only bold, italic, underline, strikethrough, spoiler, and custom_emoji entities are kept in quotes',
+		),
+	position: z
+		.number()
+		.int()
+		.describe(
+			'Approximate quote position in the original message in UTF-16 code units as specified by the sender',
+		),
+	is_manual: z
+		.literal(true)
+		.optional()
+		.describe(
+			'True, if the quote was chosen manually by the message sender. Otherwise, the quote was added automatically by the server',
+		),
+})
+
+export type TextQuote = z.infer<typeof TextQuoteSchema>
+
+/**
+ * LinkPreviewOptions object describes the options used for link preview generation
+ */
+export const LinkPreviewOptionsSchema = z.object({
+	is_disabled: z
+		.boolean()
+		.optional()
+		.describe('True, if the link preview is disabled'),
+	url: z
+		.string()
+		.optional()
+		.describe(
+			'URL to use for the link preview. If empty, then the first URL found in the message text will be used',
+		),
+	prefer_small_media: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the media in the link preview is supposed to be shrunk',
+		),
+	prefer_large_media: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the media in the link preview is supposed to be enlarged',
+		),
+	show_above_text: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the link preview must be shown above the message text; otherwise, the link preview will be shown below the message text',
+		),
+})
+
+export type LinkPreviewOptions = z.infer<typeof LinkPreviewOptionsSchema>
+
+/**
+ * Story object represents a story
+ */
+export const StorySchema = z.object({
+	chat: ChatSchema.describe('Chat that posted the story'),
+	id: z.number().int().describe('Unique identifier for the story in the chat'),
+})
+
+export type Story = z.infer<typeof StorySchema>
+
+/**
+ * Game object represents a game
+ */
+export const GameSchema = z.object({
+	title: z.string().describe('Title of the game'),
+	description: z.string().describe('Description of the game'),
+	photo: z
+		.array(PhotoSizeSchema)
+		.describe('Photo that will be displayed in the game message in chats'),
+	text: z
+		.string()
+		.optional()
+		.describe(
+			'Brief description of the game or high scores included in the game message',
+		),
+	text_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'Special entities that appear in text, such as usernames, URLs, bot commands, etc.',
+		),
+	animation: AnimationSchema.optional().describe(
+		'Animation that will be displayed in the game message in chats',
+	),
+})
+
+export type Game = z.infer<typeof GameSchema>
+
+/**
+ * PaidMedia object describes paid media
+ */
+export const PaidMediaSchema = z.discriminatedUnion('type', [
+	z.object({
+		type: z.literal('preview').describe('Type of the paid media'),
+		width: z
+			.number()
+			.int()
+			.optional()
+			.describe('Media width as defined by the sender'),
+		height: z
+			.number()
+			.int()
+			.optional()
+			.describe('Media height as defined by the sender'),
+		duration: z
+			.number()
+			.int()
+			.optional()
+			.describe('Duration of the media in seconds as defined by the sender'),
+	}),
+	z.object({
+		type: z.literal('photo').describe('Type of the paid media'),
+		photo: z.array(PhotoSizeSchema).describe('The photo'),
+	}),
+	z.object({
+		type: z.literal('video').describe('Type of the paid media'),
+		video: VideoSchema.describe('The video'),
+	}),
+])
+
+export type PaidMedia = z.infer<typeof PaidMediaSchema>
+
+/**
+ * PaidMediaInfo object describes the paid media added to a message
+ */
+export const PaidMediaInfoSchema = z.object({
+	star_count: z
+		.number()
+		.int()
+		.describe(
+			'The number of Telegram Stars that must be paid to buy access to the media',
+		),
+	paid_media: z
+		.array(PaidMediaSchema)
+		.describe('Information about the paid media'),
+})
+
+export type PaidMediaInfo = z.infer<typeof PaidMediaInfoSchema>
+
+/**
+ * SharedUser object contains information about a user that was shared with
+ * the bot using a KeyboardButtonRequestUsers button
+ */
+export const SharedUserSchema = z.object({
+	user_id: z.number().int().describe('Identifier of the shared user'),
+	first_name: z
+		.string()
+		.optional()
+		.describe('First name of the user, if the name was requested by the bot'),
+	last_name: z
+		.string()
+		.optional()
+		.describe('Last name of the user, if the name was requested by the bot'),
+	username: z
+		.string()
+		.optional()
+		.describe('Username of the user, if the username was requested by the bot'),
+	photo: z
+		.array(PhotoSizeSchema)
+		.optional()
+		.describe(
+			'Available sizes of the chat photo, if the photo was requested by the bot',
+		),
+})
+
+export type SharedUser = z.infer<typeof SharedUserSchema>
+
+/**
+ * UsersShared object contains information about the users whose identifiers
+ * were shared with the bot using a KeyboardButtonRequestUsers button
+ */
+export const UsersSharedSchema = z.object({
+	request_id: z.number().int().describe('Identifier of the request'),
+	users: z
+		.array(SharedUserSchema)
+		.describe('Information about users shared with the bot'),
+})
+
+export type UsersShared = z.infer<typeof UsersSharedSchema>
+
+/**
+ * ChatShared object contains information about a chat that was shared with
+ * the bot using a KeyboardButtonRequestChat button
+ */
+export const ChatSharedSchema = z.object({
+	request_id: z.number().int().describe('Identifier of the request'),
+	chat_id: z.number().int().describe('Identifier of the shared chat'),
+	title: z
+		.string()
+		.optional()
+		.describe('Title of the chat, if the title was requested by the bot'),
+	username: z
+		.string()
+		.optional()
+		.describe(
+			'Username of the chat, if the username was requested by the bot and available',
+		),
+	photo: z
+		.array(PhotoSizeSchema)
+		.optional()
+		.describe(
+			'Available sizes of the chat photo, if the photo was requested by the bot',
+		),
+})
+
+export type ChatShared = z.infer<typeof ChatSharedSchema>
+
+/**
+ * WriteAccessAllowed object represents a service message about a user
+ * allowing a bot to write messages
+ */
+export const WriteAccessAllowedSchema = z.object({
+	from_request: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the access was granted after the user accepted an explicit request from a Web App',
+		),
+	web_app_name: z
+		.string()
+		.optional()
+		.describe(
+			'Name of the Web App, if the access was granted when the Web App was launched from a link',
+		),
+	from_attachment_menu: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the access was granted when the bot was added to the attachment or side menu',
+		),
+})
+
+export type WriteAccessAllowed = z.infer<typeof WriteAccessAllowedSchema>
+
+/**
+ * ChatBoostAdded object represents a service message about a user boosting a chat
+ */
+export const ChatBoostAddedSchema = z.object({
+	boost_count: z.number().int().describe('Number of boosts added by the user'),
+})
+
+export type ChatBoostAdded = z.infer<typeof ChatBoostAddedSchema>
+
+/**
+ * GiveawayCreated object represents a service message about the creation of
+ * a scheduled giveaway
+ */
+export const GiveawayCreatedSchema = z.object({
+	prize_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of Telegram Stars to be split between giveaway winners; for Telegram Star giveaways only',
+		),
+})
+
+export type GiveawayCreated = z.infer<typeof GiveawayCreatedSchema>
+
+/**
+ * Giveaway object represents a message about a scheduled giveaway
+ */
+export const GiveawaySchema = z.object({
+	chats: z
+		.array(ChatSchema)
+		.describe(
+			'The list of chats which the user must join to participate in the giveaway',
+		),
+	winners_selection_date: z
+		.number()
+		.int()
+		.describe(
+			'Point in time (Unix timestamp) when winners of the giveaway will be selected',
+		),
+	winner_count: z
+		.number()
+		.int()
+		.describe(
+			'The number of users which are supposed to be selected as winners of the giveaway',
+		),
+	only_new_members: z
+		.literal(true)
+		.optional()
+		.describe(
+			'True, if only users who join the chats after the giveaway started should be eligible to win',
+		),
+	has_public_winners: z
+		.literal(true)
+		.optional()
+		.describe(
+			'True, if the list of giveaway winners will be visible to everyone',
+		),
+	prize_description: z
+		.string()
+		.optional()
+		.describe('Description of additional giveaway prize'),
+	country_codes: z
+		.array(z.string())
+		.optional()
+		.describe(
+			'Two-letter ISO 3166-1 alpha-2 country codes indicating the countries from which eligible users for the giveaway must come',
+		),
+	prize_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of Telegram Stars to be split between giveaway winners; for Telegram Star giveaways only',
+		),
+	premium_subscription_month_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of months the Telegram Premium subscription won from the giveaway will be active for; for Telegram Premium giveaways only',
+		),
+})
+
+export type Giveaway = z.infer<typeof GiveawaySchema>
+
+/**
+ * GiveawayWinners object represents a message about the completion of a
+ * giveaway with public winners
+ */
+export const GiveawayWinnersSchema = z.object({
+	chat: ChatSchema.describe('The chat that created the giveaway'),
+	giveaway_message_id: z
+		.number()
+		.int()
+		.describe('Identifier of the message with the giveaway in the chat'),
+	winners_selection_date: z
+		.number()
+		.int()
+		.describe(
+			'Point in time (Unix timestamp) when winners of the giveaway were selected',
+		),
+	winner_count: z
+		.number()
+		.int()
+		.describe('Total number of winners in the giveaway'),
+	winners: z
+		.array(UserSchema)
+		.describe('List of up to 100 winners of the giveaway'),
+	additional_chat_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of other chats the user had to join in order to be eligible for the giveaway',
+		),
+	prize_star_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of Telegram Stars that were split between giveaway winners; for Telegram Star giveaways only',
+		),
+	premium_subscription_month_count: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The number of months the Telegram Premium subscription won from the giveaway will be active for; for Telegram Premium giveaways only',
+		),
+	unclaimed_prize_count: z
+		.number()
+		.int()
+		.optional()
+		.describe('Number of undistributed prizes'),
+	only_new_members: z
+		.literal(true)
+		.optional()
+		.describe(
+			'True, if only users who had joined the chats after the giveaway started were eligible to win',
+		),
+	was_refunded: z
+		.literal(true)
+		.optional()
+		.describe(
+			'True, if the giveaway was canceled because the payment for it was refunded',
+		),
+	prize_description: z
+		.string()
+		.optional()
+		.describe('Description of additional giveaway prize'),
+})
+
+export type GiveawayWinners = z.infer<typeof GiveawayWinnersSchema>
+
+/**
+ * GiveawayCompleted object represents a service message about the
+ * completion of a giveaway without public winners
+ */
+export const GiveawayCompletedSchema = z.object({
+	winner_count: z.number().int().describe('Number of winners in the giveaway'),
+	unclaimed_prize_count: z
+		.number()
+		.int()
+		.optional()
+		.describe('Number of undistributed prizes'),
+	giveaway_message: z
+		.lazy((): z.ZodType<Message> => MessageSchema)
+		.optional()
+		.describe(
+			"Message with the giveaway that was completed, if it wasn't deleted",
+		),
+	is_star_giveaway: z
+		.literal(true)
+		.optional()
+		.describe(
+			'True, if the giveaway is a Telegram Star giveaway. Otherwise, currently, the giveaway is a Telegram Premium giveaway',
+		),
+})
+
+export type GiveawayCompleted = z.infer<typeof GiveawayCompletedSchema>
+
+/**
+ * ExternalReplyInfo object contains information about a message that is
+ * being replied to, which may come from another chat or forum topic
+ */
+export const ExternalReplyInfoSchema = z.object({
+	origin: MessageOriginSchema.describe('Origin of the message replied to'),
+	chat: ChatSchema.optional().describe(
+		'Chat the original message belongs to. Available only if the chat is a supergroup or a channel',
+	),
+	message_id: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Unique message identifier inside the original chat. Available only if the original chat is a supergroup or a channel',
+		),
+	link_preview_options: LinkPreviewOptionsSchema.optional().describe(
+		'Options used for link preview generation for the original message, if it is a text message',
+	),
+	animation: AnimationSchema.optional().describe(
+		'Message is an animation, information about the animation',
+	),
+	audio: AudioSchema.optional().describe(
+		'Message is an audio file, information about the file',
+	),
+	document: DocumentSchema.optional().describe(
+		'Message is a general file, information about the file',
+	),
+	paid_media: PaidMediaInfoSchema.optional().describe(
+		'Message contains paid media; information about the paid media',
+	),
+	photo: z
+		.array(PhotoSizeSchema)
+		.optional()
+		.describe('Message is a photo, available sizes of the photo'),
+	sticker: StickerSchema.optional().describe(
+		'Message is a sticker, information about the sticker',
+	),
+	story: StorySchema.optional().describe('Message is a forwarded story'),
+	video: VideoSchema.optional().describe(
+		'Message is a video, information about the video',
+	),
+	video_note: VideoNoteSchema.optional().describe(
+		'Message is a video note, information about the video message',
+	),
+	voice: VoiceSchema.optional().describe(
+		'Message is a voice message, information about the file',
+	),
+	has_media_spoiler: z
+		.boolean()
+		.optional()
+		.describe('True, if the message media is covered by a spoiler animation'),
+	contact: ContactSchema.optional().describe(
+		'Message is a shared contact, information about the contact',
+	),
+	dice: DiceSchema.optional().describe('Message is a dice with random value'),
+	game: GameSchema.optional().describe(
+		'Message is a game, information about the game',
+	),
+	giveaway: GiveawaySchema.optional().describe(
+		'Message is a scheduled giveaway, information about the giveaway',
+	),
+	giveaway_winners: GiveawayWinnersSchema.optional().describe(
+		'A giveaway with public winners was completed',
+	),
+	invoice: InvoiceSchema.optional().describe(
+		'Message is an invoice for a payment, information about the invoice',
+	),
+	location: LocationSchema.optional().describe(
+		'Message is a shared location, information about the location',
+	),
+	poll: PollSchema.optional().describe(
+		'Message is a native poll, information about the poll',
+	),
+	venue: VenueSchema.optional().describe(
+		'Message is a venue, information about the venue',
+	),
+})
+
+export type ExternalReplyInfo = z.infer<typeof ExternalReplyInfoSchema>
+
 /**
  * Message object represents a message
  */
-export interface Message {
-	message_id: number
-	message_thread_id?: number
-	from?: User
-	sender_chat?: Chat
-	date: number
-	chat: Chat
-	forward_from?: User
-	forward_from_chat?: Chat
-	forward_from_message_id?: number
-	forward_signature?: string
-	forward_sender_name?: string
-	forward_date?: number
-	is_topic_message?: boolean
-	is_automatic_forward?: boolean
-	reply_to_message?: Message
-	via_bot?: User
-	edit_date?: number
-	has_protected_content?: boolean
-	media_group_id?: string
-	author_signature?: string
-	text?: string
-	entities?: MessageEntity[]
-	caption?: string
-	caption_entities?: MessageEntity[]
-	photo?: PhotoSize[]
-	location?: Location
-	reply_markup?: z.infer<typeof InlineKeyboardMarkupSchema>
-}
+export interface Message {
+	message_id: number
+	message_thread_id?: number
+	from?: User
+	sender_chat?: Chat
+	date: number
+	business_connection_id?: string
+	chat: Chat
+	forward_from?: User
+	forward_from_chat?: Chat
+	forward_from_message_id?: number
+	forward_signature?: string
+	forward_sender_name?: string
+	forward_date?: number
+	forward_origin?: MessageOrigin
+	is_topic_message?: boolean
+	is_automatic_forward?: boolean
+	reply_to_message?: Message
+	external_reply?: ExternalReplyInfo
+	quote?: TextQuote
+	via_bot?: User
+	edit_date?: number
+	has_protected_content?: boolean
+	media_group_id?: string
+	author_signature?: string
+	text?: string
+	entities?: MessageEntity[]
+	link_preview_options?: LinkPreviewOptions
+	caption?: string
+	caption_entities?: MessageEntity[]
+	photo?: PhotoSize[]
+	animation?: Animation
+	audio?: Audio
+	document?: Document
+	paid_media?: PaidMediaInfo
+	sticker?: Sticker
+	story?: Story
+	video?: Video
+	video_note?: VideoNote
+	voice?: Voice
+	show_caption_above_media?: boolean
+	has_media_spoiler?: boolean
+	contact?: Contact
+	dice?: Dice
+	game?: Game
+	poll?: Poll
+	venue?: Venue
+	location?: Location
+	new_chat_members?: User[]
+	left_chat_member?: User
+	new_chat_title?: string
+	new_chat_photo?: PhotoSize[]
+	delete_chat_photo?: true
+	group_chat_created?: true
+	supergroup_chat_created?: true
+	channel_chat_created?: true
+	message_auto_delete_timer_changed?: MessageAutoDeleteTimerChanged
+	migrate_to_chat_id?: number
+	migrate_from_chat_id?: number
+	pinned_message?: Message
+	forum_topic_created?: ForumTopicCreated
+	forum_topic_edited?: ForumTopicEdited
+	forum_topic_closed?: ForumTopicClosed
+	forum_topic_reopened?: ForumTopicReopened
+	general_forum_topic_hidden?: GeneralForumTopicHidden
+	general_forum_topic_unhidden?: GeneralForumTopicUnhidden
+	giveaway_created?: GiveawayCreated
+	giveaway?: Giveaway
+	giveaway_winners?: GiveawayWinners
+	giveaway_completed?: GiveawayCompleted
+	video_chat_scheduled?: VideoChatScheduled
+	video_chat_started?: VideoChatStarted
+	video_chat_ended?: VideoChatEnded
+	video_chat_participants_invited?: VideoChatParticipantsInvited
+	web_app_data?: WebAppData
+	invoice?: Invoice
+	successful_payment?: SuccessfulPayment
+	refunded_payment?: RefundedPayment
+	users_shared?: UsersShared
+	chat_shared?: ChatShared
+	write_access_allowed?: WriteAccessAllowed
+	boost_added?: ChatBoostAdded
+	reply_markup?: z.infer<typeof InlineKeyboardMarkupSchema>
+}
+
+export const MessageSchema: z.ZodType<Message> = z.object({
+	message_id: z
+		.number()
+		.int()
+		.describe('Unique message identifier inside this chat'),
+	message_thread_id: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'Unique identifier of a message thread to which the message belongs; for supergroups only',
+		),
+	from: UserSchema.optional().describe(
+		'Sender of the message; empty for messages sent to channels',
+	),
+	sender_chat: ChatSchema.optional().describe(
+		'Sender of the message, sent on behalf of a chat',
+	),
+	date: z.number().int().describe('Date the message was sent in Unix time'),
+	business_connection_id: z
+		.string()
+		.optional()
+		.describe(
+			'Unique identifier of the business connection from which the message was received',
+		),
+	chat: ChatSchema.describe('Conversation the message belongs to'),
+	forward_from: UserSchema.optional().describe(
+		'For forwarded messages, sender of the original message',
+	),
+	forward_from_chat: ChatSchema.optional().describe(
+		'For messages forwarded from channels or from anonymous administrators, information about the original sender chat',
+	),
+	forward_from_message_id: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'For messages forwarded from channels, identifier of the original message in the channel',
+		),
+	forward_signature: z
+		.string()
+		.optional()
+		.describe(
+			'For forwarded messages that were originally sent in channels or by an anonymous chat administrator, signature of the message sender if present',
+		),
+	forward_sender_name: z
+		.string()
+		.optional()
+		.describe(
+			"Sender's name for messages forwarded from users who disallow adding a link to their account in forwarded messages",
+		),
+	forward_date: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'For forwarded messages, date the original message was sent in Unix time',
+		),
+	forward_origin: MessageOriginSchema.optional().describe(
+		'Information about the original message for forwarded messages',
+	),
+	is_topic_message: z
+		.boolean()
+		.optional()
+		.describe('True, if the message is sent to a forum topic'),
+	is_automatic_forward: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the message is a channel post that was automatically forwarded to the connected discussion group',
+		),
+	reply_to_message: z
+		.lazy((): z.ZodType<Message> => MessageSchema)
+		.optional()
+		.describe('For replies, the original message'),
+	external_reply: ExternalReplyInfoSchema.optional().describe(
+		'Information about the message that is being replied to, which may come from another chat or forum topic',
+	),
+	quote: TextQuoteSchema.optional().describe(
+		'For replies that quote part of the original message, the quoted part of the message',
+	),
+	via_bot: UserSchema.optional().describe(
+		'Bot through which the message was sent',
+	),
+	edit_date: z
+		.number()
+		.int()
+		.optional()
+		.describe('Date the message was last edited in Unix time'),
+	has_protected_content: z
+		.boolean()
+		.optional()
+		.describe("True, if the message can't be forwarded"),
+	media_group_id: z
+		.string()
+		.optional()
+		.describe(
+			'The unique identifier of a media message group this message belongs to',
+		),
+	author_signature: z
+		.string()
+		.optional()
+		.describe(
+			'Signature of the post author for messages in channels, or the custom title of an anonymous group administrator',
+		),
+	text: z
+		.string()
+		.optional()
+		.describe('For text messages, the actual UTF-8 text of the message'),
+	entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'For text messages, special entities like usernames, URLs, bot commands, etc. that appear in the text',
+		),
+	link_preview_options: LinkPreviewOptionsSchema.optional().describe(
+		'Options used for link preview generation for the message, if it is a text message and link preview options were changed',
+	),
+	caption: z
+		.string()
+		.optional()
+		.describe(
+			'Caption for the animation, audio, document, photo, video or voice',
+		),
+	caption_entities: z
+		.array(MessageEntitySchema)
+		.optional()
+		.describe(
+			'For messages with a caption, special entities like usernames, URLs, bot commands, etc. that appear in the caption',
+		),
+	photo: z
+		.array(PhotoSizeSchema)
+		.optional()
+		.describe('Message is a photo, available sizes of the photo'),
+	animation: AnimationSchema.optional().describe(
+		'Message is an animation, information about the animation',
+	),
+	audio: AudioSchema.optional().describe(
+		'Message is an audio file, information about the file',
+	),
+	document: DocumentSchema.optional().describe(
+		'Message is a general file, information about the file',
+	),
+	paid_media: PaidMediaInfoSchema.optional().describe(
+		'Message contains paid media; information about the paid media',
+	),
+	sticker: StickerSchema.optional().describe(
+		'Message is a sticker, information about the sticker',
+	),
+	story: StorySchema.optional().describe('Message is a forwarded story'),
+	video: VideoSchema.optional().describe(
+		'Message is a video, information about the video',
+	),
+	video_note: VideoNoteSchema.optional().describe(
+		'Message is a video note, information about the video message',
+	),
+	voice: VoiceSchema.optional().describe(
+		'Message is a voice message, information about the file',
+	),
+	show_caption_above_media: z
+		.boolean()
+		.optional()
+		.describe('True, if the caption must be shown above the message media'),
+	has_media_spoiler: z
+		.boolean()
+		.optional()
+		.describe('True, if the message media is covered by a spoiler animation'),
+	contact: ContactSchema.optional().describe(
+		'Message is a shared contact, information about the contact',
+	),
+	dice: DiceSchema.optional().describe('Message is a dice with random value'),
+	game: GameSchema.optional().describe(
+		'Message is a game, information about the game',
+	),
+	poll: PollSchema.optional().describe(
+		'Message is a native poll, information about the poll',
+	),
+	venue: VenueSchema.optional().describe(
+		'Message is a venue, information about the venue',
+	),
+	location: LocationSchema.optional().describe(
+		'Message is a shared location, information about the location',
+	),
+	new_chat_members: z
+		.array(UserSchema)
+		.optional()
+		.describe(
+			'New members that were added to the group or supergroup and information about them (the bot itself may be one of these members)',
+		),
+	left_chat_member: UserSchema.optional().describe(
+		'A member was removed from the group, information about them (this member may be the bot itself)',
+	),
+	new_chat_title: z
+		.string()
+		.optional()
+		.describe('A chat title was changed to this value'),
+	new_chat_photo: z
+		.array(PhotoSizeSchema)
+		.optional()
+		.describe('A chat photo was change to this value'),
+	delete_chat_photo: z
+		.literal(true)
+		.optional()
+		.describe('Service message: the chat photo was deleted'),
+	group_chat_created: z
+		.literal(true)
+		.optional()
+		.describe('Service message: the group has been created'),
+	supergroup_chat_created: z
+		.literal(true)
+		.optional()
+		.describe('Service message: the supergroup has been created'),
+	channel_chat_created: z
+		.literal(true)
+		.optional()
+		.describe('Service message: the channel has been created'),
+	message_auto_delete_timer_changed:
+		MessageAutoDeleteTimerChangedSchema.optional().describe(
+			'Service message: auto-delete timer settings changed in the chat',
+		),
+	migrate_to_chat_id: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The group has been migrated to a supergroup with the specified identifier',
+		),
+	migrate_from_chat_id: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			'The supergroup has been migrated from a group with the specified identifier',
+		),
+	pinned_message: z
+		.lazy((): z.ZodType<Message> => MessageSchema)
+		.optional()
+		.describe(
+			'Specified message was pinned. Inaccessible messages only have chat, message_id and a date of 0',
+		),
+	forum_topic_created: ForumTopicCreatedSchema.optional().describe(
+		'Service message: forum topic created',
+	),
+	forum_topic_edited: ForumTopicEditedSchema.optional().describe(
+		'Service message: forum topic edited',
+	),
+	forum_topic_closed: ForumTopicClosedSchema.optional().describe(
+		'Service message: forum topic closed',
+	),
+	forum_topic_reopened: ForumTopicReopenedSchema.optional().describe(
+		'Service message: forum topic reopened',
+	),
+	general_forum_topic_hidden: GeneralForumTopicHiddenSchema.optional().describe(
+		'Service message: the General forum topic hidden',
+	),
+	general_forum_topic_unhidden:
+		GeneralForumTopicUnhiddenSchema.optional().describe(
+			'Service message: the General forum topic unhidden',
+		),
+	giveaway_created: GiveawayCreatedSchema.optional().describe(
+		'Service message: a scheduled giveaway was created',
+	),
+	giveaway: GiveawaySchema.optional().describe(
+		'The message is a scheduled giveaway message',
+	),
+	giveaway_winners: GiveawayWinnersSchema.optional().describe(
+		'A giveaway with public winners was completed',
+	),
+	giveaway_completed: GiveawayCompletedSchema.optional().describe(
+		'Service message: a giveaway without public winners was completed',
+	),
+	video_chat_scheduled: VideoChatScheduledSchema.optional().describe(
+		'Service message: video chat scheduled',
+	),
+	video_chat_started: VideoChatStartedSchema.optional().describe(
+		'Service message: video chat started',
+	),
+	video_chat_ended: VideoChatEndedSchema.optional().describe(
+		'Service message: video chat ended',
+	),
+	video_chat_participants_invited:
+		VideoChatParticipantsInvitedSchema.optional().describe(
+			'Service message: new participants invited to a video chat',
+		),
+	web_app_data: WebAppDataSchema.optional().describe(
+		'Service message: data sent by a Web App',
+	),
+	invoice: InvoiceSchema.optional().describe(
+		'Message is an invoice for a payment, information about the invoice',
+	),
+	successful_payment: SuccessfulPaymentSchema.optional().describe(
+		'Message is a service message about a successful payment, information about the payment',
+	),
+	refunded_payment: RefundedPaymentSchema.optional().describe(
+		'Message is a service message about a refunded payment, information about the payment',
+	),
+	users_shared: UsersSharedSchema.optional().describe(
+		'Service message: users were shared with the bot',
+	),
+	chat_shared: ChatSharedSchema.optional().describe(
+		'Service message: a chat was shared with the bot',
+	),
+	write_access_allowed: WriteAccessAllowedSchema.optional().describe(
+		'Service message: the user allowed the bot to write messages after adding it to the attachment or side menu, launching a Web App from a link, or accepting an explicit request from a Web App sent by the method requestWriteAccess',
+	),
+	boost_added: ChatBoostAddedSchema.optional().describe(
+		'Service message: user boosted the chat',
+	),
+	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
+		'Inline keyboard attached to the message',
+	),
+})
+
+/**
+ * CallbackQuery object represents an incoming callback query from a callback button
+ */
+export const CallbackQuerySchema = z.object({
+	id: z.string().describe('Unique identifier for this query'),
+	from: UserSchema.describe('Sender'),
+	message: MessageSchema.optional().describe(
+		'Message with the callback button that originated the query',
+	),
+	inline_message_id: z
+		.string()
+		.optional()
+		.describe(
+			'Identifier of the message sent via the bot in inline mode, that originated the query',
+		),
+	chat_instance: z
+		.string()
+		.describe(
+			'Global identifier, uniquely corresponding to the chat to which the message with the callback button was sent',
+		),
+	data: z
+		.string()
+		.optional()
+		.describe('Data associated with the callback button'),
+	game_short_name: z
+		.string()
+		.optional()
+		.describe(
+			'Short name of a Game to be returned, serves as the unique identifier for the game',
+		),
+})
 
-export const MessageSchema: z.ZodType<Message> = z.object({
-	message_id: z
+export type CallbackQuery = z.infer<typeof CallbackQuerySchema>
+
+/**
+ * InlineQuery object represents an incoming inline query
+ */
+export const InlineQuerySchema = z.object({
+	id: z.string().describe('Unique identifier for this query'),
+	from: UserSchema.describe('Sender'),
+	query: z.string().describe('Text of the query (up to 256 characters)'),
+	offset: z
+		.string()
+		.describe(
+			'Offset of the results to be returned, can be controlled by the bot',
+		),
+	chat_type: z
+		.enum(['sender', 'private', 'group', 'supergroup', 'channel'])
+		.optional()
+		.describe('Type of the chat from which the inline query was sent'),
+	location: LocationSchema.optional().describe(
+		'Sender location, only for bots that request user location',
+	),
+})
+
+export type InlineQuery = z.infer<typeof InlineQuerySchema>
+
+/**
+ * ChosenInlineResult object represents a result of an inline query that was chosen by the user and sent to their chat partner
+ */
+export const ChosenInlineResultSchema = z.object({
+	result_id: z
+		.string()
+		.describe('The unique identifier for the result that was chosen'),
+	from: UserSchema.describe('The user that chose the result'),
+	location: LocationSchema.optional().describe(
+		'Sender location, only for bots that require user location',
+	),
+	inline_message_id: z
+		.string()
+		.optional()
+		.describe(
+			'Identifier of the sent inline message. Available only if there is an inline keyboard attached to the message',
+		),
+	query: z.string().describe('The query that was used to obtain the result'),
+})
+
+export type ChosenInlineResult = z.infer<typeof ChosenInlineResultSchema>
+
+/**
+ * ShippingQuery object contains information about an incoming shipping query
+ */
+export const ShippingQuerySchema = z.object({
+	id: z.string().describe('Unique query identifier'),
+	from: UserSchema.describe('User who sent the query'),
+	invoice_payload: z.string().describe('Bot-specified invoice payload'),
+	shipping_address: ShippingAddressSchema.describe(
+		'User specified shipping address',
+	),
+})
+
+export type ShippingQuery = z.infer<typeof ShippingQuerySchema>
+
+/**
+ * PreCheckoutQuery object contains information about an incoming pre-checkout query
+ */
+export const PreCheckoutQuerySchema = z.object({
+	id: z.string().describe('Unique query identifier'),
+	from: UserSchema.describe('User who sent the query'),
+	currency: z
+		.string()
+		.describe(
+			'Three-letter ISO 4217 currency code, or "XTR" for payments in Telegram Stars',
+		),
+	total_amount: z
 		.number()
 		.int()
-		.describe('Unique message identifier inside this chat'),
-	message_thread_id: z
+		.describe(
+			'Total price in the smallest units of the currency (integer, not float/double)',
+		),
+	invoice_payload: z.string().describe('Bot-specified invoice payload'),
+	shipping_option_id: z
+		.string()
+		.optional()
+		.describe('Identifier of the shipping option chosen by the user'),
+	order_info: OrderInfoSchema.optional().describe(
+		'Order information provided by the user',
+	),
+})
+
+export type PreCheckoutQuery = z.infer<typeof PreCheckoutQuerySchema>
+
+/**
+ * PaidMediaPurchased object contains information about a paid media purchase
+ */
+export const PaidMediaPurchasedSchema = z.object({
+	from: UserSchema.describe('User who purchased the media'),
+	paid_media_payload: z.string().describe('Bot-specified paid media payload'),
+})
+
+export type PaidMediaPurchased = z.infer<typeof PaidMediaPurchasedSchema>
+
+/**
+ * PollAnswer object represents an answer of a user in a non-anonymous poll
+ */
+export const PollAnswerSchema = z.object({
+	poll_id: z.string().describe('Unique poll identifier'),
+	voter_chat: ChatSchema.optional().describe(
+		'The chat that changed the answer to the poll, if the voter is anonymous',
+	),
+	user: UserSchema.optional().describe(
+		"The user that changed the answer to the poll, if the voter isn't anonymous",
+	),
+	option_ids: z
+		.array(z.number().int())
+		.describe(
+			'0-based identifiers of chosen answer options. May be empty if the vote was retracted',
+		),
+})
+
+export type PollAnswer = z.infer<typeof PollAnswerSchema>
+
+/**
+ * ChatMemberOwner object represents a chat member that owns the chat and has all administrator privileges
+ */
+export const ChatMemberOwnerSchema = z.object({
+	status: z.literal('creator').describe("The member's status in the chat"),
+	user: UserSchema.describe('Information about the user'),
+	is_anonymous: z
+		.boolean()
+		.describe("True, if the user's presence in the chat is hidden"),
+	custom_title: z.string().optional().describe('Custom title for this user'),
+})
+
+/**
+ * ChatMemberAdministrator object represents a chat member that has some additional privileges
+ */
+export const ChatMemberAdministratorSchema = z.object({
+	status: z
+		.literal('administrator')
+		.describe("The member's status in the chat"),
+	user: UserSchema.describe('Information about the user'),
+	can_be_edited: z
+		.boolean()
+		.describe(
+			'True, if the bot is allowed to edit administrator privileges of that user',
+		),
+	is_anonymous: z
+		.boolean()
+		.describe("True, if the user's presence in the chat is hidden"),
+	can_manage_chat: z
+		.boolean()
+		.describe(
+			'True, if the administrator can access the chat event log, get boost list, see hidden supergroup and channel members, report spam messages and ignore slow mode',
+		),
+	can_delete_messages: z
+		.boolean()
+		.describe('True, if the administrator can delete messages of other users'),
+	can_manage_video_chats: z
+		.boolean()
+		.describe('True, if the administrator can manage video chats'),
+	can_restrict_members: z
+		.boolean()
+		.describe(
+			'True, if the administrator can restrict, ban or unban chat members',
+		),
+	can_promote_members: z
+		.boolean()
+		.describe('True, if the administrator can add new administrators'),
+	can_change_info: z
+		.boolean()
+		.describe(
+			'True, if the user is allowed to change the chat title, photo and other settings',
+		),
+	can_invite_users: z
+		.boolean()
+		.describe('True, if the user is allowed to invite new users to the chat'),
+	can_post_stories: z
+		.boolean()
+		.optional()
+		.describe('True, if the administrator can post stories to the chat'),
+	can_edit_stories: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the administrator can edit stories posted by other users',
+		),
+	can_delete_stories: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the administrator can delete stories posted by other users',
+		),
+	can_post_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the administrator can post messages in the channel; for channels only',
+		),
+	can_edit_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the administrator can edit messages of other users and can pin messages; for channels only',
+		),
+	can_pin_messages: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the user is allowed to pin messages; for groups and supergroups only',
+		),
+	can_manage_topics: z
+		.boolean()
+		.optional()
+		.describe(
+			'True, if the user is allowed to create, rename, close, and reopen forum topics; for supergroups only',
+		),
+	custom_title: z.string().optional().describe('Custom title for this user'),
+})
+
+/**
+ * ChatMemberMember object represents a chat member that has no additional privileges or restrictions
+ */
+export const ChatMemberMemberSchema = z.object({
+	status: z.literal('member').describe("The member's status in the chat"),
+	user: UserSchema.describe('Information about the user'),
+	until_date: z
+		.number()
+		.int()
+		.optional()
+		.describe("Date when the user's subscription will expire; Unix time"),
+})
+
+/**
+ * ChatMemberRestricted object represents a chat member that is under certain restrictions in the chat. Supergroups only
+ */
+export const ChatMemberRestrictedSchema = z.object({
+	status: z.literal('restricted').describe("The member's status in the chat"),
+	user: UserSchema.describe('Information about the user'),
+	is_member: z
+		.boolean()
+		.describe(
+			'True, if the user is a member of the chat at the moment of the request',
+		),
+	can_send_messages: z
+		.boolean()
+		.describe(
+			'True, if the user is allowed to send text messages, contacts, giveaways, giveaway winners, invoices, locations and venues',
+		),
+	can_send_audios: z
+		.boolean()
+		.describe('True, if the user is allowed to send audios'),
+	can_send_documents: z
+		.boolean()
+		.describe('True, if the user is allowed to send documents'),
+	can_send_photos: z
+		.boolean()
+		.describe('True, if the user is allowed to send photos'),
+	can_send_videos: z
+		.boolean()
+		.describe('True, if the user is allowed to send videos'),
+	can_send_video_notes: z
+		.boolean()
+		.describe('True, if the user is allowed to send video notes'),
+	can_send_voice_notes: z
+		.boolean()
+		.describe('True, if the user is allowed to send voice notes'),
+	can_send_polls: z
+		.boolean()
+		.describe('True, if the user is allowed to send polls'),
+	can_send_other_messages: z
+		.boolean()
+		.describe(
+			'True, if the user is allowed to send animations, games, stickers and use inline bots',
+		),
+	can_add_web_page_previews: z
+		.boolean()
+		.describe(
+			'True, if the user is allowed to add web page previews to their messages',
+		),
+	can_change_info: z
+		.boolean()
+		.describe(
+			'True, if the user is allowed to change the chat title, photo and other settings',
+		),
+	can_invite_users: z
+		.boolean()
+		.describe('True, if the user is allowed to invite new users to the chat'),
+	can_pin_messages: z
+		.boolean()
+		.describe('True, if the user is allowed to pin messages'),
+	can_manage_topics: z
+		.boolean()
+		.describe('True, if the user is allowed to create forum topics'),
+	until_date: z
 		.number()
 		.int()
-		.optional()
 		.describe(
-			'Unique identifier of a message thread to which the message belongs; for supergroups only',
+			'Date when restrictions will be lifted for this user; Unix time. If 0, then the user is restricted forever',
 		),
-	from: UserSchema.optional().describe(
-		'Sender of the message; empty for messages sent to channels',
-	),
-	sender_chat: ChatSchema.optional().describe(
-		'Sender of the message, sent on behalf of a chat',
-	),
-	date: z.number().int().describe('Date the message was sent in Unix time'),
-	chat: ChatSchema.describe('Conversation the message belongs to'),
-	forward_from: UserSchema.optional().describe(
-		'For forwarded messages, sender of the original message',
-	),
-	forward_from_chat: ChatSchema.optional().describe(
-		'For messages forwarded from channels or from anonymous administrators, information about the original sender chat',
-	),
-	forward_from_message_id: z
+})
+
+/**
+ * ChatMemberLeft object represents a chat member that isn't currently a member of the chat, but may join it themselves
+ */
+export const ChatMemberLeftSchema = z.object({
+	status: z.literal('left').describe("The member's status in the chat"),
+	user: UserSchema.describe('Information about the user'),
+})
+
+/**
+ * ChatMemberBanned object represents a chat member that was banned in the chat and can't return to the chat or view chat messages
+ */
+export const ChatMemberBannedSchema = z.object({
+	status: z.literal('kicked').describe("The member's status in the chat"),
+	user: UserSchema.describe('Information about the user'),
+	until_date: z
 		.number()
 		.int()
-		.optional()
 		.describe(
-			'For messages forwarded from channels, identifier of the original message in the channel',
+			'Date when restrictions will be lifted for this user; Unix time. If 0, then the user is banned forever',
 		),
-	forward_signature: z
+})
+
+/**
+ * ChatMember object contains information about one member of a chat
+ */
+export const ChatMemberSchema = z.discriminatedUnion('status', [
+	ChatMemberOwnerSchema,
+	ChatMemberAdministratorSchema,
+	ChatMemberMemberSchema,
+	ChatMemberRestrictedSchema,
+	ChatMemberLeftSchema,
+	ChatMemberBannedSchema,
+])
+
+export type ChatMember = z.infer<typeof ChatMemberSchema>
+
+/**
+ * ChatInviteLink object represents an invite link for a chat
+ */
+export const ChatInviteLinkSchema = z.object({
+	invite_link: z
 		.string()
-		.optional()
 		.describe(
-			'For forwarded messages that were originally sent in channels or by an anonymous chat administrator, signature of the message sender if present',
+			'The invite link. If the link was created by another chat administrator, then the second part of the link will be replaced with "…"',
 		),
-	forward_sender_name: z
-		.string()
-		.optional()
+	creator: UserSchema.describe('Creator of the link'),
+	creates_join_request: z
+		.boolean()
 		.describe(
-			"Sender's name for messages forwarded from users who disallow adding a link to their account in forwarded messages",
+			'True, if users joining the chat via the link need to be approved by chat administrators',
 		),
-	forward_date: z
+	is_primary: z.boolean().describe('True, if the link is primary'),
+	is_revoked: z.boolean().describe('True, if the link is revoked'),
+	name: z.string().optional().describe('Invite link name'),
+	expire_date: z
 		.number()
 		.int()
 		.optional()
 		.describe(
-			'For forwarded messages, date the original message was sent in Unix time',
+			'Point in time (Unix timestamp) when the link will expire or has been expired',
 		),
-	is_topic_message: z
-		.boolean()
-		.optional()
-		.describe('True, if the message is sent to a forum topic'),
-	is_automatic_forward: z
-		.boolean()
+	member_limit: z
+		.number()
+		.int()
 		.optional()
 		.describe(
-			'True, if the message is a channel post that was automatically forwarded to the connected discussion group',
+			'The maximum number of users that can be members of the chat simultaneously after joining the chat via this invite link; 1-99999',
 		),
-	reply_to_message: z
-		.lazy((): z.ZodType<Message> => MessageSchema)
-		.optional()
-		.describe('For replies, the original message'),
-	via_bot: UserSchema.optional().describe(
-		'Bot through which the message was sent',
-	),
-	edit_date: z
+	pending_join_request_count: z
 		.number()
 		.int()
 		.optional()
-		.describe('Date the message was last edited in Unix time'),
-	has_protected_content: z
-		.boolean()
-		.optional()
-		.describe("True, if the message can't be forwarded"),
-	media_group_id: z
-		.string()
+		.describe('Number of pending join requests created using this link'),
+	subscription_period: z
+		.number()
+		.int()
 		.optional()
 		.describe(
-			'The unique identifier of a media message group this message belongs to',
+			'The number of seconds the subscription will be active for before the next payment',
 		),
-	author_signature: z
-		.string()
+	subscription_price: z
+		.number()
+		.int()
 		.optional()
 		.describe(
-			'Signature of the post author for messages in channels, or the custom title of an anonymous group administrator',
+			'The amount of Telegram Stars a user must pay initially and after each subsequent subscription period',
 		),
-	text: z
-		.string()
-		.optional()
-		.describe('For text messages, the actual UTF-8 text of the message'),
-	entities: z
-		.array(MessageEntitySchema)
+})
+
+export type ChatInviteLink = z.infer<typeof ChatInviteLinkSchema>
+
+/**
+ * ChatMemberUpdated object represents changes in the status of a chat member
+ */
+export const ChatMemberUpdatedSchema = z.object({
+	chat: ChatSchema.describe('Chat the user belongs to'),
+	from: UserSchema.describe(
+		'Performer of the action, which resulted in the change',
+	),
+	date: z.number().int().describe('Date the change was done in Unix time'),
+	old_chat_member: ChatMemberSchema.describe(
+		'Previous information about the chat member',
+	),
+	new_chat_member: ChatMemberSchema.describe(
+		'New information about the chat member',
+	),
+	invite_link: ChatInviteLinkSchema.optional().describe(
+		'Chat invite link, which was used by the user to join the chat; for joining by invite link events only',
+	),
+	via_join_request: z
+		.boolean()
 		.optional()
 		.describe(
-			'For text messages, special entities like usernames, URLs, bot commands, etc. that appear in the text',
+			'True, if the user joined the chat after sending a direct join request without using an invite link and being approved by an administrator',
 		),
-	caption: z
-		.string()
+	via_chat_folder_invite_link: z
+		.boolean()
 		.optional()
 		.describe(
-			'Caption for the animation, audio, document, photo, video or voice',
+			'True, if the user joined the chat via a chat folder invite link',
 		),
-	caption_entities: z
-		.array(MessageEntitySchema)
-		.optional()
+})
+
+export type ChatMemberUpdated = z.infer<typeof ChatMemberUpdatedSchema>
+
+/**
+ * ChatJoinRequest object represents a join request sent to a chat
+ */
+export const ChatJoinRequestSchema = z.object({
+	chat: ChatSchema.describe('Chat to which the request was sent'),
+	from: UserSchema.describe('User that sent the join request'),
+	user_chat_id: z
+		.number()
+		.int()
 		.describe(
-			'For messages with a caption, special entities like usernames, URLs, bot commands, etc. that appear in the caption',
+			'Identifier of a private chat with the user who sent the join request',
 		),
-	photo: z
-		.array(PhotoSizeSchema)
-		.optional()
-		.describe('Message is a photo, available sizes of the photo'),
-	location: LocationSchema.optional().describe(
-		'Message is a shared location, information about the location',
-	),
-	reply_markup: InlineKeyboardMarkupSchema.optional().describe(
-		'Inline keyboard attached to the message',
+	date: z.number().int().describe('Date the request was sent in Unix time'),
+	bio: z.string().optional().describe('Bio of the user'),
+	invite_link: ChatInviteLinkSchema.optional().describe(
+		'Chat invite link that was used by the user to send the join request',
 	),
 })
 
+export type ChatJoinRequest = z.infer<typeof ChatJoinRequestSchema>
+
 /**
- * CallbackQuery object represents an incoming callback query from a callback button
+ * ReactionType object describes the type of a reaction
  */
-export const CallbackQuerySchema = z.object({
-	id: z.string().describe('Unique identifier for this query'),
-	from: UserSchema.describe('Sender'),
-	message: MessageSchema.optional().describe(
-		'Message with the callback button that originated the query',
+export const ReactionTypeSchema = z.discriminatedUnion('type', [
+	z.object({
+		type: z.literal('emoji').describe('Type of the reaction'),
+		emoji: z.string().describe('Reaction emoji'),
+	}),
+	z.object({
+		type: z.literal('custom_emoji').describe('Type of the reaction'),
+		custom_emoji_id: z.string().describe('Custom emoji identifier'),
+	}),
+	z.object({
+		type: z.literal('paid').describe('Type of the reaction'),
+	}),
+])
+
+export type ReactionType = z.infer<typeof ReactionTypeSchema>
+
+/**
+ * ReactionCount object represents a reaction added to a message along with the number of times it was added
+ */
+export const ReactionCountSchema = z.object({
+	type: ReactionTypeSchema.describe('Type of the reaction'),
+	total_count: z
+		.number()
+		.int()
+		.describe('Number of times the reaction was added'),
+})
+
+export type ReactionCount = z.infer<typeof ReactionCountSchema>
+
+/**
+ * MessageReactionUpdated object represents a change of a reaction on a message performed by a user
+ */
+export const MessageReactionUpdatedSchema = z.object({
+	chat: ChatSchema.describe(
+		'The chat containing the message the user reacted to',
 	),
-	inline_message_id: z
-		.string()
-		.optional()
+	message_id: z
+		.number()
+		.int()
+		.describe('Unique identifier of the message inside the chat'),
+	user: UserSchema.optional().describe(
+		"The user that changed the reaction, if the user isn't anonymous",
+	),
+	actor_chat: ChatSchema.optional().describe(
+		'The chat on behalf of which the reaction was changed, if the user is anonymous',
+	),
+	date: z.number().int().describe('Date of the change in Unix time'),
+	old_reaction: z
+		.array(ReactionTypeSchema)
+		.describe('Previous list of reaction types that were set by the user'),
+	new_reaction: z
+		.array(ReactionTypeSchema)
+		.describe('New list of reaction types that have been set by the user'),
+})
+
+export type MessageReactionUpdated = z.infer<
+	typeof MessageReactionUpdatedSchema
+>
+
+/**
+ * MessageReactionCountUpdated object represents reaction changes on a message with anonymous reactions
+ */
+export const MessageReactionCountUpdatedSchema = z.object({
+	chat: ChatSchema.describe('The chat containing the message'),
+	message_id: z
+		.number()
+		.int()
+		.describe('Unique message identifier inside the chat'),
+	date: z.number().int().describe('Date of the change in Unix time'),
+	reactions: z
+		.array(ReactionCountSchema)
+		.describe('List of reactions that are present on the message'),
+})
+
+export type MessageReactionCountUpdated = z.infer<
+	typeof MessageReactionCountUpdatedSchema
+>
+
+/**
+ * ChatBoostSource object describes the source of a chat boost
+ */
+export const ChatBoostSourceSchema = z.discriminatedUnion('source', [
+	z.object({
+		source: z.literal('premium').describe('Source of the boost'),
+		user: UserSchema.describe('User that boosted the chat'),
+	}),
+	z.object({
+		source: z.literal('gift_code').describe('Source of the boost'),
+		user: UserSchema.describe('User for which the gift code was created'),
+	}),
+	z.object({
+		source: z.literal('giveaway').describe('Source of the boost'),
+		giveaway_message_id: z
+			.number()
+			.int()
+			.describe('Identifier of a message in the chat with the giveaway'),
+		user: UserSchema.optional().describe(
+			'User that won the prize in the giveaway if any',
+		),
+		prize_star_count: z
+			.number()
+			.int()
+			.optional()
+			.describe(
+				'The number of Telegram Stars to be split between giveaway winners; for Telegram Star giveaways only',
+			),
+		is_unclaimed: z
+			.boolean()
+			.optional()
+			.describe(
+				'True, if the giveaway was completed, but there was no user to win the prize',
+			),
+	}),
+])
+
+export type ChatBoostSource = z.infer<typeof ChatBoostSourceSchema>
+
+/**
+ * ChatBoost object contains information about a chat boost
+ */
+export const ChatBoostSchema = z.object({
+	boost_id: z.string().describe('Unique identifier of the boost'),
+	add_date: z
+		.number()
+		.int()
+		.describe('Point in time (Unix timestamp) when the chat was boosted'),
+	expiration_date: z
+		.number()
+		.int()
 		.describe(
-			'Identifier of the message sent via the bot in inline mode, that originated the query',
+			"Point in time (Unix timestamp) when the boost will automatically expire, unless the booster's Telegram Premium subscription is prolonged",
 		),
-	chat_instance: z
-		.string()
+	source: ChatBoostSourceSchema.describe('Source of the added boost'),
+})
+
+export type ChatBoost = z.infer<typeof ChatBoostSchema>
+
+/**
+ * ChatBoostUpdated object represents a boost added to a chat or changed
+ */
+export const ChatBoostUpdatedSchema = z.object({
+	chat: ChatSchema.describe('Chat which was boosted'),
+	boost: ChatBoostSchema.describe('Information about the chat boost'),
+})
+
+export type ChatBoostUpdated = z.infer<typeof ChatBoostUpdatedSchema>
+
+/**
+ * ChatBoostRemoved object represents a boost removed from a chat
+ */
+export const ChatBoostRemovedSchema = z.object({
+	chat: ChatSchema.describe('Chat which was boosted'),
+	boost_id: z.string().describe('Unique identifier of the boost'),
+	remove_date: z
+		.number()
+		.int()
+		.describe('Point in time (Unix timestamp) when the boost was removed'),
+	source: ChatBoostSourceSchema.describe('Source of the removed boost'),
+})
+
+export type ChatBoostRemoved = z.infer<typeof ChatBoostRemovedSchema>
+
+/**
+ * BusinessConnection object describes the connection of the bot with a business account
+ */
+export const BusinessConnectionSchema = z.object({
+	id: z.string().describe('Unique identifier of the business connection'),
+	user: UserSchema.describe(
+		'Business account user that created the business connection',
+	),
+	user_chat_id: z
+		.number()
+		.int()
 		.describe(
-			'Global identifier, uniquely corresponding to the chat to which the message with the callback button was sent',
+			'Identifier of a private chat with the user who created the business connection',
 		),
-	data: z
-		.string()
+	date: z
+		.number()
+		.int()
+		.describe('Date the connection was established in Unix time'),
+	can_reply: z
+		.boolean()
 		.optional()
-		.describe('Data associated with the callback button'),
-	game_short_name: z
+		.describe(
+			'True, if the bot can act on behalf of the business account in chats that were active in the last 24 hours',
+		),
+	is_enabled: z.boolean().describe('True, if the connection is active'),
+})
+
+export type BusinessConnection = z.infer<typeof BusinessConnectionSchema>
+
+/**
+ * BusinessMessagesDeleted object is received when messages are deleted from a connected business account
+ */
+export const BusinessMessagesDeletedSchema = z.object({
+	business_connection_id: z
 		.string()
-		.optional()
+		.describe('Unique identifier of the business connection'),
+	chat: ChatSchema.describe(
+		'Information about a chat in the business account. The bot may not have access to the chat or the corresponding user',
+	),
+	message_ids: z
+		.array(z.number().int())
 		.describe(
-			'Short name of a Game to be returned, serves as the unique identifier for the game',
+			'The list of identifiers of deleted messages in the chat of the business account',
 		),
 })
 
-export type CallbackQuery = z.infer<typeof CallbackQuerySchema>
+export type BusinessMessagesDeleted = z.infer<
+	typeof BusinessMessagesDeletedSchema
+>
 
 /**
- * Update object represents an incoming update
+ * Update object represents an incoming update.
+ * At most one of the optional parameters can be present in any given update
  */
 export const UpdateSchema = z.object({
 	update_id: z.number().int().describe("The update's unique identifier"),
@@ -406,9 +2546,121 @@ export const UpdateSchema = z.object({
 	edited_channel_post: MessageSchema.optional().describe(
 		'New version of a channel post that is known to the bot and was edited',
 	),
+	business_connection: BusinessConnectionSchema.optional().describe(
+		'The bot was connected to or disconnected from a business account, or a user edited an existing connection with the bot',
+	),
+	business_message: MessageSchema.optional().describe(
+		'New message from a connected business account',
+	),
+	edited_business_message: MessageSchema.optional().describe(
+		'New version of a message from a connected business account',
+	),
+	deleted_business_messages: BusinessMessagesDeletedSchema.optional().describe(
+		'Messages were deleted from a connected business account',
+	),
+	message_reaction: MessageReactionUpdatedSchema.optional().describe(
+		'A reaction to a message was changed by a user',
+	),
+	message_reaction_count: MessageReactionCountUpdatedSchema.optional().describe(
+		'Reactions to a message with anonymous reactions were changed',
+	),
+	inline_query: InlineQuerySchema.optional().describe(
+		'New incoming inline query',
+	),
+	chosen_inline_result: ChosenInlineResultSchema.optional().describe(
+		'The result of an inline query that was chosen by a user and sent to their chat partner',
+	),
 	callback_query: CallbackQuerySchema.optional().describe(
 		'New incoming callback query',
 	),
+	shipping_query: ShippingQuerySchema.optional().describe(
+		'New incoming shipping query. Only for invoices with flexible price',
+	),
+	pre_checkout_query: PreCheckoutQuerySchema.optional().describe(
+		'New incoming pre-checkout query. Contains full information about checkout',
+	),
+	purchased_paid_media: PaidMediaPurchasedSchema.optional().describe(
+		'A user purchased paid media with a non-empty payload sent by the bot in a non-channel chat',
+	),
+	poll: PollSchema.optional().describe(
+		'New poll state. Bots receive only updates about manually stopped polls and polls, which are sent by the bot',
+	),
+	poll_answer: PollAnswerSchema.optional().describe(
+		'A user changed their answer in a non-anonymous poll',
+	),
+	my_chat_member: ChatMemberUpdatedSchema.optional().describe(
+		"The bot's chat member status was updated in a chat",
+	),
+	chat_member: ChatMemberUpdatedSchema.optional().describe(
+		"A chat member's status was updated in a chat",
+	),
+	chat_join_request: ChatJoinRequestSchema.optional().describe(
+		'A request to join the chat has been sent',
+	),
+	chat_boost: ChatBoostUpdatedSchema.optional().describe(
+		'A chat boost was added or changed',
+	),
+	removed_chat_boost: ChatBoostRemovedSchema.optional().describe(
+		'A boost was removed from a chat',
+	),
 })
 
 export type Update = z.infer<typeof UpdateSchema>
+
+/**
+ * Kinds of updates, one per optional field of `Update`
+ */
+export type UpdateType = Exclude<keyof Update, 'update_id'>
+
+/**
+ * Every update type, in the order of the Bot API documentation.
+ * Useful as `allowed_updates` to receive all updates, including
+ * `chat_member`, `message_reaction` and `message_reaction_count`
+ */
+export const UPDATE_TYPES = [
+	'message',
+	'edited_message',
+	'channel_post',
+	'edited_channel_post',
+	'business_connection',
+	'business_message',
+	'edited_business_message',
+	'deleted_business_messages',
+	'message_reaction',
+	'message_reaction_count',
+	'inline_query',
+	'chosen_inline_result',
+	'callback_query',
+	'shipping_query',
+	'pre_checkout_query',
+	'purchased_paid_media',
+	'poll',
+	'poll_answer',
+	'my_chat_member',
+	'chat_member',
+	'chat_join_request',
+	'chat_boost',
+	'removed_chat_boost',
+] as const satisfies readonly UpdateType[]
+
+/**
+ * Get the type of an update, i.e. which of its optional fields is set
+ *
+ * @param update - Incoming update
+ * @returns The update type, or `undefined` for update types unknown to this library
+ *
+ * @example
+ * ```typescript
+ * switch (getUpdateType(update)) {
+ *   case 'message':
+ *     // update.message is set
+ *     break
+ *   case 'chat_join_request':
+ *     await approve(update.chat_join_request)
+ *     break
+ * }
+ * ```
+ */
+export function getUpdateType(update: Update): UpdateType | undefined {
+	return UPDATE_TYPES.find((type) => update[type] !== undefined)
+}
@@ -0,0 +1,27 @@
+/**
+ * Telegram Bot Wizards
+ *
+ * This module exports a declarative engine for multi-step conversations,
+ * such as forms or checklists, that plugs into the router.
+ *
+ * @example
+ * ```typescript
+ * import { Router, Wizard } from 'telegram-api-fetch'
+ * import { z } from 'zod'
+ *
+ * const signup = new Wizard<{ name: string; age: number }>('signup', {
+ *   onComplete: (ctx, data) => console.log(data.name, data.age),
+ * })
+ *   .step('name', { prompt: (ctx) => ask(ctx, 'Your name?'), schema: z.string().min(1) })
+ *   .step('age', { prompt: (ctx) => ask(ctx, 'Your age?'), schema: z.coerce.number().int() })
+ *
+ * const router = new Router()
+ * router.use(signup.middleware())
+ * router.command('signup', (ctx) => signup.enter(ctx))
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+export type { WizardOptions, WizardState, WizardStep } from './wizard'
+export { getWizardInput, Wizard, WizardError } from './wizard'
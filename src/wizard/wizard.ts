@@ -0,0 +1,380 @@
+/**
+ * Telegram Bot Wizards
+ *
+ * Multi-step conversations asking for one validated answer per step, with
+ * progress kept in a session storage so they survive restarts
+ */
+
+import type { z } from 'zod'
+import { TelegramError } from '../client/errors'
+import { parseCommand } from '../router/matchers'
+import type { Middleware, UpdateContext } from '../router/router'
+import { withLock } from '../session/lock'
+import { getSessionKey } from '../session/session'
+import { MemorySessionStorage, type SessionStorage } from '../session/storage'
+import type { Update } from '../webhooks/schemas'
+
+/**
+ * Progress of a wizard, as kept in its storage
+ */
+export interface WizardState<D> {
+	/**
+	 * Name of the step waiting for an answer
+	 */
+	step: string
+
+	/**
+	 * Answers collected so far, by step name
+	 */
+	data: Partial<D>
+
+	/**
+	 * Time of the last answer, in milliseconds since the epoch
+	 */
+	updatedAt: number
+}
+
+/**
+ * A wizard step, asking for the value of one field
+ */
+export interface WizardStep<
+	D,
+	K extends keyof D = keyof D,
+	C extends UpdateContext = UpdateContext,
+> {
+	/**
+	 * Field of the wizard data the answer is stored in
+	 */
+	name: K
+
+	/**
+	 * Ask the user for the answer, e.g. by sending a message with a keyboard
+	 */
+	prompt: (ctx: C, data: Partial<D>) => unknown
+
+	/**
+	 * Schema validating the answer and converting it to the field's value
+	 */
+	schema: z.ZodType<D[K]>
+
+	/**
+	 * Get the answer from an update
+	 * @default getWizardInput, the message text or callback data
+	 */
+	input?: (update: Update) => unknown
+
+	/**
+	 * Called when the answer fails validation
+	 * @default Sends the prompt again
+	 */
+	onInvalid?: (ctx: C, error: z.ZodError, data: Partial<D>) => unknown
+}
+
+/**
+ * Wizard options
+ */
+export interface WizardOptions<D, C extends UpdateContext = UpdateContext> {
+	/**
+	 * Called with all answers once the last step has been answered
+	 */
+	onComplete: (ctx: C, data: D) => unknown
+
+	/**
+	 * Called when the user cancels the wizard
+	 */
+	onCancel?: (ctx: C, data: Partial<D>) => unknown
+
+	/**
+	 * Called when the user answers after the wizard has timed out. The update
+	 * then continues down the middleware chain
+	 */
+	onTimeout?: (ctx: C, data: Partial<D>) => unknown
+
+	/**
+	 * Where progress is stored. Use a persistent storage to resume wizards
+	 * after restarts
+	 * @default new MemorySessionStorage()
+	 */
+	storage?: SessionStorage<WizardState<D>>
+
+	/**
+	 * Get the key of the conversation an update belongs to
+	 * @default getSessionKey, one wizard per chat
+	 */
+	getKey?: (update: Update) => string | undefined
+
+	/**
+	 * Time in milliseconds the user has to answer a step. Wizards never time
+	 * out when not set
+	 */
+	timeout?: number
+
+	/**
+	 * Inputs cancelling the wizard. Commands also match when addressed to
+	 * the bot, like `/cancel@my_bot`
+	 * @default ['/cancel']
+	 */
+	cancel?: string[]
+
+	/**
+	 * Inputs going back to the previous step
+	 * @default ['/back']
+	 */
+	back?: string[]
+}
+
+/**
+ * Error thrown when a wizard can't be started
+ */
+export class WizardError extends TelegramError {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options)
+		this.name = 'WizardError'
+	}
+}
+
+/**
+ * Default wizard input: the text of a message or the data of a callback query
+ *
+ * @param update - Incoming update
+ * @returns The input, or `undefined` if the update has neither
+ */
+export function getWizardInput(update: Update): string | undefined {
+	return update.message?.text ?? update.callback_query?.data
+}
+
+/**
+ * Check whether an input is one of the given triggers
+ */
+function matchesTrigger(input: string, triggers: string[]): boolean {
+	const command = parseCommand(input)
+	return triggers.some(
+		(trigger) =>
+			input === trigger ||
+			(command !== undefined && trigger === `/${command.command}`),
+	)
+}
+
+/**
+ * Multi-step conversation collecting one validated answer per step
+ *
+ * Start it with `enter` and add its `middleware` to a router. While a wizard
+ * is active in a chat, its middleware takes the chat's messages and callback
+ * queries as answers: valid ones move to the next step, invalid ones are
+ * asked again, and `/back` and `/cancel` go back or stop. Other updates, and
+ * every update of chats without an active wizard, continue down the chain.
+ *
+ * Progress is saved after every answer, so a wizard using a persistent
+ * storage resumes where it left off after a restart. Timeouts are checked
+ * when the next answer arrives.
+ *
+ * @example
+ * ```typescript
+ * interface Inspection {
+ *   odometer: number
+ *   tires: 'ok' | 'worn'
+ * }
+ *
+ * const inspection = new Wizard<Inspection>('inspection', {
+ *   timeout: 15 * 60 * 1000,
+ *   onComplete: async (ctx, data) => {
+ *     await reports.save(data)
+ *   },
+ * })
+ *   .step('odometer', {
+ *     prompt: (ctx) => reply(ctx, 'Odometer reading?'),
+ *     schema: z.coerce.number().int().nonnegative(),
+ *   })
+ *   .step('tires', {
+ *     prompt: (ctx) => reply(ctx, 'Tires?', tiresKeyboard),
+ *     schema: z.enum(['ok', 'worn']),
+ *   })
+ *
+ * router.use(inspection.middleware())
+ * router.command('inspect', (ctx) => inspection.enter(ctx))
+ * ```
+ */
+export class Wizard<D, C extends UpdateContext = UpdateContext> {
+	private readonly steps: Array<WizardStep<D, keyof D, C>> = []
+	private readonly storage: SessionStorage<WizardState<D>>
+	private readonly locks = new Map<string, Promise<void>>()
+
+	/**
+	 * Create a new wizard
+	 *
+	 * @param id - Unique name of the wizard, used to namespace its storage keys
+	 * @param options - Completion handlers, storage and timeout
+	 */
+	constructor(
+		readonly id: string,
+		private readonly options: WizardOptions<D, C>,
+	) {
+		this.storage = options.storage ?? new MemorySessionStorage()
+	}
+
+	/**
+	 * Add a step. Steps are asked in the order they are added
+	 *
+	 * @param name - Field of the wizard data the answer is stored in
+	 * @param step - Prompt and schema of the step
+	 * @returns The wizard, for chaining
+	 */
+	step<K extends keyof D & string>(
+		name: K,
+		step: Omit<WizardStep<D, K, C>, 'name'>,
+	): this {
+		if (this.steps.some((s) => s.name === name)) {
+			throw new WizardError(`Duplicate step "${name}" in wizard "${this.id}"`)
+		}
+		this.steps.push({ ...step, name })
+		return this
+	}
+
+	/**
+	 * Start the wizard in the update's conversation, replacing any progress
+	 *
+	 * @param ctx - Context of the update starting the wizard
+	 * @param data - Answers known in advance
+	 * @throws {WizardError} If the update has no key or the wizard has no steps
+	 */
+	async enter(ctx: C, data: Partial<D> = {}): Promise<void> {
+		const key = this.getKey(ctx.update)
+		if (key === undefined) {
+			throw new WizardError('This update has no conversation key')
+		}
+		const first = this.steps[0]
+		if (!first) {
+			throw new WizardError(`Wizard "${this.id}" has no steps`)
+		}
+
+		await withLock(this.locks, key, () =>
+			this.storage.set(key, {
+				step: String(first.name),
+				data,
+				updatedAt: Date.now(),
+			}),
+		)
+		await first.prompt(ctx, data)
+	}
+
+	/**
+	 * Stop the wizard in the update's conversation without calling `onCancel`
+	 *
+	 * @param ctx - Context of an update of the conversation
+	 */
+	async leave(ctx: C): Promise<void> {
+		const key = this.getKey(ctx.update)
+		if (key === undefined) return
+		await withLock(this.locks, key, () => this.storage.delete(key))
+	}
+
+	/**
+	 * Get the wizard as a middleware handling answers
+	 *
+	 * @returns Middleware to add to a router
+	 */
+	middleware(): Middleware<C> {
+		return async (ctx, next) => {
+			const key = this.getKey(ctx.update)
+			if (key === undefined) {
+				await next()
+				return
+			}
+
+			// Handlers run after the lock is released, so they can enter the
+			// wizard again without waiting on themselves
+			const run = await withLock(this.locks, key, () =>
+				this.advance(ctx, key, next),
+			)
+			await run()
+		}
+	}
+
+	/**
+	 * Get the storage key of an update
+	 * @private
+	 */
+	private getKey(update: Update): string | undefined {
+		const key = (this.options.getKey ?? getSessionKey)(update)
+		return key === undefined ? undefined : `${this.id}:${key}`
+	}
+
+	/**
+	 * Save the progress of a conversation
+	 * @private
+	 */
+	private save(key: string, step: WizardStep<D, keyof D, C>, data: Partial<D>) {
+		return this.storage.set(key, {
+			step: String(step.name),
+			data,
+			updatedAt: Date.now(),
+		})
+	}
+
+	/**
+	 * Apply an update to the stored progress
+	 * @private
+	 * @returns The handler to run once the lock is released
+	 */
+	private async advance(
+		ctx: C,
+		key: string,
+		next: () => Promise<void>,
+	): Promise<() => unknown> {
+		const state = await this.storage.get(key)
+		if (!state) return next
+
+		const index = this.steps.findIndex((s) => s.name === state.step)
+		const step = this.steps[index]
+		if (!step) {
+			// The step was removed since the progress was saved
+			await this.storage.delete(key)
+			return next
+		}
+
+		const { data } = state
+		const { timeout, onTimeout } = this.options
+		if (timeout !== undefined && Date.now() - state.updatedAt >= timeout) {
+			await this.storage.delete(key)
+			return async () => {
+				await onTimeout?.(ctx, data)
+				await next()
+			}
+		}
+
+		const text = getWizardInput(ctx.update)
+		const input = step.input ? step.input(ctx.update) : text
+		if (text === undefined && input === undefined) return next
+
+		if (text !== undefined) {
+			if (matchesTrigger(text, this.options.cancel ?? ['/cancel'])) {
+				await this.storage.delete(key)
+				return () => this.options.onCancel?.(ctx, data)
+			}
+			if (matchesTrigger(text, this.options.back ?? ['/back'])) {
+				const previous = this.steps[index - 1] ?? step
+				await this.save(key, previous, data)
+				return () => previous.prompt(ctx, data)
+			}
+		}
+
+		const result = step.schema.safeParse(input)
+		if (!result.success) {
+			await this.save(key, step, data)
+			return () =>
+				step.onInvalid
+					? step.onInvalid(ctx, result.error, data)
+					: step.prompt(ctx, data)
+		}
+
+		const answers = { ...data, [step.name]: result.data }
+		const following = this.steps[index + 1]
+		if (!following) {
+			await this.storage.delete(key)
+			return () => this.options.onComplete(ctx, answers as D)
+		}
+
+		await this.save(key, following, answers)
+		return () => following.prompt(ctx, answers)
+	}
+}
@@ -0,0 +1,74 @@
+import { expect, test } from 'bun:test'
+import { z } from 'zod'
+import {
+	CallbackDataError,
+	createCallbackData,
+	InlineKeyboardButtonSchema,
+	TelegramError,
+} from '../src'
+
+const checkItem = createCallbackData(
+	'check_item',
+	z.object({
+		vehicleId: z.number().int(),
+		itemId: z.string(),
+		note: z.string().optional(),
+	}),
+)
+
+test('createCallbackData should round-trip typed values', () => {
+	const data = checkItem.pack({ vehicleId: 3, itemId: 'tires' })
+	expect(data).toBe('check_item:3,"tires",null')
+
+	expect(checkItem.unpack(data)).toEqual({
+		vehicleId: 3,
+		itemId: 'tires',
+		note: undefined,
+	})
+	expect(checkItem.matches(data)).toBe(true)
+	expect(checkItem.pattern.test(data)).toBe(true)
+})
+
+test('createCallbackData should decode callback queries', () => {
+	const like = createCallbackData('like', z.object({}))
+	const query = {
+		id: 'query123',
+		from: { id: 1, is_bot: false, first_name: 'John' },
+		chat_instance: 'chat123',
+		data: like.pack({}),
+	}
+
+	expect(query.data).toBe('like')
+	expect(like.unpack(query)).toEqual({})
+	expect(checkItem.matches(query)).toBe(false)
+})
+
+test('createCallbackData should enforce the 64 byte limit', () => {
+	// Each emoji takes 4 bytes in UTF-8, far more than its character count
+	expect(() =>
+		checkItem.pack({ vehicleId: 1, itemId: '🚗'.repeat(12) }),
+	).toThrow(CallbackDataError)
+	expect(() =>
+		checkItem.pack({ vehicleId: 1, itemId: '🚗'.repeat(12) }),
+	).toThrow(TelegramError)
+
+	expect(
+		InlineKeyboardButtonSchema.safeParse({
+			text: 'Too long',
+			callback_data: '🚗'.repeat(20),
+		}).success,
+	).toBe(false)
+})
+
+test('createCallbackData should report clear decoding errors', () => {
+	const wrongPrefix = checkItem.safeUnpack('vehicle:1')
+	expect(wrongPrefix.success).toBe(false)
+
+	const invalid = checkItem.safeUnpack('check_item:"3","tires"')
+	expect(invalid.success).toBe(false)
+	if (!invalid.success) {
+		expect(invalid.error.message).toContain('Invalid callback data')
+	}
+
+	expect(() => checkItem.unpack('check_item:{')).toThrow('Malformed')
+})
@@ -0,0 +1,274 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+	ResponseValidationError,
+	TelegramBot,
+	TelegramError,
+	type TelegramMessage,
+} from '../src'
+import { mockHangingFetch, mockTelegram, restoreFetch } from './helpers'
+
+afterEach(restoreFetch)
+
+const message = { message_id: 456, date: 0, chat: { id: 1, type: 'private' } }
+
+test('answerCallbackQuery should send the query id', async () => {
+	const calls = mockTelegram(true)
+	const bot = new TelegramBot({ botToken: 'test_token' })
+
+	const result = await bot.answerCallbackQuery({
+		callback_query_id: 'query123',
+		text: 'Saved',
+	})
+
+	expect(result).toBe(true)
+	expect(calls[0]?.method).toBe('answerCallbackQuery')
+	expect(JSON.parse(calls[0]?.body as string)).toEqual({
+		callback_query_id: 'query123',
+		text: 'Saved',
+	})
+})
+
+test('answerCallbackQuery should be cancelled by its abort signal', async () => {
+	mockHangingFetch()
+	const bot = new TelegramBot({ botToken: 'test_token' })
+	const controller = new AbortController()
+
+	const answer = bot.answerCallbackQuery(
+		{ callback_query_id: 'query123' },
+		{ signal: controller.signal },
+	)
+	controller.abort()
+
+	await expect(answer).rejects.toThrow('Aborted')
+})
+
+test('editMessageText should target chat and inline messages', async () => {
+	const bot = new TelegramBot({ botToken: 'test_token' })
+
+	mockTelegram(message)
+	const edited: TelegramMessage = await bot.editMessageText({
+		chat_id: 1,
+		message_id: 456,
+		text: 'Updated',
+	})
+	expect(edited.message_id).toBe(456)
+
+	const calls = mockTelegram(true)
+	const inline: true = await bot.editMessageText({
+		inline_message_id: 'inline123',
+		text: 'Updated',
+	})
+	expect(inline).toBe(true)
+	expect(calls[0]?.method).toBe('editMessageText')
+})
+
+test('editMessageMedia should upload files with attach:// references', async () => {
+	const calls = mockTelegram(message)
+	const bot = new TelegramBot({ botToken: 'test_token' })
+
+	await bot.editMessageMedia({
+		chat_id: 1,
+		message_id: 456,
+		media: {
+			type: 'photo',
+			media: new File(['photo'], 'photo.jpg', { type: 'image/jpeg' }),
+		},
+	})
+
+	const body = calls[0]?.body as FormData
+	expect(body).toBeInstanceOf(FormData)
+	expect(JSON.parse(body.get('media') as string)).toEqual({
+		type: 'photo',
+		media: 'attach://file0',
+	})
+	expect(body.get('file0')).toBeInstanceOf(File)
+})
+
+test('sendDocument should upload the file and attach the thumbnail', async () => {
+	const calls = mockTelegram(message)
+	const bot = new TelegramBot({ botToken: 'test_token' })
+
+	await bot.sendDocument({
+		chat_id: 1,
+		document: new File(['%PDF'], 'report.pdf', { type: 'application/pdf' }),
+		thumbnail: new File(['jpg'], 'thumb.jpg', { type: 'image/jpeg' }),
+		caption: 'Inspection report',
+		reply_markup: { inline_keyboard: [[{ text: 'OK', callback_data: 'ok' }]] },
+	})
+
+	const body = calls[0]?.body as FormData
+	expect(calls[0]?.method).toBe('sendDocument')
+	expect((body.get('document') as File).name).toBe('report.pdf')
+	expect(body.get('thumbnail')).toBe('attach://file0')
+	expect((body.get('file0') as File).name).toBe('thumb.jpg')
+	expect(body.get('caption')).toBe('Inspection report')
+	expect(JSON.parse(body.get('reply_markup') as string)).toEqual({
+		inline_keyboard: [[{ text: 'OK', callback_data: 'ok' }]],
+	})
+})
+
+test('media methods should use JSON when there is nothing to upload', async () => {
+	const calls = mockTelegram(message)
+	const bot = new TelegramBot({ botToken: 'test_token' })
+
+	await bot.sendVideo({ chat_id: 1, video: 'https://example.com/video.mp4' })
+	await bot.sendSticker({ chat_id: 1, sticker: 'CAACAgIAAxkBAAIBY2' })
+
+	expect(calls.map((call) => call.method)).toEqual(['sendVideo', 'sendSticker'])
+	expect(JSON.parse(calls[0]?.body as string)).toEqual({
+		chat_id: 1,
+		video: 'https://example.com/video.mp4',
+	})
+})
+
+test('sendMediaGroup should rewrite uploads to attach:// references', async () => {
+	const calls = mockTelegram([message, message, message])
+	const bot = new TelegramBot({ botToken: 'test_token' })
+
+	const sent = await bot.sendMediaGroup({
+		chat_id: 1,
+		media: [
+			{ type: 'photo', media: new File(['a'], 'front.jpg'), caption: 'Album' },
+			{ type: 'photo', media: 'AgACAgIAAxkBAAIBY2' },
+			{
+				type: 'video',
+				media: new File(['b'], 'walkaround.mp4'),
+				thumbnail: new File(['c'], 'thumb.jpg'),
+			},
+		],
+	})
+
+	expect(sent.length).toBe(3)
+	const body = calls[0]?.body as FormData
+	expect(JSON.parse(body.get('media') as string)).toEqual([
+		{ type: 'photo', media: 'attach://file0', caption: 'Album' },
+		{ type: 'photo', media: 'AgACAgIAAxkBAAIBY2' },
+		{ type: 'video', media: 'attach://file1', thumbnail: 'attach://file2' },
+	])
+	expect((body.get('file0') as File).name).toBe('front.jpg')
+	expect((body.get('file1') as File).name).toBe('walkaround.mp4')
+	expect((body.get('file2') as File).name).toBe('thumb.jpg')
+})
+
+test('sendMediaGroup should validate the album rules before sending', async () => {
+	const calls = mockTelegram([])
+	const bot = new TelegramBot({ botToken: 'test_token' })
+	const photo = { type: 'photo' as const, media: 'AgACAgIAAxkBAAIBY2' }
+
+	await expect(
+		bot.sendMediaGroup({ chat_id: 1, media: [photo] }),
+	).rejects.toThrow('2-10 items')
+	await expect(
+		bot.sendMediaGroup({ chat_id: 1, media: Array(11).fill(photo) }),
+	).rejects.toThrow('2-10 items')
+	await expect(
+		bot.sendMediaGroup({
+			chat_id: 1,
+			media: [photo, { type: 'document', media: 'BQACAgIAAxkBAAIBY2' }],
+		}),
+	).rejects.toThrow('"document"')
+	expect(calls.length).toBe(0)
+})
+
+test('sendLongMessage should send chunks with markup on the last one', async () => {
+	const calls = mockTelegram(message)
+	const bot = new TelegramBot({ botToken: 'test_token' })
+	const paragraph = 'word '.repeat(700).trim()
+
+	const sent = await bot.sendLongMessage({
+		chat_id: 1,
+		text: `${paragraph}\n\n${paragraph}`,
+		entities: [{ type: 'bold', offset: 3000, length: 1000 }],
+		reply_to_message_id: 7,
+		reply_markup: { inline_keyboard: [[{ text: 'OK', callback_data: 'ok' }]] },
+	})
+
+	expect(sent).toHaveLength(2)
+	const bodies = calls.map((call) => JSON.parse(call.body as string))
+	expect(bodies.map((body) => body.text.length)).toEqual([3499, 3499])
+	expect(bodies[0].reply_to_message_id).toBe(7)
+	expect(bodies[0].reply_markup).toBeUndefined()
+	expect(bodies[1].reply_to_message_id).toBeUndefined()
+	expect(bodies[1].reply_markup).toBeDefined()
+	expect(bodies[0].entities).toEqual([
+		{ type: 'bold', offset: 3000, length: 499 },
+	])
+	expect(bodies[1].entities).toEqual([{ type: 'bold', offset: 0, length: 499 }])
+})
+
+test('sendLongMessage should reject parse_mode', async () => {
+	const calls = mockTelegram(message)
+	const bot = new TelegramBot({ botToken: 'test_token' })
+
+	await expect(
+		bot.sendLongMessage({ chat_id: 1, text: '*hi*', parse_mode: 'MarkdownV2' }),
+	).rejects.toThrow(TelegramError)
+	expect(calls).toHaveLength(0)
+})
+
+test('sendLongMessage should reject empty text', async () => {
+	const calls = mockTelegram(message)
+	const bot = new TelegramBot({ botToken: 'test_token' })
+
+	await expect(bot.sendLongMessage({ chat_id: 1, text: '' })).rejects.toThrow(
+		'sendLongMessage cannot send an empty text',
+	)
+	await expect(
+		bot.sendLongMessage({ chat_id: 1, text: '\n ' }),
+	).rejects.toThrow(TelegramError)
+	expect(calls).toHaveLength(0)
+})
+
+test('validateResponses should reject results that do not match the schema', async () => {
+	const bot = new TelegramBot({
+		botToken: 'test_token',
+		validateResponses: true,
+	})
+
+	mockTelegram({ ...message, chat: { id: 1, type: 'secret' } })
+	const error = await bot
+		.sendMessage({ chat_id: 1, text: 'Hi' })
+		.catch((error: unknown) => error)
+	expect(error).toBeInstanceOf(ResponseValidationError)
+	expect((error as ResponseValidationError).method).toBe('sendMessage')
+	expect((error as ResponseValidationError).issues[0]?.path).toEqual([
+		'chat',
+		'type',
+	])
+
+	mockTelegram(true)
+	expect(
+		await bot.editMessageText({ inline_message_id: 'inline123', text: 'Hi' }),
+	).toBe(true)
+})
+
+test('responses should not be validated by default', async () => {
+	const bot = new TelegramBot({ botToken: 'test_token' })
+	mockTelegram({ message_id: 'oops' })
+
+	const sent = await bot.sendMessage({ chat_id: 1, text: 'Hi' })
+	expect(sent.message_id as unknown).toBe('oops')
+})
+
+test('generated methods should send params and validate results', async () => {
+	const bot = new TelegramBot({
+		botToken: 'test_token',
+		validateResponses: true,
+	})
+
+	const calls = mockTelegram(true)
+	await bot.setMyCommands({
+		commands: [{ command: 'start', description: 'Start the bot' }],
+		scope: { type: 'all_private_chats' },
+	})
+	expect(calls[0]?.method).toBe('setMyCommands')
+	expect(JSON.parse(calls[0]?.body as string).scope).toEqual({
+		type: 'all_private_chats',
+	})
+
+	mockTelegram({ id: 1, is_bot: true, first_name: 'Fleet' })
+	expect((await bot.getMe()).first_name).toBe('Fleet')
+
+	mockTelegram({ id: 1 })
+	await expect(bot.getMe()).rejects.toBeInstanceOf(ResponseValidationError)
+})
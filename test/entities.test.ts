@@ -0,0 +1,110 @@
+import { expect, test } from 'bun:test'
+import {
+	extractEntities,
+	getEntityText,
+	getMessageText,
+	type Message,
+	type MessageEntity,
+	renderHtml,
+	renderMarkdownV2,
+	splitByEntities,
+} from '../src'
+
+const text = '🔥 Hot deal: see example.com #sale'
+const entities: MessageEntity[] = [
+	{ type: 'bold', offset: 3, length: 8 },
+	{ type: 'italic', offset: 7, length: 8 },
+	{ type: 'url', offset: 17, length: 11 },
+	{ type: 'hashtag', offset: 29, length: 5 },
+]
+
+test('getEntityText should slice by UTF-16 offsets', () => {
+	expect(entities.map((entity) => getEntityText(text, entity))).toEqual([
+		'Hot deal',
+		'deal: se',
+		'example.com',
+		'#sale',
+	])
+})
+
+test('renderHtml should nest overlapping entities', () => {
+	expect(renderHtml(text, entities)).toBe(
+		'🔥 <b>Hot <i>deal</i></b><i>: se</i>e example.com #sale',
+	)
+})
+
+test('renderMarkdownV2 should escape text and nest entities', () => {
+	expect(renderMarkdownV2(text, entities)).toBe(
+		'🔥 *Hot _deal_*_: se_e example\\.com \\#sale',
+	)
+	expect(
+		renderMarkdownV2('a b', [
+			{ type: 'text_link', offset: 0, length: 3, url: 'https://x.y/(1)' },
+			{ type: 'underline', offset: 2, length: 1 },
+		]),
+	).toBe('[a __b__](https://x.y/(1\\))')
+})
+
+test('renderMarkdownV2 should separate italic and underline markers', () => {
+	const both = (first: 'italic' | 'underline', second: typeof first) =>
+		renderMarkdownV2('Due today', [
+			{ type: first, offset: 0, length: 9 },
+			{ type: second, offset: 0, length: 9 },
+		])
+
+	expect(both('italic', 'underline')).toBe('___Due today__\r_')
+	expect(both('underline', 'italic')).toBe('___Due today_\r__')
+})
+
+test('renderMarkdownV2 should start blockquotes on their own line', () => {
+	expect(
+		renderMarkdownV2('Note: check tires. Done', [
+			{ type: 'blockquote', offset: 6, length: 12 },
+		]),
+	).toBe('Note: \n>check tires\\.\n Done')
+	expect(
+		renderMarkdownV2('Log:\nline 1\nline 2', [
+			{ type: 'expandable_blockquote', offset: 5, length: 13 },
+		]),
+	).toBe('Log:\n**>line 1\n>line 2||')
+})
+
+test('splitByEntities should return runs of equally formatted text', () => {
+	const segments = splitByEntities(text, entities.slice(0, 2))
+
+	expect(segments.map((segment) => segment.text)).toEqual([
+		'🔥 ',
+		'Hot ',
+		'deal',
+		': se',
+		'e example.com #sale',
+	])
+	expect(segments[2]?.entities.map((entity) => entity.type)).toEqual([
+		'bold',
+		'italic',
+	])
+	expect(segments[0]?.entities).toEqual([])
+})
+
+test('extractEntities should collect values by kind', () => {
+	const message: Message = {
+		message_id: 1,
+		date: 0,
+		chat: { id: 1, type: 'private' },
+		caption: '/report@fleet_bot for @alice, docs',
+		caption_entities: [
+			{ type: 'text_link', offset: 30, length: 4, url: 'https://docs.example' },
+			{ type: 'bot_command', offset: 0, length: 17 },
+			{ type: 'mention', offset: 22, length: 6 },
+		],
+	}
+
+	const content = getMessageText(message)
+	expect(content?.text).toBe(message.caption as string)
+
+	const extracted = extractEntities(content?.text ?? '', content?.entities)
+	expect(extracted.botCommands).toEqual(['/report@fleet_bot'])
+	expect(extracted.mentions).toEqual(['@alice'])
+	expect(extracted.urls).toEqual(['https://docs.example'])
+	expect(extracted.hashtags).toEqual([])
+})
@@ -0,0 +1,113 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+	BadRequestError,
+	BotBlockedError,
+	ChatMigratedError,
+	createTelegramAPIError,
+	FloodWaitError,
+	ForbiddenError,
+	MessageNotModifiedError,
+	NetworkError,
+	TelegramAPIError,
+	TelegramBot,
+	TimeoutError,
+} from '../src'
+import { mockFetch, mockHangingFetch, restoreFetch } from './helpers'
+
+afterEach(restoreFetch)
+
+test('createTelegramAPIError should classify flood waits', () => {
+	const error = createTelegramAPIError(
+		429,
+		'Too Many Requests: retry after 5',
+		{ retry_after: 5 },
+	)
+
+	expect(error).toBeInstanceOf(FloodWaitError)
+	expect(error).toBeInstanceOf(TelegramAPIError)
+	expect((error as FloodWaitError).retryAfter).toBe(5)
+})
+
+test('createTelegramAPIError should classify bad requests', () => {
+	const migrated = createTelegramAPIError(
+		400,
+		'Bad Request: group chat was upgraded to a supergroup chat',
+		{ migrate_to_chat_id: -1001234567890 },
+	)
+	expect(migrated).toBeInstanceOf(ChatMigratedError)
+	expect((migrated as ChatMigratedError).migrateToChatId).toBe(-1001234567890)
+
+	const notModified = createTelegramAPIError(
+		400,
+		'Bad Request: message is not modified: specified new message content and reply markup are exactly the same',
+	)
+	expect(notModified).toBeInstanceOf(MessageNotModifiedError)
+	expect(notModified).toBeInstanceOf(BadRequestError)
+
+	const generic = createTelegramAPIError(400, 'Bad Request: chat not found')
+	expect(generic).toBeInstanceOf(BadRequestError)
+	expect(generic).not.toBeInstanceOf(MessageNotModifiedError)
+})
+
+test('createTelegramAPIError should classify forbidden errors', () => {
+	const blocked = createTelegramAPIError(
+		403,
+		'Forbidden: bot was blocked by the user',
+	)
+	expect(blocked).toBeInstanceOf(BotBlockedError)
+	expect(blocked).toBeInstanceOf(ForbiddenError)
+
+	const kicked = createTelegramAPIError(
+		403,
+		'Forbidden: bot was kicked from the group chat',
+	)
+	expect(kicked).toBeInstanceOf(ForbiddenError)
+	expect(kicked).not.toBeInstanceOf(BotBlockedError)
+})
+
+test('TelegramBot should throw typed errors from API responses', async () => {
+	mockFetch(() =>
+		Response.json({
+			ok: false,
+			error_code: 403,
+			description: 'Forbidden: bot was blocked by the user',
+		}),
+	)
+	const bot = new TelegramBot({ botToken: 'test_token' })
+
+	await expect(bot.sendMessage({ chat_id: 1, text: 'hi' })).rejects.toThrow(
+		BotBlockedError,
+	)
+})
+
+test('TelegramBot network errors should not contain the bot token', async () => {
+	const bot = new TelegramBot({ botToken: '123456:secret-token-value' })
+
+	mockFetch(({ url }) => {
+		throw new TypeError(`Unable to connect to ${url}`)
+	})
+	const error = await bot
+		.sendMessage({ chat_id: 1, text: 'hi' })
+		.catch((e: unknown) => e)
+
+	expect(error).toBeInstanceOf(NetworkError)
+	expect((error as NetworkError).message).toContain('/sendMessage')
+	expect((error as NetworkError).message).not.toContain('secret-token-value')
+	expect((error as NetworkError).cause).toBeUndefined()
+})
+
+test('TelegramBot should throw NetworkError and TimeoutError', async () => {
+	const bot = new TelegramBot({ botToken: 'test_token', timeout: 10 })
+
+	mockFetch(() => {
+		throw new TypeError('fetch failed')
+	})
+	await expect(bot.sendMessage({ chat_id: 1, text: 'hi' })).rejects.toThrow(
+		NetworkError,
+	)
+
+	mockHangingFetch()
+	await expect(bot.sendMessage({ chat_id: 1, text: 'hi' })).rejects.toThrow(
+		TimeoutError,
+	)
+})
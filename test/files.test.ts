@@ -0,0 +1,100 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+	getLargestPhotoSize,
+	NetworkError,
+	pickPhotoSize,
+	TelegramAPIError,
+	TelegramBot,
+} from '../src'
+import { mockFetch, restoreFetch } from './helpers'
+
+afterEach(restoreFetch)
+
+const sizes = [
+	{ file_id: 's', file_unique_id: 's', width: 90, height: 60, file_size: 1000 },
+	{
+		file_id: 'l',
+		file_unique_id: 'l',
+		width: 1280,
+		height: 853,
+		file_size: 90000,
+	},
+	{
+		file_id: 'm',
+		file_unique_id: 'm',
+		width: 320,
+		height: 213,
+		file_size: 12000,
+	},
+]
+
+test('getLargestPhotoSize should pick the size with the most pixels', () => {
+	expect(getLargestPhotoSize(sizes)?.file_id).toBe('l')
+	expect(getLargestPhotoSize([])).toBeUndefined()
+})
+
+test('pickPhotoSize should pick the largest size fitting the constraints', () => {
+	expect(pickPhotoSize(sizes, { maxWidth: 800 })?.file_id).toBe('m')
+	expect(pickPhotoSize(sizes, { maxFileSize: 5000 })?.file_id).toBe('s')
+	expect(pickPhotoSize(sizes, { maxHeight: 10 })?.file_id).toBe('s')
+	expect(pickPhotoSize(sizes, {})?.file_id).toBe('l')
+})
+
+test('downloadFile should resolve the file path and download it', async () => {
+	const calls = mockFetch(({ url }) => {
+		if (url.endsWith('/getFile')) {
+			return Response.json({
+				ok: true,
+				result: {
+					file_id: 'abc',
+					file_unique_id: 'u',
+					file_path: 'photos/file_1.jpg',
+				},
+			})
+		}
+		return new Response('image-bytes')
+	})
+
+	const bot = new TelegramBot({
+		botToken: 'test_token',
+		baseUrl: 'http://localhost:8081',
+	})
+
+	const data = await bot.downloadFile('abc')
+	expect(new TextDecoder().decode(data)).toBe('image-bytes')
+	expect(calls.map((call) => call.url)).toEqual([
+		'http://localhost:8081/bottest_token/getFile',
+		'http://localhost:8081/file/bottest_token/photos/file_1.jpg',
+	])
+
+	// Files with a known path are downloaded directly
+	const stream = await bot.downloadFileStream({
+		file_id: 'abc',
+		file_path: 'photos/file_1.jpg',
+	})
+	expect(await new Response(stream).text()).toBe('image-bytes')
+	expect(calls).toHaveLength(3)
+})
+
+test('downloadFile errors should not contain the bot token', async () => {
+	const bot = new TelegramBot({ botToken: '123456:secret-token-value' })
+	const file = { file_id: 'abc', file_path: 'documents/file_2.pdf' }
+
+	mockFetch(
+		() =>
+			new Response('Not Found', {
+				status: 404,
+				statusText: 'Not Found',
+			}),
+	)
+	const notFound = await bot.downloadFile(file).catch((error) => error)
+	expect(notFound).toBeInstanceOf(TelegramAPIError)
+	expect(notFound.errorCode).toBe(404)
+
+	mockFetch(({ url }) => {
+		throw new TypeError(`Unable to connect to ${url}`)
+	})
+	const failed = await bot.downloadFile(file).catch((error) => error)
+	expect(failed).toBeInstanceOf(NetworkError)
+	expect(failed.message).not.toContain('secret-token-value')
+})
@@ -0,0 +1,79 @@
+import { expect, test } from 'bun:test'
+import {
+	asCaption,
+	blockquote,
+	bold,
+	code,
+	escapeHtml,
+	escapeMarkdownV2,
+	fmt,
+	html,
+	italic,
+	join,
+	link,
+	md,
+	mention,
+	pre,
+	spoiler,
+} from '../src'
+
+test('escapeMarkdownV2 and escapeHtml should escape special characters', () => {
+	expect(escapeMarkdownV2('snake_case *x* 1.5 (a) [b] !')).toBe(
+		'snake\\_case \\*x\\* 1\\.5 \\(a\\) \\[b\\] \\!',
+	)
+	expect(escapeHtml('<b>Tom & "Jerry"</b>')).toBe(
+		'&lt;b&gt;Tom &amp; &quot;Jerry&quot;&lt;/b&gt;',
+	)
+})
+
+test('md should escape interpolations and render primitives', () => {
+	const name = 'John_Doe (admin)'
+	expect(md`*Hi* ${name}\\!`).toBe('*Hi* John\\_Doe \\(admin\\)\\!')
+	expect(md`${bold(fmt`Total ${italic('5.5')}`)} ${code('a`b')}`).toBe(
+		'*Total _5\\.5_* `a\\`b`',
+	)
+	expect(md`${link('docs', 'https://example.com/a_(b)')}`).toBe(
+		'[docs](https://example.com/a_(b\\))',
+	)
+	expect(md`${pre('const x = 1', 'ts')}`).toBe('```ts\nconst x = 1\n```')
+	expect(md`${blockquote('line 1\nline 2')}`).toBe('>line 1\n>line 2')
+})
+
+test('html should escape interpolations and render primitives', () => {
+	const name = '<script>'
+	expect(html`<b>Hi</b> ${name}`).toBe('<b>Hi</b> &lt;script&gt;')
+	expect(
+		html`${mention('Ann', 42)} ${spoiler('x')} ${pre('a < b', 'js')}`,
+	).toBe(
+		'<a href="tg://user?id=42">Ann</a> <tg-spoiler>x</tg-spoiler> <pre><code class="language-js">a &lt; b</code></pre>',
+	)
+	expect(html`${blockquote('quote', { expandable: true })}`).toBe(
+		'<blockquote expandable>quote</blockquote>',
+	)
+})
+
+test('fmt should build text and entities with UTF-16 offsets', () => {
+	const message = fmt`🚗 ${bold('Car')} — ${italic(fmt`due ${bold('today')}`)}`
+
+	expect(message.text).toBe('🚗 Car — due today')
+	expect(message.entities).toEqual([
+		{ type: 'bold', offset: 3, length: 3 },
+		{ type: 'italic', offset: 9, length: 9 },
+		{ type: 'bold', offset: 13, length: 5 },
+	])
+})
+
+test('join and asCaption should shift entities', () => {
+	const list = join([bold('a'), bold('b')], '\n')
+	expect(list).toEqual({
+		text: 'a\nb',
+		entities: [
+			{ type: 'bold', offset: 0, length: 1 },
+			{ type: 'bold', offset: 2, length: 1 },
+		],
+	})
+	expect(asCaption(list)).toEqual({
+		caption: list.text,
+		caption_entities: list.entities,
+	})
+})
@@ -0,0 +1,88 @@
+import { expect, test } from 'bun:test'
+import {
+	type ApiSpec,
+	generateApi,
+	generateFromSpec,
+	OUTPUT_PATH,
+} from '../scripts/generate-api'
+
+test('generated client should be up to date with the spec', async () => {
+	const current = await Bun.file(
+		new URL(`../${OUTPUT_PATH}`, import.meta.url),
+	).text()
+
+	// Run `bun run generate` after changing spec/bot-api.json
+	expect(current).toBe(await generateFromSpec())
+})
+
+test('generateApi should reject references to unknown types', () => {
+	const spec: ApiSpec = {
+		version: 'Bot API test',
+		release_date: '',
+		types: {},
+		methods: {
+			getStarTransactions: {
+				name: 'getStarTransactions',
+				href: '',
+				description: [],
+				returns: ['StarTransactions'],
+			},
+		},
+	}
+
+	expect(() => generateApi(spec)).toThrow(
+		'Unknown Bot API type: StarTransactions',
+	)
+})
+
+test('generateApi should generate circular objects lazily', () => {
+	const field = (name: string, types: string[], required = true) => ({
+		name,
+		types,
+		required,
+		description: '',
+	})
+	const spec: ApiSpec = {
+		version: 'Bot API test',
+		release_date: '',
+		types: {
+			Folder: {
+				name: 'Folder',
+				href: '',
+				description: ['A folder'],
+				fields: [
+					field('parent', ['Folder'], false),
+					field('notes', ['Array of Note']),
+				],
+			},
+			Note: {
+				name: 'Note',
+				href: '',
+				description: ['A note'],
+				fields: [field('folder', ['Folder'])],
+			},
+		},
+		methods: {
+			getFolder: {
+				name: 'getFolder',
+				href: '',
+				description: [],
+				returns: ['Folder'],
+			},
+		},
+	}
+
+	const source = generateApi(spec)
+	expect(source).toContain('export interface Folder {')
+	expect(source).toContain(
+		'export const FolderSchema: z.ZodType<Folder> = z.object(',
+	)
+	// Note comes first, so only its reference back to Folder is deferred
+	expect(source).toContain(
+		'folder: z.lazy((): z.ZodType<Folder> => FolderSchema)',
+	)
+	expect(source).toContain(
+		'parent: z.lazy((): z.ZodType<Folder> => FolderSchema)',
+	)
+	expect(source).toContain('notes: z.array(NoteSchema)')
+})
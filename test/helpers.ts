@@ -0,0 +1,122 @@
+/**
+ * Fetch mocks shared by the client tests
+ *
+ * Every helper replaces `globalThis.fetch`. Restore it after each test with
+ * `afterEach(restoreFetch)`.
+ */
+
+const originalFetch = globalThis.fetch
+
+/**
+ * A request received by a mocked fetch
+ */
+export interface FetchCall {
+	/**
+	 * Requested URL
+	 */
+	url: string
+
+	/**
+	 * Last path segment of the URL, the Bot API method for API requests
+	 */
+	method: string
+
+	/**
+	 * Raw request body
+	 */
+	body: RequestInit['body']
+
+	/**
+	 * JSON body parsed, or an empty object for other bodies
+	 */
+	params: Record<string, unknown>
+
+	/**
+	 * Abort signal of the request
+	 */
+	signal?: AbortSignal | null
+}
+
+/**
+ * Put the real fetch back
+ */
+export function restoreFetch(): void {
+	globalThis.fetch = originalFetch
+}
+
+/**
+ * Answer every request with a handler
+ *
+ * @param handler - Produces the response of a request. Throw to fail it
+ * @returns The calls received so far, in order
+ */
+export function mockFetch(
+	handler: (call: FetchCall) => Response | Promise<Response>,
+): FetchCall[] {
+	const calls: FetchCall[] = []
+	globalThis.fetch = (async (
+		input: string | URL | Request,
+		init?: RequestInit,
+	) => {
+		const url = String(input)
+		const body = init?.body
+		const call: FetchCall = {
+			url,
+			method: url.split('/').pop() ?? '',
+			body,
+			params: typeof body === 'string' ? JSON.parse(body) : {},
+			signal: init?.signal,
+		}
+		calls.push(call)
+		return handler(call)
+	}) as unknown as typeof fetch
+	return calls
+}
+
+/**
+ * Answer every Bot API request successfully
+ *
+ * @param respond - Result of every request, or a function computing the
+ * result of each one
+ * @returns The calls received so far, in order
+ */
+export function mockTelegram(respond: (call: FetchCall) => unknown): FetchCall[]
+export function mockTelegram(result: unknown): FetchCall[]
+export function mockTelegram(respond: unknown): FetchCall[] {
+	return mockFetch(async (call) =>
+		Response.json({
+			ok: true,
+			result: typeof respond === 'function' ? await respond(call) : respond,
+		}),
+	)
+}
+
+/**
+ * Answer requests with the given JSON bodies in turn, repeating the last
+ * one. Errors are thrown instead, like network failures
+ *
+ * @param responses - Response bodies or errors, one per request
+ * @returns The calls received so far, in order
+ */
+export function mockResponses(responses: Array<unknown | Error>): FetchCall[] {
+	let count = 0
+	return mockFetch(() => {
+		const next = responses[Math.min(count++, responses.length - 1)]
+		if (next instanceof Error) throw next
+		return Response.json(next)
+	})
+}
+
+/**
+ * Never answer, failing requests only when their signal aborts
+ */
+export function mockHangingFetch(): void {
+	mockFetch(
+		({ signal }) =>
+			new Promise((_resolve, reject) => {
+				signal?.addEventListener('abort', () =>
+					reject(new DOMException('Aborted', 'AbortError')),
+				)
+			}),
+	)
+}
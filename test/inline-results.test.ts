@@ -0,0 +1,106 @@
+import { expect, test } from 'bun:test'
+import { z } from 'zod'
+import {
+	type InlineQueryResult,
+	InlineQueryResultError,
+	InlineQueryResults,
+	paginateInlineResults,
+	TelegramError,
+} from '../src'
+
+test('InlineQueryResults should build validated results', () => {
+	const results = new InlineQueryResults()
+		.article('car-1', 'Sedan', 'Sedan, 2021', { description: 'Available' })
+		.photo('car-2', 'https://x.y/2.jpg', 'https://x.y/2_thumb.jpg')
+		.add({
+			type: 'venue',
+			id: 'depot',
+			latitude: 1,
+			longitude: 2,
+			title: 'Depot',
+			address: 'Main St',
+			input_message_content: {
+				latitude: 1,
+				longitude: 2,
+				title: 'Depot',
+				address: 'Main St',
+			},
+		})
+		.build()
+
+	expect(results[0]).toEqual({
+		type: 'article',
+		id: 'car-1',
+		title: 'Sedan',
+		input_message_content: { message_text: 'Sedan, 2021' },
+		description: 'Available',
+	})
+	expect(results[1]?.type).toBe('photo')
+	// Content matching several variants keeps all its fields
+	const content = results[2] as { input_message_content?: unknown }
+	expect(content.input_message_content).toEqual({
+		latitude: 1,
+		longitude: 2,
+		title: 'Depot',
+		address: 'Main St',
+	})
+})
+
+test('InlineQueryResults should reject invalid ids and too many results', () => {
+	expect(() => new InlineQueryResults().article('', 'Empty', 'x')).toThrow(
+		InlineQueryResultError,
+	)
+	expect(() => new InlineQueryResults().article('', 'Empty', 'x')).toThrow(
+		TelegramError,
+	)
+	expect(() =>
+		new InlineQueryResults().article('é'.repeat(33), 'Long', 'x'),
+	).toThrow('1-64 bytes')
+	expect(() =>
+		new InlineQueryResults().article('a', 'A', 'x').article('a', 'B', 'y'),
+	).toThrow('Duplicate result id')
+
+	const ids = Array.from({ length: 51 }, (_, i) => String(i))
+	expect(() =>
+		new InlineQueryResults().fromList(ids, (id) => ({
+			type: 'article',
+			id,
+			title: id,
+			input_message_content: { message_text: id },
+		})),
+	).toThrow('at most 50 results')
+})
+
+test('InlineQueryResults should report invalid results with the Zod error', () => {
+	let error: unknown
+	try {
+		new InlineQueryResults().add({
+			type: 'article',
+			id: 'car-1',
+			title: 'Sedan',
+		} as unknown as InlineQueryResult)
+	} catch (e) {
+		error = e
+	}
+
+	expect(error).toBeInstanceOf(InlineQueryResultError)
+	expect((error as Error).message).toContain(
+		'Invalid inline query result "car-1"',
+	)
+	expect((error as Error).cause).toBeInstanceOf(z.ZodError)
+})
+
+test('paginateInlineResults should return pages with the next offset', () => {
+	const items = Array.from({ length: 45 }, (_, i) => i)
+
+	const first = paginateInlineResults(items, '', 20)
+	expect(first.items).toEqual(items.slice(0, 20))
+	expect(first.nextOffset).toBe('20')
+
+	const last = paginateInlineResults(items, '40', 20)
+	expect(last.items).toEqual([40, 41, 42, 43, 44])
+	expect(last.nextOffset).toBe('')
+
+	expect(paginateInlineResults(items, 'garbage', 20).items[0]).toBe(0)
+	expect(() => paginateInlineResults(items, '', 51)).toThrow(RangeError)
+})
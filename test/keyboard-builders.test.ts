@@ -0,0 +1,95 @@
+import { expect, test } from 'bun:test'
+import {
+	forceReply,
+	InlineKeyboard,
+	ReplyKeyboard,
+	removeKeyboard,
+} from '../src'
+
+test('InlineKeyboard should build rows of buttons', () => {
+	const markup = new InlineKeyboard()
+		.text('👍 Like', 'like')
+		.text('👎 Dislike', 'dislike')
+		.row()
+		.url('Website', 'https://example.com')
+		.webApp('App', 'https://example.com/app')
+		.row()
+		.build()
+
+	expect(markup.inline_keyboard).toEqual([
+		[
+			{ text: '👍 Like', callback_data: 'like' },
+			{ text: '👎 Dislike', callback_data: 'dislike' },
+		],
+		[
+			{ text: 'Website', url: 'https://example.com' },
+			{ text: 'App', web_app: { url: 'https://example.com/app' } },
+		],
+	])
+})
+
+test('InlineKeyboard should lay out lists in columns', () => {
+	const vehicles = [1, 2, 3, 4, 5]
+	const markup = new InlineKeyboard()
+		.columns(2)
+		.fromList(vehicles, (id) => ({
+			text: `Vehicle ${id}`,
+			callback_data: `vehicle_${id}`,
+		}))
+		.build()
+
+	expect(markup.inline_keyboard.map((row) => row.length)).toEqual([2, 2, 1])
+
+	const reflowed = new InlineKeyboard()
+		.text('A', 'a')
+		.text('B', 'b')
+		.text('C', 'c')
+		.columns(1)
+		.build()
+	expect(reflowed.inline_keyboard.length).toBe(3)
+
+	// Rows ended explicitly are not reflowed
+	const kept = new InlineKeyboard()
+		.text('A', 'a')
+		.row()
+		.text('B', 'b')
+		.text('C', 'c')
+		.columns(3)
+		.text('D', 'd')
+		.build()
+	expect(kept.inline_keyboard.map((row) => row.map((b) => b.text))).toEqual([
+		['A'],
+		['B', 'C', 'D'],
+	])
+})
+
+test('InlineKeyboard should reject invalid buttons', () => {
+	expect(() =>
+		new InlineKeyboard().text('Big', 'x'.repeat(65)).build(),
+	).toThrow()
+})
+
+test('ReplyKeyboard should build markup with options', () => {
+	const markup = new ReplyKeyboard()
+		.text('Button 1')
+		.text('Button 2')
+		.row()
+		.add({ text: 'Share Contact', request_contact: true })
+		.resize()
+		.oneTime()
+		.placeholder('Pick one')
+		.build()
+
+	expect(markup.keyboard.length).toBe(2)
+	expect(markup.resize_keyboard).toBe(true)
+	expect(markup.one_time_keyboard).toBe(true)
+	expect(markup.input_field_placeholder).toBe('Pick one')
+})
+
+test('removeKeyboard and forceReply should build markup', () => {
+	expect(removeKeyboard()).toEqual({ remove_keyboard: true })
+	expect(forceReply({ placeholder: 'Kilometers' })).toMatchObject({
+		force_reply: true,
+		input_field_placeholder: 'Kilometers',
+	})
+})
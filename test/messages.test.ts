@@ -0,0 +1,197 @@
+import { expect, test } from 'bun:test'
+import { MessageSchema } from '../src'
+
+const base = {
+	message_id: 1,
+	date: 1762922251,
+	chat: { id: -100, type: 'supergroup', title: 'Fleet' },
+}
+
+const file = { file_id: 'f', file_unique_id: 'u' }
+
+test('MessageSchema should keep media content', () => {
+	const message = MessageSchema.parse({
+		...base,
+		document: {
+			...file,
+			file_name: 'report.pdf',
+			mime_type: 'application/pdf',
+			thumbnail: { ...file, width: 90, height: 90 },
+		},
+		caption: 'Report',
+	})
+	expect(message.document?.file_name).toBe('report.pdf')
+	expect(message.document?.thumbnail?.width).toBe(90)
+
+	const voice = MessageSchema.parse({
+		...base,
+		voice: { ...file, duration: 3 },
+	})
+	expect(voice.voice?.duration).toBe(3)
+
+	const sticker = MessageSchema.parse({
+		...base,
+		sticker: {
+			...file,
+			type: 'regular',
+			width: 512,
+			height: 512,
+			is_animated: false,
+			is_video: true,
+			emoji: '🚗',
+		},
+	})
+	expect(sticker.sticker?.emoji).toBe('🚗')
+})
+
+test('MessageSchema should keep contacts, venues, dice and polls', () => {
+	const message = MessageSchema.parse({
+		...base,
+		contact: { phone_number: '+100', first_name: 'Ann', user_id: 7 },
+		venue: {
+			location: { latitude: 1, longitude: 2 },
+			title: 'Garage',
+			address: 'Main St 1',
+		},
+		dice: { emoji: '🎲', value: 4 },
+		poll: {
+			id: 'p',
+			question: 'Service day?',
+			options: [
+				{ text: 'Mon', voter_count: 1 },
+				{ text: 'Tue', voter_count: 0 },
+			],
+			total_voter_count: 1,
+			is_closed: false,
+			is_anonymous: true,
+			type: 'regular',
+			allows_multiple_answers: false,
+		},
+	})
+
+	expect(message.contact?.user_id).toBe(7)
+	expect(message.venue?.location.latitude).toBe(1)
+	expect(message.dice?.value).toBe(4)
+	expect(message.poll?.options).toHaveLength(2)
+})
+
+test('MessageSchema should keep service messages', () => {
+	const user = { id: 7, is_bot: false, first_name: 'Ann' }
+
+	const joined = MessageSchema.parse({ ...base, new_chat_members: [user] })
+	expect(joined.new_chat_members?.[0]?.first_name).toBe('Ann')
+
+	const migrated = MessageSchema.parse({ ...base, migrate_to_chat_id: -1001 })
+	expect(migrated.migrate_to_chat_id).toBe(-1001)
+
+	const pinned = MessageSchema.parse({
+		...base,
+		pinned_message: { ...base, message_id: 0, date: 0 },
+	})
+	expect(pinned.pinned_message?.date).toBe(0)
+
+	const topic = MessageSchema.parse({
+		...base,
+		forum_topic_created: { name: 'Repairs', icon_color: 7322096 },
+		group_chat_created: true,
+	})
+	expect(topic.forum_topic_created?.name).toBe('Repairs')
+	expect(topic.group_chat_created).toBe(true)
+
+	const closed = MessageSchema.parse({ ...base, forum_topic_closed: {} })
+	expect(closed.forum_topic_closed).toEqual({})
+})
+
+test('MessageSchema should keep forwards, replies and link previews', () => {
+	const message = MessageSchema.parse({
+		...base,
+		text: 'See above',
+		forward_origin: {
+			type: 'channel',
+			date: 1762922000,
+			chat: { id: -1002, type: 'channel', title: 'News' },
+			message_id: 40,
+		},
+		external_reply: {
+			origin: { type: 'hidden_user', date: 1762922000, sender_user_name: 'Bo' },
+			photo: [{ ...file, width: 90, height: 90 }],
+		},
+		quote: { text: 'above', position: 4, is_manual: true },
+		link_preview_options: { is_disabled: true },
+	})
+
+	expect(message.forward_origin?.type).toBe('channel')
+	expect(message.external_reply?.origin.type).toBe('hidden_user')
+	expect(message.external_reply?.photo).toHaveLength(1)
+	expect(message.quote?.position).toBe(4)
+	expect(message.link_preview_options?.is_disabled).toBe(true)
+})
+
+test('MessageSchema should keep stories, games and paid media', () => {
+	const message = MessageSchema.parse({
+		...base,
+		story: { chat: base.chat, id: 3 },
+		game: {
+			title: 'Parking',
+			description: 'Park the truck',
+			photo: [{ ...file, width: 90, height: 90 }],
+		},
+		paid_media: {
+			star_count: 10,
+			paid_media: [{ type: 'preview', width: 640 }],
+		},
+	})
+
+	expect(message.story?.id).toBe(3)
+	expect(message.game?.title).toBe('Parking')
+	expect(message.paid_media?.paid_media[0]?.type).toBe('preview')
+})
+
+test('MessageSchema should keep sharing, giveaway and boost service messages', () => {
+	const user = { id: 7, is_bot: false, first_name: 'Ann' }
+
+	const shared = MessageSchema.parse({
+		...base,
+		users_shared: { request_id: 1, users: [{ user_id: 7 }] },
+		chat_shared: { request_id: 2, chat_id: -1003, title: 'Depot' },
+		write_access_allowed: { from_request: true },
+		boost_added: { boost_count: 2 },
+	})
+	expect(shared.users_shared?.users[0]?.user_id).toBe(7)
+	expect(shared.chat_shared?.title).toBe('Depot')
+	expect(shared.write_access_allowed?.from_request).toBe(true)
+	expect(shared.boost_added?.boost_count).toBe(2)
+
+	const giveaway = MessageSchema.parse({
+		...base,
+		giveaway_created: { prize_star_count: 500 },
+		giveaway: {
+			chats: [base.chat],
+			winners_selection_date: 1763000000,
+			winner_count: 3,
+		},
+	})
+	expect(giveaway.giveaway_created?.prize_star_count).toBe(500)
+	expect(giveaway.giveaway?.winner_count).toBe(3)
+
+	const winners = MessageSchema.parse({
+		...base,
+		giveaway_winners: {
+			chat: base.chat,
+			giveaway_message_id: 5,
+			winners_selection_date: 1763000000,
+			winner_count: 1,
+			winners: [user],
+		},
+	})
+	expect(winners.giveaway_winners?.winners[0]?.first_name).toBe('Ann')
+
+	const completed = MessageSchema.parse({
+		...base,
+		giveaway_completed: {
+			winner_count: 1,
+			giveaway_message: { ...base, message_id: 5 },
+		},
+	})
+	expect(completed.giveaway_completed?.giveaway_message?.message_id).toBe(5)
+})
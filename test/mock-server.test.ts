@@ -0,0 +1,315 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+	BadRequestError,
+	BotBlockedError,
+	createWebhookHandler,
+	FloodWaitError,
+	startPolling,
+	TelegramAPIError,
+	TelegramBot,
+	TelegramError,
+	type Update,
+} from '../src'
+import { MockApiError, MockBotApiServer } from '../src/testing'
+
+const BOT_TOKEN = '123456:test-token'
+
+let server: MockBotApiServer | undefined
+
+const createBot = async (
+	config: Partial<ConstructorParameters<typeof TelegramBot>[0]> = {},
+) => {
+	server = new MockBotApiServer({ botToken: BOT_TOKEN })
+	const bot = new TelegramBot({
+		botToken: BOT_TOKEN,
+		baseUrl: await server.listen(),
+		...config,
+	})
+	return { bot, server }
+}
+
+const textUpdate = {
+	message: {
+		message_id: 1,
+		date: 1762922251,
+		chat: { id: 42, type: 'private' as const },
+		text: '/start',
+	},
+}
+
+afterEach(async () => {
+	await server?.close()
+	server = undefined
+})
+
+test('MockBotApiServer should answer and record client requests', async () => {
+	const { bot, server } = await createBot({ validateResponses: true })
+
+	const me = await bot.getMe()
+	expect(me.username).toBe('mock_bot')
+
+	const message = await bot.sendMessage({
+		chat_id: 42,
+		text: 'Hello',
+		reply_markup: { inline_keyboard: [[{ text: 'OK', callback_data: 'ok' }]] },
+	})
+	expect(message.chat).toEqual({ id: 42, type: 'private' })
+	expect(message.text).toBe('Hello')
+
+	const edited = await bot.editMessageText({
+		chat_id: 42,
+		message_id: message.message_id,
+		text: 'Edited',
+	})
+	expect(edited).toMatchObject({ message_id: message.message_id })
+
+	server.expectSent({ chat_id: 42, text: 'Hello' }, 'sendMessage')
+	server.expectSent({
+		reply_markup: { inline_keyboard: [[{ callback_data: 'ok' }]] },
+	})
+	expect(server.calls.map((call) => call.method)).toEqual([
+		'getMe',
+		'sendMessage',
+		'editMessageText',
+	])
+	expect(() => server.expectSent({ text: 'Bye' }, 'sendMessage')).toThrow(
+		'Expected sendMessage with {"text":"Bye"}',
+	)
+})
+
+/**
+ * Methods of TelegramBot that are not Bot API methods
+ */
+const CLIENT_HELPERS = new Set([
+	'constructor',
+	'downloadFile',
+	'downloadFileStream',
+	'fetchFile',
+	'getApiUrl',
+	'getBotTokenMasked',
+	'getFileUrl',
+	'performRequest',
+	'redactToken',
+	'request',
+	'sendLongMessage',
+	'updateBotToken',
+])
+
+/**
+ * Parameters of methods needing more than the common ones
+ */
+const METHOD_PARAMS: Record<string, Record<string, unknown>> = {
+	editMessageMedia: { media: { type: 'photo', media: 'photo-id' } },
+	getFile: { file_id: 'file-1' },
+	sendMediaGroup: {
+		media: [
+			{ type: 'photo', media: 'photo-1' },
+			{ type: 'photo', media: 'photo-2' },
+		],
+	},
+	sendPoll: {
+		question: 'Tires OK?',
+		options: [{ text: 'Yes' }, { text: 'No' }],
+	},
+}
+
+test('MockBotApiServer should answer every TelegramBot method', async () => {
+	const { bot, server } = await createBot({ validateResponses: true })
+	server.addFile('file-1', 'contents')
+
+	const methods = new Set<string>()
+	for (
+		let prototype = TelegramBot.prototype;
+		prototype !== Object.prototype;
+		prototype = Object.getPrototypeOf(prototype)
+	) {
+		for (const name of Object.getOwnPropertyNames(prototype)) {
+			if (!CLIENT_HELPERS.has(name)) methods.add(name)
+		}
+	}
+	expect(methods.size).toBeGreaterThan(50)
+
+	const call = bot as unknown as Record<
+		string,
+		(params: Record<string, unknown>) => Promise<unknown>
+	>
+	const results: Record<string, unknown> = {}
+	// sendPoll sorts before stopPoll, which stops the poll it sent
+	for (const method of [...methods].sort()) {
+		const params = {
+			chat_id: 42,
+			message_id: 1,
+			user_id: 7,
+			text: 'Hi',
+			...METHOD_PARAMS[method],
+		}
+		if (method === 'stopPoll') {
+			const sent = results.sendPoll as { message_id: number }
+			params.message_id = sent.message_id
+		}
+		results[method] = await call[method]?.(params).catch((error: unknown) => {
+			throw new Error(`${method} failed: ${error}`)
+		})
+	}
+
+	expect(results.sendChatAction).toBe(true)
+	expect(results.getChatMember).toMatchObject({
+		status: 'member',
+		user: { id: 7 },
+	})
+	expect(results.getUserProfilePhotos).toEqual({ total_count: 0, photos: [] })
+	expect(results.exportChatInviteLink).toStartWith('https://t.me/+')
+	expect(results.createInvoiceLink).toStartWith('https://t.me/$')
+	expect(results.stopPoll).toMatchObject({
+		question: 'Tires OK?',
+		options: [
+			{ text: 'Yes', voter_count: 0 },
+			{ text: 'No', voter_count: 0 },
+		],
+		is_closed: true,
+	})
+	expect(server.calls.map((c) => c.method)).toEqual([...methods].sort())
+})
+
+test('MockBotApiServer should answer failing handlers with a 500', async () => {
+	const { bot, server } = await createBot()
+	server.on('getMe', () => {
+		throw new TypeError('handler bug')
+	})
+
+	const error = await bot.getMe().catch((e: unknown) => e)
+	expect(error).toBeInstanceOf(TelegramAPIError)
+	expect((error as TelegramAPIError).errorCode).toBe(500)
+	expect((error as TelegramAPIError).description).toContain('handler bug')
+
+	// The server keeps answering
+	expect((await bot.sendMessage({ chat_id: 42, text: 'Hi' })).text).toBe('Hi')
+})
+
+test('MockBotApiServer should simulate API errors', async () => {
+	const { bot, server } = await createBot()
+
+	server.failNext('sendMessage', 403)
+	await expect(bot.sendMessage({ chat_id: 42, text: 'Hi' })).rejects.toThrow(
+		BotBlockedError,
+	)
+
+	server.failNext('*', {
+		error_code: 400,
+		description: 'Bad Request: message to edit not found',
+	})
+	await expect(
+		bot.editMessageText({ chat_id: 42, message_id: 9, text: 'Hi' }),
+	).rejects.toThrow(BadRequestError)
+
+	server.failNext('sendMessage', 429)
+	const error = await bot
+		.sendMessage({ chat_id: 42, text: 'Hi' })
+		.catch((e: unknown) => e)
+	expect(error).toBeInstanceOf(FloodWaitError)
+	expect((error as FloodWaitError).retryAfter).toBe(1)
+
+	const mockError = new MockApiError(400)
+	expect(mockError).toBeInstanceOf(TelegramError)
+	server.on('getChatMember', () => {
+		throw mockError
+	})
+	await expect(bot.getChatMember({ chat_id: 7, user_id: 1 })).rejects.toThrow(
+		'Bad Request: chat not found',
+	)
+
+	await expect(bot.sendMessage({ chat_id: 42, text: '' })).rejects.toThrow(
+		'message text is empty',
+	)
+})
+
+test('MockBotApiServer should let the client retry rate limited requests', async () => {
+	const { bot, server } = await createBot({
+		retry: { maxAttempts: 3, baseDelay: 0, respectRetryAfter: false },
+	})
+
+	server.failNext('sendMessage', 429, 2)
+	await bot.sendMessage({ chat_id: 42, text: 'Eventually' })
+
+	expect(server.callsTo('sendMessage')).toHaveLength(3)
+})
+
+test('MockBotApiServer should reject other bot tokens', async () => {
+	const { server } = await createBot()
+	const other = new TelegramBot({
+		botToken: '654321:other-token',
+		baseUrl: server.baseUrl,
+	})
+
+	const error = await other.getMe().catch((e: unknown) => e)
+	expect(error).toBeInstanceOf(TelegramAPIError)
+	expect((error as TelegramAPIError).errorCode).toBe(401)
+	expect(server.calls).toHaveLength(0)
+})
+
+test('MockBotApiServer should deliver pushed updates to polling', async () => {
+	const { bot, server } = await createBot()
+	const controller = new AbortController()
+	const received: Update[] = []
+
+	server.pushUpdate(textUpdate)
+	const polling = startPolling(
+		bot,
+		(update) => {
+			received.push(update)
+			if (received.length === 2) controller.abort()
+		},
+		{ signal: controller.signal, timeout: 5, onError: () => {} },
+	)
+	// Arrives while the client is waiting on a long polling request
+	setTimeout(() => server.pushUpdate(textUpdate), 20)
+	await polling
+
+	expect(received.map((update) => update.update_id)).toEqual([1, 2])
+	expect(server.callsTo('getUpdates')[1]?.params).toMatchObject({ offset: 2 })
+})
+
+test('MockBotApiServer should deliver updates to a webhook handler', async () => {
+	const { bot, server } = await createBot()
+	const received: Update[] = []
+
+	await bot.setWebhook({
+		url: 'https://example.com/webhook',
+		secret_token: 'secret',
+	})
+	expect((await bot.getWebhookInfo()).url).toBe('https://example.com/webhook')
+
+	const handler = createWebhookHandler({
+		secretToken: 'secret',
+		onUpdate: (update) => {
+			received.push(update)
+		},
+		onError: () => {},
+	})
+	const response = await server.deliverWebhook(textUpdate, handler)
+
+	expect(response.status).toBe(200)
+	expect(received[0]?.message?.text).toBe('/start')
+	await expect(bot.getUpdates()).rejects.toThrow('Conflict')
+})
+
+test('MockBotApiServer should receive uploads and serve files', async () => {
+	const { bot, server } = await createBot()
+
+	await bot.sendPhoto({
+		chat_id: 42,
+		photo: new Blob(['image'], { type: 'image/jpeg' }),
+		caption: 'Odometer',
+	})
+	const call = server.expectSent({ chat_id: 42, caption: 'Odometer' })
+	expect(call.params.photo).toBeInstanceOf(Blob)
+
+	server.addFile('file-1', 'report contents')
+	const file = await bot.getFile({ file_id: 'file-1' })
+	const content = await bot.downloadFile(file)
+	expect(new TextDecoder().decode(content)).toBe('report contents')
+
+	await expect(bot.getFile({ file_id: 'missing' })).rejects.toThrow(
+		'invalid file_id',
+	)
+})
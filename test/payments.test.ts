@@ -0,0 +1,82 @@
+import { afterEach, expect, test } from 'bun:test'
+import { answerPreCheckout, MessageSchema, TelegramBot } from '../src'
+import { mockTelegram, restoreFetch } from './helpers'
+
+afterEach(restoreFetch)
+
+const query = {
+	id: 'checkout1',
+	from: { id: 1, is_bot: false, first_name: 'Ann' },
+	currency: 'XTR',
+	total_amount: 50,
+	invoice_payload: 'report:42',
+}
+
+test('answerPreCheckout should accept or decline with the validator message', async () => {
+	const bot = new TelegramBot({ botToken: 'test_token' })
+	const answers = mockTelegram(true)
+
+	expect(await answerPreCheckout(bot, query, () => true)).toBe(true)
+	expect(
+		await answerPreCheckout(bot, query, async () => 'Report unavailable'),
+	).toBe(false)
+
+	expect(answers.map((call) => call.params)).toEqual([
+		{ pre_checkout_query_id: 'checkout1', ok: true },
+		{
+			pre_checkout_query_id: 'checkout1',
+			ok: false,
+			error_message: 'Report unavailable',
+		},
+	])
+})
+
+test('answerPreCheckout should decline when the validator is too slow or throws', async () => {
+	const bot = new TelegramBot({ botToken: 'test_token' })
+	const answers = mockTelegram(true)
+
+	let aborted = false
+	const slow = await answerPreCheckout(
+		bot,
+		query,
+		(_query, signal) =>
+			new Promise<boolean>((resolve) => {
+				signal.addEventListener('abort', () => {
+					aborted = true
+					resolve(true)
+				})
+			}),
+		{ timeout: 10, errorMessage: 'Try again' },
+	)
+	expect(slow).toBe(false)
+	expect(aborted).toBe(true)
+	expect(answers[0]?.params).toEqual({
+		pre_checkout_query_id: 'checkout1',
+		ok: false,
+		error_message: 'Try again',
+	})
+
+	await expect(
+		answerPreCheckout(bot, query, () => {
+			throw new Error('Database down')
+		}),
+	).rejects.toThrow('Database down')
+	expect(answers[1]?.params.ok).toBe(false)
+})
+
+test('MessageSchema should parse invoices and payments', () => {
+	const message = MessageSchema.parse({
+		message_id: 1,
+		date: 0,
+		chat: { id: 1, type: 'private' },
+		successful_payment: {
+			currency: 'XTR',
+			total_amount: 50,
+			invoice_payload: 'report:42',
+			telegram_payment_charge_id: 'tg_1',
+			provider_payment_charge_id: '',
+		},
+	})
+
+	expect(message.successful_payment?.invoice_payload).toBe('report:42')
+})
@@ -0,0 +1,132 @@
+import { afterEach, expect, test } from 'bun:test'
+import { startPolling, TelegramBot, type Update } from '../src'
+import { mockTelegram, restoreFetch } from './helpers'
+
+afterEach(restoreFetch)
+
+const message = (updateId: number, text: string) => ({
+	update_id: updateId,
+	message: {
+		message_id: updateId,
+		date: 1762922251,
+		chat: { id: 1, type: 'private' },
+		text,
+	},
+})
+
+test('startPolling should remove an active webhook and track the offset', async () => {
+	const controller = new AbortController()
+	const batches = [
+		[message(10, 'one'), message(11, 'two')],
+		[message(12, 'three')],
+	]
+
+	const calls = mockTelegram(({ method }) => {
+		if (method === 'getWebhookInfo') {
+			return {
+				url: 'https://example.com/hook',
+				has_custom_certificate: false,
+				pending_update_count: 0,
+			}
+		}
+		if (method === 'getUpdates') {
+			const batch = batches.shift()
+			if (!batch) controller.abort()
+			return batch ?? []
+		}
+		return true
+	})
+
+	const received: string[] = []
+	await startPolling(
+		new TelegramBot({ botToken: 'test_token' }),
+		(update: Update) => {
+			received.push(update.message?.text ?? '')
+		},
+		{
+			signal: controller.signal,
+			allowedUpdates: ['message'],
+			onError: () => {},
+		},
+	)
+
+	expect(received).toEqual(['one', 'two', 'three'])
+	expect(calls.map((call) => call.method)).toEqual([
+		'getWebhookInfo',
+		'deleteWebhook',
+		'getUpdates',
+		'getUpdates',
+		'getUpdates',
+		'getUpdates',
+	])
+	expect(calls[2]?.params.allowed_updates).toEqual(['message'])
+	expect(calls[3]?.params.offset).toBe(12)
+	expect(calls[4]?.params.offset).toBe(13)
+	expect(calls[5]?.params).toMatchObject({ offset: 13, timeout: 0 })
+})
+
+test('startPolling should report handler errors and keep polling', async () => {
+	const controller = new AbortController()
+	const batches = [[message(1, 'fail'), message(2, 'ok')]]
+
+	mockTelegram(({ method }) => {
+		if (method === 'getWebhookInfo') {
+			return { url: '', has_custom_certificate: false, pending_update_count: 0 }
+		}
+		if (method === 'getUpdates') {
+			const batch = batches.shift()
+			if (!batch) controller.abort()
+			return batch ?? []
+		}
+		return true
+	})
+
+	const received: string[] = []
+	const errors: unknown[] = []
+	await startPolling(
+		new TelegramBot({ botToken: 'test_token' }),
+		(update) => {
+			if (update.message?.text === 'fail') throw new Error('boom')
+			received.push(update.message?.text ?? '')
+		},
+		{ signal: controller.signal, onError: (error) => errors.push(error) },
+	)
+
+	expect(received).toEqual(['ok'])
+	expect(errors.length).toBe(1)
+	expect((errors[0] as Error).message).toBe('boom')
+})
+
+test('startPolling should keep polling when onError throws', async () => {
+	const controller = new AbortController()
+	const batches = [[message(1, 'fail')], [message(2, 'ok')]]
+
+	mockTelegram(({ method }) => {
+		if (method === 'getWebhookInfo') {
+			return { url: '', has_custom_certificate: false, pending_update_count: 0 }
+		}
+		if (method === 'getUpdates') {
+			const batch = batches.shift()
+			if (!batch) controller.abort()
+			return batch ?? []
+		}
+		return true
+	})
+
+	const received: string[] = []
+	await startPolling(
+		new TelegramBot({ botToken: 'test_token' }),
+		(update) => {
+			if (update.message?.text === 'fail') throw new Error('boom')
+			received.push(update.message?.text ?? '')
+		},
+		{
+			signal: controller.signal,
+			onError: () => {
+				throw new Error('logger down')
+			},
+		},
+	)
+
+	expect(received).toEqual(['ok'])
+})
@@ -0,0 +1,188 @@
+import { afterEach, expect, test } from 'bun:test'
+import {
+	RateLimiter,
+	type RateLimiterClock,
+	RateLimitSchema,
+	TelegramBot,
+} from '../src'
+import { mockTelegram, restoreFetch } from './helpers'
+
+afterEach(restoreFetch)
+
+/**
+ * Clock whose time only moves when advanced
+ */
+function createClock() {
+	let time = 0
+	let nextId = 0
+	const timers = new Map<number, { at: number; callback: () => void }>()
+
+	const clock: RateLimiterClock & { advance(ms: number): Promise<void> } = {
+		now: () => time,
+		setTimeout: (callback, ms) => {
+			timers.set(++nextId, { at: time + ms, callback })
+			return nextId
+		},
+		clearTimeout: (handle) => {
+			timers.delete(handle as number)
+		},
+		advance: async (ms) => {
+			const end = time + ms
+			for (;;) {
+				const [id, timer] =
+					[...timers].sort(([, a], [, b]) => a.at - b.at)[0] ?? []
+				if (id === undefined || !timer || timer.at > end) break
+				timers.delete(id)
+				time = timer.at
+				timer.callback()
+				await flush()
+			}
+			time = end
+			await flush()
+		},
+	}
+	return clock
+}
+
+/**
+ * Let released requests run their continuations
+ */
+const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+function createLimiter(
+	options: Record<string, unknown>,
+	clock = createClock(),
+) {
+	return new RateLimiter(
+		RateLimitSchema.parse({ enabled: true, clock, ...options }),
+	)
+}
+
+test('RateLimiter should space requests to the same chat only', async () => {
+	const clock = createClock()
+	const limiter = createLimiter({ perChatPerSecond: 10 }, clock)
+	const times: Record<string, number> = {}
+
+	const all = Promise.all([
+		limiter.schedule(1).then(() => {
+			times.first = clock.now()
+		}),
+		limiter.schedule(1).then(() => {
+			times.second = clock.now()
+		}),
+		limiter.schedule(2).then(() => {
+			times.other = clock.now()
+		}),
+	])
+	await flush()
+	expect(times).toEqual({ first: 0, other: 0 })
+
+	await clock.advance(99)
+	expect(times.second).toBeUndefined()
+	await clock.advance(1)
+	await all
+	expect(times).toEqual({ first: 0, other: 0, second: 100 })
+})
+
+test('RateLimiter should pace groups per second and per minute', async () => {
+	const clock = createClock()
+	const limiter = createLimiter({}, clock)
+	const times: Record<string, number[]> = { group: [], typed: [] }
+
+	const all = Promise.all(
+		Array.from({ length: 5 }, () => [
+			limiter.schedule(-100).then(() => times.group?.push(clock.now())),
+			// A positive id is a user, unless the caller says otherwise
+			limiter
+				.schedule(100, 'normal', undefined, 'supergroup')
+				.then(() => times.typed?.push(clock.now())),
+		]).flat(),
+	)
+	await flush()
+	await clock.advance(6000)
+	await all
+
+	// One per second during the burst of 3, then 20 per minute
+	expect(times.group).toEqual([0, 1000, 2000, 3000, 6000])
+	expect(times.typed).toEqual(times.group)
+})
+
+test('RateLimiter should apply group limits once a chat turns out to be one', async () => {
+	const clock = createClock()
+	const limiter = createLimiter({}, clock)
+	const times: number[] = []
+
+	// Guessed to be a user from its positive id
+	await limiter.schedule(100)
+	const all = Promise.all(
+		Array.from({ length: 5 }, () =>
+			limiter
+				.schedule(100, 'normal', undefined, 'channel')
+				.then(() => times.push(clock.now())),
+		),
+	)
+	await flush()
+	await clock.advance(7000)
+	await all
+
+	expect(times).toEqual([1000, 2000, 3000, 4000, 7000])
+})
+
+test('RateLimiter should release higher priorities first', async () => {
+	const clock = createClock()
+	const limiter = createLimiter({ globalPerSecond: 20 }, clock)
+	// Use up the global burst
+	await Promise.all(Array.from({ length: 20 }, (_, i) => limiter.schedule(i)))
+
+	const order: string[] = []
+	const all = Promise.all([
+		limiter.schedule(100, 'low').then(() => order.push('low')),
+		limiter.schedule(101).then(() => order.push('normal')),
+		limiter.schedule(102, 'high').then(() => order.push('high')),
+	])
+	await clock.advance(1000)
+	await all
+
+	expect(order).toEqual(['high', 'normal', 'low'])
+})
+
+test('RateLimiter should drop aborted requests from the queue', async () => {
+	const limiter = createLimiter({ perChatPerSecond: 1 })
+	await limiter.schedule(1)
+
+	const controller = new AbortController()
+	const queued = limiter.schedule(1, 'normal', controller.signal)
+	expect(limiter.pending).toBe(1)
+
+	controller.abort()
+	await expect(queued).rejects.toThrow()
+	expect(limiter.pending).toBe(0)
+})
+
+test('TelegramBot should queue chat requests when rate limiting is enabled', async () => {
+	const clock = createClock()
+	const sentAt: number[] = []
+	mockTelegram(() => {
+		sentAt.push(clock.now())
+		return { message_id: 1, date: 0, chat: { id: 1, type: 'private' } }
+	})
+
+	expect(
+		new TelegramBot({ botToken: 'test_token' }).config.rateLimit.enabled,
+	).toBe(false)
+
+	const bot = new TelegramBot({
+		botToken: 'test_token',
+		rateLimit: { enabled: true, perChatPerSecond: 10, clock },
+	})
+	const all = Promise.all([
+		bot.sendMessage({ chat_id: 1, text: 'one' }),
+		bot.sendMessage({ chat_id: 1, text: 'two' }, { priority: 'high' }),
+	])
+	await flush()
+	expect(sentAt).toEqual([0])
+
+	await clock.advance(100)
+	await all
+	expect(sentAt).toEqual([0, 100])
+})
@@ -0,0 +1,105 @@
+import { afterEach, expect, test } from 'bun:test'
+import { TelegramAPIError, TelegramBot } from '../src'
+import { mockResponses, restoreFetch } from './helpers'
+
+afterEach(restoreFetch)
+
+const sent = {
+	ok: true,
+	result: { message_id: 1, date: 0, chat: { id: 1, type: 'private' } },
+}
+
+test('retries are disabled by default', async () => {
+	const calls = mockResponses([
+		{ ok: false, error_code: 500, description: 'Internal Server Error' },
+		sent,
+	])
+	const bot = new TelegramBot({ botToken: 'test_token' })
+
+	expect(bot.config.retry.maxAttempts).toBe(1)
+	await expect(bot.sendMessage({ chat_id: 1, text: 'hi' })).rejects.toThrow(
+		TelegramAPIError,
+	)
+	expect(calls.length).toBe(1)
+})
+
+test('should retry flood wait errors honoring retry_after', async () => {
+	const calls = mockResponses([
+		{
+			ok: false,
+			error_code: 429,
+			description: 'Too Many Requests: retry after 0',
+			parameters: { retry_after: 0 },
+		},
+		sent,
+	])
+	const bot = new TelegramBot({
+		botToken: 'test_token',
+		retry: { maxAttempts: 3 },
+	})
+
+	const message = await bot.sendMessage({ chat_id: 1, text: 'hi' })
+	expect(message.message_id).toBe(1)
+	expect(calls.length).toBe(2)
+})
+
+test('should not wait for flood waits longer than maxRetryAfter', async () => {
+	const calls = mockResponses([
+		{
+			ok: false,
+			error_code: 429,
+			description: 'Too Many Requests: retry after 120',
+			parameters: { retry_after: 120 },
+		},
+	])
+	const bot = new TelegramBot({
+		botToken: 'test_token',
+		retry: { maxAttempts: 3, maxRetryAfter: 60 },
+	})
+
+	try {
+		await bot.sendMessage({ chat_id: 1, text: 'hi' })
+		throw new Error('Expected request to fail')
+	} catch (error) {
+		expect(error).toBeInstanceOf(TelegramAPIError)
+		expect((error as TelegramAPIError).parameters?.retry_after).toBe(120)
+	}
+	expect(calls.length).toBe(1)
+})
+
+test('should retry server and network errors until maxAttempts', async () => {
+	const calls = mockResponses([
+		new TypeError('fetch failed'),
+		{ ok: false, error_code: 502, description: 'Bad Gateway' },
+		{ ok: false, error_code: 502, description: 'Bad Gateway' },
+	])
+	const bot = new TelegramBot({
+		botToken: 'test_token',
+		retry: { maxAttempts: 3, baseDelay: 0 },
+	})
+
+	await expect(bot.sendMessage({ chat_id: 1, text: 'hi' })).rejects.toThrow(
+		'Bad Gateway',
+	)
+	expect(calls.length).toBe(3)
+})
+
+test('should never retry client errors', async () => {
+	const calls = mockResponses([
+		{
+			ok: false,
+			error_code: 400,
+			description: 'Bad Request: chat not found',
+		},
+		sent,
+	])
+	const bot = new TelegramBot({
+		botToken: 'test_token',
+		retry: { maxAttempts: 5, baseDelay: 0 },
+	})
+
+	await expect(bot.sendMessage({ chat_id: 1, text: 'hi' })).rejects.toThrow(
+		'chat not found',
+	)
+	expect(calls.length).toBe(1)
+})
@@ -0,0 +1,111 @@
+import { expect, test } from 'bun:test'
+import { parseCommand, Router, type Update } from '../src'
+
+const textUpdate = (text: string, chatType = 'private'): Update => ({
+	update_id: 1,
+	message: {
+		message_id: 1,
+		date: 1762922251,
+		chat: { id: 1, type: chatType as 'private' },
+		text,
+	},
+})
+
+const callbackUpdate = (data: string): Update => ({
+	update_id: 2,
+	callback_query: {
+		id: 'query123',
+		from: { id: 1, is_bot: false, first_name: 'John' },
+		chat_instance: 'chat123',
+		data,
+	},
+})
+
+test('parseCommand should parse commands with bot username and args', () => {
+	expect(parseCommand('/start@my_bot vehicle_1')).toEqual({
+		command: 'start',
+		username: 'my_bot',
+		args: 'vehicle_1',
+	})
+	expect(parseCommand('/help')).toEqual({
+		command: 'help',
+		username: undefined,
+		args: '',
+	})
+	expect(parseCommand('hello /start')).toBeUndefined()
+})
+
+test('Router should run middleware in order around handlers', async () => {
+	const calls: string[] = []
+	const router = new Router()
+
+	router.use(async (_ctx, next) => {
+		calls.push('before')
+		await next()
+		calls.push('after')
+	})
+	router.on('message', (ctx) => {
+		calls.push(`message:${ctx.update.message.text}`)
+	})
+	router.on('callback_query', () => {
+		calls.push('callback')
+	})
+
+	await router.handle(textUpdate('hi'))
+	expect(calls).toEqual(['before', 'message:hi', 'after'])
+})
+
+test('Router should match commands addressed to the bot', async () => {
+	const matched: string[] = []
+	const router = new Router({ botUsername: 'My_Bot' })
+
+	router.command(['start', 'help'], (ctx) => {
+		matched.push(`${ctx.command.command}:${ctx.command.args}`)
+	})
+
+	await router.handle(textUpdate('/start payload'))
+	await router.handle(textUpdate('/help@my_bot'))
+	await router.handle(textUpdate('/start@other_bot'))
+	await router.handle(textUpdate('/stop'))
+
+	expect(matched).toEqual(['start:payload', 'help:'])
+})
+
+test('Router should match callback data by prefix and regex', async () => {
+	const matched: unknown[] = []
+	const router = new Router()
+
+	router.callbackQuery(/^check_item_(\d+)_(\w+)$/, (ctx) => {
+		const match = ctx.match as RegExpExecArray
+		matched.push([match[1], match[2]])
+	})
+	router.callbackQuery('vehicle_', (ctx) => {
+		matched.push(ctx.match)
+	})
+
+	await router.handle(callbackUpdate('vehicle_12'))
+	await router.handle(callbackUpdate('check_item_3_tires'))
+	await router.handle(callbackUpdate('list_vehicles'))
+
+	expect(matched).toEqual(['12', ['3', 'tires']])
+})
+
+test('Router should filter by chat type and support nesting', async () => {
+	const calls: string[] = []
+	const privateRouter = new Router()
+	privateRouter.on('message', () => {
+		calls.push('private')
+	})
+
+	const router = new Router()
+	router.chatType('private', privateRouter.middleware())
+	router.chatType(['group', 'supergroup'], () => {
+		calls.push('group')
+	})
+
+	await router.handle(textUpdate('hi', 'private'))
+	await router.handle(textUpdate('hi', 'supergroup'))
+	await router.handle(textUpdate('hi', 'channel'))
+
+	expect(calls).toEqual(['private', 'group'])
+})
@@ -0,0 +1,216 @@
+import { afterEach, expect, test } from 'bun:test'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+	FileSessionStorage,
+	getSessionKey,
+	getUpdateUser,
+	MemorySessionStorage,
+	Router,
+	SessionError,
+	type SessionFlavor,
+	type SessionStorage,
+	session,
+	TelegramError,
+	type Update,
+	type UpdateContext,
+} from '../src'
+
+interface Counter {
+	count: number
+}
+
+const textUpdate = (chatId: number, text = 'hi'): Update => ({
+	update_id: 1,
+	message: {
+		message_id: 1,
+		date: 1762922251,
+		chat: { id: chatId, type: 'private' },
+		from: { id: 7, is_bot: false, first_name: 'John' },
+		text,
+	},
+})
+
+const pollUpdate: Update = {
+	update_id: 3,
+	poll: {
+		id: 'poll1',
+		question: 'Ready?',
+		options: [],
+		total_voter_count: 0,
+		is_closed: false,
+		is_anonymous: true,
+		type: 'regular',
+		allows_multiple_answers: false,
+	},
+}
+
+const counterRouter = (storage: SessionStorage<Counter>) => {
+	const router = new Router<UpdateContext & SessionFlavor<Counter>>()
+	router.use(session({ initial: (): Counter => ({ count: 0 }), storage }))
+	return router
+}
+
+let directory: string | undefined
+
+afterEach(async () => {
+	if (directory) await rm(directory, { recursive: true, force: true })
+	directory = undefined
+})
+
+test('getSessionKey should use the chat, then the user', () => {
+	expect(getSessionKey(textUpdate(-100123))).toBe('-100123')
+	expect(
+		getSessionKey({
+			update_id: 2,
+			inline_query: {
+				id: 'q1',
+				from: { id: 7, is_bot: false, first_name: 'John' },
+				query: '',
+				offset: '',
+			},
+		}),
+	).toBe('user:7')
+	expect(getSessionKey(pollUpdate)).toBeUndefined()
+	expect(getUpdateUser(textUpdate(1))?.id).toBe(7)
+})
+
+test('session should load before handlers and persist after them', async () => {
+	const storage = new MemorySessionStorage<Counter>()
+	const router = counterRouter(storage)
+	router.on('message', (ctx) => {
+		ctx.session.count++
+	})
+
+	await router.handle(textUpdate(1))
+	await router.handle(textUpdate(1))
+	await router.handle(textUpdate(2))
+
+	expect(await storage.get('1')).toEqual({ count: 2 })
+	expect(await storage.get('2')).toEqual({ count: 1 })
+})
+
+test('session should serialize concurrent updates with the same key', async () => {
+	const storage = new MemorySessionStorage<Counter>()
+	const router = counterRouter(storage)
+	router.on('message', async (ctx) => {
+		const { count } = ctx.session
+		await new Promise((resolve) => setTimeout(resolve, 5))
+		ctx.session.count = count + 1
+	})
+
+	await Promise.all([
+		router.handle(textUpdate(1)),
+		router.handle(textUpdate(1)),
+		router.handle(textUpdate(1)),
+	])
+
+	expect(await storage.get('1')).toEqual({ count: 3 })
+})
+
+test('session should not persist when a handler throws or never uses it', async () => {
+	const storage = new MemorySessionStorage<Counter>()
+	const router = counterRouter(storage)
+	router.command('fail', (ctx) => {
+		ctx.session.count = 10
+		throw new Error('Handler failed')
+	})
+
+	await expect(router.handle(textUpdate(1, '/fail'))).rejects.toThrow(
+		'Handler failed',
+	)
+	await router.handle(textUpdate(1, 'ignored'))
+
+	expect(await storage.get('1')).toBeUndefined()
+})
+
+test('session should delete the session when cleared', async () => {
+	const storage = new MemorySessionStorage<Counter | undefined>()
+	await storage.set('1', { count: 5 })
+
+	const router = new Router<
+		UpdateContext & SessionFlavor<Counter | undefined>
+	>()
+	router.use(session({ initial: () => ({ count: 0 }), storage }))
+	router.on('message', (ctx) => {
+		ctx.session = undefined
+	})
+
+	await router.handle(textUpdate(1))
+	expect(await storage.get('1')).toBeUndefined()
+})
+
+test('session should throw SessionError for updates without a key', async () => {
+	const router = counterRouter(new MemorySessionStorage())
+	let error: unknown
+	router.on('poll', (ctx) => {
+		try {
+			ctx.session.count++
+		} catch (e) {
+			error = e
+		}
+	})
+
+	await router.handle(pollUpdate)
+	expect(error).toBeInstanceOf(SessionError)
+	expect(error).toBeInstanceOf(TelegramError)
+})
+
+test('session should use a custom key function', async () => {
+	const storage = new MemorySessionStorage<Counter>()
+	const router = new Router<UpdateContext & SessionFlavor<Counter>>()
+	router.use(
+		session({
+			initial: () => ({ count: 0 }),
+			storage,
+			getKey: (update) => `user:${getUpdateUser(update)?.id}`,
+		}),
+	)
+	router.on('message', (ctx) => {
+		ctx.session.count++
+	})
+
+	await router.handle(textUpdate(1))
+	await router.handle(textUpdate(2))
+	expect(await storage.get('user:7')).toEqual({ count: 2 })
+})
+
+test('MemorySessionStorage should copy sessions and expire them', async () => {
+	const storage = new MemorySessionStorage<Counter>({ ttl: 20 })
+	const value = { count: 1 }
+	await storage.set('1', value)
+	value.count = 2
+
+	const stored = await storage.get('1')
+	expect(stored).toEqual({ count: 1 })
+	if (stored) stored.count = 3
+	expect(await storage.get('1')).toEqual({ count: 1 })
+
+	await new Promise((resolve) => setTimeout(resolve, 30))
+	expect(await storage.get('1')).toBeUndefined()
+
+	expect(() => new MemorySessionStorage({ ttl: 0 })).toThrow(RangeError)
+})
+
+test('FileSessionStorage should store sessions as JSON files', async () => {
+	directory = await mkdtemp(join(tmpdir(), 'sessions-'))
+	const storage = new FileSessionStorage<Counter>({
+		directory: join(directory, 'nested'),
+	})
+
+	expect(await storage.get('user:7')).toBeUndefined()
+	await storage.set('user:7', { count: 4 })
+	expect(await storage.get('user:7')).toEqual({ count: 4 })
+	expect(await readdir(join(directory, 'nested'))).toEqual(['user%3A7.json'])
+
+	// A new instance reads what the previous one wrote
+	const reopened = new FileSessionStorage<Counter>({
+		directory: join(directory, 'nested'),
+	})
+	expect(await reopened.get('user:7')).toEqual({ count: 4 })
+
+	await storage.delete('user:7')
+	await storage.delete('user:7')
+	expect(await storage.get('user:7')).toBeUndefined()
+})
@@ -0,0 +1,49 @@
+import { expect, test } from 'bun:test'
+import { bold, fmt, splitMessageText } from '../src'
+
+test('splitMessageText should keep short texts in one chunk', () => {
+	expect(
+		splitMessageText('Hello', [{ type: 'bold', offset: 0, length: 5 }]),
+	).toEqual([
+		{ text: 'Hello', entities: [{ type: 'bold', offset: 0, length: 5 }] },
+	])
+})
+
+test('splitMessageText should prefer paragraph, line and word boundaries', () => {
+	const paragraphs = splitMessageText('aaaa bbbb\n\ncccc', [], {
+		maxLength: 12,
+	})
+	expect(paragraphs.map((chunk) => chunk.text)).toEqual(['aaaa bbbb', 'cccc'])
+
+	const lines = splitMessageText('aaaa bbbb\ncccc dddd', [], { maxLength: 12 })
+	expect(lines.map((chunk) => chunk.text)).toEqual(['aaaa bbbb', 'cccc dddd'])
+
+	const words = splitMessageText('aaaa bbbb cccc', [], { maxLength: 12 })
+	expect(words.map((chunk) => chunk.text)).toEqual(['aaaa bbbb', 'cccc'])
+})
+
+test('splitMessageText should cut long words without breaking surrogate pairs', () => {
+	const chunks = splitMessageText('abc😀def', [], { maxLength: 4 })
+	expect(chunks.map((chunk) => chunk.text)).toEqual(['abc', '😀de', 'f'])
+})
+
+test('splitMessageText should reject empty texts and skip blank chunks', () => {
+	expect(() => splitMessageText('')).toThrow('Cannot split an empty text')
+	expect(() => splitMessageText(' \n\n ')).toThrow(RangeError)
+
+	const chunks = splitMessageText(`${'a'.repeat(12)}  `, [], { maxLength: 12 })
+	expect(chunks.map((chunk) => chunk.text)).toEqual(['a'.repeat(12)])
+})
+
+test('splitMessageText should rebase and split entities across chunks', () => {
+	const { text, entities } = fmt`intro ${bold('bold text spans')} end`
+	const chunks = splitMessageText(text, entities, { maxLength: 16 })
+
+	expect(chunks).toEqual([
+		{
+			text: 'intro bold text',
+			entities: [{ type: 'bold', offset: 6, length: 9 }],
+		},
+		{ text: 'spans end', entities: [{ type: 'bold', offset: 0, length: 5 }] },
+	])
+})
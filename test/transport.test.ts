@@ -0,0 +1,195 @@
+import { afterEach, expect, test } from 'bun:test'
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+	FixtureError,
+	normalizeParams,
+	RecordReplayTransport,
+	ReplayMismatchError,
+	TelegramBot,
+	type Transport,
+} from '../src'
+import { MockBotApiServer } from '../src/testing'
+
+const BOT_TOKEN = '123456:secret-token'
+
+let directory: string | undefined
+let server: MockBotApiServer | undefined
+
+const createFixturePath = async () => {
+	directory = await mkdtemp(join(tmpdir(), 'fixtures-'))
+	return join(directory, 'nested', 'bot.json')
+}
+
+afterEach(async () => {
+	await server?.close()
+	server = undefined
+	if (directory) await rm(directory, { recursive: true, force: true })
+	directory = undefined
+})
+
+test('normalizeParams should sort keys, drop undefined and describe files', () => {
+	expect(
+		normalizeParams(
+			{
+				text: 'Hi',
+				chat_id: 1,
+				reply_markup: { b: 2, a: undefined },
+				photo: new File(['abc'], 'tires.jpg', { type: 'image/jpeg' }),
+				date: 123,
+			},
+			['date'],
+		),
+	).toEqual({
+		chat_id: 1,
+		photo: { file: { name: 'tires.jpg', type: 'image/jpeg', size: 3 } },
+		reply_markup: { b: 2 },
+		text: 'Hi',
+	})
+})
+
+test('Transport should send client requests', async () => {
+	const sent: string[] = []
+	const transport: Transport = {
+		send: async (request) => {
+			sent.push(`${request.method} ${JSON.stringify(request.params)}`)
+			return Response.json({ ok: true, result: true })
+		},
+	}
+	const bot = new TelegramBot({ botToken: BOT_TOKEN, transport })
+
+	expect(await bot.deleteWebhook({ drop_pending_updates: true })).toBe(true)
+	expect(sent).toEqual(['deleteWebhook {"drop_pending_updates":true}'])
+	expect(
+		() => new TelegramBot({ botToken: BOT_TOKEN, transport: {} as Transport }),
+	).toThrow('Transport must have a send method')
+})
+
+test('RecordReplayTransport should record and replay requests', async () => {
+	const fixture = await createFixturePath()
+	server = new MockBotApiServer()
+	server.on('getWebhookInfo', () => ({
+		url: `https://example.com/${BOT_TOKEN}`,
+		has_custom_certificate: false,
+		pending_update_count: 0,
+	}))
+
+	const recorder = new RecordReplayTransport({ mode: 'record', fixture })
+	const recording = new TelegramBot({
+		botToken: BOT_TOKEN,
+		baseUrl: await server.listen(),
+		transport: recorder,
+	})
+	const sent = await recording.sendMessage({ chat_id: 42, text: 'First' })
+	await recording.sendMessage({ chat_id: 42, text: 'Second' })
+	await recording.getWebhookInfo()
+	await server.close()
+
+	const saved = await readFile(fixture, 'utf8')
+	expect(saved).not.toContain(BOT_TOKEN)
+	expect(saved).toContain('https://example.com/<BOT_TOKEN>')
+
+	const player = new RecordReplayTransport({ mode: 'replay', fixture })
+	const replaying = new TelegramBot({ botToken: BOT_TOKEN, transport: player })
+
+	// Matched by params, whatever the key order
+	expect(
+		await replaying.sendMessage({ text: 'First', chat_id: 42 }),
+	).toMatchObject({ message_id: sent.message_id, text: 'First' })
+	expect(player.unused.map((i) => i.method)).toEqual([
+		'sendMessage',
+		'getWebhookInfo',
+	])
+	expect((await replaying.getWebhookInfo()).url).toBe(
+		'https://example.com/<BOT_TOKEN>',
+	)
+	await replaying.sendMessage({ chat_id: 42, text: 'Second' })
+	expect(player.unused).toEqual([])
+})
+
+test('RecordReplayTransport should fail clearly on unmatched requests', async () => {
+	const fixture = await createFixturePath()
+	server = new MockBotApiServer()
+	const recording = new TelegramBot({
+		botToken: BOT_TOKEN,
+		baseUrl: await server.listen(),
+		transport: new RecordReplayTransport({ mode: 'record', fixture }),
+	})
+	await recording.sendMessage({ chat_id: 42, text: 'Recorded' })
+
+	const replaying = new TelegramBot({
+		botToken: BOT_TOKEN,
+		transport: new RecordReplayTransport({ mode: 'replay', fixture }),
+	})
+	const error = await replaying
+		.sendMessage({ chat_id: 42, text: 'Other' })
+		.catch((e: unknown) => e)
+
+	expect(error).toBeInstanceOf(ReplayMismatchError)
+	expect((error as ReplayMismatchError).method).toBe('sendMessage')
+	expect((error as Error).message).toContain(
+		'No recorded response for sendMessage with {"chat_id":42,"text":"Other"}',
+	)
+	expect((error as Error).message).toContain('{"chat_id":42,"text":"Recorded"}')
+
+	await replaying.sendMessage({ chat_id: 42, text: 'Recorded' })
+	await expect(
+		replaying.sendMessage({ chat_id: 42, text: 'Recorded' }),
+	).rejects.toThrow('(used)')
+	await expect(replaying.getMe()).rejects.toThrow(
+		'No getMe calls were recorded',
+	)
+})
+
+test('RecordReplayTransport should pass requests through without a fixture', async () => {
+	const fixture = await createFixturePath()
+	server = new MockBotApiServer()
+	const bot = new TelegramBot({
+		botToken: BOT_TOKEN,
+		baseUrl: await server.listen(),
+		transport: new RecordReplayTransport({ mode: 'passthrough', fixture }),
+	})
+
+	await bot.sendMessage({ chat_id: 42, text: 'Live' })
+
+	server.expectSent({ text: 'Live' }, 'sendMessage')
+	await expect(stat(fixture)).rejects.toThrow()
+})
+
+test('RecordReplayTransport should fail with FixtureError on unreadable fixtures', async () => {
+	const fixture = await createFixturePath()
+	const sent: string[] = []
+	const bot = new TelegramBot({
+		botToken: BOT_TOKEN,
+		// Retrying would wait an hour, so the test times out if it happens
+		retry: { maxAttempts: 3, baseDelay: 3_600_000, jitter: false },
+		transport: new RecordReplayTransport({
+			mode: 'replay',
+			fixture,
+			transport: {
+				send: async (request) => {
+					sent.push(request.method)
+					return Response.json({ ok: true, result: true })
+				},
+			},
+		}),
+	})
+
+	const missing = await bot.getMe().catch((e: unknown) => e)
+	expect(missing).toBeInstanceOf(FixtureError)
+	expect((missing as FixtureError).fixture).toBe(fixture)
+	expect((missing as Error).message).toContain('record it first')
+	expect((missing as Error).cause).toMatchObject({ code: 'ENOENT' })
+
+	const invalid = join(fixture, '..', '..', 'invalid.json')
+	await writeFile(invalid, '{ not json')
+	const replaying = new TelegramBot({
+		botToken: BOT_TOKEN,
+		transport: new RecordReplayTransport({ mode: 'replay', fixture: invalid }),
+	})
+	const error = await replaying.getMe().catch((e: unknown) => e)
+	expect(error).toBeInstanceOf(FixtureError)
+	expect((error as Error).cause).toBeInstanceOf(SyntaxError)
+	expect(sent).toEqual([])
+})
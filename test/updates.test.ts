@@ -0,0 +1,114 @@
+import { expect, test } from 'bun:test'
+import {
+	getUpdateChat,
+	getUpdateType,
+	UPDATE_TYPES,
+	UpdateSchema,
+} from '../src'
+
+const user = { id: 7, is_bot: false, first_name: 'Ann' }
+const group = { id: -100, type: 'supergroup', title: 'Fleet' }
+
+test('UpdateSchema should keep update kinds beyond messages', () => {
+	const update = UpdateSchema.parse({
+		update_id: 1,
+		chat_join_request: {
+			chat: group,
+			from: user,
+			user_chat_id: 7,
+			date: 0,
+			invite_link: {
+				invite_link: 'https://t.me/+abc…',
+				creator: user,
+				creates_join_request: true,
+				is_primary: false,
+				is_revoked: false,
+			},
+		},
+	})
+
+	expect(update.chat_join_request?.user_chat_id).toBe(7)
+	expect(getUpdateType(update)).toBe('chat_join_request')
+	expect(getUpdateChat(update)?.id).toBe(-100)
+})
+
+test('UpdateSchema should discriminate chat member statuses', () => {
+	const update = UpdateSchema.parse({
+		update_id: 2,
+		my_chat_member: {
+			chat: group,
+			from: user,
+			date: 0,
+			old_chat_member: { status: 'left', user },
+			new_chat_member: { status: 'kicked', user, until_date: 0 },
+		},
+	})
+
+	const member = update.my_chat_member?.new_chat_member
+	expect(member?.status).toBe('kicked')
+	if (member?.status === 'kicked') {
+		expect(member.until_date).toBe(0)
+	}
+
+	expect(
+		UpdateSchema.safeParse({
+			update_id: 3,
+			chat_member: {
+				chat: group,
+				from: user,
+				date: 0,
+				old_chat_member: { status: 'left', user },
+				new_chat_member: { status: 'owner', user },
+			},
+		}).success,
+	).toBe(false)
+})
+
+test('UpdateSchema should parse reactions, polls and payments', () => {
+	const updates = [
+		{
+			update_id: 4,
+			message_reaction: {
+				chat: group,
+				message_id: 10,
+				user,
+				date: 0,
+				old_reaction: [],
+				new_reaction: [{ type: 'emoji', emoji: '👍' }],
+			},
+		},
+		{ update_id: 5, poll_answer: { poll_id: 'p', user, option_ids: [0, 2] } },
+		{
+			update_id: 6,
+			pre_checkout_query: {
+				id: 'q',
+				from: user,
+				currency: 'XTR',
+				total_amount: 50,
+				invoice_payload: 'order-1',
+			},
+		},
+		{
+			update_id: 7,
+			inline_query: { id: 'i', from: user, query: 'car', offset: '' },
+		},
+	].map((update) => UpdateSchema.parse(update))
+
+	expect(updates.map(getUpdateType)).toEqual([
+		'message_reaction',
+		'poll_answer',
+		'pre_checkout_query',
+		'inline_query',
+	])
+	expect(updates[0]?.message_reaction?.new_reaction[0]).toEqual({
+		type: 'emoji',
+		emoji: '👍',
+	})
+})
+
+test('getUpdateType should return undefined for unknown update kinds', () => {
+	const update = UpdateSchema.parse({ update_id: 8, future_update: {} })
+
+	expect(getUpdateType(update)).toBeUndefined()
+	expect(UPDATE_TYPES).toContain('removed_chat_boost')
+})
@@ -0,0 +1,116 @@
+import { expect, test } from 'bun:test'
+import { createWebhookHandler, type Update } from '../src'
+
+const update = {
+	update_id: 1,
+	message: {
+		message_id: 1,
+		date: 1762922251,
+		chat: { id: 1, type: 'private' },
+		text: 'hello',
+	},
+}
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+	return new Request('https://example.com/webhook', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...headers },
+		body: typeof body === 'string' ? body : JSON.stringify(body),
+	})
+}
+
+test('createWebhookHandler should dispatch valid updates', async () => {
+	const received: Update[] = []
+	const pending: Promise<unknown>[] = []
+	const handle = createWebhookHandler({
+		secretToken: 'secret',
+		onUpdate: (update) => {
+			received.push(update)
+		},
+		onError: () => {},
+		waitUntil: (promise) => pending.push(promise),
+	})
+
+	const response = await handle(
+		post(update, { 'X-Telegram-Bot-Api-Secret-Token': 'secret' }),
+	)
+	await Promise.all(pending)
+
+	expect(response.status).toBe(200)
+	expect(received[0]?.message?.text).toBe('hello')
+})
+
+test('createWebhookHandler should reject invalid requests', async () => {
+	const handle = createWebhookHandler({
+		secretToken: 'secret',
+		maxBodySize: 512,
+		onUpdate: () => {
+			throw new Error('should not be called')
+		},
+		onError: () => {},
+	})
+	const auth = { 'X-Telegram-Bot-Api-Secret-Token': 'secret' }
+
+	const get = await handle(new Request('https://example.com/webhook'))
+	expect(get.status).toBe(405)
+	expect(get.headers.get('Allow')).toBe('POST')
+
+	expect((await handle(post(update))).status).toBe(401)
+	expect(
+		(await handle(post(update, { 'X-Telegram-Bot-Api-Secret-Token': 'nope' })))
+			.status,
+	).toBe(401)
+	expect((await handle(post('x'.repeat(1024), auth))).status).toBe(413)
+	expect((await handle(post('{not json', auth))).status).toBe(400)
+})
+
+test('createWebhookHandler should apply the invalid update behavior', async () => {
+	const invalid = { update_id: 'nope' }
+
+	const ignore = createWebhookHandler({ onUpdate: () => {}, onError: () => {} })
+	expect((await ignore(post(invalid))).status).toBe(200)
+
+	const reject = createWebhookHandler({
+		onUpdate: () => {},
+		onError: () => {},
+		onInvalidUpdate: 'reject',
+	})
+	expect((await reject(post(invalid))).status).toBe(400)
+
+	const payloads: unknown[] = []
+	const report = createWebhookHandler({
+		onUpdate: () => {},
+		onError: () => {},
+		onInvalidUpdate: (_error, payload) => payloads.push(payload),
+	})
+	expect((await report(post(invalid))).status).toBe(200)
+	expect(payloads).toEqual([invalid])
+
+	const failing = createWebhookHandler({
+		onUpdate: () => {},
+		onError: () => {},
+		onInvalidUpdate: () => {
+			throw new Error('boom')
+		},
+	})
+	expect((await failing(post(invalid))).status).toBe(200)
+})
+
+test('createWebhookHandler should contain errors thrown by onError', async () => {
+	const pending: Promise<unknown>[] = []
+	const reported: unknown[] = []
+	const handle = createWebhookHandler({
+		onUpdate: () => {
+			throw new Error('handler failed')
+		},
+		onError: (error) => {
+			reported.push(error)
+			throw new Error('logger failed')
+		},
+		waitUntil: (promise) => pending.push(promise),
+	})
+
+	expect((await handle(post(update))).status).toBe(200)
+	await Promise.all(pending)
+	expect(reported).toHaveLength(1)
+})
@@ -0,0 +1,207 @@
+import { expect, test } from 'bun:test'
+import { z } from 'zod'
+import {
+	MemorySessionStorage,
+	Router,
+	TelegramError,
+	type Update,
+	Wizard,
+	WizardError,
+	type WizardState,
+} from '../src'
+
+interface Inspection {
+	odometer: number
+	tires: 'ok' | 'worn'
+}
+
+const textUpdate = (text: string, chatId = 1): Update => ({
+	update_id: 1,
+	message: {
+		message_id: 1,
+		date: 1762922251,
+		chat: { id: chatId, type: 'private' },
+		text,
+	},
+})
+
+const callbackUpdate = (data: string): Update => ({
+	update_id: 2,
+	callback_query: {
+		id: 'query123',
+		from: { id: 1, is_bot: false, first_name: 'John' },
+		message: {
+			message_id: 2,
+			date: 1762922251,
+			chat: { id: 1, type: 'private' },
+		},
+		chat_instance: 'chat123',
+		data,
+	},
+})
+
+const createInspection = (
+	storage = new MemorySessionStorage<WizardState<Inspection>>(),
+	timeout?: number,
+) => {
+	const events: string[] = []
+	const completed: Inspection[] = []
+
+	const wizard = new Wizard<Inspection>('inspection', {
+		storage,
+		timeout,
+		onComplete: (_ctx, data) => {
+			completed.push(data)
+		},
+		onCancel: () => {
+			events.push('cancelled')
+		},
+		onTimeout: () => {
+			events.push('timed out')
+		},
+	})
+		.step('odometer', {
+			prompt: () => {
+				events.push('ask odometer')
+			},
+			schema: z.coerce.number().int().nonnegative(),
+			onInvalid: (_ctx, error) => {
+				events.push(`invalid odometer: ${error.issues.length}`)
+			},
+		})
+		.step('tires', {
+			prompt: () => {
+				events.push('ask tires')
+			},
+			schema: z.enum(['ok', 'worn']),
+		})
+
+	const router = new Router()
+	router.use(wizard.middleware())
+	router.command('inspect', (ctx) => wizard.enter(ctx))
+	router.on('message', (ctx) => {
+		events.push(`unhandled: ${ctx.update.message.text}`)
+	})
+
+	return { wizard, router, events, completed }
+}
+
+test('Wizard should validate answers and complete with all data', async () => {
+	const { router, events, completed } = createInspection()
+
+	await router.handle(textUpdate('/inspect'))
+	await router.handle(textUpdate('many'))
+	await router.handle(textUpdate('120500'))
+	await router.handle(textUpdate('flat'))
+	await router.handle(callbackUpdate('ok'))
+	await router.handle(textUpdate('after'))
+
+	expect(events).toEqual([
+		'ask odometer',
+		'invalid odometer: 1',
+		'ask tires',
+		'ask tires',
+		'unhandled: after',
+	])
+	expect(completed).toEqual([{ odometer: 120500, tires: 'ok' }])
+})
+
+test('Wizard should go back and cancel', async () => {
+	const { router, events, completed } = createInspection()
+
+	await router.handle(textUpdate('/inspect'))
+	await router.handle(textUpdate('/back'))
+	await router.handle(textUpdate('10'))
+	await router.handle(textUpdate('/back'))
+	await router.handle(textUpdate('/cancel@my_bot'))
+	await router.handle(textUpdate('20'))
+
+	expect(events).toEqual([
+		'ask odometer',
+		'ask odometer',
+		'ask tires',
+		'ask odometer',
+		'cancelled',
+		'unhandled: 20',
+	])
+	expect(completed).toEqual([])
+})
+
+test('Wizard should keep conversations of different chats apart', async () => {
+	const { router, completed } = createInspection()
+
+	await router.handle(textUpdate('/inspect', 1))
+	await router.handle(textUpdate('/inspect', 2))
+	await router.handle(textUpdate('1', 1))
+	await router.handle(textUpdate('2', 2))
+	await router.handle(textUpdate('worn', 2))
+	await router.handle(textUpdate('ok', 1))
+
+	expect(completed).toEqual([
+		{ odometer: 2, tires: 'worn' },
+		{ odometer: 1, tires: 'ok' },
+	])
+})
+
+test('Wizard should resume from its storage', async () => {
+	const storage = new MemorySessionStorage<WizardState<Inspection>>()
+	const first = createInspection(storage)
+	await first.router.handle(textUpdate('/inspect'))
+	await first.router.handle(textUpdate('300'))
+
+	expect(await storage.get('inspection:1')).toMatchObject({
+		step: 'tires',
+		data: { odometer: 300 },
+	})
+
+	// A new instance, as after a restart
+	const second = createInspection(storage)
+	await second.router.handle(textUpdate('worn'))
+	expect(second.completed).toEqual([{ odometer: 300, tires: 'worn' }])
+	expect(await storage.get('inspection:1')).toBeUndefined()
+})
+
+test('Wizard should time out and pass the update on', async () => {
+	const { router, events, completed } = createInspection(undefined, 20)
+
+	await router.handle(textUpdate('/inspect'))
+	await new Promise((resolve) => setTimeout(resolve, 30))
+	await router.handle(textUpdate('100'))
+
+	expect(events).toEqual(['ask odometer', 'timed out', 'unhandled: 100'])
+	expect(completed).toEqual([])
+})
+
+test('Wizard should reject invalid definitions and keyless updates', async () => {
+	const empty = new Wizard<Inspection>('empty', { onComplete: () => {} })
+	await expect(empty.enter({ update: textUpdate('/start') })).rejects.toThrow(
+		WizardError,
+	)
+	await expect(empty.enter({ update: textUpdate('/start') })).rejects.toThrow(
+		TelegramError,
+	)
+
+	expect(() =>
+		empty
+			.step('odometer', { prompt: () => {}, schema: z.number() })
+			.step('odometer', { prompt: () => {}, schema: z.number() }),
+	).toThrow('Duplicate step "odometer"')
+
+	await expect(
+		empty.enter({
+			update: {
+				update_id: 3,
+				poll: {
+					id: 'poll1',
+					question: 'Ready?',
+					options: [],
+					total_voter_count: 0,
+					is_closed: false,
+					is_anonymous: true,
+					type: 'regular',
+					allows_multiple_answers: false,
+				},
+			},
+		}),
+	).rejects.toThrow('This update has no conversation key')
+})